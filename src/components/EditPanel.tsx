@@ -1,6 +1,9 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
 import type { StoredDataset } from '../lib/storage'
 import { detectDatasetProperties } from '../lib/storage'
+import { GRAPH_EXPORT_FORMATS, exportDataset, isGraphExportFormat } from '../lib/graph-formats'
+import type { GraphExportFormat } from '../lib/graph-formats'
+import { buildExportFilename, downloadBlob } from '../lib/kriskogram-export'
 import TableView from './views/TableView'
 
 interface EditPanelProps {
@@ -25,6 +28,8 @@ export default function EditPanel({
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
   const [activeTab, setActiveTab] = useState<'info' | 'data'>('info')
   const [editedData, setEditedData] = useState<StoredDataset | null>(null)
+  const [exportFormat, setExportFormat] = useState<GraphExportFormat>('gexf')
+  const [isExporting, setIsExporting] = useState(false)
 
   // Work with the first snapshot for editing
   const currentSnapshot = dataset.snapshots[0] || { timestamp: dataset.timeRange.start, nodes: [], edges: [] }
@@ -35,6 +40,20 @@ export default function EditPanel({
     setEditedData(null)
   }, [dataset])
 
+  async function handleExport() {
+    setIsExporting(true)
+    try {
+      const blob = await exportDataset(dataset, exportFormat)
+      const { extension } = GRAPH_EXPORT_FORMATS.find(format => format.value === exportFormat) ?? GRAPH_EXPORT_FORMATS[0]
+      downloadBlob(blob, buildExportFilename(dataset.name, undefined, extension))
+    } catch (error) {
+      console.error('Export error:', error)
+      alert(`Failed to export dataset: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
   async function handleSave() {
     setIsSaving(true)
     try {
@@ -186,6 +205,32 @@ export default function EditPanel({
                 >
                   Duplicate Dataset
                 </button>
+                <div className="flex gap-2">
+                  <label htmlFor="dataset-export-format" className="sr-only">
+                    Export format
+                  </label>
+                  <select
+                    id="dataset-export-format"
+                    value={exportFormat}
+                    onChange={(e) => {
+                      if (isGraphExportFormat(e.target.value)) setExportFormat(e.target.value)
+                    }}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  >
+                    {GRAPH_EXPORT_FORMATS.map(format => (
+                      <option key={format.value} value={format.value}>{format.label}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={handleExport}
+                    disabled={isExporting}
+                    type="button"
+                    title="Download every snapshot, e.g. to open in Gephi or load into another tool"
+                    className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 cursor-pointer transition-colors disabled:opacity-50"
+                  >
+                    {isExporting ? 'Exporting...' : 'Export'}
+                  </button>
+                </div>
                 <button
                   onClick={() => setShowDeleteConfirm(true)}
                   type="button"
@@ -0,0 +1,281 @@
+import { useEffect, useRef, useState } from 'react'
+import { Download } from 'lucide-react'
+import {
+  exportKriskogramAnimation,
+  getWebmMimeType,
+  type AnimationExportFormat,
+} from '../lib/animation-export'
+import {
+  EXPORT_DPI_OPTIONS,
+  buildExportFilename,
+  downloadBlob,
+  exportKriskogramPDF,
+  exportKriskogramPNG,
+  exportKriskogramSVG,
+  formatExportCaption,
+  type KriskogramExportFormat,
+} from '../lib/kriskogram-export'
+
+export interface AnimationExportControls {
+  years: number[]
+  /** Shows a year in the chart; resolves once the chart has started updating to it. */
+  showYear: (year: number) => Promise<void>
+  /** Sets the chart's transition length while recording, or null to hand control back. */
+  setRecordingTransition: (ms: number | null) => void
+}
+
+interface ExportMenuProps {
+  getSVG: () => SVGSVGElement | null
+  datasetName: string
+  year?: number
+  animation?: AnimationExportControls
+}
+
+const ANIMATION_TWEEN_FRAMES = 8
+
+export default function ExportMenu({ getSVG, datasetName, year, animation }: ExportMenuProps) {
+  const [open, setOpen] = useState(false)
+  const [dpi, setDpi] = useState<number>(300)
+  const [busy, setBusy] = useState<KriskogramExportFormat | AnimationExportFormat | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [animationFormat, setAnimationFormat] = useState<AnimationExportFormat>('gif')
+  const [animationStart, setAnimationStart] = useState<number | null>(null)
+  const [animationEnd, setAnimationEnd] = useState<number | null>(null)
+  const [secondsPerYear, setSecondsPerYear] = useState(1.5)
+  const [interpolate, setInterpolate] = useState(true)
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null)
+  const menuRef = useRef<HTMLDivElement>(null)
+  const abortRef = useRef<AbortController | null>(null)
+
+  const animationYears = animation?.years ?? []
+  const rangeStart = animationStart ?? animationYears[0]
+  const rangeEnd = animationEnd ?? animationYears[animationYears.length - 1]
+  const selectedYears = animationYears.filter((y) => y >= rangeStart && y <= rangeEnd)
+
+  useEffect(() => {
+    if (!open) return
+    const handlePointerDown = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setOpen(false)
+      }
+    }
+    document.addEventListener('mousedown', handlePointerDown)
+    return () => document.removeEventListener('mousedown', handlePointerDown)
+  }, [open])
+
+  const runExport = async (format: KriskogramExportFormat) => {
+    const svg = getSVG()
+    if (!svg) {
+      setError('The chart is not ready yet.')
+      return
+    }
+    setBusy(format)
+    setError(null)
+    try {
+      const options = { title: datasetName, caption: formatExportCaption(datasetName, year) }
+      const blob =
+        format === 'svg'
+          ? await exportKriskogramSVG(svg, options)
+          : format === 'png'
+            ? await exportKriskogramPNG(svg, { ...options, dpi })
+            : await exportKriskogramPDF(svg, options)
+      downloadBlob(blob, buildExportFilename(datasetName, year, format))
+      setOpen(false)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Export failed')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const runAnimationExport = async () => {
+    if (!animation || selectedYears.length === 0) return
+    const originalYear = year
+    const transitionMs = interpolate ? Math.round(secondsPerYear * 1000 * 0.6) : 0
+    const holdMs = Math.max(100, secondsPerYear * 1000 - transitionMs)
+    const controller = new AbortController()
+    abortRef.current = controller
+    setBusy(animationFormat)
+    setError(null)
+    setProgress({ done: 0, total: selectedYears.length })
+    animation.setRecordingTransition(transitionMs)
+    try {
+      const blob = await exportKriskogramAnimation({
+        years: selectedYears,
+        showYear: animation.showYear,
+        getSVG,
+        format: animationFormat,
+        holdMs,
+        transitionMs,
+        framesPerTransition: ANIMATION_TWEEN_FRAMES,
+        exportOptions: (frameYear) => ({
+          title: datasetName,
+          caption: formatExportCaption(datasetName, frameYear),
+          stamp: String(frameYear),
+        }),
+        onProgress: (done, total) => setProgress({ done, total }),
+        signal: controller.signal,
+      })
+      const range = `${selectedYears[0]}-${selectedYears[selectedYears.length - 1]}`
+      downloadBlob(blob, buildExportFilename(`${datasetName} ${range}`, undefined, animationFormat))
+    } catch (e) {
+      if (!(e instanceof DOMException && e.name === 'AbortError')) {
+        setError(e instanceof Error ? e.message : 'Animation export failed')
+      }
+    } finally {
+      animation.setRecordingTransition(null)
+      if (typeof originalYear === 'number') {
+        await animation.showYear(originalYear)
+      }
+      abortRef.current = null
+      setProgress(null)
+      setBusy(null)
+    }
+  }
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1 text-xs px-2 py-1 rounded border bg-white text-gray-700 border-gray-300 hover:bg-gray-50"
+      >
+        <Download className="w-3.5 h-3.5" />
+        Export
+      </button>
+      {open && (
+        <div className="absolute bottom-full right-0 mb-2 w-60 bg-white rounded shadow-lg border border-gray-200 p-2 space-y-1 z-10">
+          <button
+            type="button"
+            disabled={busy !== null}
+            onClick={() => runExport('svg')}
+            className="w-full text-left text-xs px-2 py-1.5 rounded hover:bg-gray-100 disabled:text-gray-400"
+          >
+            {busy === 'svg' ? 'Exporting SVG…' : 'SVG (vector)'}
+          </button>
+          <div className="flex items-center gap-1">
+            <button
+              type="button"
+              disabled={busy !== null}
+              onClick={() => runExport('png')}
+              className="flex-1 text-left text-xs px-2 py-1.5 rounded hover:bg-gray-100 disabled:text-gray-400"
+            >
+              {busy === 'png' ? 'Exporting PNG…' : 'PNG'}
+            </button>
+            <select
+              value={dpi}
+              onChange={(e) => setDpi(Number.parseInt(e.target.value, 10))}
+              title="PNG resolution"
+              className="text-xs px-1 py-1 border border-gray-300 rounded"
+            >
+              {EXPORT_DPI_OPTIONS.map((option) => (
+                <option key={option} value={option}>
+                  {option} DPI
+                </option>
+              ))}
+            </select>
+          </div>
+          <button
+            type="button"
+            disabled={busy !== null}
+            onClick={() => runExport('pdf')}
+            className="w-full text-left text-xs px-2 py-1.5 rounded hover:bg-gray-100 disabled:text-gray-400"
+          >
+            {busy === 'pdf' ? 'Exporting PDF…' : 'PDF (vector)'}
+          </button>
+          {animation && animationYears.length > 1 && (
+            <div className="border-t border-gray-200 pt-2 mt-1 space-y-1.5 px-2">
+              <div className="text-[11px] font-semibold text-gray-600 uppercase tracking-wide">Animation</div>
+              <div className="flex items-center gap-1 text-xs">
+                <select
+                  value={rangeStart}
+                  disabled={busy !== null}
+                  onChange={(e) => setAnimationStart(Number.parseInt(e.target.value, 10))}
+                  className="flex-1 px-1 py-1 border border-gray-300 rounded"
+                >
+                  {animationYears.filter((y) => y <= rangeEnd).map((y) => (
+                    <option key={y} value={y}>
+                      {y}
+                    </option>
+                  ))}
+                </select>
+                <span className="text-gray-500">–</span>
+                <select
+                  value={rangeEnd}
+                  disabled={busy !== null}
+                  onChange={(e) => setAnimationEnd(Number.parseInt(e.target.value, 10))}
+                  className="flex-1 px-1 py-1 border border-gray-300 rounded"
+                >
+                  {animationYears.filter((y) => y >= rangeStart).map((y) => (
+                    <option key={y} value={y}>
+                      {y}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <label className="flex items-center justify-between text-xs text-gray-700">
+                <span>Seconds per year</span>
+                <input
+                  type="number"
+                  min={0.2}
+                  max={10}
+                  step={0.1}
+                  value={secondsPerYear}
+                  disabled={busy !== null}
+                  onChange={(e) => {
+                    const raw = Number.parseFloat(e.target.value)
+                    if (Number.isNaN(raw)) return
+                    setSecondsPerYear(Math.max(0.2, Math.min(10, raw)))
+                  }}
+                  className="w-16 px-1 py-0.5 border border-gray-300 rounded"
+                />
+              </label>
+              <label className="flex items-center justify-between text-xs text-gray-700">
+                <span>Interpolate between years</span>
+                <input
+                  type="checkbox"
+                  className="w-3.5 h-3.5"
+                  checked={interpolate}
+                  disabled={busy !== null}
+                  onChange={(e) => setInterpolate(e.target.checked)}
+                />
+              </label>
+              <div className="flex items-center gap-1">
+                <select
+                  value={animationFormat}
+                  disabled={busy !== null}
+                  onChange={(e) => setAnimationFormat(e.target.value as AnimationExportFormat)}
+                  className="text-xs px-1 py-1 border border-gray-300 rounded"
+                >
+                  <option value="gif">GIF</option>
+                  <option value="webm" disabled={!getWebmMimeType()}>
+                    WebM
+                  </option>
+                </select>
+                {progress ? (
+                  <button
+                    type="button"
+                    onClick={() => abortRef.current?.abort()}
+                    className="flex-1 text-xs px-2 py-1 rounded border border-gray-300 hover:bg-gray-100"
+                  >
+                    Cancel ({progress.done}/{progress.total})
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    disabled={busy !== null || selectedYears.length === 0}
+                    onClick={runAnimationExport}
+                    className="flex-1 text-xs px-2 py-1 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-300"
+                  >
+                    Record {selectedYears.length} years
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+          {error && <p className="text-[11px] text-red-600 px-2">{error}</p>}
+        </div>
+      )}
+    </div>
+  )
+}
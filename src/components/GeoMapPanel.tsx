@@ -0,0 +1,101 @@
+import * as d3 from 'd3'
+import { useMemo } from 'react'
+
+import { type GeoNode, getNodeCoordinates } from '../lib/geo-order'
+
+interface GeoMapPanelProps {
+  nodes: GeoNode[]
+  /** Node ids in baseline order; the map draws the path the baseline follows. */
+  order: string[]
+  highlightedNodeId: string | null
+  onNodeHover: (nodeId: string | null) => void
+  width?: number
+  height?: number
+}
+
+/**
+ * Small map of the nodes with the baseline order drawn as a path through them.
+ * Hovering a place here highlights it on the baseline and vice versa.
+ */
+export default function GeoMapPanel({
+  nodes,
+  order,
+  highlightedNodeId,
+  onNodeHover,
+  width = 260,
+  height = 170,
+}: GeoMapPanelProps) {
+  const places = useMemo(() => {
+    const byId = new Map<string, { id: string; label: string; longitude: number; latitude: number }>()
+    for (const node of nodes) {
+      const point = getNodeCoordinates(node)
+      if (point) byId.set(node.id, { id: node.id, label: node.label ?? node.id, ...point })
+    }
+    return byId
+  }, [nodes])
+
+  const layout = useMemo(() => {
+    const points = Array.from(places.values())
+    if (points.length === 0) return null
+    const projection = d3.geoMercator().fitExtent(
+      [
+        [10, 10],
+        [width - 10, height - 10],
+      ],
+      { type: 'MultiPoint', coordinates: points.map((point) => [point.longitude, point.latitude]) },
+    )
+    const positions = new Map<string, [number, number]>()
+    for (const point of points) {
+      const projected = projection([point.longitude, point.latitude])
+      if (projected) positions.set(point.id, projected)
+    }
+    return positions
+  }, [places, width, height])
+
+  if (!layout) return null
+
+  const path = order
+    .map((id) => layout.get(id))
+    .filter((position): position is [number, number] => position !== undefined)
+  const highlighted = highlightedNodeId ? places.get(highlightedNodeId) : undefined
+  const unplaced = order.length - path.length
+
+  return (
+    <div className="bg-white/95 border border-gray-300 rounded-md shadow-md p-2 text-[11px] text-gray-600">
+      <div className="flex justify-between gap-2 mb-1">
+        <span className="font-semibold uppercase tracking-wide">Baseline path</span>
+        <span className="truncate">{highlighted ? highlighted.label : `${path.length} places`}</span>
+      </div>
+      <svg width={width} height={height} role="img" aria-label="Map of nodes along the baseline order">
+        <polyline
+          points={path.map(([x, y]) => `${x},${y}`).join(' ')}
+          fill="none"
+          stroke="#94a3b8"
+          strokeWidth={1.5}
+          strokeLinejoin="round"
+        />
+        {path.length > 0 && <circle cx={path[0][0]} cy={path[0][1]} r={6} fill="none" stroke="#16a34a" strokeWidth={1.5} />}
+        {Array.from(layout.entries()).map(([id, [x, y]]) => {
+          const active = id === highlightedNodeId
+          return (
+            <circle
+              key={id}
+              cx={x}
+              cy={y}
+              r={active ? 6 : 3.5}
+              fill={active ? '#f59e0b' : '#2563eb'}
+              stroke="#fff"
+              strokeWidth={1}
+              style={{ cursor: 'pointer' }}
+              onMouseEnter={() => onNodeHover(id)}
+              onMouseLeave={() => onNodeHover(null)}
+            >
+              <title>{places.get(id)?.label ?? id}</title>
+            </circle>
+          )
+        })}
+      </svg>
+      {unplaced > 0 && <div className="italic">{unplaced} without coordinates sit at the end of the baseline</div>}
+    </div>
+  )
+}
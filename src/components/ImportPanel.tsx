@@ -1,9 +1,62 @@
-import { useState, useRef, useEffect } from 'react'
-import { detectDatasetProperties } from '../lib/storage'
-import type { StoredDataset } from '../lib/storage'
-import { parseStateMigrationCSV } from '../lib/csv-parser'
+import { useState, useRef, useEffect, useMemo } from 'react'
+import {
+  deleteImportPreset,
+  detectDatasetProperties,
+  getAllImportPresets,
+  mergeDatasetMetadata,
+  saveImportPreset,
+} from '../lib/storage'
+import type { DatasetMetadata, ImportPreset, StoredDataset, StoredSnapshot } from '../lib/storage'
+import { type CsvError, readCsvFile } from '../lib/csv'
+import { parseStateMigrationRows } from '../lib/csv-parser'
+import type { MigrationData } from '../lib/csv-parser'
 import { parseGexf, gexfToKriskogramSnapshots } from '../lib/gexf-parser'
+import { GRAPH_FORMATS, GRAPH_FORMAT_ACCEPT, graphFormatOf, readGraphFile } from '../lib/graph-formats'
+import type { GraphFormat } from '../lib/graph-formats'
 import { parseTwoFileCSV } from '../lib/csv-two-file-parser'
+import {
+  ACS_OVERLAP_POLICIES,
+  buildAcsDataset,
+  formatAcsPeriod,
+  isAcsOverlapPolicy,
+  isAcsWorkbook,
+  parseAcsPeriod,
+  planAcsImport,
+  readAcsFile,
+  readAcsRows,
+  type AcsFile,
+  type AcsImportPlan,
+  type AcsOverlapPolicy,
+} from '../lib/acs-bulk-import'
+import {
+  DIAGONAL_POLICIES,
+  detectMatrixLayout,
+  findMatrixSheet,
+  isDiagonalPolicy,
+  matrixNodeId,
+  parseMatrix,
+  readMatrixFile,
+  trimRows,
+  type DiagonalPolicy,
+  type MatrixOverrides,
+  type MatrixSheet,
+} from '../lib/od-matrix'
+import {
+  ATTRIBUTE_TYPES,
+  DECIMAL_SEPARATORS,
+  guessColumnType,
+  guessEdgeListMapping,
+  isAttributeType,
+  isDecimalSeparator,
+  missingColumns,
+  parseEdgeList,
+  readEdgeListRows,
+  type AttributeType,
+  type EdgeListMapping,
+  type EdgeListTable,
+} from '../lib/edge-list-mapping'
+import { STATE_MIGRATION_MISSING_YEARS } from '../data/stateMigrationFiles'
+import { STATE_LABEL_SET } from '../data/stateLabels'
 
 interface ImportPanelProps {
   onClose: () => void
@@ -26,8 +79,8 @@ interface ImportPanelProps {
   } | null
 }
 
-type ImportMode = 'single' | 'two-file'
-type FileType = 'csv' | 'gexf'
+type ImportMode = 'single' | 'two-file' | 'acs-bulk' | 'matrix' | 'edge-list'
+type FileType = 'csv' | 'gexf' | GraphFormat
 
 export default function ImportPanel({
   onClose,
@@ -43,8 +96,12 @@ export default function ImportPanel({
   const [showFormatInfo, setShowFormatInfo] = useState(false)
   const [importMode, setImportMode] = useState<ImportMode | null>(null)
   const [selectedFiles, setSelectedFiles] = useState<File[]>([])
-  const [fileContents, setFileContents] = useState<string[]>([])
+  // Rows of each selected CSV, as read by the shared CSV reader
+  const [fileRows, setFileRows] = useState<string[][][]>([])
   const [fileType, setFileType] = useState<FileType | null>(null)
+  // The CSV being read, and problems the CSV reader found in the selected files
+  const [readProgress, setReadProgress] = useState<{ name: string; percent: number } | null>(null)
+  const [csvWarnings, setCsvWarnings] = useState<Array<CsvError & { file: string }>>([])
   
   // Refs for scrolling to errors
   const nameInputRef = useRef<HTMLInputElement>(null)
@@ -61,10 +118,55 @@ export default function ImportPanel({
   const [edgeTargetField, setEdgeTargetField] = useState<string>('')
   const [edgeValueField, setEdgeValueField] = useState<string>('')
 
+  // Multi-year ACS tables, one snapshot per detected year
+  const [acsFiles, setAcsFiles] = useState<AcsFile[]>([])
+  const [overlapPolicy, setOverlapPolicy] = useState<AcsOverlapPolicy>('skip')
+  // Keyed by the table's index in acsFiles, since several files may share a name
+  const [yearOverrides, setYearOverrides] = useState<Record<number, number>>({})
+  const acsPlan = useMemo(
+    () => (importMode === 'acs-bulk' ? planAcsImport(acsFiles, overlapPolicy, yearOverrides) : null),
+    [importMode, acsFiles, overlapPolicy, yearOverrides]
+  )
+
+  // Origin–destination matrix: the detected layout can be corrected before import
+  const [matrixSheets, setMatrixSheets] = useState<MatrixSheet[]>([])
+  const [matrixSheetIndex, setMatrixSheetIndex] = useState(0)
+  const [matrixOverrides, setMatrixOverrides] = useState<MatrixOverrides>({})
+  const [diagonalPolicy, setDiagonalPolicy] = useState<DiagonalPolicy>('attribute')
+  const [matrixYear, setMatrixYear] = useState(2021)
+  const matrixPreview = useMemo(() => {
+    const sheet = importMode === 'matrix' ? matrixSheets[matrixSheetIndex] : undefined
+    if (!sheet) return null
+    const layout = detectMatrixLayout(sheet.rows, matrixOverrides)
+    return { layout, result: layout ? parseMatrix(sheet.rows, layout, diagonalPolicy) : null }
+  }, [importMode, matrixSheets, matrixSheetIndex, matrixOverrides, diagonalPolicy])
+
+  // Single-file edge list with user-chosen columns, and saved mappings to reuse
+  const [edgeListTable, setEdgeListTable] = useState<EdgeListTable | null>(null)
+  const [edgeListMapping, setEdgeListMapping] = useState<EdgeListMapping | null>(null)
+  const [edgeListYear, setEdgeListYear] = useState(2021)
+  // Year of a graph file that carries no time of its own
+  const [graphYear, setGraphYear] = useState(2021)
+  const [importPresets, setImportPresets] = useState<ImportPreset[]>([])
+  const [presetId, setPresetId] = useState('')
+  const [presetName, setPresetName] = useState('')
+  const edgeListPreview = useMemo(() => {
+    if (importMode !== 'edge-list' || !edgeListTable || !edgeListMapping) return null
+    try {
+      return { result: parseEdgeList(edgeListTable, edgeListMapping), error: null }
+    } catch (error) {
+      return { result: null, error: error instanceof Error ? error.message : 'Failed to map columns' }
+    }
+  }, [importMode, edgeListTable, edgeListMapping])
+
   const [parsedData, setParsedData] = useState<{
     nodes: any[]
     edges: any[]
     timeRange?: { start: number; end: number }
+    /** Every snapshot of a dynamic file; nodes and edges are the first one's. */
+    snapshots?: StoredSnapshot[]
+    /** Properties the file declares, e.g. GraphML keys. */
+    metadata?: DatasetMetadata
   } | null>(null)
 
   // Auto-generate title from filename
@@ -108,34 +210,31 @@ export default function ImportPanel({
     }
   }, [selectedFiles])
 
-  function parseCSVLine(line: string): string[] {
-    const result: string[] = []
-    let current = ''
-    let inQuotes = false
-
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i]
-
-      if (char === '"') {
-        inQuotes = !inQuotes
-      } else if (char === ',' && !inQuotes) {
-        result.push(current)
-        current = ''
-      } else {
-        current += char
-      }
-    }
-    result.push(current)
+  useEffect(() => {
+    getAllImportPresets()
+      .then(setImportPresets)
+      .catch((error) => console.error('Failed to load import presets:', error))
+  }, [])
 
-    return result
+  function parseCSVHeaders(rows: string[][] | undefined): string[] {
+    return (rows?.[0] ?? []).map(h => h.trim())
   }
 
-  function parseCSVHeaders(content: string): string[] {
-    const lines = content.trim().split('\n')
-    if (lines.length === 0) return []
-    const firstLine = lines[0]
-    // Use proper CSV line parsing to handle quotes correctly
-    return parseCSVLine(firstLine).map(h => h.trim().replace(/^"|"$/g, ''))
+  /** Reads a CSV with the shared reader, which reports progress and bad rows. */
+  async function readCsvRows(file: File): Promise<string[][]> {
+    let percent = -1
+    const csv = await readCsvFile(file, {
+      onProgress: (loaded, total) => {
+        const next = total > 0 ? Math.floor((loaded / total) * 100) : 100
+        if (next === percent) return
+        percent = next
+        setReadProgress({ name: file.name, percent })
+      },
+    })
+    setReadProgress(null)
+    const warnings = csv.errors.map(error => ({ ...error, file: file.name }))
+    setCsvWarnings(current => [...current.filter(warning => warning.file !== file.name), ...warnings])
+    return csv.rows
   }
 
   async function handleFileSelect(event: React.ChangeEvent<HTMLInputElement>) {
@@ -143,10 +242,78 @@ export default function ImportPanel({
     if (files.length === 0) return
 
     setSelectedFiles(files)
+    setCsvWarnings([])
+    const csvRows = new Map<File, string[][]>()
+
+    // Several migration tables, or any Census workbook: one snapshot per year
+    if (files.every(f => /\.(csv|xlsx?)$/i.test(f.name)) && (files.length > 1 || isAcsWorkbook(files[0].name))) {
+      // CSV rows are kept, so files that turn out not to be ACS tables are not read twice
+      const tables: AcsFile[] = []
+      for (const file of files) {
+        if (isAcsWorkbook(file.name)) {
+          tables.push(await readAcsFile(file))
+          continue
+        }
+        const rows = await readCsvRows(file)
+        csvRows.set(file, rows)
+        tables.push(readAcsRows(file.name, rows))
+      }
+      if ((files.length > 1 && files.some(f => isAcsWorkbook(f.name))) || tables.every(table => table.data)) {
+        setImportMode('acs-bulk')
+        setFileType('csv')
+        setAcsFiles(tables)
+        setYearOverrides({})
+        setValidationErrors({})
+        const plan = planAcsImport(tables, overlapPolicy)
+        if (plan.timeRange) {
+          setDatasetName(`State-to-State Migration (${formatAcsPeriod(plan.timeRange)})`)
+        }
+        if (fileInputRef.current) {
+          fileInputRef.current.value = ''
+        }
+        return
+      }
+    }
+
+    // Any other workbook: look for an origin–destination matrix on its sheets
+    if (files.length === 1 && isAcsWorkbook(files[0].name)) {
+      setFileType('csv')
+      openMatrix(files[0], await readMatrixFile(files[0]))
+      if (fileInputRef.current) {
+        fileInputRef.current.value = ''
+      }
+      return
+    }
     
-    // Read file contents
-    const contents = await Promise.all(files.map(f => f.text()))
-    setFileContents(contents)
+    // GraphML, JSON and edge tables; Arrow and Parquet are binary, so read them as files
+    const graphFormat = graphFormatOf(files[0].name)
+    if (graphFormat) {
+      setFileType(graphFormat)
+      setImportMode('single')
+      setFileRows([])
+      try {
+        const graph = await readGraphFile(files[0])
+        const first = graph.snapshots[0]
+        const timed = graph.snapshots.every(snapshot => snapshot.timestamp !== null)
+        const snapshots = timed ? (graph.snapshots as StoredSnapshot[]) : undefined
+        if (!timed) setGraphYear(parseAcsPeriod(files[0].name)?.end ?? 2021)
+        setParsedData({
+          nodes: first?.nodes ?? [],
+          edges: first?.edges ?? [],
+          timeRange: snapshots?.length
+            ? { start: snapshots[0].timestamp, end: snapshots[snapshots.length - 1].timestamp }
+            : undefined,
+          snapshots,
+          metadata: graph.metadata,
+        })
+        setValidationErrors({})
+      } catch (error) {
+        setValidationErrors({
+          general: error instanceof Error ? error.message : 'Failed to parse graph file',
+        })
+      }
+      return
+    }
 
     // Determine file type and mode
     const firstFileName = files[0].name.toLowerCase()
@@ -154,15 +321,19 @@ export default function ImportPanel({
     if (firstFileName.endsWith('.gexf')) {
       setFileType('gexf')
       setImportMode('single')
+      setFileRows([])
       
       // Parse GEXF immediately
       try {
-        const graph = parseGexf(contents[0])
+        const graph = parseGexf(await files[0].text())
         const snaps = gexfToKriskogramSnapshots(graph)
         setParsedData({
           nodes: snaps.length > 0 ? snaps[0].nodes : [],
           edges: snaps.length > 0 ? snaps[0].edges : [],
-          timeRange: graph.timeRange,
+          timeRange: snaps.length > 0
+            ? { start: snaps[0].timestamp, end: snaps[snaps.length - 1].timestamp }
+            : graph.timeRange,
+          snapshots: snaps,
         })
         setDatasetName(files[0].name.replace('.gexf', ''))
       } catch (error) {
@@ -172,41 +343,44 @@ export default function ImportPanel({
       }
     } else if (firstFileName.endsWith('.csv')) {
       setFileType('csv')
+      const contents: string[][][] = []
+      for (const file of files) {
+        contents.push(csvRows.get(file) ?? (await readCsvRows(file)))
+      }
+      setFileRows(contents)
       
       if (files.length === 1) {
-        // Single CSV file - try to parse as state migration format
+        // Single CSV file: the state migration formats, a matrix, or any edge list to map
         setImportMode('single')
+        let parsed: MigrationData | null = null
         try {
-          const parsed = parseStateMigrationCSV(contents[0])
+          parsed = parseStateMigrationRows(contents[0])
+        } catch {
+          parsed = null
+        }
+        const headers = parseCSVHeaders(contents[0]).map(h => h.toLowerCase())
+        // Legacy ACS tables are matrices too; other matrices would only parse by accident
+        const isTidy = headers.includes('source_id') && headers.includes('destination_id')
+        const isStateTable = !!parsed && parsed.edges.length > 0 &&
+          parsed.nodes.every(node => STATE_LABEL_SET.has(node.label) || node.label === 'Puerto Rico')
+        const rows = trimRows(contents[0])
+        if (parsed && (isTidy || isStateTable)) {
           setParsedData({
             nodes: parsed.nodes as any[],
             edges: parsed.edges as any[],
             timeRange: { start: 2021, end: 2021 },
           })
           setDatasetName(files[0].name.replace('.csv', ''))
-        } catch (error) {
-          // If state migration parsing fails, assume it needs two-file format
-          setImportMode('two-file')
-          const headers = parseCSVHeaders(contents[0])
-          setNodesHeaders(headers)
-          setEdgesHeaders(headers)
-          setNodesFileIndex(0)
-          
-          // Auto-detect common field names
-          const idField = headers.find(h => h.toLowerCase() === 'id' || h.toLowerCase() === 'node' || h.toLowerCase() === 'name')
-          const sourceField = headers.find(h => h.toLowerCase() === 'source' || h.toLowerCase() === 'origin' || h.toLowerCase() === 'from')
-          const targetField = headers.find(h => h.toLowerCase() === 'target' || h.toLowerCase() === 'dest' || h.toLowerCase() === 'destination' || h.toLowerCase() === 'to')
-          const valueField = headers.find(h => h.toLowerCase() === 'value' || h.toLowerCase() === 'count' || h.toLowerCase() === 'weight')
-          
-          if (idField) setNodeIdField(idField)
-          if (sourceField) setEdgeSourceField(sourceField)
-          if (targetField) setEdgeTargetField(targetField)
-          if (valueField) setEdgeValueField(valueField)
-          
-          setValidationErrors({
-            general:
-              'Could not parse as state migration format. Please select which file contains nodes and which contains edges.',
-          })
+        } else if (detectMatrixLayout(rows)) {
+          openMatrix(files[0], [{ name: files[0].name, rows }])
+        } else {
+          try {
+            openEdgeList(files[0].name, contents[0])
+          } catch (error) {
+            setValidationErrors({
+              general: error instanceof Error ? error.message : 'Failed to read CSV',
+            })
+          }
         }
       } else if (files.length === 2) {
         // Two CSV files
@@ -244,6 +418,86 @@ export default function ImportPanel({
     }
   }
 
+  function openMatrix(file: File, sheets: MatrixSheet[]) {
+    setImportMode('matrix')
+    setMatrixSheets(sheets)
+    setMatrixSheetIndex(Math.max(0, findMatrixSheet(sheets)))
+    setMatrixOverrides({})
+    setMatrixYear(parseAcsPeriod(file.name)?.end ?? 2021)
+  }
+
+  function openEdgeList(filename: string, rows: string[][]) {
+    const table = readEdgeListRows(rows)
+    // The newest preset that fits the columns, otherwise a guess from their names
+    const preset = importPresets.find(p => missingColumns(p.mapping, table.headers).length === 0)
+    setImportMode('edge-list')
+    setEdgeListTable(table)
+    setEdgeListMapping(preset?.mapping ?? guessEdgeListMapping(table))
+    setPresetId(preset?.id ?? '')
+    setEdgeListYear(parseAcsPeriod(filename)?.end ?? 2021)
+  }
+
+  /** Maps `field` to `column`, which stops being kept as an attribute. */
+  function setMappedColumn(field: 'source' | 'target' | 'weight' | 'time', column: string) {
+    if (!edgeListMapping) return
+    setEdgeListMapping({
+      ...edgeListMapping,
+      [field]: column || undefined,
+      attributes: edgeListMapping.attributes.filter(attribute => attribute.column !== column),
+    })
+    setPresetId('')
+  }
+
+  function setAttribute(column: string, type: AttributeType | null) {
+    if (!edgeListMapping) return
+    const others = edgeListMapping.attributes.filter(attribute => attribute.column !== column)
+    setEdgeListMapping({
+      ...edgeListMapping,
+      // Keep the columns in file order
+      attributes: (type ? [...others, { column, type }] : others).sort(
+        (a, b) => (edgeListTable?.headers.indexOf(a.column) ?? 0) - (edgeListTable?.headers.indexOf(b.column) ?? 0)
+      ),
+    })
+    setPresetId('')
+  }
+
+  function applyPreset(id: string) {
+    const preset = importPresets.find(p => p.id === id)
+    setPresetId(id)
+    if (preset) {
+      setEdgeListMapping(preset.mapping)
+      setPresetName(preset.name)
+    }
+  }
+
+  async function savePreset() {
+    if (!edgeListMapping || !presetName.trim()) return
+    const existing = importPresets.find(p => p.name === presetName.trim())
+    const preset: ImportPreset = {
+      id: existing?.id ?? `preset-${Date.now()}`,
+      name: presetName.trim(),
+      mapping: edgeListMapping,
+      createdAt: Date.now(),
+    }
+    try {
+      await saveImportPreset(preset)
+      setImportPresets(await getAllImportPresets())
+      setPresetId(preset.id)
+    } catch (error) {
+      console.error('Failed to save import preset:', error)
+    }
+  }
+
+  async function removePreset(id: string) {
+    try {
+      await deleteImportPreset(id)
+      setImportPresets(await getAllImportPresets())
+      setPresetId('')
+    } catch (error) {
+      console.error('Failed to delete import preset:', error)
+    }
+  }
+
   function tryParseTwoFile() {
     if (nodesFileIndex === null || edgesFileIndex === null ||
         !nodeIdField || !edgeSourceField || !edgeTargetField || !edgeValueField) {
@@ -257,12 +511,12 @@ export default function ImportPanel({
     try {
       const result = parseTwoFileCSV({
         nodesFile: {
-          content: fileContents[nodesFileIndex],
+          rows: fileRows[nodesFileIndex],
           idField: nodeIdField,
           labelField: nodeLabelField || nodeIdField,
         },
         edgesFile: {
-          content: fileContents[edgesFileIndex],
+          rows: fileRows[edgesFileIndex],
           sourceField: edgeSourceField,
           targetField: edgeTargetField,
           valueField: edgeValueField,
@@ -289,6 +543,42 @@ export default function ImportPanel({
     }
   }, [nodeIdField, nodeLabelField, edgeSourceField, edgeTargetField, edgeValueField, nodesFileIndex, edgesFileIndex])
 
+  useEffect(() => {
+    if (!matrixPreview) return
+    const { result } = matrixPreview
+    setParsedData(
+      result ? { nodes: result.nodes, edges: result.edges, timeRange: { start: matrixYear, end: matrixYear } } : null
+    )
+    setValidationErrors(
+      result ? {} : { general: 'No origin–destination matrix found - check the header row and label column' }
+    )
+  }, [matrixPreview, matrixYear])
+
+  useEffect(() => {
+    if (!edgeListPreview) return
+    const { result, error } = edgeListPreview
+    if (!result) {
+      setParsedData(null)
+      setValidationErrors({ general: error ?? 'Failed to map columns' })
+      return
+    }
+    const snapshots: StoredSnapshot[] = result.snapshots.map(snapshot => ({
+      ...snapshot,
+      timestamp: snapshot.timestamp ?? edgeListYear,
+    }))
+    const first = snapshots[0]
+    setParsedData({
+      nodes: first?.nodes ?? [],
+      edges: first?.edges ?? [],
+      timeRange: first
+        ? { start: first.timestamp, end: snapshots[snapshots.length - 1].timestamp }
+        : { start: edgeListYear, end: edgeListYear },
+      snapshots,
+      metadata: result.metadata,
+    })
+    setValidationErrors({})
+  }, [edgeListPreview, edgeListYear])
+
   function validate(): Record<string, string> {
     const errors: Record<string, string> = {}
     const summary: string[] = []
@@ -297,6 +587,13 @@ export default function ImportPanel({
       errors.name = 'Dataset name is required'
     }
 
+    if (importMode === 'acs-bulk') {
+      if (!acsPlan?.years.length) {
+        errors.general = 'None of the files can be imported - check the years detected for each file'
+      }
+      return errors
+    }
+
     if (importMode === 'two-file') {
       if (nodesFileIndex === null) {
         errors.nodesFile = 'Please select which file contains nodes'
@@ -331,18 +628,31 @@ export default function ImportPanel({
       summary.push('No edges found in dataset')
     }
 
-    // Check for unique node IDs
-    const nodeIds = new Set(parsedData.nodes.map(n => n.id))
-    if (nodeIds.size !== parsedData.nodes.length) {
-      summary.push(`${parsedData.nodes.length - nodeIds.size} duplicate node IDs found`)
+    // Check every snapshot, not just the first, for unique node IDs and edge references
+    const checked = parsedData.snapshots?.length ? parsedData.snapshots : [parsedData]
+    let duplicateIds = 0
+    let invalidEdges = 0
+    const affectedTimes = new Set<number>()
+    for (const snapshot of checked) {
+      const nodeIds = new Set(snapshot.nodes.map(n => n.id))
+      const duplicates = snapshot.nodes.length - nodeIds.size
+      const invalid = snapshot.edges.filter(
+        e => !nodeIds.has(e.source) || !nodeIds.has(e.target)
+      ).length
+      duplicateIds += duplicates
+      invalidEdges += invalid
+      if ((duplicates > 0 || invalid > 0) && 'timestamp' in snapshot) {
+        affectedTimes.add(snapshot.timestamp)
+      }
     }
-
-    // Check edge references
-    const invalidEdges = parsedData.edges.filter(
-      e => !nodeIds.has(e.source) || !nodeIds.has(e.target)
-    )
-    if (invalidEdges.length > 0) {
-      summary.push(`${invalidEdges.length} edges reference non-existent nodes`)
+    const inTimes = checked.length > 1 && affectedTimes.size > 0
+      ? ` (in ${[...affectedTimes].join(', ')})`
+      : ''
+    if (duplicateIds > 0) {
+      summary.push(`${duplicateIds} duplicate node IDs found${inTimes}`)
+    }
+    if (invalidEdges > 0) {
+      summary.push(`${invalidEdges} edges reference non-existent nodes${inTimes}`)
     }
 
     // Store summary separately
@@ -369,6 +679,14 @@ export default function ImportPanel({
 
     // Don't proceed if there are blocking errors (not just summary)
     const blockingErrors = Object.keys(errors).filter(k => k !== 'summary')
+    if (importMode === 'acs-bulk') {
+      if (blockingErrors.length > 0 || !acsPlan) {
+        setTimeout(() => scrollToError(), 100)
+        return
+      }
+      await importAcsTables(acsPlan)
+      return
+    }
     if (blockingErrors.length > 0 || !parsedData) {
       // Scroll to first error after a short delay
       setTimeout(() => scrollToError(), 100)
@@ -377,14 +695,14 @@ export default function ImportPanel({
 
     setIsImporting(true)
     try {
-      const timeRange = parsedData.timeRange || { start: 2021, end: 2021 }
-      const snapshot = {
+      const timeRange = parsedData.timeRange || { start: graphYear, end: graphYear }
+      const snapshot: StoredSnapshot = {
         timestamp: timeRange.start,
         nodes: parsedData.nodes,
         edges: parsedData.edges,
       }
-      const metadata = detectDatasetProperties(snapshot)
-      const snapshots = [snapshot]
+      const metadata = mergeDatasetMetadata(detectDatasetProperties(snapshot), parsedData.metadata)
+      const snapshots = parsedData.snapshots?.length ? parsedData.snapshots : [snapshot]
 
       const dataset: Omit<StoredDataset, 'id' | 'createdAt'> = {
         name: datasetName.trim(),
@@ -392,7 +710,7 @@ export default function ImportPanel({
         notes: notes.trim() || undefined,
         type: importMode === 'two-file' ? 'csv' : (fileType || 'csv'),
         timeRange,
-        snapshots: snapshots as any,
+        snapshots,
         metadata,
       }
 
@@ -412,14 +730,79 @@ export default function ImportPanel({
     }
   }
 
+  async function importAcsTables(plan: AcsImportPlan) {
+    setIsImporting(true)
+    try {
+      const dataset = buildAcsDataset(acsFiles, plan, { name: datasetName.trim(), notes })
+      const first = dataset.snapshots[0]
+      await onImport(dataset, {
+        nodes: first.nodes,
+        edges: first.edges,
+        snapshots: dataset.snapshots,
+        metadata: dataset.metadata,
+      })
+    } catch (error) {
+      console.error('Import error:', error)
+      setValidationErrors({
+        general: error instanceof Error ? error.message : 'Failed to import dataset',
+      })
+      setIsImporting(false)
+      setTimeout(() => scrollToError(), 100)
+    }
+  }
+
+  function setYearOverride(index: number, value: string) {
+    setYearOverrides((current) => {
+      const next = { ...current }
+      if (/^\d{4}$/.test(value)) {
+        next[index] = Number(value)
+      } else {
+        delete next[index]
+      }
+      return next
+    })
+  }
+
+  // Overrides of the tables after a removed one move down with them
+  function removeYearOverride(index: number) {
+    setYearOverrides((current) => {
+      const next: Record<number, number> = {}
+      for (const [key, year] of Object.entries(current)) {
+        const at = Number(key)
+        if (at !== index) next[at > index ? at - 1 : at] = year
+      }
+      return next
+    })
+  }
+
+  // First few origins and destinations of the matrix, as they will be imported
+  const matrixGrid = (() => {
+    const result = matrixPreview?.result
+    const layout = matrixPreview?.layout
+    if (!result || !layout) return null
+    const flows = new Map(result.edges.map(edge => [`${edge.source}>${edge.target}`, edge.value]))
+    const labels = new Map(result.nodes.map(node => [node.id, node.label]))
+    const origins = [...new Set(result.edges.map(edge => edge.source))].slice(0, 6)
+    const destinations = layout.destinations.slice(0, 6).map(destination => matrixNodeId(destination.label))
+    return { flows, labels, origins, destinations }
+  })()
+
+  const graphFormatLabel = GRAPH_FORMATS.find(format => format.value === fileType)?.label
   const formatInfo = fileType ? (fileType === 'gexf' ? {
     title: 'GEXF Format',
     description: 'Graph Exchange XML Format - supports nodes, edges, attributes, and temporal data.',
+  } : graphFormatLabel ? {
+    title: graphFormatLabel,
+    description: 'Nodes and flows with their properties. A year, timestamp, period or time value on every flow (or on each GraphML or JSON graph) gives one snapshot per year.',
   } : {
     title: 'CSV Format',
     description: importMode === 'two-file' 
       ? 'Two CSV files: one for nodes (locations) and one for edges (flows). Select which file is which and map the fields.'
-      : 'Single CSV file with state-to-state migration data format.',
+      : importMode === 'edge-list'
+        ? 'One flow per row. Pick the source, target and weight columns, an optional time column that splits rows into snapshots, and the columns to keep as attributes.'
+        : importMode === 'matrix'
+        ? 'Origin–destination matrix: one row per origin and one column per destination, with an optional Estimate/MOE pair per destination.'
+        : 'Single CSV file with state-to-state migration data format.',
   }) : null
 
   return (
@@ -453,12 +836,12 @@ export default function ImportPanel({
                     Choose Files
                   </button>
                   <p className="text-sm text-gray-500 mt-2">
-                    Select 1 file (GEXF or CSV) or 2 files (CSV nodes + CSV edges)
+                    Select 1 file (GEXF, CSV, an origin–destination matrix in CSV or XLSX, GraphML, JSON, Arrow or Parquet), 2 files (CSV nodes + CSV edges), or several ACS state-to-state tables (CSV, XLS or XLSX)
                   </p>
                   <input
                     ref={fileInputRef}
                     type="file"
-                    accept=".csv,.gexf"
+                    accept={`.csv,.gexf,.xls,.xlsx,${GRAPH_FORMAT_ACCEPT}`}
                     multiple
                     onChange={handleFileSelect}
                     className="hidden"
@@ -482,9 +865,12 @@ export default function ImportPanel({
                           const newFiles = [...selectedFiles]
                           newFiles.splice(index, 1)
                           setSelectedFiles(newFiles)
-                          const newContents = [...fileContents]
-                          newContents.splice(index, 1)
-                          setFileContents(newContents)
+                          setFileRows(fileRows.filter((_, i) => i !== index))
+                          setCsvWarnings(csvWarnings.filter(warning => warning.file !== file.name))
+                          if (importMode === 'acs-bulk') {
+                            setAcsFiles(acsFiles.filter((_, i) => i !== index))
+                            removeYearOverride(index)
+                          }
                           if (importMode === 'two-file') {
                             if (nodesFileIndex === index) setNodesFileIndex(null)
                             if (edgesFileIndex === index) setEdgesFileIndex(null)
@@ -504,15 +890,22 @@ export default function ImportPanel({
                       // Create a new input to allow adding more files
                       const input = document.createElement('input')
                       input.type = 'file'
-                      input.accept = '.csv,.gexf'
+                      input.accept = importMode === 'acs-bulk' ? '.csv,.xls,.xlsx' : '.csv,.gexf'
                       input.multiple = true
                       input.onchange = async (e) => {
                         const target = e.target as HTMLInputElement
                         const newFiles = Array.from(target.files || [])
                         if (newFiles.length > 0) {
-                          const newContents = await Promise.all(newFiles.map(f => f.text()))
                           setSelectedFiles([...selectedFiles, ...newFiles])
-                          setFileContents([...fileContents, ...newContents])
+                          if (importMode === 'acs-bulk') {
+                            setAcsFiles([...acsFiles, ...(await Promise.all(newFiles.map(readAcsFile)))])
+                            return
+                          }
+                          const newRows: string[][][] = []
+                          for (const file of newFiles) {
+                            newRows.push(/\.csv$/i.test(file.name) ? await readCsvRows(file) : [])
+                          }
+                          setFileRows([...fileRows, ...newRows])
                           
                           // Re-evaluate file type and mode
                           const allFiles = [...selectedFiles, ...newFiles]
@@ -532,6 +925,48 @@ export default function ImportPanel({
               </div>
             )}
 
+            {readProgress && (
+              <div className="text-sm text-gray-600">
+                Reading {readProgress.name}… {readProgress.percent}%
+                <progress value={readProgress.percent} max={100} className="block w-full mt-1" />
+              </div>
+            )}
+
+            {csvWarnings.length > 0 && (
+              <div className="bg-orange-50 border border-orange-200 rounded p-3 text-sm">
+                <h4 className="font-semibold text-orange-800 mb-1">Rows that may not have been read as intended:</h4>
+                <ul className="text-orange-700 space-y-0.5">
+                  {csvWarnings.slice(0, 5).map(warning => (
+                    <li key={`${warning.file}:${warning.row}:${warning.message}`}>
+                      {warning.file}, row {warning.row}: {warning.message}
+                    </li>
+                  ))}
+                </ul>
+                {csvWarnings.length > 5 && (
+                  <p className="text-orange-600 mt-1">…and {csvWarnings.length - 5} more</p>
+                )}
+              </div>
+            )}
+
+            {fileType === 'csv' && selectedFiles.length === 1 && fileRows[0] &&
+              (importMode === 'single' || importMode === 'matrix') && (
+              <button
+                type="button"
+                onClick={() => {
+                  try {
+                    openEdgeList(selectedFiles[0].name, fileRows[0])
+                  } catch (error) {
+                    setValidationErrors({
+                      general: error instanceof Error ? error.message : 'Failed to read CSV',
+                    })
+                  }
+                }}
+                className="text-sm text-blue-600 hover:text-blue-800"
+              >
+                Map columns as an edge list instead
+              </button>
+            )}
+
             {/* Two-File CSV Configuration */}
             {importMode === 'two-file' && selectedFiles.length > 0 && (
               <div className="border-t pt-4 space-y-4" data-file-select>
@@ -547,7 +982,7 @@ export default function ImportPanel({
                     onChange={(e) => {
                       const idx = parseInt(e.target.value)
                       setNodesFileIndex(idx)
-                      const headers = parseCSVHeaders(fileContents[idx])
+                      const headers = parseCSVHeaders(fileRows[idx])
                       setNodesHeaders(headers)
                       const idField = headers.find(h => h.toLowerCase() === 'id')
                       if (idField) setNodeIdField(idField)
@@ -627,7 +1062,7 @@ export default function ImportPanel({
                     onChange={(e) => {
                       const idx = parseInt(e.target.value)
                       setEdgesFileIndex(idx)
-                      const headers = parseCSVHeaders(fileContents[idx])
+                      const headers = parseCSVHeaders(fileRows[idx])
                       setEdgesHeaders(headers)
                       const sourceField = headers.find(h => h.toLowerCase() === 'source' || h.toLowerCase() === 'origin' || h.toLowerCase() === 'from')
                       const targetField = headers.find(h => h.toLowerCase() === 'target' || h.toLowerCase() === 'dest' || h.toLowerCase() === 'to')
@@ -740,6 +1175,476 @@ export default function ImportPanel({
               </div>
             )}
 
+            {/* ACS Bulk Import Preview */}
+            {importMode === 'acs-bulk' && acsPlan && (
+              <div className="border-t pt-4 space-y-4">
+                <h3 className="font-semibold">Detected Years</h3>
+                <div>
+                  <label htmlFor="acs-overlap-policy" className="block text-sm font-medium text-gray-700 mb-2">
+                    Multi-year releases
+                  </label>
+                  <select
+                    id="acs-overlap-policy"
+                    value={overlapPolicy}
+                    onChange={(e) => {
+                      if (isAcsOverlapPolicy(e.target.value)) setOverlapPolicy(e.target.value)
+                    }}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  >
+                    {ACS_OVERLAP_POLICIES.map((policy) => (
+                      <option key={policy.value} value={policy.value}>{policy.label}</option>
+                    ))}
+                  </select>
+                  <p className="mt-1 text-xs text-gray-500">
+                    3- and 5-year releases (e.g. 2005–2007) average several years and overlap the 1-year tables. A 1-year table always keeps its year.
+                  </p>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full text-sm">
+                    <thead>
+                      <tr className="border-b text-left text-xs text-gray-500">
+                        <th className="py-1 pr-3 font-medium">File</th>
+                        <th className="py-1 pr-3 font-medium">Period</th>
+                        <th className="py-1 pr-3 font-medium">Year</th>
+                        <th className="py-1 pr-3 font-medium">Nodes</th>
+                        <th className="py-1 pr-3 font-medium">Flows</th>
+                        <th className="py-1 font-medium">Notes</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {acsPlan.entries.map((entry, index) => (
+                        <tr
+                          key={`${entry.filename}-${index}`}
+                          className={`border-b align-top ${entry.status === 'included' ? '' : 'text-gray-400'}`}
+                        >
+                          <td className="py-1 pr-3 break-all">{entry.filename}</td>
+                          <td className="py-1 pr-3 whitespace-nowrap">
+                            {entry.period ? formatAcsPeriod(entry.period) : '—'}
+                            {entry.periodSource === 'filename' && <span className="ml-1 text-xs">(from name)</span>}
+                          </td>
+                          <td className="py-1 pr-3">
+                            <input
+                              type="number"
+                              value={yearOverrides[index] ?? entry.year ?? ''}
+                              placeholder="—"
+                              disabled={entry.status === 'failed'}
+                              onChange={(e) => setYearOverride(index, e.target.value)}
+                              className="w-20 px-1 py-0.5 border border-gray-300 rounded disabled:bg-gray-50"
+                            />
+                          </td>
+                          <td className="py-1 pr-3">{entry.nodeCount}</td>
+                          <td className="py-1 pr-3">{entry.edgeCount.toLocaleString()}</td>
+                          <td className="py-1 text-xs">
+                            {entry.status !== 'included' && <span className="font-medium capitalize">{entry.status}: </span>}
+                            {[entry.note, entry.missingNodes.length > 0 && `missing ${entry.missingNodes.join(', ')}`]
+                              .filter(Boolean)
+                              .join('; ')}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <div ref={errorsSummaryRef} className="bg-blue-50 border border-blue-200 rounded p-3 text-sm text-blue-700 space-y-1">
+                  <div>
+                    <span className="font-medium">Snapshots:</span> {acsPlan.years.length}
+                    {acsPlan.timeRange && ` (${formatAcsPeriod(acsPlan.timeRange)})`}
+                  </div>
+                  {acsPlan.missingYears.length > 0 && (
+                    <div>
+                      <span className="font-medium text-orange-700">Missing years:</span>{' '}
+                      <span className="text-orange-600">
+                        {acsPlan.missingYears
+                          .map((year) =>
+                            STATE_MIGRATION_MISSING_YEARS.includes(year) ? `${year} (no ACS 1-year release)` : String(year)
+                          )
+                          .join(', ')}
+                      </span>
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Edge List Column Mapping */}
+            {importMode === 'edge-list' && edgeListTable && edgeListMapping && (
+              <div className="border-t pt-4 space-y-4">
+                <h3 className="font-semibold">Map Columns</h3>
+                <div className="flex flex-wrap items-end gap-2">
+                  <div className="flex-1 min-w-[12rem]">
+                    <label htmlFor="edge-list-preset" className="block text-sm font-medium text-gray-700 mb-1">
+                      Preset
+                    </label>
+                    <select
+                      id="edge-list-preset"
+                      value={presetId}
+                      onChange={(e) => applyPreset(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                    >
+                      <option value="">Custom mapping</option>
+                      {importPresets.map((preset) => (
+                        <option
+                          key={preset.id}
+                          value={preset.id}
+                          disabled={missingColumns(preset.mapping, edgeListTable.headers).length > 0}
+                        >
+                          {preset.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="flex-1 min-w-[12rem]">
+                    <label htmlFor="edge-list-preset-name" className="block text-sm font-medium text-gray-700 mb-1">
+                      Save mapping as
+                    </label>
+                    <input
+                      id="edge-list-preset-name"
+                      type="text"
+                      value={presetName}
+                      onChange={(e) => setPresetName(e.target.value)}
+                      placeholder="Preset name"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                    />
+                  </div>
+                  <button
+                    type="button"
+                    onClick={savePreset}
+                    disabled={!presetName.trim()}
+                    className="px-3 py-2 border border-gray-300 rounded-md text-sm hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Save Preset
+                  </button>
+                  {presetId && (
+                    <button
+                      type="button"
+                      onClick={() => removePreset(presetId)}
+                      className="px-3 py-2 text-sm text-red-600 hover:text-red-800"
+                    >
+                      Delete Preset
+                    </button>
+                  )}
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  {([
+                    ['source', 'Source *', false],
+                    ['target', 'Target *', false],
+                    ['weight', 'Weight', true],
+                    ['time', 'Time / year', true],
+                  ] as const).map(([field, label, optional]) => (
+                    <div key={field}>
+                      <label htmlFor={`edge-list-${field}`} className="block text-sm font-medium text-gray-700 mb-1">
+                        {label}
+                      </label>
+                      <select
+                        id={`edge-list-${field}`}
+                        value={edgeListMapping[field] ?? ''}
+                        onChange={(e) => setMappedColumn(field, e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                      >
+                        {optional && (
+                          <option value="">{field === 'weight' ? 'None (each row counts 1)' : 'None (single snapshot)'}</option>
+                        )}
+                        {edgeListTable.headers.map((header) => (
+                          <option key={header} value={header}>{header}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                  {!edgeListMapping.time && (
+                    <div>
+                      <label htmlFor="edge-list-year" className="block text-sm font-medium text-gray-700 mb-1">
+                        Year
+                      </label>
+                      <input
+                        id="edge-list-year"
+                        type="number"
+                        value={edgeListYear}
+                        onChange={(e) => {
+                          const year = Number.parseInt(e.target.value, 10)
+                          if (Number.isFinite(year)) setEdgeListYear(year)
+                        }}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                      />
+                    </div>
+                  )}
+                  <div>
+                    <label htmlFor="edge-list-decimal" className="block text-sm font-medium text-gray-700 mb-1">
+                      Decimal separator
+                    </label>
+                    <select
+                      id="edge-list-decimal"
+                      value={edgeListMapping.decimal ?? '.'}
+                      onChange={(e) => {
+                        if (!isDecimalSeparator(e.target.value)) return
+                        setEdgeListMapping({ ...edgeListMapping, decimal: e.target.value })
+                        setPresetId('')
+                      }}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                    >
+                      {DECIMAL_SEPARATORS.map((separator) => (
+                        <option key={separator.value} value={separator.value}>{separator.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                <div>
+                  <h4 className="text-sm font-medium text-gray-700 mb-1">Attributes</h4>
+                  <div className="space-y-1">
+                    {edgeListTable.headers
+                      .filter((header) =>
+                        ![edgeListMapping.source, edgeListMapping.target, edgeListMapping.weight, edgeListMapping.time].includes(header)
+                      )
+                      .map((header, index) => {
+                        const attribute = edgeListMapping.attributes.find((entry) => entry.column === header)
+                        return (
+                          <div key={header} className="flex items-center gap-2 text-sm">
+                            <input
+                              id={`edge-list-attribute-${index}`}
+                              type="checkbox"
+                              checked={!!attribute}
+                              disabled={['source', 'target', 'value'].includes(header)}
+                              onChange={(e) =>
+                                setAttribute(header, e.target.checked ? guessColumnType(edgeListTable, header, edgeListMapping.decimal) : null)
+                              }
+                            />
+                            <label htmlFor={`edge-list-attribute-${index}`} className="flex-1 break-all">
+                              {header}
+                            </label>
+                            {attribute && (
+                              <select
+                                aria-label={`Type of ${header}`}
+                                value={attribute.type}
+                                onChange={(e) => {
+                                  if (isAttributeType(e.target.value)) setAttribute(header, e.target.value)
+                                }}
+                                className="px-2 py-1 border border-gray-300 rounded text-sm"
+                              >
+                                {ATTRIBUTE_TYPES.map((type) => (
+                                  <option key={type.value} value={type.value}>{type.label}</option>
+                                ))}
+                              </select>
+                            )}
+                          </div>
+                        )
+                      })}
+                  </div>
+                </div>
+                {edgeListPreview?.result && (
+                  <div className="space-y-2">
+                    <div className="bg-gray-50 border border-gray-200 rounded p-3 text-sm text-gray-700 space-y-1">
+                      <div>
+                        <span className="font-medium">Snapshots:</span> {edgeListPreview.result.snapshots.length}
+                        {edgeListMapping.time &&
+                          edgeListPreview.result.snapshots.length > 0 &&
+                          ` (${edgeListPreview.result.snapshots.map((snapshot) => snapshot.timestamp).join(', ')})`}
+                      </div>
+                      {edgeListPreview.result.merged > 0 && (
+                        <div className="text-xs text-gray-600">
+                          {edgeListPreview.result.merged} rows with the same source, target and time were added together
+                        </div>
+                      )}
+                      {Object.values(edgeListPreview.result.skipped).some((count) => count > 0) && (
+                        <div className="text-xs text-orange-700">
+                          <span className="font-medium">Skipped rows:</span>{' '}
+                          {[
+                            edgeListPreview.result.skipped.ends > 0 && `${edgeListPreview.result.skipped.ends} without source or target`,
+                            edgeListPreview.result.skipped.weight > 0 && `${edgeListPreview.result.skipped.weight} without a positive weight`,
+                            edgeListPreview.result.skipped.time > 0 && `${edgeListPreview.result.skipped.time} without a readable time`,
+                          ]
+                            .filter(Boolean)
+                            .join(', ')}
+                        </div>
+                      )}
+                    </div>
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full text-xs">
+                        <thead>
+                          <tr className="border-b text-left text-gray-500">
+                            {edgeListMapping.time && <th className="py-1 pr-3 font-medium">Time</th>}
+                            <th className="py-1 pr-3 font-medium">Source</th>
+                            <th className="py-1 pr-3 font-medium">Target</th>
+                            <th className="py-1 pr-3 font-medium">Value</th>
+                            {edgeListMapping.attributes.map((attribute) => (
+                              <th key={attribute.column} className="py-1 pr-3 font-medium">{attribute.column}</th>
+                            ))}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {edgeListPreview.result.snapshots
+                            .flatMap((snapshot) => snapshot.edges.map((edge) => ({ time: snapshot.timestamp, edge })))
+                            .slice(0, 5)
+                            .map(({ time, edge }, index) => (
+                              <tr key={`${time}-${edge.source}-${edge.target}-${index}`} className="border-b text-gray-600">
+                                {edgeListMapping.time && <td className="py-1 pr-3">{time}</td>}
+                                <td className="py-1 pr-3">{edge.source}</td>
+                                <td className="py-1 pr-3">{edge.target}</td>
+                                <td className="py-1 pr-3">{edge.value.toLocaleString()}</td>
+                                {edgeListMapping.attributes.map((attribute) => (
+                                  <td key={attribute.column} className="py-1 pr-3">{String(edge[attribute.column] ?? '—')}</td>
+                                ))}
+                              </tr>
+                            ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Origin–Destination Matrix Mapping */}
+            {importMode === 'matrix' && matrixPreview && (
+              <div className="border-t pt-4 space-y-4">
+                <h3 className="font-semibold">Matrix Mapping</h3>
+                <div className="grid grid-cols-2 gap-3">
+                  {matrixSheets.length > 1 && (
+                    <div className="col-span-2">
+                      <label htmlFor="matrix-sheet" className="block text-sm font-medium text-gray-700 mb-1">
+                        Sheet
+                      </label>
+                      <select
+                        id="matrix-sheet"
+                        value={matrixSheetIndex}
+                        onChange={(e) => {
+                          setMatrixSheetIndex(Number(e.target.value))
+                          setMatrixOverrides({})
+                        }}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                      >
+                        {matrixSheets.map((sheet, index) => (
+                          <option key={sheet.name} value={index}>{sheet.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                  <div>
+                    <label htmlFor="matrix-header-row" className="block text-sm font-medium text-gray-700 mb-1">
+                      Header row
+                    </label>
+                    <input
+                      id="matrix-header-row"
+                      type="number"
+                      min={1}
+                      value={(matrixOverrides.headerRow ?? matrixPreview.layout?.headerRow ?? -1) + 1 || ''}
+                      placeholder="—"
+                      onChange={(e) => {
+                        const row = Number.parseInt(e.target.value, 10)
+                        setMatrixOverrides({ ...matrixOverrides, headerRow: row > 0 ? row - 1 : undefined })
+                      }}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="matrix-label-column" className="block text-sm font-medium text-gray-700 mb-1">
+                      Origin label column
+                    </label>
+                    <input
+                      id="matrix-label-column"
+                      type="number"
+                      min={1}
+                      value={(matrixOverrides.labelColumn ?? matrixPreview.layout?.labelColumn ?? -1) + 1 || ''}
+                      placeholder="—"
+                      onChange={(e) => {
+                        const column = Number.parseInt(e.target.value, 10)
+                        setMatrixOverrides({ ...matrixOverrides, labelColumn: column > 0 ? column - 1 : undefined })
+                      }}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="matrix-diagonal" className="block text-sm font-medium text-gray-700 mb-1">
+                      Self-flows (diagonal)
+                    </label>
+                    <select
+                      id="matrix-diagonal"
+                      value={diagonalPolicy}
+                      onChange={(e) => {
+                        if (isDiagonalPolicy(e.target.value)) setDiagonalPolicy(e.target.value)
+                      }}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                    >
+                      {DIAGONAL_POLICIES.map((policy) => (
+                        <option key={policy.value} value={policy.value}>{policy.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="matrix-year" className="block text-sm font-medium text-gray-700 mb-1">
+                      Year
+                    </label>
+                    <input
+                      id="matrix-year"
+                      type="number"
+                      value={matrixYear}
+                      onChange={(e) => {
+                        const year = Number.parseInt(e.target.value, 10)
+                        if (Number.isFinite(year)) setMatrixYear(year)
+                      }}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                    />
+                  </div>
+                </div>
+                {matrixPreview.layout && matrixPreview.result && (
+                  <div className="bg-gray-50 border border-gray-200 rounded p-3 text-sm text-gray-700 space-y-1">
+                    <div>
+                      <span className="font-medium">Layout:</span> {matrixPreview.result.origins} origins ×{' '}
+                      {matrixPreview.layout.destinations.length} destinations
+                      {matrixPreview.layout.square ? ', matched by label' : ''}
+                    </div>
+                    <div>
+                      <span className="font-medium">Margins of error:</span>{' '}
+                      {matrixPreview.layout.destinations.some((destination) => destination.moeColumn !== undefined)
+                        ? 'Estimate/MOE column pairs'
+                        : 'none found'}
+                    </div>
+                    <div>
+                      <span className="font-medium">Self-flows:</span> {matrixPreview.result.selfFlows}
+                      {matrixPreview.result.selfFlows > 0 &&
+                        (diagonalPolicy === 'attribute' ? ' (kept as self_flow)' : ' (dropped)')}
+                    </div>
+                    {matrixPreview.layout.ignoredColumns.length > 0 && (
+                      <div className="text-xs">
+                        <span className="font-medium">Ignored columns:</span> {matrixPreview.layout.ignoredColumns.join(', ')}
+                      </div>
+                    )}
+                    {matrixPreview.result.skippedRows.length > 0 && (
+                      <div className="text-xs">
+                        <span className="font-medium">Ignored rows:</span>{' '}
+                        {matrixPreview.result.skippedRows.slice(0, 8).join(', ')}
+                        {matrixPreview.result.skippedRows.length > 8 && ` and ${matrixPreview.result.skippedRows.length - 8} more`}
+                      </div>
+                    )}
+                  </div>
+                )}
+                {matrixGrid && matrixGrid.origins.length > 0 && (
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full text-xs">
+                      <thead>
+                        <tr className="border-b text-left text-gray-500">
+                          <th className="py-1 pr-3 font-medium">From \ To</th>
+                          {matrixGrid.destinations.map((id) => (
+                            <th key={id} className="py-1 pr-3 font-medium">{matrixGrid.labels.get(id)}</th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {matrixGrid.origins.map((origin) => (
+                          <tr key={origin} className="border-b">
+                            <td className="py-1 pr-3 font-medium">{matrixGrid.labels.get(origin)}</td>
+                            {matrixGrid.destinations.map((destination) => (
+                              <td key={destination} className="py-1 pr-3 text-gray-600">
+                                {matrixGrid.flows.get(`${origin}>${destination}`)?.toLocaleString() ?? '—'}
+                              </td>
+                            ))}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Dataset Name */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -812,6 +1717,24 @@ export default function ImportPanel({
                         : ''}
                     </div>
                   )}
+                  {graphFormatLabel && !parsedData.timeRange && (
+                    <div className="flex items-center gap-2">
+                      <label htmlFor="graph-year" className="font-medium">
+                        Year:
+                      </label>
+                      <input
+                        id="graph-year"
+                        type="number"
+                        value={graphYear}
+                        onChange={(e) => {
+                          const year = Number.parseInt(e.target.value, 10)
+                          if (Number.isFinite(year)) setGraphYear(year)
+                        }}
+                        className="w-24 px-2 py-1 border border-blue-300 rounded-md"
+                      />
+                      <span className="text-xs">The file has no time of its own.</span>
+                    </div>
+                  )}
                   {parsedData.nodes.length > 0 && (
                     <div className="mt-2 text-xs">
                       <span className="font-medium">Sample node properties:</span>{' '}
@@ -847,7 +1770,7 @@ export default function ImportPanel({
             disabled={isImporting || (() => {
               // Button is disabled if there are blocking errors (not just summary warnings)
               const blockingErrors = Object.keys(validationErrors).filter(k => k !== 'summary')
-              return blockingErrors.length > 0 || !parsedData
+              return blockingErrors.length > 0 || (importMode === 'acs-bulk' ? !acsPlan?.years.length : !parsedData)
             })()}
             className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer transition-colors"
           >
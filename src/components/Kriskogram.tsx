@@ -1,13 +1,27 @@
 import type React from 'react';
 import { useEffect, useRef, useImperativeHandle, forwardRef } from 'react';
-import type * as d3 from 'd3';
-import { createKriskogram } from '../lib/kriskogram';
-import type { KriskogramConfig, Node, Edge } from '../lib/kriskogram';
+import * as d3 from 'd3';
+import {
+  kriskogram,
+  type Edge,
+  type KriskogramAccessors,
+  type KriskogramChart,
+  type KriskogramEdgeStyle,
+  type KriskogramLens,
+  type KriskogramNodeGroup,
+  type KriskogramOffscreenInsets,
+  type KriskogramOverlay,
+  type KriskogramRendererOption,
+  type KriskogramUncertainty,
+  type KriskogramUpdateOptions,
+  type LegendItem,
+  type Node,
+} from '../d3-kriskogram';
 
 export interface KriskogramProps {
   nodes: Node[];
   edges: Edge[];
-  accessors?: KriskogramConfig['accessors'];
+  accessors?: KriskogramAccessors;
   width?: number;
   height?: number;
   margin?: { top: number; right: number; bottom: number; left: number };
@@ -15,80 +29,144 @@ export interface KriskogramProps {
   title?: string;
   className?: string;
   style?: React.CSSProperties;
-  lens?: { enabled: boolean; x: number; y: number; radius: number };
+  /** Lens that follows the cursor; `lenses` are pinned ones. Neither rebuilds the chart. */
+  lens?: KriskogramLens;
+  lenses?: KriskogramLens[];
   onMouseMoveInCanvas?: (pt: { x: number; y: number }) => void;
   onWheelInCanvas?: (deltaY: number) => void;
-  legend?: KriskogramConfig['legend'];
+  onClickInCanvas?: (pt: { x: number; y: number }) => void;
+  legend?: LegendItem | LegendItem[];
   labelScale?: number;
+  uncertainty?: KriskogramUncertainty;
+  /** Reads which edges belong to other years; those arcs tween by offset as the year steps. */
+  overlay?: KriskogramOverlay;
+  edgeStyle?: KriskogramEdgeStyle;
+  /** Dragging an arc slides to its other endpoint; onLinkSlide receives that node's id. */
+  linkSliding?: boolean;
+  onLinkSlide?: (nodeId: string) => void;
+  /** Clicking a node brings its neighbours beside it; onBringAndGo receives the neighbour travelled to. */
+  bringAndGo?: boolean;
+  onBringAndGo?: (nodeId: string) => void;
+  /** Insets along the canvas edge for off-screen nodes with flows into the zoomed view. */
+  offscreenInsets?: KriskogramOffscreenInsets;
+  /** Hovering a node reports its id, and null on leave; highlightedNodeId rings a node from outside. */
+  onNodeHover?: (nodeId: string | null) => void;
+  highlightedNodeId?: string | null;
+  /** Node groups; with transitionDuration set, collapsing and expanding them is animated. */
+  nodeGroups?: KriskogramNodeGroup[];
+  /** Arc renderer; 'auto' switches to canvas for large edge counts, rebuilding the chart when it flips. */
+  renderer?: KriskogramRendererOption;
+  /**
+   * When set, changes to nodes, edges, accessors and legend are tweened over this
+   * many milliseconds through updateData instead of rebuilding the chart.
+   */
+  transitionDuration?: number;
 }
 
 export interface KriskogramRef {
-  updateData: (nodes: Node[], edges: Edge[]) => void;
-  getSVG: () => d3.Selection<SVGSVGElement, unknown, HTMLElement, unknown> | null;
+  updateData: (nodes: Node[], edges: Edge[], options?: KriskogramUpdateOptions) => void;
+  getSVG: () => d3.Selection<SVGSVGElement, unknown, null, undefined> | null;
 }
 
+const DEFAULT_MARGIN = { top: 40, right: 40, bottom: 40, left: 40 };
+
 export const Kriskogram = forwardRef<KriskogramRef, KriskogramProps>(
-  ({ nodes, edges, accessors, width = 800, height = 400, margin, arcOpacity = 0.85, title, className, style, lens, onMouseMoveInCanvas, onWheelInCanvas, legend, labelScale }, ref) => {
+  ({ nodes, edges, accessors, width = 800, height = 400, margin = DEFAULT_MARGIN, arcOpacity = 0.85, title, className, style, lens, lenses, onMouseMoveInCanvas, onWheelInCanvas, onClickInCanvas, legend, labelScale = 1, uncertainty, overlay, edgeStyle, linkSliding = false, onLinkSlide, bringAndGo = false, onBringAndGo, offscreenInsets, onNodeHover, highlightedNodeId, nodeGroups, transitionDuration, renderer = 'auto' }, ref) => {
     const containerRef = useRef<HTMLDivElement>(null);
-    const kriskogramRef = useRef<ReturnType<typeof createKriskogram> | null>(null);
+    const chartRef = useRef<KriskogramChart | null>(null);
+    if (!chartRef.current) {
+      chartRef.current = kriskogram();
+    }
+    const chart = chartRef.current;
 
     useImperativeHandle(ref, () => ({
-      updateData: (newNodes: Node[], newEdges: Edge[]) => {
-        if (kriskogramRef.current) {
-          kriskogramRef.current.updateData(newNodes, newEdges);
+      updateData: (newNodes: Node[], newEdges: Edge[], options?: KriskogramUpdateOptions) => {
+        if (containerRef.current) {
+          chart.instance(containerRef.current)?.updateData(newNodes, newEdges, options);
         }
       },
       getSVG: () => {
-        return kriskogramRef.current?.svg || null;
+        return (containerRef.current && chart.instance(containerRef.current)?.svg) || null;
       },
     }));
 
-    useEffect(() => {
-      if (!containerRef.current) return;
+    // Listeners read the latest callbacks, so changing them never redraws
+    const onLinkSlideRef = useRef(onLinkSlide);
+    onLinkSlideRef.current = onLinkSlide;
+    const onBringAndGoRef = useRef(onBringAndGo);
+    onBringAndGoRef.current = onBringAndGo;
+    const onNodeHoverRef = useRef(onNodeHover);
+    onNodeHoverRef.current = onNodeHover;
+    const onClickInCanvasRef = useRef(onClickInCanvas);
+    onClickInCanvasRef.current = onClickInCanvas;
 
-      // Clear any existing content
-      containerRef.current.innerHTML = '';
-
-      // Create the kriskogram
-      const kriskogram = createKriskogram({
-        nodes,
-        edges,
-        accessors,
-        width,
-        height,
-        margin,
-        arcOpacity,
-        title,
-        container: containerRef.current ?? undefined,
-        lens,
-        legend,
-        labelScale,
-      });
-
-      kriskogramRef.current = kriskogram;
-
-      // Cleanup function
+    useEffect(() => {
+      chart
+        .on('linkSlide', (nodeId) => onLinkSlideRef.current?.(nodeId))
+        .on('bringAndGo', (nodeId) => onBringAndGoRef.current?.(nodeId))
+        .on('nodeHover', (nodeId) => onNodeHoverRef.current?.(nodeId));
+      const container = containerRef.current;
+      // Clicks on the svg or the arc canvas bubble up to the container
+      if (container) {
+        d3.select(container).on('click.canvas', (event: MouseEvent) => {
+          const [x, y] = d3.pointer(event, container);
+          onClickInCanvasRef.current?.({ x, y });
+        });
+      }
       return () => {
-        // Remove any tooltips when component unmounts
-        if (typeof document !== 'undefined') {
-          const tooltips = document.querySelectorAll('.kriskogram-tooltip');
-          for (const tooltip of tooltips) {
-            tooltip.remove();
-          }
-        }
-        if (containerRef.current) {
-          containerRef.current.innerHTML = '';
-        }
-        kriskogramRef.current = null;
+        if (!container) return;
+        d3.select(container).on('click.canvas', null);
+        chart.remove(container);
       };
-    }, [accessors, arcOpacity, edges, height, labelScale, lens, legend, margin, nodes, title, width]);
+    }, [chart]);
 
-    // Update data when props change
+    // Interaction options apply to the drawn chart in place; declared before the draw so a first draw picks them up
     useEffect(() => {
-      if (kriskogramRef.current && nodes.length > 0 && edges.length > 0) {
-        kriskogramRef.current.updateData(nodes, edges);
-      }
-    }, [nodes, edges]);
+      chart.lens(lens);
+    }, [chart, lens]);
+
+    useEffect(() => {
+      chart.lenses(lenses ?? []);
+    }, [chart, lenses]);
+
+    useEffect(() => {
+      chart.linkSliding(linkSliding);
+    }, [chart, linkSliding]);
+
+    useEffect(() => {
+      chart.bringAndGo(bringAndGo);
+    }, [chart, bringAndGo]);
+
+    useEffect(() => {
+      chart.offscreenInsets(offscreenInsets ?? { enabled: false });
+    }, [chart, offscreenInsets]);
+
+    useEffect(() => {
+      chart.highlightedNode(highlightedNodeId ?? null);
+    }, [chart, highlightedNodeId]);
+
+    // Margins usually arrive as fresh object literals, so the draw depends on their sides
+    const { top, right, bottom, left } = margin;
+
+    useEffect(() => {
+      if (!containerRef.current) return;
+      chart
+        .width(width)
+        .height(height)
+        .margin({ top, right, bottom, left })
+        .arcOpacity(arcOpacity)
+        .title(title)
+        .labelScale(labelScale)
+        .renderer(renderer)
+        .accessors(accessors ?? {})
+        .legend(legend === undefined ? [] : [legend].flat())
+        .uncertainty(uncertainty)
+        .overlay(overlay)
+        .edgeStyle(edgeStyle ?? { type: 'filled' })
+        .groups(nodeGroups)
+        .transition(transitionDuration ?? null);
+      d3.select(containerRef.current).datum({ nodes, edges }).call(chart);
+    }, [chart, nodes, edges, accessors, width, height, top, right, bottom, left, arcOpacity, title, labelScale, renderer, legend, uncertainty, overlay, edgeStyle, nodeGroups, transitionDuration]);
 
     return (
       <div
@@ -7,7 +7,7 @@ import {
 } from '../lib/gexf-parser';
 import Kriskogram from './Kriskogram';
 import type { KriskogramRef } from './Kriskogram';
-import type { Node as KriskogramNode, Edge as KriskogramEdge } from '../lib/kriskogram';
+import type { Node as KriskogramNode, Edge as KriskogramEdge } from '../d3-kriskogram';
 
 interface KriskogramDemoProps {
   gexfUrl?: string;
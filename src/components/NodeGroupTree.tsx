@@ -0,0 +1,66 @@
+import type { NodeGroupTreeEntry } from '../lib/node-grouping'
+
+interface NodeGroupTreeProps {
+  tree: NodeGroupTreeEntry[]
+  collapsed: string[]
+  onChange: (collapsed: string[]) => void
+}
+
+/**
+ * Collapse and expand controls for node groups. A collapsed group hides its
+ * sub-groups, since the coarsest collapsed level decides the super-node.
+ */
+export default function NodeGroupTree({ tree, collapsed, onChange }: NodeGroupTreeProps) {
+  const collapsedSet = new Set(collapsed)
+
+  const toggle = (key: string) => {
+    onChange(collapsedSet.has(key) ? collapsed.filter((entry) => entry !== key) : [...collapsed, key])
+  }
+
+  const renderEntries = (entries: NodeGroupTreeEntry[], depth: number) =>
+    entries.map((entry) => {
+      const isCollapsed = collapsedSet.has(entry.key)
+      return (
+        <li key={entry.key}>
+          <div className="flex items-center justify-between gap-2 py-0.5" style={{ paddingLeft: depth * 12 }}>
+            <span className="truncate" title={`${entry.attribute}: ${entry.value}`}>
+              {entry.value} <span className="text-gray-400">({entry.members.length})</span>
+            </span>
+            <button
+              type="button"
+              onClick={() => toggle(entry.key)}
+              className={`px-1.5 py-0.5 rounded border text-[11px] ${
+                isCollapsed ? 'bg-blue-50 border-blue-300 text-blue-700' : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              {isCollapsed ? 'Expand' : 'Collapse'}
+            </button>
+          </div>
+          {!isCollapsed && entry.children.length > 0 && <ul>{renderEntries(entry.children, depth + 1)}</ul>}
+        </li>
+      )
+    })
+
+  return (
+    <div className="space-y-2 text-xs text-gray-700">
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={() => onChange(tree.map((entry) => entry.key))}
+          className="flex-1 px-2 py-1 rounded border border-gray-300 hover:bg-gray-50"
+        >
+          Collapse all
+        </button>
+        <button
+          type="button"
+          onClick={() => onChange([])}
+          disabled={collapsed.length === 0}
+          className="flex-1 px-2 py-1 rounded border border-gray-300 hover:bg-gray-50 disabled:opacity-50"
+        >
+          Expand all
+        </button>
+      </div>
+      <ul className="max-h-56 overflow-y-auto pr-1">{renderEntries(tree, 0)}</ul>
+    </div>
+  )
+}
@@ -3,7 +3,7 @@ import { parseStateMigrationCSV, loadCSVFromUrl, REGION_COLORS, DIVISION_COLORS
 import type { MigrationData, MigrationNode, MigrationEdge } from '../lib/csv-parser';
 import Kriskogram from './Kriskogram';
 import type { KriskogramRef } from './Kriskogram';
-import type { Node as KriskogramNodeType, Edge as KriskogramEdgeType } from '../lib/kriskogram';
+import type { Node as KriskogramNodeType, Edge as KriskogramEdgeType } from '../d3-kriskogram';
 
 interface StateMigrationDemoProps {
   csvUrl?: string;
@@ -0,0 +1,83 @@
+import Kriskogram from '../Kriskogram'
+import type { KriskogramAccessors, KriskogramEdgeStyle, KriskogramRendererOption } from '../../d3-kriskogram'
+import type { ExplorerData } from '../../lib/explorer-pipeline'
+import { smallMultiplesGrid } from '../../lib/small-multiples'
+
+export interface SmallMultiplesPanelData {
+  key: string
+  label: string
+  data: ExplorerData
+}
+
+interface SmallMultiplesViewProps {
+  panels: SmallMultiplesPanelData[]
+  /** One accessor set for every panel, so order, widths and colours match across them. */
+  accessors: KriskogramAccessors
+  width: number
+  height: number
+  arcOpacity?: number
+  labelScale?: number
+  edgeStyle?: KriskogramEdgeStyle
+  renderer?: KriskogramRendererOption
+  hoveredNodeId?: string | null
+  onNodeHover?: (nodeId: string | null) => void
+  loading?: boolean
+  emptyMessage?: string
+}
+
+const PANEL_MARGIN = { top: 36, right: 16, bottom: 24, left: 16 }
+
+export default function SmallMultiplesView({
+  panels,
+  accessors,
+  width,
+  height,
+  arcOpacity = 0.85,
+  labelScale = 1,
+  edgeStyle,
+  renderer,
+  hoveredNodeId = null,
+  onNodeHover,
+  loading = false,
+  emptyMessage = 'Select at least one panel to compare.',
+}: SmallMultiplesViewProps) {
+  if (panels.length === 0) {
+    return (
+      <div className="flex h-full items-center justify-center text-sm text-gray-500">
+        {loading ? 'Computing panels…' : emptyMessage}
+      </div>
+    )
+  }
+
+  const { columns, panelWidth, panelHeight } = smallMultiplesGrid(panels.length, width, height)
+
+  return (
+    <div
+      className="grid h-full w-full overflow-auto"
+      style={{ gridTemplateColumns: `repeat(${columns}, ${panelWidth}px)`, gridAutoRows: `${panelHeight}px` }}
+    >
+      {panels.map((panel) => (
+        <div key={panel.key} className="relative border border-gray-200 bg-white">
+          <div className="absolute right-2 top-2 text-xs text-gray-500">
+            {panel.data.currentEdgeCount.toLocaleString()} flows
+          </div>
+          <Kriskogram
+            nodes={panel.data.nodes}
+            edges={panel.data.edges}
+            width={panelWidth - 2}
+            height={panelHeight - 2}
+            margin={PANEL_MARGIN}
+            arcOpacity={arcOpacity}
+            title={panel.label}
+            accessors={accessors}
+            labelScale={labelScale * 0.8}
+            edgeStyle={edgeStyle}
+            renderer={renderer}
+            onNodeHover={onNodeHover}
+            highlightedNodeId={hoveredNodeId}
+          />
+        </div>
+      ))}
+    </div>
+  )
+}
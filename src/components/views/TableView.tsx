@@ -124,7 +124,7 @@ export default function TableView({
   // Dynamically extract all property keys from edges
   const edgeColumns = useMemo<ColumnDef<Edge, any>[]>(() => {
     const sourceEdges = (editable ? editedEdges : edges).filter(
-      (edge: any) => !edge?._overlayType && !edge?.__isOverlay,
+      (edge) => !edge?._overlayType,
     )
     if (sourceEdges.length === 0) return []
 
@@ -221,7 +221,7 @@ export default function TableView({
   const nodeDisplayData = editable ? editedNodes : nodes
   const edgeDisplayData = useMemo(() => {
     const source = editable ? editedEdges : edges
-    return source.filter((edge: any) => !edge?._overlayType && !edge?.__isOverlay)
+    return source.filter((edge) => !edge?._overlayType)
   }, [editable, editedEdges, edges])
 
   const nodeTable = useReactTable({
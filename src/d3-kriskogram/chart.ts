@@ -0,0 +1,276 @@
+/**
+ * Reusable Kriskogram chart
+ *
+ * `kriskogram()` returns a chart configured through chained getter/setters and drawn
+ * by calling it on a selection bound to `{ nodes, edges }`, in the d3 reusable-chart
+ * style:
+ *
+ *   const chart = kriskogram<StateNode, MigrationEdge>().width(960).transition(500);
+ *   d3.select('#chart').datum({ nodes, edges }).call(chart);
+ *
+ * Each element keeps one rendered chart. Calling the chart again tweens it to the
+ * bound data when a transition is set and redraws it from scratch otherwise; layout
+ * options (size, margin, opacity, title, label scale, renderer) always redraw.
+ * Interaction options apply to rendered charts as soon as they are set.
+ */
+
+import { dispatch, type BaseType, type Selection } from 'd3';
+import { createKriskogram } from '../lib/kriskogram';
+import type { KriskogramLens } from '../lib/edge-lens';
+import { resolveKriskogramRenderer, type KriskogramRendererOption } from '../lib/kriskogram-canvas';
+import type { KriskogramEdgeStyle } from './edge-style';
+import type {
+  Edge,
+  KriskogramAccessors,
+  KriskogramData,
+  KriskogramInstance,
+  KriskogramNodeGroup,
+  KriskogramOffscreenInsets,
+  KriskogramOverlay,
+  KriskogramUncertainty,
+  LegendItem,
+  Node,
+} from './types';
+
+export interface KriskogramMargin {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+/** A d3-style option: called without an argument it reads, with one it writes and returns the chart. */
+export interface ChartOption<T, C> {
+  (): T;
+  (value: T): C;
+}
+
+export interface KriskogramOptions<N extends Node = Node, E extends Edge = Edge> {
+  width: number;
+  height: number;
+  margin: KriskogramMargin;
+  arcOpacity: number;
+  title: string | undefined;
+  labelScale: number;
+  renderer: KriskogramRendererOption;
+  accessors: KriskogramAccessors<N, E>;
+  legend: LegendItem[];
+  uncertainty: KriskogramUncertainty | undefined;
+  overlay: KriskogramOverlay<E> | undefined;
+  edgeStyle: KriskogramEdgeStyle;
+  groups: KriskogramNodeGroup[] | undefined; // Node groups tween between their members when collapsed or expanded
+  transition: number | null; // Update tween in ms, or null to redraw on every call
+  lens: KriskogramLens | undefined;
+  lenses: KriskogramLens[];
+  linkSliding: boolean;
+  bringAndGo: boolean;
+  offscreenInsets: KriskogramOffscreenInsets;
+  highlightedNode: string | null;
+}
+
+export type KriskogramChart<N extends Node = Node, E extends Edge = Edge> = {
+  <G extends HTMLElement, P extends BaseType, PDatum>(selection: Selection<G, KriskogramData<N, E>, P, PDatum>): void;
+  /** The chart rendered into `element`, if it has been called on it. */
+  instance: (element: Element) => KriskogramInstance | undefined;
+  /** Clears `element` and forgets its chart. */
+  remove: (element: Element) => void;
+  /**
+   * Listens for 'linkSlide' and 'bringAndGo' with the destination node id, and for
+   * 'nodeHover' with the hovered id or null. Names may carry a `.namespace`.
+   */
+  on: {
+    (type: `${'linkSlide' | 'bringAndGo'}${string}`, listener: ((nodeId: string) => void) | null): KriskogramChart<N, E>;
+    (type: `nodeHover${string}`, listener: ((nodeId: string | null) => void) | null): KriskogramChart<N, E>;
+  };
+} & { [K in keyof KriskogramOptions<N, E>]: ChartOption<KriskogramOptions<N, E>[K], KriskogramChart<N, E>> };
+
+type KriskogramEvents = {
+  linkSlide: [nodeId: string];
+  bringAndGo: [nodeId: string];
+  nodeHover: [nodeId: string | null];
+};
+
+const LAYOUT_OPTIONS = new Set<keyof KriskogramOptions>([
+  'width',
+  'height',
+  'margin',
+  'arcOpacity',
+  'title',
+  'labelScale',
+  'renderer',
+]);
+
+function sameOption(a: unknown, b: unknown) {
+  if (a === b) return true;
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object') return false;
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every((key) => (a as Record<string, unknown>)[key] === (b as Record<string, unknown>)[key])
+  );
+}
+
+function clearElement(element: Element) {
+  for (const tooltip of element.ownerDocument.querySelectorAll('.kriskogram-tooltip')) {
+    tooltip.remove();
+  }
+  element.replaceChildren();
+}
+
+export function kriskogram<N extends Node = Node, E extends Edge = Edge>(): KriskogramChart<N, E> {
+  const options: KriskogramOptions<N, E> = {
+    width: 800,
+    height: 400,
+    margin: { top: 40, right: 40, bottom: 40, left: 40 },
+    arcOpacity: 0.85,
+    title: undefined,
+    labelScale: 1,
+    renderer: 'auto',
+    accessors: {},
+    legend: [],
+    uncertainty: undefined,
+    overlay: undefined,
+    edgeStyle: { type: 'filled' },
+    groups: undefined,
+    transition: null,
+    lens: undefined,
+    lenses: [],
+    linkSliding: false,
+    bringAndGo: false,
+    offscreenInsets: { enabled: false },
+    highlightedNode: null,
+  };
+  const events = dispatch<Element, KriskogramEvents>('linkSlide', 'bringAndGo', 'nodeHover');
+  const rendered = new Map<Element, { instance: KriskogramInstance; layout: number }>();
+  // Bumped whenever a layout option changes, so the next call redraws
+  let layout = 0;
+
+  // Interaction options reach rendered charts without a redraw
+  const live: Partial<{ [K in keyof KriskogramOptions<N, E>]: (instance: KriskogramInstance) => void }> = {
+    lens: (instance) => instance.setLens(options.lens),
+    lenses: (instance) => instance.setLenses(options.lenses),
+    linkSliding: (instance) => instance.setLinkSliding(options.linkSliding),
+    bringAndGo: (instance) => instance.setBringAndGo(options.bringAndGo),
+    offscreenInsets: (instance) => instance.setOffscreenInsets(options.offscreenInsets),
+    highlightedNode: (instance) => instance.setHighlightedNode(options.highlightedNode),
+  };
+
+  function render(element: HTMLElement, { nodes, edges }: KriskogramData<N, E>) {
+    const current = rendered.get(element);
+    const renderer = resolveKriskogramRenderer(options.renderer, edges.length);
+    // The engine's accessors take plain nodes and edges; these are the same objects, typed
+    const accessors = options.accessors as KriskogramAccessors;
+    const overlay = options.overlay as KriskogramOverlay | undefined;
+    if (current && options.transition !== null && current.layout === layout && current.instance.renderer === renderer) {
+      current.instance.updateData(nodes, edges, {
+        accessors,
+        legend: options.legend,
+        uncertainty: options.uncertainty,
+        overlay,
+        edgeStyle: options.edgeStyle,
+        groups: options.groups,
+        duration: options.transition,
+      });
+      return;
+    }
+    clearElement(element);
+    const instance = createKriskogram({
+      container: element,
+      nodes,
+      edges,
+      accessors,
+      width: options.width,
+      height: options.height,
+      margin: options.margin,
+      arcOpacity: options.arcOpacity,
+      title: options.title,
+      labelScale: options.labelScale,
+      renderer,
+      legend: options.legend,
+      uncertainty: options.uncertainty,
+      overlay,
+      edgeStyle: options.edgeStyle,
+      lens: options.lens,
+      lenses: options.lenses,
+      linkSliding: options.linkSliding,
+      bringAndGo: options.bringAndGo,
+      offscreenInsets: options.offscreenInsets,
+      highlightedNodeId: options.highlightedNode,
+      onLinkSlide: (nodeId) => events.call('linkSlide', element, nodeId),
+      onBringAndGo: (nodeId) => events.call('bringAndGo', element, nodeId),
+      onNodeHover: (nodeId) => events.call('nodeHover', element, nodeId),
+    });
+    rendered.set(element, { instance, layout });
+  }
+
+  const draw = <G extends HTMLElement, P extends BaseType, PDatum>(
+    selection: Selection<G, KriskogramData<N, E>, P, PDatum>,
+  ) => {
+    selection.each(function (data) {
+      render(this, data);
+    });
+  };
+
+  function option<K extends keyof KriskogramOptions<N, E>>(
+    key: K,
+  ): ChartOption<KriskogramOptions<N, E>[K], KriskogramChart<N, E>> {
+    function accessor(): KriskogramOptions<N, E>[K];
+    function accessor(value: KriskogramOptions<N, E>[K]): KriskogramChart<N, E>;
+    function accessor(...args: [] | [KriskogramOptions<N, E>[K]]) {
+      if (args.length === 0) return options[key];
+      const [value] = args;
+      if (LAYOUT_OPTIONS.has(key) && !sameOption(options[key], value)) layout++;
+      options[key] = value;
+      const apply = live[key];
+      if (apply) {
+        for (const [element, { instance }] of rendered) {
+          if (element.isConnected) apply(instance);
+          else rendered.delete(element);
+        }
+      }
+      return chart;
+    }
+    return accessor;
+  }
+
+  function on(
+    type: `${'linkSlide' | 'bringAndGo'}${string}`,
+    listener: ((nodeId: string) => void) | null,
+  ): KriskogramChart<N, E>;
+  function on(type: `nodeHover${string}`, listener: ((nodeId: string | null) => void) | null): KriskogramChart<N, E>;
+  function on(type: string, listener: ((nodeId: string) => void) | ((nodeId: string | null) => void) | null) {
+    // The overloads pair each event with its own listener; dispatch itself cannot tell them apart
+    events.on(type as keyof KriskogramEvents, listener as ((nodeId: string | null) => void) | null);
+    return chart;
+  }
+
+  const chart: KriskogramChart<N, E> = Object.assign(draw, {
+    instance: (element: Element) => rendered.get(element)?.instance,
+    remove: (element: Element) => {
+      if (!rendered.delete(element)) return;
+      clearElement(element);
+    },
+    on,
+    width: option('width'),
+    height: option('height'),
+    margin: option('margin'),
+    arcOpacity: option('arcOpacity'),
+    title: option('title'),
+    labelScale: option('labelScale'),
+    renderer: option('renderer'),
+    accessors: option('accessors'),
+    legend: option('legend'),
+    uncertainty: option('uncertainty'),
+    overlay: option('overlay'),
+    edgeStyle: option('edgeStyle'),
+    groups: option('groups'),
+    transition: option('transition'),
+    lens: option('lens'),
+    lenses: option('lenses'),
+    linkSliding: option('linkSliding'),
+    bringAndGo: option('bringAndGo'),
+    offscreenInsets: option('offscreenInsets'),
+    highlightedNode: option('highlightedNode'),
+  });
+  return chart;
+}
@@ -0,0 +1,57 @@
+/** How every arc is stroked. Segmented arcs are dashed, and the dashes can travel along the flow. */
+export type KriskogramEdgeStyle =
+  | { type: 'filled' }
+  | { type: 'outline'; width?: number } // Stroke width of the hollow arc, defaults to 3
+  | {
+      type: 'segmented';
+      length: number; // Dash length
+      gap: number; // Space between dashes
+      offset?: number; // Dash offset, which also lifts the arc feet off the baseline
+      speed?: number; // Animation speed multiplier
+      cap?: 'round' | 'butt';
+      scaleByWeight?: boolean; // Heavier flows animate faster
+      animate?: boolean;
+    };
+
+/** An edge style reduced to the stroke attributes the renderer sets. */
+export interface EdgeStroke {
+  type: KriskogramEdgeStyle['type'];
+  width: number | null; // Fixed stroke width, or null to size arcs by weight
+  dash: string | null;
+  dashOffset: number;
+  lineCap: 'round' | 'butt';
+  footGap: number; // Distance the arc feet sit off the baseline
+  cycle: number; // Dash plus gap; dashes move one cycle at a time
+  speed: number;
+  scaleByWeight: boolean;
+  animate: boolean;
+}
+
+export function resolveEdgeStroke(style: KriskogramEdgeStyle = { type: 'filled' }): EdgeStroke {
+  const stroke: EdgeStroke = {
+    type: style.type,
+    width: null,
+    dash: null,
+    dashOffset: 0,
+    lineCap: 'round',
+    footGap: 0,
+    cycle: 0,
+    speed: 1,
+    scaleByWeight: false,
+    animate: false,
+  };
+  if (style.type === 'outline') {
+    stroke.width = Math.max(0.5, style.width ?? 3);
+  } else if (style.type === 'segmented') {
+    const offset = Math.max(0, style.offset ?? 0);
+    stroke.dash = `${Math.max(1, style.length)} ${Math.max(0.5, style.gap)}`;
+    stroke.dashOffset = offset;
+    stroke.footGap = offset;
+    stroke.lineCap = style.cap ?? 'round';
+    stroke.cycle = Math.max(1, style.length + style.gap);
+    stroke.speed = Math.max(0.1, style.speed ?? 1);
+    stroke.scaleByWeight = Boolean(style.scaleByWeight);
+    stroke.animate = Boolean(style.animate);
+  }
+  return stroke;
+}
@@ -0,0 +1,43 @@
+import type { ArcShape } from '../lib/kriskogram-canvas';
+
+/**
+ * An arc standing on the baseline between two node positions. Flows running right
+ * to left (x1 > x2) are the "above" arcs of the direction legend; in screen
+ * coordinates they sweep under the baseline and the others over it.
+ */
+export interface ArcGeometry {
+  x1: number;
+  x2: number;
+  isAbove: boolean;
+  startY: number; // y of both feet
+  radius: number; // Horizontal radius, half the span
+  arcHeight: number; // Vertical radius, the span's half unless a lens bends it
+  sweep: 0 | 1;
+}
+
+export interface ArcGeometryOptions {
+  gap?: number; // Lifts the feet off the baseline, capped at half the span
+  bend?: (x1: number, x2: number, startY: number, apexY: number) => number; // Height multiplier, e.g. from a lens
+}
+
+export function arcGeometry(x1: number, x2: number, baselineY: number, options: ArcGeometryOptions = {}): ArcGeometry {
+  const isAbove = x1 > x2;
+  const span = Math.max(Math.abs(x2 - x1), 1);
+  const gap = Math.max(0, Math.min(options.gap ?? 0, span / 2));
+  const startY = baselineY + (isAbove ? gap : -gap);
+  let arcHeight = span / 2;
+  if (options.bend) {
+    arcHeight *= options.bend(x1, x2, startY, isAbove ? startY + arcHeight : startY - arcHeight);
+  }
+  const sweep = (x1 < x2) !== isAbove ? 1 : 0;
+  return { x1, x2, isAbove, startY, radius: Math.max(span / 2, 1), arcHeight, sweep };
+}
+
+export function arcPath({ x1, x2, startY, radius, arcHeight, sweep }: ArcGeometry): string {
+  return `M${x1},${startY} A${radius},${arcHeight} 0 0,${sweep} ${x2},${startY}`;
+}
+
+/** The same arc as a half-ellipse; a clockwise sweep from left to right passes over the top. */
+export function arcShape({ x1, x2, startY, radius, arcHeight, sweep }: ArcGeometry): ArcShape {
+  return { cx: (x1 + x2) / 2, cy: startY, rx: radius, ry: arcHeight, side: (x1 < x2) === (sweep === 1) ? -1 : 1 };
+}
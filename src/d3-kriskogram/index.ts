@@ -0,0 +1,26 @@
+/**
+ * d3-kriskogram
+ *
+ * Kriskograms for any node–edge data: nodes on a baseline, flows as arcs between
+ * them. `kriskogram()` is the reusable chart; the geometry and legend layout it
+ * draws with are exported for charts of their own.
+ */
+
+export { kriskogram } from './chart';
+export type { ChartOption, KriskogramChart, KriskogramMargin, KriskogramOptions } from './chart';
+export { resolveEdgeStroke } from './edge-style';
+export type { EdgeStroke, KriskogramEdgeStyle } from './edge-style';
+export { arcGeometry, arcPath, arcShape } from './geometry';
+export type { ArcGeometry, ArcGeometryOptions } from './geometry';
+export { LEGEND_FRAME_PADDING, LEGEND_ITEM_SPACING, estimateTextWidth, layoutLegend } from './legend-layout';
+export type { LegendBox, LegendLayout } from './legend-layout';
+export type * from './types';
+export { createKriskogram } from '../lib/kriskogram';
+export {
+  CANVAS_EDGE_THRESHOLD,
+  KRISKOGRAM_RENDERERS,
+  isKriskogramRendererOption,
+  resolveKriskogramRenderer,
+} from '../lib/kriskogram-canvas';
+export type { KriskogramRenderer, KriskogramRendererOption } from '../lib/kriskogram-canvas';
+export type { KriskogramLens, LensEffect, LensShape } from '../lib/edge-lens';
@@ -0,0 +1,53 @@
+/**
+ * Legend layout
+ *
+ * Legend items are drawn before they can be measured, and SVG text has no cheap
+ * synchronous width in every environment, so item widths come from a per-character
+ * estimate. The items then stack top to bottom inside one rounded frame.
+ */
+
+export interface LegendBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface LegendLayout {
+  items: LegendBox[];
+  frame: LegendBox; // Background behind every item
+}
+
+export const LEGEND_ITEM_SPACING = 12;
+export const LEGEND_FRAME_PADDING = 10;
+
+/** Approximate width of legend text at 11–12px. */
+export function estimateTextWidth(text: string, bold = false): number {
+  return text.length * (bold ? 6.8 : 6.2);
+}
+
+/** Stacks item sizes downwards from `origin`, `spacing` apart. */
+export function layoutLegend(
+  sizes: Array<{ width: number; height: number }>,
+  origin: { x: number; y: number },
+  spacing = LEGEND_ITEM_SPACING,
+): LegendLayout {
+  const items: LegendBox[] = [];
+  let y = origin.y;
+  let maxWidth = 0;
+  for (const { width, height } of sizes) {
+    items.push({ x: origin.x, y, width, height });
+    y += height + spacing;
+    maxWidth = Math.max(maxWidth, width);
+  }
+  const contentHeight = Math.max(0, y - origin.y - (sizes.length > 0 ? spacing : 0));
+  return {
+    items,
+    frame: {
+      x: origin.x - LEGEND_FRAME_PADDING,
+      y: origin.y - LEGEND_FRAME_PADDING,
+      width: maxWidth + LEGEND_FRAME_PADDING * 2,
+      height: contentHeight + LEGEND_FRAME_PADDING * 2,
+    },
+  };
+}
@@ -0,0 +1,197 @@
+import type * as d3 from 'd3';
+import type { DoiFunction } from '../lib/degree-of-interest';
+import type { KriskogramLens } from '../lib/edge-lens';
+import type { KriskogramRenderer, KriskogramRendererOption } from '../lib/kriskogram-canvas';
+import type { UncertaintyMode, UnreliableFlowStyle } from '../lib/uncertainty';
+import type { KriskogramEdgeStyle } from './edge-style';
+
+// -------------------- Data --------------------
+
+export type Node = {
+  id: string;
+  label?: string;
+  [key: string]: unknown;
+};
+
+export type Edge = {
+  source: string;  // Node.id
+  target: string;  // Node.id
+  value: number;   // positive magnitude
+  [key: string]: unknown;
+};
+
+export interface KriskogramData<N extends Node = Node, E extends Edge = Edge> {
+  nodes: N[];
+  edges: E[];
+}
+
+// -------------------- Options --------------------
+
+export interface KriskogramAccessors<N extends Node = Node, E extends Edge = Edge> {
+  nodeLabel?: (node: N) => string;
+  nodeColor?: (node: N) => string;
+  nodeRadius?: (node: N) => number;
+  nodeShape?: (node: N) => 'circle' | 'rect';
+  nodeStroke?: (node: N) => { color: string; width?: number; dashArray?: string };
+  edgeWidth?: (edge: E) => number;
+  edgeColor?: (edge: E, isAbove: boolean) => string;
+  nodeOrder?: (node: N) => string | number;
+  edgeMoe?: (edge: E) => number | null | undefined; // defaults to edge.moe
+  edgeDash?: (edge: E) => string | null | undefined; // Per-arc dash pattern; a segmented edge style takes precedence
+  edgeDetails?: (edge: E) => Array<{ label: string; value: string }>; // Tooltip rows shown in place of the flow value
+}
+
+/**
+ * Arcs drawn from other years alongside the current one. Overlay arcs are keyed by
+ * their offset, so stepping through years tweens them rather than replacing them,
+ * and they are left out of uncertainty marks, minimap density and ego highlighting.
+ */
+export interface KriskogramOverlay<E extends Edge = Edge> {
+  offset: (edge: E) => number | null | undefined; // Years from the displayed one; 0 or empty for current arcs
+  year?: (edge: E) => number | null | undefined; // Shown in the arc tooltip
+}
+
+export interface KriskogramOffscreenInsets {
+  enabled: boolean;
+  doi?: DoiFunction; // Scores an off-screen node from the values of its flows into the view
+  maxPerSide?: number; // Defaults to 5
+}
+
+export interface KriskogramUncertainty {
+  mode: UncertaintyMode; // 'band' draws estimate ± MOE around the arc, 'range' narrows the arc to the lower bound
+  cvThreshold?: number; // Flows with a coefficient of variation above this are unreliable
+  unreliableStyle?: UnreliableFlowStyle;
+}
+
+export interface KriskogramNodeGroup {
+  id: string;
+  members: string[];
+}
+
+// -------------------- Legend --------------------
+
+export type LegendDirectionItem = {
+  type: 'direction';
+  title?: string;
+  labels?: { above?: string; below?: string };
+  colors?: { above?: string; below?: string };
+};
+
+export type LegendWeightItem = {
+  type: 'weight';
+  color: string;
+  scale?: 'linear' | 'sqrt' | 'log';
+  min?: number;
+  max?: number;
+  samples?: Array<{ value: number; color: string; width: number; fraction?: number }>;
+};
+
+export type LegendEdgeWidthItem = {
+  type: 'edgeWidth';
+  mode: 'weight' | 'fixed';
+  flowMode?: string; // How bidirectional pairs were combined, when they were
+  scale?: 'linear' | 'sqrt' | 'log';
+  multiplier?: number;
+  baseWidth?: number;
+  min?: number;
+  max?: number;
+  samples?: Array<{ label: string; width: number; value?: number; fraction?: number }>;
+};
+
+export type LegendNodeSizeItem = {
+  type: 'nodeSize';
+  mode: string;
+  scale?: 'linear' | 'sqrt' | 'log';
+  multiplier?: number;
+  entries: Array<{ label: string; radius: number; value?: number }>;
+  note?: string;
+};
+
+export type LegendTemporalOverlayItem = {
+  type: 'temporalOverlay';
+  title?: string;
+  entries: Array<{ label: string; color: string; delta?: number }>;
+};
+
+export type LegendEgoStepsItem = {
+  type: 'egoSteps';
+  entries: Array<{ step: number; color: string }>;
+};
+
+export type LegendCategoricalItem = {
+  type: 'categorical';
+  title?: string;
+  entries: Array<{ label: string; color: string }>;
+  interNote?: string;
+};
+
+export type LegendUncertaintyItem = {
+  type: 'uncertainty';
+  mode: UncertaintyMode;
+  color?: string;
+  cvThreshold?: number;
+  unreliableStyle?: UnreliableFlowStyle;
+};
+
+export type LegendItem =
+  | LegendDirectionItem
+  | LegendWeightItem
+  | LegendEdgeWidthItem
+  | LegendNodeSizeItem
+  | LegendTemporalOverlayItem
+  | LegendEgoStepsItem
+  | LegendCategoricalItem
+  | LegendUncertaintyItem;
+
+// -------------------- Renderer --------------------
+
+export interface KriskogramConfig {
+  nodes: Node[];
+  edges: Edge[];
+  accessors?: KriskogramAccessors;
+  width?: number;
+  height?: number;
+  margin?: { top: number; right: number; bottom: number; left: number };
+  arcOpacity?: number; // Arc transparency (0-1), defaults to 0.85
+  container?: string | HTMLElement; // CSS selector or DOM element, defaults to "body"
+  title?: string; // Title to display, defaults to "Migration Flow Visualization"
+  lens?: KriskogramLens; // Lens that follows the cursor
+  lenses?: KriskogramLens[]; // Pinned lenses, active alongside the cursor lens
+  legend?: LegendItem | LegendItem[];
+  labelScale?: number;
+  uncertainty?: KriskogramUncertainty;
+  overlay?: KriskogramOverlay;
+  edgeStyle?: KriskogramEdgeStyle; // Defaults to filled arcs
+  linkSliding?: boolean; // Dragging an arc slides along it to the other endpoint
+  onLinkSlide?: (nodeId: string) => void; // Called with the destination node when a slide completes
+  bringAndGo?: boolean; // Clicking a node brings its neighbours beside it; clicking one of them goes there
+  onBringAndGo?: (nodeId: string) => void; // Called once the view has settled on the chosen neighbour
+  offscreenInsets?: KriskogramOffscreenInsets;
+  onNodeHover?: (nodeId: string | null) => void; // Called when the pointer enters a node, and with null when it leaves
+  highlightedNodeId?: string | null; // Node ringed and given label priority, e.g. one hovered in a linked view
+  renderer?: KriskogramRendererOption; // 'auto' (default) draws arcs to a canvas above CANVAS_EDGE_THRESHOLD edges
+}
+
+export interface KriskogramUpdateOptions {
+  accessors?: KriskogramAccessors; // Replaces the active accessors before the transition
+  legend?: LegendItem | LegendItem[];
+  duration?: number; // Transition length in ms, defaults to 750
+  uncertainty?: KriskogramUncertainty;
+  overlay?: KriskogramOverlay;
+  edgeStyle?: KriskogramEdgeStyle;
+  // Node groups, collapsed or not: nodes that share members grow out of and merge into each other
+  groups?: KriskogramNodeGroup[];
+}
+
+/** A rendered chart, as returned by createKriskogram. */
+export interface KriskogramInstance {
+  svg: d3.Selection<SVGSVGElement, unknown, null, undefined>;
+  renderer: KriskogramRenderer;
+  setLens: (lens: KriskogramLens | undefined) => void;
+  setLenses: (lenses: KriskogramLens[]) => void;
+  setLinkSliding: (enabled: boolean) => void;
+  setOffscreenInsets: (options: KriskogramOffscreenInsets) => void;
+  setHighlightedNode: (nodeId: string | null) => void;
+  setBringAndGo: (enabled: boolean) => void;
+  updateData: (nodes: Node[], edges: Edge[], options?: KriskogramUpdateOptions) => void;
+}
@@ -13,7 +13,7 @@ import {
   type KriskogramNode,
   type KriskogramEdge,
 } from '../lib/gexf-parser';
-import type { KriskogramConfig } from '../lib/kriskogram';
+import type { KriskogramConfig } from '../d3-kriskogram';
 
 // Example 1: Load GEXF data from file
 export async function loadMigrationData() {
@@ -0,0 +1,59 @@
+/**
+ * Approximate geographic centres of the US states, keyed by the labels in
+ * stateLabels.ts. State migration snapshots carry no coordinates, so geographic
+ * ordering and the linked map fall back to these.
+ */
+export const STATE_CENTROIDS: Record<string, { latitude: number; longitude: number }> = {
+  Alabama: { latitude: 32.8, longitude: -86.8 },
+  Alaska: { latitude: 64.0, longitude: -152.0 },
+  Arizona: { latitude: 34.3, longitude: -111.7 },
+  Arkansas: { latitude: 34.9, longitude: -92.4 },
+  California: { latitude: 37.2, longitude: -119.5 },
+  Colorado: { latitude: 39.0, longitude: -105.5 },
+  Connecticut: { latitude: 41.6, longitude: -72.7 },
+  Delaware: { latitude: 39.0, longitude: -75.5 },
+  'District of Columbia': { latitude: 38.9, longitude: -77.0 },
+  Florida: { latitude: 28.6, longitude: -82.4 },
+  Georgia: { latitude: 32.7, longitude: -83.4 },
+  Hawaii: { latitude: 20.8, longitude: -156.3 },
+  Idaho: { latitude: 44.4, longitude: -114.6 },
+  Illinois: { latitude: 40.0, longitude: -89.2 },
+  Indiana: { latitude: 39.9, longitude: -86.3 },
+  Iowa: { latitude: 42.1, longitude: -93.5 },
+  Kansas: { latitude: 38.5, longitude: -98.4 },
+  Kentucky: { latitude: 37.5, longitude: -85.3 },
+  Louisiana: { latitude: 31.1, longitude: -92.0 },
+  Maine: { latitude: 45.4, longitude: -69.2 },
+  Maryland: { latitude: 39.0, longitude: -76.8 },
+  Massachusetts: { latitude: 42.3, longitude: -71.8 },
+  Michigan: { latitude: 44.3, longitude: -85.4 },
+  Minnesota: { latitude: 46.3, longitude: -94.3 },
+  Mississippi: { latitude: 32.7, longitude: -89.7 },
+  Missouri: { latitude: 38.4, longitude: -92.5 },
+  Montana: { latitude: 47.0, longitude: -109.6 },
+  Nebraska: { latitude: 41.5, longitude: -99.8 },
+  Nevada: { latitude: 39.3, longitude: -116.6 },
+  'New Hampshire': { latitude: 43.7, longitude: -71.6 },
+  'New Jersey': { latitude: 40.2, longitude: -74.7 },
+  'New Mexico': { latitude: 34.4, longitude: -106.1 },
+  'New York': { latitude: 42.9, longitude: -75.5 },
+  'North Carolina': { latitude: 35.6, longitude: -79.4 },
+  'North Dakota': { latitude: 47.5, longitude: -100.5 },
+  Ohio: { latitude: 40.3, longitude: -82.8 },
+  Oklahoma: { latitude: 35.6, longitude: -97.5 },
+  Oregon: { latitude: 43.9, longitude: -120.6 },
+  Pennsylvania: { latitude: 40.9, longitude: -77.8 },
+  'Puerto Rico': { latitude: 18.2, longitude: -66.5 },
+  'Rhode Island': { latitude: 41.7, longitude: -71.5 },
+  'South Carolina': { latitude: 33.9, longitude: -80.9 },
+  'South Dakota': { latitude: 44.4, longitude: -100.2 },
+  Tennessee: { latitude: 35.9, longitude: -86.4 },
+  Texas: { latitude: 31.5, longitude: -99.3 },
+  Utah: { latitude: 39.3, longitude: -111.7 },
+  Vermont: { latitude: 44.1, longitude: -72.7 },
+  Virginia: { latitude: 37.5, longitude: -78.9 },
+  Washington: { latitude: 47.4, longitude: -120.5 },
+  'West Virginia': { latitude: 38.6, longitude: -80.6 },
+  Wisconsin: { latitude: 44.6, longitude: -89.9 },
+  Wyoming: { latitude: 43.0, longitude: -107.6 },
+};
@@ -0,0 +1,402 @@
+/**
+ * ACS bulk import
+ *
+ * Turns a batch of Census Bureau state-to-state migration tables into one dataset with a
+ * snapshot per year. Files can be the tidy CSVs in src/data or the original XLS/XLSX
+ * workbooks. A file's period is read from its contents (the `period` column or the
+ * workbook title) and, failing that, from its filename.
+ *
+ * Multi-year releases such as 2005–2007 (3-year ACS) cover the same years as the 1-year
+ * tables, so an explicit overlap policy decides what happens to them: they are skipped, or
+ * filed under the last or middle year of their period. When several files land on one
+ * year, a 1-year release beats a multi-year one and a shorter period beats a longer one.
+ */
+
+import { parseCsv, readCsvFile } from './csv'
+import { parseStateMigrationRows } from './csv-parser'
+import type { MigrationData } from './csv-parser'
+import { detectDatasetProperties } from './storage'
+import type { StoredDataset, StoredSnapshot } from './storage'
+
+export type AcsOverlapPolicy = 'skip' | 'end' | 'middle'
+
+export const ACS_OVERLAP_POLICIES: Array<{ value: AcsOverlapPolicy; label: string }> = [
+  { value: 'skip', label: 'Skip multi-year releases' },
+  { value: 'end', label: 'File under the last year' },
+  { value: 'middle', label: 'File under the middle year' },
+]
+
+export function isAcsOverlapPolicy(value: string): value is AcsOverlapPolicy {
+  return ACS_OVERLAP_POLICIES.some((entry) => entry.value === value)
+}
+
+export interface AcsPeriod {
+  start: number
+  end: number
+}
+
+export interface AcsFile {
+  filename: string
+  period: AcsPeriod | null
+  periodSource: 'contents' | 'filename' | null
+  data: MigrationData | null
+  /** Same-state rows (non-movers in the 2005–2009 tables) dropped from the flows. */
+  sameStateRows: number
+  error?: string
+}
+
+export type AcsEntryStatus = 'included' | 'skipped' | 'superseded' | 'failed'
+
+export interface AcsImportEntry {
+  filename: string
+  period: AcsPeriod | null
+  periodSource: AcsFile['periodSource']
+  /** Snapshot year the file is filed under, null when it is left out. */
+  year: number | null
+  status: AcsEntryStatus
+  note?: string
+  nodeCount: number
+  edgeCount: number
+  /** Nodes that other included files have and this one lacks. */
+  missingNodes: string[]
+}
+
+export interface AcsImportPlan {
+  /** One entry per file, in the order the files were given. */
+  entries: AcsImportEntry[]
+  years: number[]
+  /** Years between the first and last snapshot that no file covers. */
+  missingYears: number[]
+  timeRange: { start: number; end: number } | null
+}
+
+const PERIOD_PATTERN = /(?<!\d)((?:19|20)\d{2})(?:\s*[-–_]\s*((?:19|20)\d{2}))?(?!\d)/
+
+/**
+ * First year or year range in `text`, e.g. "2014", "2005-2007" or "table_2005_2007.csv".
+ * A second year only makes a range when it follows directly and lies within ten years.
+ */
+export function parseAcsPeriod(text: string): AcsPeriod | null {
+  const match = PERIOD_PATTERN.exec(text)
+  if (!match) return null
+  const start = Number(match[1])
+  const end = match[2] ? Number(match[2]) : start
+  return end >= start && end - start < 10 ? { start, end } : { start, end: start }
+}
+
+/**
+ * Period most title cells agree on. Census sheets repeat their titles across column
+ * blocks, and some carry a stray title from another release in a single cell.
+ */
+function titlePeriod(cells: string[]): AcsPeriod | null {
+  const votes = new Map<string, { period: AcsPeriod; count: number }>()
+  for (const cell of cells) {
+    const period = parseAcsPeriod(cell)
+    if (!period) continue
+    const key = formatAcsPeriod(period)
+    const vote = votes.get(key)
+    if (vote) vote.count++
+    else votes.set(key, { period, count: 1 })
+  }
+  let best: { period: AcsPeriod; count: number } | null = null
+  for (const vote of votes.values()) {
+    if (!best || vote.count > best.count) best = vote
+  }
+  return best?.period ?? null
+}
+
+export function formatAcsPeriod(period: AcsPeriod): string {
+  return period.start === period.end ? String(period.start) : `${period.start}–${period.end}`
+}
+
+function withPeriod(filename: string, contentsPeriod: AcsPeriod | null) {
+  const filenamePeriod = contentsPeriod ? null : parseAcsPeriod(filename)
+  return {
+    period: contentsPeriod ?? filenamePeriod,
+    periodSource: contentsPeriod ? ('contents' as const) : filenamePeriod ? ('filename' as const) : null,
+  }
+}
+
+function fromMigrationData(filename: string, contentsPeriod: AcsPeriod | null, parse: () => MigrationData): AcsFile {
+  const { period, periodSource } = withPeriod(filename, contentsPeriod)
+  try {
+    const parsed = parse()
+    const edges = parsed.edges.filter((edge) => edge.source !== edge.target)
+    if (edges.length === 0) {
+      return { filename, period, periodSource, data: null, sameStateRows: 0, error: 'No state-to-state flows found' }
+    }
+    return {
+      filename,
+      period,
+      periodSource,
+      data: { nodes: parsed.nodes, edges },
+      sameStateRows: parsed.edges.length - edges.length,
+    }
+  } catch (error) {
+    return {
+      filename,
+      period,
+      periodSource,
+      data: null,
+      sameStateRows: 0,
+      error: error instanceof Error ? error.message : 'Could not read the table',
+    }
+  }
+}
+
+/** Reads a tidy or legacy Census CSV; the period comes from its `period` column or title lines. */
+export function readAcsCsv(filename: string, content: string): AcsFile {
+  return readAcsRows(filename, parseCsv(content).rows)
+}
+
+/** Like `readAcsCsv`, for rows already read by `readCsvFile`. */
+export function readAcsRows(filename: string, csvRows: string[][]): AcsFile {
+  const rows = csvRows.filter((row) => row.some((cell) => cell.trim() !== '')).slice(0, 3)
+  const header = (rows[0] ?? []).map((cell) => cell.trim().toLowerCase())
+  const periodIndex = header.indexOf('period')
+  const contentsPeriod =
+    periodIndex >= 0 ? parseAcsPeriod(rows[1]?.[periodIndex] ?? '') : titlePeriod(rows.flat())
+  return fromMigrationData(filename, contentsPeriod, () => parseStateMigrationRows(csvRows))
+}
+
+// Worksheet layout, as handled by scripts/convert-state-migration-xls-to-csv.mjs
+const STATE_HEADER_PATTERN = /^(total|alabama|arizona|new york|california)$/i
+const NOTE_ROW_PATTERN = /^(footnotes?|source:)/i
+
+function isExcludedLabel(label: string) {
+  const normalized = label.trim().replace(/\s+/g, ' ').replace(/\s*\d+$/, '').toUpperCase()
+  return (
+    !normalized ||
+    /TOTAL|UNITED STATES|U\.?S\.? ISLAND/.test(normalized) ||
+    normalized === 'PUERTO RICO' ||
+    normalized === 'FOREIGN COUNTRY'
+  )
+}
+
+function worksheetNumber(value: unknown) {
+  if (typeof value === 'number') return Math.abs(value)
+  const cleaned = String(value ?? '')
+    .replace(/−/g, '-')
+    .replace(/[",\s±+/]/g, '')
+  const parsed = Number.parseFloat(cleaned)
+  return Number.isNaN(parsed) ? Number.NaN : Math.abs(parsed)
+}
+
+const cellText = (cell: unknown) => (typeof cell === 'string' ? cell.trim() : '')
+const stateId = (label: string) =>
+  label
+    .trim()
+    .replace(/\s+/g, '_')
+    .replace(/[^a-zA-Z0-9_]/g, '')
+    .toUpperCase()
+
+/**
+ * Reads the rows of a Census workbook sheet: a header row of destination states, each
+ * with an estimate and MOE column, above one row per state of current residence. Rows
+ * are rewritten as tidy CSV rows so workbooks and CSVs share the same parser.
+ */
+export function readAcsWorksheet(filename: string, rows: unknown[][]): AcsFile {
+  const headerIndex = rows.findIndex((row) => {
+    const labels = (row ?? []).map(cellText).filter(Boolean)
+    return labels.length >= 10 && labels.some((label) => STATE_HEADER_PATTERN.test(label))
+  })
+  const contentsPeriod = titlePeriod(
+    rows
+      .slice(0, headerIndex === -1 ? 8 : headerIndex)
+      .flat()
+      .map(cellText),
+  )
+  const period = contentsPeriod ?? parseAcsPeriod(filename)
+  const periodLabel = period ? formatAcsPeriod(period).replace('–', '-') : ''
+
+  return fromMigrationData(filename, contentsPeriod, () => {
+    if (headerIndex === -1) throw new Error('Could not find the row of destination states')
+    const destinations = rows[headerIndex]
+      .map((cell, index) => ({ label: cellText(cell), index }))
+      .filter(({ label }) => label && !/year ago/i.test(label) && !isExcludedLabel(label))
+
+    const tidy = [['period', 'source_id', 'source_label', 'destination_id', 'destination_label', 'estimate', 'moe']]
+    // Skip the Estimate/MOE row under the header
+    for (const row of rows.slice(headerIndex + 2)) {
+      const sourceLabel = cellText(row?.[0])
+      if (!sourceLabel || NOTE_ROW_PATTERN.test(sourceLabel) || isExcludedLabel(sourceLabel)) continue
+      for (const { label, index } of destinations) {
+        const estimate = worksheetNumber(row[index])
+        if (!Number.isFinite(estimate) || estimate <= 0) continue
+        const moe = worksheetNumber(row[index + 1])
+        tidy.push([
+          periodLabel,
+          stateId(sourceLabel),
+          sourceLabel,
+          stateId(label),
+          label,
+          String(estimate),
+          Number.isFinite(moe) ? String(moe) : '',
+        ])
+      }
+    }
+    return parseStateMigrationRows(tidy)
+  })
+}
+
+export const isAcsWorkbook = (filename: string) => /\.xlsx?$/i.test(filename)
+
+/** Reads one CSV, XLS or XLSX file. Workbooks use the sheet named like a table or state list. */
+export async function readAcsFile(file: File): Promise<AcsFile> {
+  if (!isAcsWorkbook(file.name)) return readAcsRows(file.name, (await readCsvFile(file)).rows)
+  try {
+    const XLSX = await import('xlsx')
+    const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' })
+    const sheetName =
+      workbook.SheetNames.find((name) => /table/i.test(name)) ??
+      workbook.SheetNames.find((name) => /state/i.test(name)) ??
+      workbook.SheetNames[0]
+    if (!sheetName) throw new Error('The workbook has no sheets')
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[sheetName], { header: 1, raw: false, defval: '' })
+    return readAcsWorksheet(file.name, rows)
+  } catch (error) {
+    return {
+      filename: file.name,
+      ...withPeriod(file.name, null),
+      data: null,
+      sameStateRows: 0,
+      error: error instanceof Error ? error.message : 'Could not read the workbook',
+    }
+  }
+}
+
+function yearFor(period: AcsPeriod, policy: AcsOverlapPolicy): number | null {
+  if (period.start === period.end) return period.start
+  if (policy === 'end') return period.end
+  if (policy === 'middle') return Math.floor((period.start + period.end) / 2)
+  return null
+}
+
+/**
+ * Files each table under a year and reports what the dataset will contain. `yearOverrides`,
+ * keyed by the table's index in `files`, files a table under a chosen year regardless of
+ * its period and wins that year over any detected one.
+ */
+export function planAcsImport(
+  files: AcsFile[],
+  policy: AcsOverlapPolicy,
+  yearOverrides: Record<number, number> = {},
+): AcsImportPlan {
+  const entries: AcsImportEntry[] = files.map((file) => ({
+    filename: file.filename,
+    period: file.period,
+    periodSource: file.periodSource,
+    year: null,
+    status: 'failed',
+    nodeCount: file.data?.nodes.length ?? 0,
+    edgeCount: file.data?.edges.length ?? 0,
+    missingNodes: [],
+  }))
+
+  // Candidates per year, ranked by the length of the period they stand for
+  const claims = new Map<number, Array<{ index: number; rank: number }>>()
+  files.forEach((file, index) => {
+    const entry = entries[index]
+    if (!file.data) {
+      entry.note = file.error
+      return
+    }
+    const override = yearOverrides[index]
+    const year = Number.isFinite(override) ? override : file.period ? yearFor(file.period, policy) : null
+    if (year === null) {
+      entry.status = 'skipped'
+      entry.note = file.period
+        ? `${formatAcsPeriod(file.period)} is a multi-year release`
+        : 'No year found in the file or its name'
+      return
+    }
+    entry.year = year
+    const rank = Number.isFinite(override) || !file.period ? 0 : file.period.end - file.period.start + 1
+    claims.set(year, [...(claims.get(year) ?? []), { index, rank }])
+  })
+
+  for (const candidates of claims.values()) {
+    const [winner, ...others] = [...candidates].sort((a, b) => a.rank - b.rank || a.index - b.index)
+    entries[winner.index].status = 'included'
+    for (const { index } of others) {
+      entries[index].status = 'superseded'
+      entries[index].note = `${entries[winner.index].filename} covers ${entries[index].year}`
+      entries[index].year = null
+    }
+  }
+
+  const included = entries.flatMap((entry, index) => (entry.status === 'included' ? [index] : []))
+  const nodeIds = included.map((index) => new Set((files[index].data as MigrationData).nodes.map((node) => node.id)))
+  const allIds = new Set(nodeIds.flatMap((ids) => [...ids]))
+  included.forEach((index, position) => {
+    entries[index].missingNodes = [...allIds].filter((id) => !nodeIds[position].has(id)).sort()
+    const file = files[index]
+    if (file.period && file.period.start !== file.period.end) {
+      entries[index].note = `${formatAcsPeriod(file.period)} release`
+    }
+    if (file.sameStateRows > 0) {
+      const dropped = `${file.sameStateRows} same-state rows dropped`
+      entries[index].note = entries[index].note ? `${entries[index].note}; ${dropped}` : dropped
+    }
+  })
+
+  const years = included.map((index) => entries[index].year as number).sort((a, b) => a - b)
+  const missingYears: number[] = []
+  for (let year = years[0]; year < years[years.length - 1]; year++) {
+    if (!years.includes(year)) missingYears.push(year)
+  }
+  return {
+    entries,
+    years,
+    missingYears,
+    timeRange: years.length > 0 ? { start: years[0], end: years[years.length - 1] } : null,
+  }
+}
+
+/** Notes recorded on the dataset: which releases stand in for a year and which years are absent. */
+export function describeAcsImport(plan: AcsImportPlan): string {
+  const sentences: string[] = []
+  const multiYear = plan.entries.filter(
+    (entry) => entry.status === 'included' && entry.period && entry.period.start !== entry.period.end,
+  )
+  if (multiYear.length > 0) {
+    sentences.push(
+      `Multi-year releases: ${multiYear
+        .map((entry) => `${formatAcsPeriod(entry.period as AcsPeriod)} as ${entry.year}`)
+        .join(', ')}.`,
+    )
+  }
+  if (plan.missingYears.length > 0) {
+    sentences.push(`No table for ${plan.missingYears.join(', ')}.`)
+  }
+  return sentences.join(' ')
+}
+
+/** One snapshot per included file, in year order. Throws when nothing can be imported. */
+export function buildAcsDataset(
+  files: AcsFile[],
+  plan: AcsImportPlan,
+  { name, notes }: { name: string; notes?: string },
+): Omit<StoredDataset, 'id' | 'createdAt'> {
+  const snapshots: StoredSnapshot[] = plan.entries
+    .flatMap((entry, index) => {
+      const data = files[index]?.data
+      return entry.status === 'included' && data ? [{ timestamp: entry.year as number, nodes: data.nodes, edges: data.edges }] : []
+    })
+    .sort((a, b) => a.timestamp - b.timestamp)
+  if (snapshots.length === 0 || !plan.timeRange) {
+    throw new Error('None of the files can be imported')
+  }
+  return {
+    name,
+    filename: plan.entries
+      .filter((entry) => entry.status === 'included')
+      .map((entry) => entry.filename)
+      .join(', '),
+    notes: [notes?.trim(), describeAcsImport(plan)].filter(Boolean).join('\n\n') || undefined,
+    type: 'csv',
+    timeRange: plan.timeRange,
+    snapshots,
+    metadata: detectDatasetProperties(snapshots[0]),
+  }
+}
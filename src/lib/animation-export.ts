@@ -0,0 +1,161 @@
+/**
+ * Animated export of a year sequence
+ *
+ * Frames are sampled from the live chart while the Explorer steps through the
+ * years, so every frame carries the current filters and encodings. Sampling
+ * during the arc tween gives an interpolated sequence instead of hard cuts.
+ * Encoding happens entirely in the browser: GIF through modern-gif, WebM
+ * through MediaRecorder.
+ */
+
+import { cloneExportSVG, rasterizeExportSVG, type KriskogramExportOptions } from './kriskogram-export';
+
+export type AnimationExportFormat = 'gif' | 'webm';
+
+export interface AnimationExportOptions {
+  years: number[];
+  /** Shows a year in the chart and resolves once its update (and tween) has started. */
+  showYear: (year: number) => Promise<void>;
+  getSVG: () => SVGSVGElement | null;
+  format: AnimationExportFormat;
+  /** How long each year stays on screen once its tween has finished. */
+  holdMs?: number;
+  /** Tween length between years; 0 exports hard cuts. Must match the chart's transition duration. */
+  transitionMs?: number;
+  /** Frames sampled during each tween. */
+  framesPerTransition?: number;
+  /** Output scale relative to the chart's viewBox. */
+  scale?: number;
+  exportOptions?: (year: number) => KriskogramExportOptions;
+  onProgress?: (done: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+interface CapturedFrame {
+  canvas: HTMLCanvasElement;
+  delay: number;
+}
+
+const wait = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw new DOMException('Animation export cancelled', 'AbortError');
+  }
+}
+
+export function getWebmMimeType(): string | null {
+  if (typeof MediaRecorder === 'undefined') return null;
+  const candidates = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+  return candidates.find((type) => MediaRecorder.isTypeSupported(type)) ?? null;
+}
+
+async function captureFrames(options: AnimationExportOptions): Promise<CapturedFrame[]> {
+  const {
+    years,
+    showYear,
+    getSVG,
+    holdMs = 1000,
+    transitionMs = 0,
+    framesPerTransition = 8,
+    scale = 1,
+    exportOptions,
+    onProgress,
+    signal,
+  } = options;
+  const tweenFrames = transitionMs > 0 ? Math.max(1, Math.round(framesPerTransition)) : 0;
+  const tweenDelay = tweenFrames > 0 ? transitionMs / tweenFrames : 0;
+  const pending: Array<Promise<CapturedFrame>> = [];
+
+  const snapshot = (year: number, delay: number) => {
+    const svg = getSVG();
+    if (!svg) {
+      throw new Error('The chart is not available for capture');
+    }
+    // Clone synchronously so the frame reflects this instant of the tween; rasterise later
+    const clone = cloneExportSVG(svg, exportOptions?.(year) ?? { stamp: String(year) });
+    pending.push(rasterizeExportSVG(clone, scale).then((canvas) => ({ canvas, delay })));
+  };
+
+  for (let index = 0; index < years.length; index += 1) {
+    throwIfAborted(signal);
+    const year = years[index];
+    await showYear(year);
+    if (index > 0) {
+      for (let frame = 1; frame <= tweenFrames; frame += 1) {
+        await wait(tweenDelay);
+        throwIfAborted(signal);
+        snapshot(year, tweenDelay);
+      }
+    }
+    // The first year has nothing to tween from; let its update settle before the hold frame
+    await wait(index === 0 || tweenFrames === 0 ? transitionMs + 50 : 50);
+    snapshot(year, holdMs);
+    onProgress?.(index + 1, years.length);
+  }
+
+  return Promise.all(pending);
+}
+
+async function encodeGif(frames: CapturedFrame[]): Promise<Blob> {
+  const { Encoder } = await import('modern-gif');
+  const { width, height } = frames[0].canvas;
+  const encoder = new Encoder({ width, height, maxColors: 255 });
+  for (const frame of frames) {
+    await encoder.encode({ data: frame.canvas, delay: Math.max(20, Math.round(frame.delay)) });
+  }
+  return encoder.flush('blob');
+}
+
+/** MediaRecorder only records in real time, so frames are replayed at their own pace. */
+async function encodeWebm(frames: CapturedFrame[], signal?: AbortSignal): Promise<Blob> {
+  const mimeType = getWebmMimeType();
+  if (!mimeType) {
+    throw new Error('WebM recording is not supported in this browser. Try GIF instead.');
+  }
+  const { width, height } = frames[0].canvas;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas 2D context is unavailable');
+  }
+
+  const stream = canvas.captureStream(0);
+  const [track] = stream.getVideoTracks() as CanvasCaptureMediaStreamTrack[];
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 8_000_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const stopped = new Promise<void>((resolve) => {
+    recorder.onstop = () => resolve();
+  });
+
+  recorder.start();
+  try {
+    for (const frame of frames) {
+      throwIfAborted(signal);
+      context.drawImage(frame.canvas, 0, 0);
+      track.requestFrame();
+      await wait(frame.delay);
+    }
+  } finally {
+    recorder.stop();
+    for (const streamTrack of stream.getTracks()) {
+      streamTrack.stop();
+    }
+  }
+  await stopped;
+  return new Blob(chunks, { type: mimeType.split(';')[0] });
+}
+
+export async function exportKriskogramAnimation(options: AnimationExportOptions): Promise<Blob> {
+  if (options.years.length === 0) {
+    throw new Error('No years selected for the animation');
+  }
+  const frames = await captureFrames(options);
+  throwIfAborted(options.signal);
+  return options.format === 'gif' ? encodeGif(frames) : encodeWebm(frames, options.signal);
+}
@@ -2,6 +2,8 @@
  * Parser for State-to-State Migration CSV data
  */
 
+import { parseCsv } from './csv';
+
 export interface MigrationNode {
   id: string;
   label: string;
@@ -117,27 +119,35 @@ export interface MigrationData {
  * - Line 4+: State data with estimate/MOE pairs for each destination
  */
 export function parseStateMigrationCSV(csvContent: string): MigrationData {
-  const lines = csvContent.trim().split('\n');
+  return parseStateMigrationRows(parseCsv(csvContent.trim()).rows);
+}
 
-  if (lines.length < 2) {
+/**
+ * Parse state-to-state migration data already read into rows, e.g. by `readCsvFile`
+ */
+export function parseStateMigrationRows(csvRows: string[][]): MigrationData {
+  // Leading blank lines would otherwise shift the legacy header rows
+  const start = csvRows.findIndex((row) => row.some((cell) => cell.trim() !== ''));
+  const rows = start < 0 ? [] : csvRows.slice(start);
+
+  if (rows.length < 2) {
     throw new Error('Invalid CSV format: not enough data');
   }
 
-  const header = parseCSVLine(lines[0]).map((cell) => cell.toLowerCase());
+  const header = rows[0].map((cell) => cell.toLowerCase());
   if (header.includes('source_id') && header.includes('destination_id')) {
-    return parseTidyMigrationCSV(lines);
+    return parseTidyMigrationCSV(rows);
   }
 
-  return parseLegacyMigrationCSV(lines);
+  return parseLegacyMigrationCSV(rows);
 }
 
-function parseLegacyMigrationCSV(lines: string[]): MigrationData {
-  if (lines.length < 4) {
+function parseLegacyMigrationCSV(rows: string[][]): MigrationData {
+  if (rows.length < 4) {
     throw new Error('Invalid legacy CSV format: needs at least 4 lines (3 headers + data)');
   }
 
-  const headerLine2 = lines[1];
-  const stateHeaders = parseCSVLine(headerLine2);
+  const stateHeaders = rows[1];
 
   const destinationStates: string[] = [];
   for (let i = 7; i < stateHeaders.length; i += 2) {
@@ -151,8 +161,8 @@ function parseLegacyMigrationCSV(lines: string[]): MigrationData {
   const edges: MigrationEdge[] = [];
   const nodeIds = new Set<string>();
 
-  for (let i = 3; i < lines.length; i++) {
-    const values = parseCSVLine(lines[i]);
+  for (let i = 3; i < rows.length; i++) {
+    const values = rows[i];
     const sourceState = values[0]?.trim();
 
     if (!sourceState || sourceState === 'Puerto Rico') continue;
@@ -216,8 +226,8 @@ function parseLegacyMigrationCSV(lines: string[]): MigrationData {
   return { nodes, edges };
 }
 
-function parseTidyMigrationCSV(lines: string[]): MigrationData {
-  const header = parseCSVLine(lines[0]).map((cell) => cell.trim().toLowerCase());
+function parseTidyMigrationCSV(rows: string[][]): MigrationData {
+  const header = rows[0].map((cell) => cell.trim().toLowerCase());
 
   const idxSourceId = header.indexOf('source_id');
   const idxSourceLabel = header.indexOf('source_label');
@@ -238,10 +248,7 @@ function parseTidyMigrationCSV(lines: string[]): MigrationData {
   const edges: MigrationEdge[] = [];
   const nodeIds = new Set<string>();
 
-  for (let lineIndex = 1; lineIndex < lines.length; lineIndex++) {
-    const row = parseCSVLine(lines[lineIndex]);
-    if (!row.length) continue;
-
+  for (const row of rows.slice(1)) {
     const sourceLabel = row[idxSourceLabel]?.trim();
     const destinationLabel = row[idxDestinationLabel]?.trim();
     if (!sourceLabel || !destinationLabel) continue;
@@ -298,31 +305,6 @@ function parseTidyMigrationCSV(lines: string[]): MigrationData {
   return { nodes, edges };
 }
 
-/**
- * Parse a CSV line, handling quoted values with commas
- */
-function parseCSVLine(line: string): string[] {
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
-
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-
-    if (char === '"') {
-      inQuotes = !inQuotes;
-    } else if (char === ',' && !inQuotes) {
-      result.push(current);
-      current = '';
-    } else {
-      current += char;
-    }
-  }
-  result.push(current);
-
-  return result;
-}
-
 /**
  * Parse numbers that may contain commas and quotes
  */
@@ -8,12 +8,13 @@
 
 export interface TwoFileCSVConfig {
   nodesFile: {
-    content: string
+    /** Rows as read by `readCsvFile` or `parseCsv`, header first. */
+    rows: string[][]
     idField: string
     labelField?: string  // Optional, defaults to idField
   }
   edgesFile: {
-    content: string
+    rows: string[][]
     sourceField: string
     targetField: string
     valueField: string
@@ -38,39 +39,14 @@ export interface ParsedTwoFileCSV {
   edges: ParsedTwoFileCSVEdge[]
 }
 
-function parseCSVLine(line: string): string[] {
-  const result: string[] = []
-  let current = ''
-  let inQuotes = false
-
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i]
-
-    if (char === '"') {
-      inQuotes = !inQuotes
-    } else if (char === ',' && !inQuotes) {
-      result.push(current)
-      current = ''
-    } else {
-      current += char
-    }
-  }
-  result.push(current)
-
-  return result
-}
-
-function parseCSV(content: string): { headers: string[], rows: string[][] } {
-  const lines = content.trim().split('\n').filter(line => line.trim())
-  if (lines.length === 0) {
+function splitHeader(csvRows: string[][]): { headers: string[], rows: string[][] } {
+  const [header, ...rows] = csvRows.filter(row => row.some(cell => cell.trim()))
+  if (!header) {
     throw new Error('CSV file is empty')
   }
   
   // Trim headers to remove any whitespace issues
-  const headers = parseCSVLine(lines[0]).map(h => h.trim())
-  const rows = lines.slice(1).map(parseCSVLine)
-  
-  return { headers, rows }
+  return { headers: header.map(h => h.trim()), rows }
 }
 
 function parseNumber(value: string): number | string {
@@ -81,7 +57,7 @@ function parseNumber(value: string): number | string {
 
 export function parseTwoFileCSV(config: TwoFileCSVConfig): ParsedTwoFileCSV {
   // Parse nodes file
-  const { headers: nodeHeaders, rows: nodeRows } = parseCSV(config.nodesFile.content)
+  const { headers: nodeHeaders, rows: nodeRows } = splitHeader(config.nodesFile.rows)
   
   // Normalize field names for comparison (trim and case-insensitive)
   const normalizedNodeHeaders = nodeHeaders.map(h => h.toLowerCase().trim())
@@ -121,7 +97,7 @@ export function parseTwoFileCSV(config: TwoFileCSVConfig): ParsedTwoFileCSV {
   const nodeIdMap = new Map(nodes.map(n => [n.id, n]))
 
   // Parse edges file
-  const { headers: edgeHeaders, rows: edgeRows } = parseCSV(config.edgesFile.content)
+  const { headers: edgeHeaders, rows: edgeRows } = splitHeader(config.edgesFile.rows)
   
   // Normalize field names for comparison (trim and case-insensitive)
   const normalizedEdgeHeaders = edgeHeaders.map(h => h.toLowerCase().trim())
@@ -0,0 +1,299 @@
+/**
+ * Shared CSV reader
+ *
+ * Every CSV importer reads through this module. It follows RFC 4180: quoted fields may
+ * hold delimiters, doubled quotes and line breaks, and records end in CRLF, LF or a bare
+ * CR. Two things real exports need on top of that:
+ *
+ * - the delimiter is detected when not given, so semicolon exports (common from Swiss and
+ *   other European spreadsheets), tab- and pipe-separated files read the same way;
+ * - files are decoded from their BOM, or as UTF-8 when they are valid UTF-8, otherwise as
+ *   Windows-1252, the usual encoding of spreadsheets saved as "CSV" on Windows.
+ *
+ * The parser is incremental, so `readCsvFile` feeds it a file's stream chunk by chunk and
+ * reports progress as it goes. Malformed rows do not stop a read; each problem is
+ * collected with its row number so importers can show it.
+ */
+
+export type CsvDelimiter = ',' | ';' | '\t' | '|'
+
+export const CSV_DELIMITERS: CsvDelimiter[] = [',', ';', '\t', '|']
+
+export type CsvEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252'
+
+export interface CsvError {
+  /** 1-based record number; differs from the line number after quoted line breaks. */
+  row: number
+  message: string
+}
+
+export interface CsvOptions {
+  /** Detected from the first lines when omitted. */
+  delimiter?: CsvDelimiter
+  /** Stop after this many rows, e.g. to read only the header. */
+  maxRows?: number
+  /** Report rows with a different number of fields than the first. */
+  checkFieldCount?: boolean
+  /** Called with each row as it completes. Rows are then not kept in the result. */
+  onRow?: (row: string[], index: number) => void
+}
+
+export interface CsvResult {
+  /** Blank lines are kept as `['']`, so row numbers match the file. */
+  rows: string[][]
+  delimiter: CsvDelimiter
+  errors: CsvError[]
+}
+
+export interface CsvParser {
+  push: (chunk: string) => void
+  end: () => CsvResult
+}
+
+export interface CsvFile extends CsvResult {
+  encoding: CsvEncoding
+}
+
+export interface ReadCsvOptions {
+  delimiter?: CsvDelimiter
+  onProgress?: (loaded: number, total: number) => void
+}
+
+/** Lines and characters buffered before the delimiter is detected. */
+const DETECT_LINES = 20
+const DETECT_CHARS = 64 * 1024
+/** A file with thousands of broken rows needs only the first to be shown. */
+const MAX_ERRORS = 100
+
+type State = 'fieldStart' | 'unquoted' | 'quoted' | 'quoteInQuoted' | 'afterQuoted'
+
+/** Delimiter counts per line of `sample`, ignoring delimiters in quotes. */
+function delimiterCounts(sample: string, delimiter: CsvDelimiter): number[] {
+  const counts: number[] = []
+  let count = 0
+  let inQuotes = false
+  for (const char of sample) {
+    if (char === '"') {
+      inQuotes = !inQuotes
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      counts.push(count)
+      count = 0
+    } else if (!inQuotes && char === delimiter) {
+      count++
+    }
+  }
+  if (count > 0) counts.push(count)
+  return counts.slice(0, DETECT_LINES)
+}
+
+/**
+ * The delimiter that splits the most lines of `sample` into the same number of fields,
+ * preferring more fields, then the order of `CSV_DELIMITERS`. Title or note lines with a
+ * different count do not matter as long as most lines agree. A comma when none is found.
+ */
+export function detectDelimiter(sample: string): CsvDelimiter {
+  let best: CsvDelimiter = ','
+  let bestLines = 0
+  let bestFields = 0
+  for (const delimiter of CSV_DELIMITERS) {
+    const frequency = new Map<number, number>()
+    for (const count of delimiterCounts(sample, delimiter)) {
+      if (count > 0) frequency.set(count, (frequency.get(count) ?? 0) + 1)
+    }
+    for (const [fields, lines] of frequency) {
+      if (lines > bestLines || (lines === bestLines && fields > bestFields)) {
+        best = delimiter
+        bestLines = lines
+        bestFields = fields
+      }
+    }
+  }
+  return best
+}
+
+/** Parses CSV text pushed in chunks of any size; a chunk may end inside a field or quote. */
+export function createCsvParser(options: CsvOptions = {}): CsvParser {
+  const rows: string[][] = []
+  const errors: CsvError[] = []
+  let delimiter = options.delimiter
+  let pending = ''
+  let started = false
+  let done = false
+
+  let state: State = 'fieldStart'
+  let field = ''
+  let row: string[] = []
+  let rowCount = 0
+  let expectedFields = -1
+  let skipLineFeed = false
+
+  const report = (message: string) => {
+    const last = errors[errors.length - 1]
+    if (errors.length >= MAX_ERRORS || (last?.row === rowCount + 1 && last.message === message)) return
+    errors.push({ row: rowCount + 1, message })
+  }
+
+  const endField = () => {
+    row.push(field)
+    field = ''
+    state = 'fieldStart'
+  }
+
+  const endRow = () => {
+    endField()
+    if (options.checkFieldCount) {
+      if (expectedFields < 0) {
+        expectedFields = row.length
+      } else if (row.length !== expectedFields && !(row.length === 1 && row[0] === '')) {
+        report(`Expected ${expectedFields} fields but found ${row.length}`)
+      }
+    }
+    if (options.onRow) {
+      options.onRow(row, rowCount)
+    } else {
+      rows.push(row)
+    }
+    row = []
+    rowCount++
+    if (options.maxRows !== undefined && rowCount >= options.maxRows) done = true
+  }
+
+  const consume = (text: string, separator: CsvDelimiter) => {
+    // Start of the text not yet copied into `field`
+    let start = 0
+    for (let i = 0; i < text.length && !done; i++) {
+      const char = text[i]
+      if (skipLineFeed) {
+        skipLineFeed = false
+        if (char === '\n') {
+          start = i + 1
+          continue
+        }
+      }
+      if (state === 'quoted') {
+        if (char === '"') {
+          field += text.slice(start, i)
+          state = 'quoteInQuoted'
+        }
+        continue
+      }
+      if (state === 'quoteInQuoted') {
+        if (char === '"') {
+          field += '"'
+          state = 'quoted'
+          start = i + 1
+          continue
+        }
+        state = 'afterQuoted'
+      }
+
+      if (char === separator || char === '\n' || char === '\r') {
+        if (state === 'unquoted') field += text.slice(start, i)
+        if (char === separator) {
+          endField()
+        } else {
+          endRow()
+          skipLineFeed = char === '\r'
+        }
+        start = i + 1
+      } else if (state === 'fieldStart') {
+        state = char === '"' ? 'quoted' : 'unquoted'
+        start = char === '"' ? i + 1 : i
+      } else if (state === 'afterQuoted') {
+        report('Unexpected text after a closing quote')
+        state = 'unquoted'
+        start = i
+      } else if (char === '"') {
+        report('Quote inside an unquoted field')
+      }
+    }
+    if (!done && (state === 'unquoted' || state === 'quoted')) field += text.slice(start)
+  }
+
+  return {
+    push(chunk) {
+      if (done) return
+      let text = chunk
+      if (!started) {
+        started = text.length > 0
+        text = text.replace(/^\uFEFF/, '')
+      }
+      if (delimiter) {
+        consume(text, delimiter)
+        return
+      }
+      pending += text
+      const lines = pending.split('\n').length - 1
+      if (lines >= DETECT_LINES || pending.length >= DETECT_CHARS) {
+        delimiter = detectDelimiter(pending.slice(0, pending.lastIndexOf('\n') + 1) || pending)
+        consume(pending, delimiter)
+        pending = ''
+      }
+    },
+    end() {
+      if (!delimiter) {
+        delimiter = detectDelimiter(pending)
+        consume(pending, delimiter)
+        pending = ''
+      }
+      if (!done) {
+        if (state === 'quoted') report('Quoted field is not closed')
+        if (state !== 'fieldStart' || row.length > 0) endRow()
+      }
+      return { rows, delimiter, errors }
+    },
+  }
+}
+
+export function parseCsv(text: string, options: CsvOptions = {}): CsvResult {
+  const parser = createCsvParser(options)
+  parser.push(text)
+  return parser.end()
+}
+
+/** The encoding a byte order mark names, if the bytes start with one. */
+export function bomEncoding(bytes: Uint8Array): CsvEncoding | null {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8'
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le'
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be'
+  return null
+}
+
+async function readAs(file: Blob, encoding: CsvEncoding, options: ReadCsvOptions): Promise<CsvFile> {
+  // Only UTF-8 can be told apart from other encodings by failing to decode
+  const decoder = new TextDecoder(encoding, { fatal: encoding === 'utf-8' })
+  const parser = createCsvParser({ delimiter: options.delimiter })
+
+  if (typeof file.stream === 'function') {
+    const reader = file.stream().getReader()
+    let loaded = 0
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+      loaded += value.byteLength
+      parser.push(decoder.decode(value, { stream: true }))
+      options.onProgress?.(loaded, file.size)
+    }
+  } else {
+    parser.push(decoder.decode(await file.arrayBuffer(), { stream: true }))
+    options.onProgress?.(file.size, file.size)
+  }
+  parser.push(decoder.decode())
+  return { ...parser.end(), encoding }
+}
+
+/**
+ * Streams and parses a CSV file. Only the rows are kept, never the whole text, so
+ * importers should take `rows` rather than reading the file again. The encoding comes from the BOM; without one the file
+ * is read as UTF-8 and, if that fails, read again as Windows-1252.
+ */
+export async function readCsvFile(file: Blob, options: ReadCsvOptions = {}): Promise<CsvFile> {
+  const bom = bomEncoding(new Uint8Array(await file.slice(0, 3).arrayBuffer()))
+  if (bom) return readAs(file, bom, options)
+  try {
+    return await readAs(file, 'utf-8', options)
+  } catch (error) {
+    if (!(error instanceof TypeError)) throw error
+    return readAs(file, 'windows-1252', options)
+  }
+}
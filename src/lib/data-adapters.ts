@@ -5,6 +5,8 @@
  * by specific visualization libraries (d3-sankey, d3-chord, etc.)
  */
 
+import { transformFlows } from './flow-transform'
+
 export interface CommonNode {
   id: string
   label?: string
@@ -267,71 +269,9 @@ export function getUniqueEdgePropertyValues(
  * Break cycles in edges for Sankey compatibility
  * 
  * Sankey diagrams require acyclic graphs (no cycles).
- * This function breaks cycles by keeping only one direction of bidirectional flows.
- * Keeps the direction with the larger value, or source < target alphabetically if equal.
+ * Collapsing every bidirectional pair to its net flow removes A→B→A cycles
+ * without discarding the smaller direction's volume.
  */
 export function breakCyclesForSankey(edges: CommonEdge[]): CommonEdge[] {
-  const edgeMap = new Map<string, CommonEdge>()
-  const bidirectionalPairs = new Set<string>()
-  
-  // First, identify bidirectional pairs (A→B and B→A)
-  edges.forEach(edge => {
-    if (edge.source === edge.target) return // Skip self-loops
-    
-    const pairKey = edge.source < edge.target 
-      ? `${edge.source}|${edge.target}` 
-      : `${edge.target}|${edge.source}`
-    
-    if (edgeMap.has(pairKey)) {
-      bidirectionalPairs.add(pairKey)
-    } else {
-      edgeMap.set(pairKey, edge)
-    }
-  })
-  
-  // For bidirectional pairs, keep only one direction (prefer higher value, or alphabetical)
-  const result: CommonEdge[] = []
-  const processedPairs = new Set<string>()
-  
-  edges.forEach(edge => {
-    if (edge.source === edge.target) return // Skip self-loops
-    
-    const pairKey = edge.source < edge.target 
-      ? `${edge.source}|${edge.target}` 
-      : `${edge.target}|${edge.source}`
-    
-    if (bidirectionalPairs.has(pairKey)) {
-      if (!processedPairs.has(pairKey)) {
-        // Find both directions
-        const forward = edges.find(e => 
-          e.source === edge.source && e.target === edge.target
-        )
-        const backward = edges.find(e => 
-          e.source === edge.target && e.target === edge.source
-        )
-        
-        if (forward && backward) {
-          // Keep the one with larger value, or forward if equal
-          if (forward.value >= backward.value) {
-            result.push(forward)
-          } else {
-            result.push(backward)
-          }
-        } else if (forward) {
-          result.push(forward)
-        } else if (backward) {
-          result.push(backward)
-        }
-        
-        processedPairs.add(pairKey)
-      }
-      // Skip this edge if we've already processed this pair
-    } else {
-      // Not a bidirectional pair, keep it
-      result.push(edge)
-    }
-  })
-  
-  return result
+  return transformFlows(edges, 'net')
 }
-
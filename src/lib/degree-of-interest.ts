@@ -0,0 +1,69 @@
+/**
+ * Degree-of-interest (DOI) for off-screen nodes
+ *
+ * When the Kriskogram is zoomed in, nodes outside the view can still carry strong
+ * flows into it. A DOI function scores each off-screen node from the values of its
+ * flows to visible nodes; the highest scoring ones are shown as insets along the
+ * canvas edge (after Ghani et al.).
+ */
+
+export type DoiFunction = (values: number[]) => number;
+
+export type DoiPreset = 'sum' | 'max' | 'log' | 'count';
+
+export const DOI_PRESETS: Record<DoiPreset, { label: string; fn: DoiFunction }> = {
+  sum: {
+    label: 'Total flow to view',
+    fn: (values) => values.reduce((acc, value) => acc + value, 0),
+  },
+  max: {
+    label: 'Strongest single flow',
+    fn: (values) => values.reduce((acc, value) => Math.max(acc, value), 0),
+  },
+  log: {
+    label: 'Log-damped total',
+    fn: (values) => values.reduce((acc, value) => acc + Math.log1p(Math.max(0, value)), 0),
+  },
+  count: {
+    label: 'Number of links to view',
+    fn: (values) => values.length,
+  },
+};
+
+export const DEFAULT_DOI_PRESET: DoiPreset = 'sum';
+
+export interface OffscreenInterest {
+  id: string;
+  score: number;
+  flows: number;
+}
+
+/**
+ * Scores every node in `offscreen` by its flows to nodes in `visible`, highest first.
+ * Nodes without such flows, or with a non-positive score, are left out.
+ */
+export function rankOffscreenNodes(
+  edges: Array<{ source: string; target: string; value: number }>,
+  visible: Set<string>,
+  offscreen: Set<string>,
+  doi: DoiFunction,
+): OffscreenInterest[] {
+  const values = new Map<string, number[]>();
+  for (const edge of edges) {
+    const other = visible.has(edge.source) && offscreen.has(edge.target)
+      ? edge.target
+      : visible.has(edge.target) && offscreen.has(edge.source)
+        ? edge.source
+        : null;
+    if (other === null || !Number.isFinite(edge.value)) continue;
+    const list = values.get(other);
+    if (list) {
+      list.push(edge.value);
+    } else {
+      values.set(other, [edge.value]);
+    }
+  }
+  return Array.from(values, ([id, flowValues]) => ({ id, score: doi(flowValues), flows: flowValues.length }))
+    .filter((entry) => Number.isFinite(entry.score) && entry.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,136 @@
+/**
+ * Lenses for the Kriskogram canvas
+ *
+ * A lens is a region of the canvas that changes how the chart underneath it is drawn.
+ * "bend" lenses lift the arcs running through them (EdgeLens / ArcLens), "fisheye"
+ * lenses spread the nodes on the baseline apart. Several lenses can be active at once;
+ * positions are in SVG pixels.
+ */
+
+export type LensShape = 'circle' | 'rect' | 'band';
+export type LensEffect = 'bend' | 'fisheye';
+
+export const LENS_SHAPES: LensShape[] = ['circle', 'rect', 'band'];
+export const LENS_EFFECTS: LensEffect[] = ['bend', 'fisheye'];
+
+export interface KriskogramLens {
+  enabled?: boolean;
+  x: number;
+  y: number;
+  /** Circle radius; half the width of rect and band lenses. */
+  radius: number;
+  shape?: LensShape;
+  effect?: LensEffect;
+}
+
+/** Rect lenses are twice as wide as they are tall. */
+const RECT_ASPECT = 0.5;
+
+/** How strongly a fisheye lens magnifies its centre (Sarkar & Brown's d). */
+export const FISHEYE_DISTORTION = 3;
+
+/** Maximum arc height multiplier of a bend lens at its centre. */
+const MAX_BEND = 2.5;
+
+export function isLensActive(lens: KriskogramLens | null | undefined): lens is KriskogramLens {
+  return Boolean(lens && lens.enabled !== false && lens.radius > 0);
+}
+
+/**
+ * How strongly a lens acts on a point, from 1 at its centre to 0 at its edge.
+ * Band lenses span the full height of the canvas, so only x matters.
+ */
+export function lensInfluence(lens: KriskogramLens, px: number, py: number): number {
+  const dx = Math.abs(px - lens.x) / lens.radius;
+  switch (lens.shape ?? 'circle') {
+    case 'band':
+      return Math.max(0, 1 - dx);
+    case 'rect': {
+      const dy = Math.abs(py - lens.y) / (lens.radius * RECT_ASPECT);
+      return dy > 1 ? 0 : Math.max(0, 1 - dx);
+    }
+    default:
+      return Math.max(0, 1 - Math.hypot(dx, (py - lens.y) / lens.radius));
+  }
+}
+
+/**
+ * Height multiplier for an arc between x1 and x2 whose apex sits at apexY. Arcs are
+ * lifted when the lens covers either their midpoint on the baseline or their apex;
+ * overlapping lenses do not compound, the strongest one wins.
+ */
+export function arcBendFactor(
+  lenses: KriskogramLens[],
+  x1: number,
+  x2: number,
+  baselineY: number,
+  apexY: number,
+): number {
+  const midX = (x1 + x2) / 2;
+  let influence = 0;
+  for (const lens of lenses) {
+    if ((lens.effect ?? 'bend') !== 'bend') continue;
+    influence = Math.max(influence, lensInfluence(lens, midX, baselineY), lensInfluence(lens, midX, apexY));
+  }
+  return 1 + (MAX_BEND - 1) * influence;
+}
+
+/** Half-width of the part of the baseline a lens covers, or 0 if it misses the baseline. */
+function baselineReach(lens: KriskogramLens, baselineY: number): number {
+  const dy = Math.abs(baselineY - lens.y);
+  switch (lens.shape ?? 'circle') {
+    case 'band':
+      return lens.radius;
+    case 'rect':
+      return dy <= lens.radius * RECT_ASPECT ? lens.radius : 0;
+    default:
+      return dy < lens.radius ? Math.sqrt(lens.radius * lens.radius - dy * dy) : 0;
+  }
+}
+
+/**
+ * Moves a baseline position through every fisheye lens in turn. Within a lens the
+ * mapping is monotonic and leaves the lens edges in place, so node order is kept and
+ * nothing outside the lens moves.
+ */
+export function fisheyeX(
+  lenses: KriskogramLens[],
+  x: number,
+  baselineY: number,
+  distortion: number = FISHEYE_DISTORTION,
+): number {
+  let result = x;
+  for (const lens of lenses) {
+    if (lens.effect !== 'fisheye') continue;
+    const reach = baselineReach(lens, baselineY);
+    if (reach <= 0) continue;
+    const t = (result - lens.x) / reach;
+    if (Math.abs(t) >= 1) continue;
+    const magnitude = ((distortion + 1) * Math.abs(t)) / (distortion * Math.abs(t) + 1);
+    result = lens.x + Math.sign(t) * magnitude * reach;
+  }
+  return result;
+}
+
+/** Compact URL form of a pinned lens: `shape:effect:x:y:radius`. */
+export function encodeLens(lens: KriskogramLens): string {
+  return [
+    lens.shape ?? 'circle',
+    lens.effect ?? 'bend',
+    Math.round(lens.x),
+    Math.round(lens.y),
+    Math.round(lens.radius),
+  ].join(':');
+}
+
+export function decodeLens(value: string): KriskogramLens | null {
+  const [shape, effect, ...numbers] = value.split(':');
+  const [x, y, radius] = numbers.map((part) => Number.parseFloat(part));
+  if (!LENS_SHAPES.includes(shape as LensShape) || !LENS_EFFECTS.includes(effect as LensEffect)) {
+    return null;
+  }
+  if (![x, y, radius].every(Number.isFinite) || radius <= 0) {
+    return null;
+  }
+  return { x, y, radius, shape: shape as LensShape, effect: effect as LensEffect };
+}
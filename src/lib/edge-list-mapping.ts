@@ -0,0 +1,291 @@
+/**
+ * Column mapping for single-file edge lists
+ *
+ * An edge list with any header names: the user picks the source, target and weight
+ * columns, optionally a time column, and which other columns to keep as typed edge
+ * attributes. `guessEdgeListMapping` fills in a starting point from common names and the
+ * values in each column. Rows split into one snapshot per time value, where a time is a
+ * number (usually a year) or a date, which counts as its year. Rows for the same origin
+ * and destination in a snapshot, such as monthly or daily records, add up to one flow.
+ *
+ * Numbers may use a decimal comma, as spreadsheets in much of Europe write them; the
+ * separator is guessed from the values and saved with the mapping.
+ *
+ * Mappings are plain data so they can be saved as import presets and applied to the next
+ * file with the same columns.
+ */
+
+import { parseCsv } from './csv'
+import type { CommonEdge } from './data-adapters'
+import { SOURCE_COLUMNS, TARGET_COLUMNS, VALUE_COLUMNS } from './edge-table'
+import { type GraphSnapshot, TIME_FIELDS, nodesFromEdges, readTime } from './graph-snapshots'
+import { type DecimalSeparator, parseLocaleNumber, trimRows } from './od-matrix'
+import type { DatasetMetadata } from './storage'
+
+export type AttributeType = 'number' | 'category' | 'date'
+
+export const ATTRIBUTE_TYPES: Array<{ value: AttributeType; label: string }> = [
+  { value: 'number', label: 'Number' },
+  { value: 'category', label: 'Category' },
+  { value: 'date', label: 'Date' },
+]
+
+export function isAttributeType(value: string): value is AttributeType {
+  return ATTRIBUTE_TYPES.some((entry) => entry.value === value)
+}
+
+export const DECIMAL_SEPARATORS: Array<{ value: DecimalSeparator; label: string }> = [
+  { value: '.', label: 'Point (1,234.5)' },
+  { value: ',', label: 'Comma (1.234,5)' },
+]
+
+export function isDecimalSeparator(value: string): value is DecimalSeparator {
+  return DECIMAL_SEPARATORS.some((entry) => entry.value === value)
+}
+
+export interface ColumnAttribute {
+  column: string
+  type: AttributeType
+}
+
+export interface EdgeListMapping {
+  source: string
+  target: string
+  /** Without a weight column every row is a flow of 1. */
+  weight?: string
+  /** Splits rows into a snapshot per value. */
+  time?: string
+  attributes: ColumnAttribute[]
+  /** Numbers use a decimal point unless this is `,`. */
+  decimal?: DecimalSeparator
+}
+
+export interface EdgeListTable {
+  headers: string[]
+  rows: string[][]
+}
+
+export interface EdgeListImport {
+  /** Ordered by time; a single snapshot with a null time when no time column is mapped. */
+  snapshots: GraphSnapshot[]
+  metadata: DatasetMetadata
+  /** Rows left out, by reason. */
+  skipped: { ends: number; weight: number; time: number }
+  /** Rows added to an earlier row's flow, with the same source and target in the same snapshot. */
+  merged: number
+}
+
+/** Edge fields a mapped attribute must not overwrite. */
+const RESERVED_FIELDS = ['source', 'target', 'value']
+const DATE_COLUMNS = ['date', 'datum', 'day', 'month']
+const GUESS_SAMPLE_ROWS = 200
+const TYPE_GUESS_SHARE = 0.8
+
+export function readEdgeListCsv(content: string): EdgeListTable {
+  return readEdgeListRows(parseCsv(content).rows)
+}
+
+/** The header and rows of a parsed CSV, with cells trimmed and blank lines left out. */
+export function readEdgeListRows(csvRows: string[][]): EdgeListTable {
+  const [header = [], ...rows] = trimRows(csvRows).filter((row) => row.some((cell) => cell !== ''))
+  if (header.length === 0) {
+    throw new Error('CSV file is empty')
+  }
+  return { headers: header, rows }
+}
+
+/**
+ * A date as `YYYY-MM-DD`, from ISO dates (`2016-03-01`, `2016/3/1`, `2016-03`) or
+ * day-first dates (`01.03.2016`, `1/3/2016`).
+ */
+export function parseDate(value: string): string | null {
+  const iso = /^(\d{4})[-/](\d{1,2})(?:[-/](\d{1,2}))?(?:[T ].*)?$/.exec(value.trim())
+  const dayFirst = /^(\d{1,2})[./](\d{1,2})[./](\d{4})$/.exec(value.trim())
+  const parts = iso ? [iso[1], iso[2], iso[3] ?? '1'] : dayFirst ? [dayFirst[3], dayFirst[2], dayFirst[1]] : null
+  if (!parts) return null
+  const [year, month, day] = parts.map(Number)
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null
+  return date.toISOString().slice(0, 10)
+}
+
+/** A snapshot time: a number such as a year, or the year of a date. */
+export function parseTime(value: string): number | null {
+  const date = parseDate(value)
+  return date ? Number(date.slice(0, 4)) : readTime(value.trim())
+}
+
+/**
+ * Number when most filled cells are counts, date when most are dates, otherwise category.
+ * A few `N/A`s or typos do not make a column categorical; they are dropped on import.
+ */
+export function guessAttributeType(values: string[], decimal: DecimalSeparator = '.'): AttributeType {
+  const filled = values.filter((value) => value.trim() !== '')
+  const mostly = (test: (value: string) => boolean) =>
+    filled.length > 0 && filled.filter(test).length >= filled.length * TYPE_GUESS_SHARE
+  if (mostly((value) => parseLocaleNumber(value, decimal) !== null)) return 'number'
+  if (mostly((value) => parseDate(value) !== null)) return 'date'
+  return 'category'
+}
+
+/** The type guessed from the first rows of a column. */
+export function guessColumnType(table: EdgeListTable, column: string, decimal: DecimalSeparator = '.'): AttributeType {
+  const index = table.headers.indexOf(column)
+  return guessAttributeType(
+    table.rows.slice(0, GUESS_SAMPLE_ROWS).map((row) => row[index] ?? ''),
+    decimal,
+  )
+}
+
+// Only unambiguous numbers count: `1,234` could be either, `1,5` and `1.234,5` cannot
+const COMMA_DECIMAL = /^[+-]?(\d[\d'\s]*,(\d{1,2}|\d{4,})|\d{1,3}(\.\d{3})+,\d+)$/
+const POINT_DECIMAL = /^[+-]?(\d[\d'\s]*\.(\d{1,2}|\d{4,})|\d{1,3}(,\d{3})+\.\d+)$/
+
+/** A decimal comma when more of the first rows' numbers are written with one than with a point. */
+export function guessDecimalSeparator(table: EdgeListTable): DecimalSeparator {
+  const cells = table.rows.slice(0, GUESS_SAMPLE_ROWS).flat()
+  const count = (pattern: RegExp) => cells.filter((cell) => pattern.test(cell.trim())).length
+  return count(COMMA_DECIMAL) > count(POINT_DECIMAL) ? ',' : '.'
+}
+
+const normalize = (header: string) => header.trim().toLowerCase().replace(/[\s-]+/g, '_')
+
+function findHeader(headers: string[], candidates: string[], taken: Array<string | undefined>) {
+  return candidates
+    .map((candidate) => headers.find((header) => normalize(header) === candidate && !taken.includes(header)))
+    .find(Boolean)
+}
+
+/** A first mapping from common column names; every other column is kept with a guessed type. */
+export function guessEdgeListMapping(table: EdgeListTable): EdgeListMapping {
+  const { headers } = table
+  const decimal = guessDecimalSeparator(table)
+  const source = findHeader(headers, SOURCE_COLUMNS, []) ?? headers[0] ?? ''
+  const target = findHeader(headers, TARGET_COLUMNS, [source]) ?? headers.find((header) => header !== source) ?? ''
+  // Failing a known name, the first column of dates is the time and the first of numbers the weight
+  const free = (header: string, taken: Array<string | undefined>) => !taken.includes(header)
+  const time =
+    findHeader(headers, [...TIME_FIELDS, ...DATE_COLUMNS], [source, target]) ??
+    headers.find((header) => free(header, [source, target]) && guessColumnType(table, header, decimal) === 'date')
+  const weight =
+    findHeader(headers, VALUE_COLUMNS, [source, target, time]) ??
+    headers.find((header) => free(header, [source, target, time]) && guessColumnType(table, header, decimal) === 'number')
+  const attributes = headers
+    .filter((header) => ![source, target, weight, time].includes(header) && !RESERVED_FIELDS.includes(header))
+    .map((column) => ({ column, type: guessColumnType(table, column, decimal) }))
+  return { source, target, weight, time, attributes, decimal }
+}
+
+/** The columns a mapping reads that the table lacks. */
+export function missingColumns(mapping: EdgeListMapping, headers: string[]): string[] {
+  const used = [
+    mapping.source,
+    mapping.target,
+    mapping.weight,
+    mapping.time,
+    ...mapping.attributes.map((attribute) => attribute.column),
+  ]
+  return used.filter((column): column is string => column !== undefined && !headers.includes(column))
+}
+
+/** Properties the mapping declares, typed as chosen. Dates are neither numeric nor categorical. */
+export function mappingMetadata(mapping: EdgeListMapping): DatasetMetadata {
+  const columnsOf = (type: AttributeType) =>
+    mapping.attributes.filter((attribute) => attribute.type === type).map((attribute) => attribute.column)
+  return {
+    nodeProperties: [],
+    edgeProperties: mapping.attributes.map((attribute) => attribute.column),
+    hasNumericProperties: { nodes: [], edges: columnsOf('number') },
+    hasCategoricalProperties: { nodes: [], edges: columnsOf('category') },
+  }
+}
+
+function readAttribute(value: string, type: AttributeType, decimal: DecimalSeparator): string | number | null {
+  const trimmed = value.trim()
+  if (trimmed === '') return null
+  if (type === 'number') return parseLocaleNumber(trimmed, decimal)
+  if (type === 'date') return parseDate(trimmed)
+  return trimmed
+}
+
+export function parseEdgeList(table: EdgeListTable, mapping: EdgeListMapping): EdgeListImport {
+  const column = (name: string | undefined) => (name === undefined ? -1 : table.headers.indexOf(name))
+  const missing = missingColumns(mapping, table.headers)
+  if (missing.length > 0) {
+    const names = missing.map((name) => `"${name}"`).join(', ')
+    throw new Error(`Column ${names} not found. Available columns: ${table.headers.join(', ')}`)
+  }
+  const sourceIndex = column(mapping.source)
+  const targetIndex = column(mapping.target)
+  const weightIndex = column(mapping.weight)
+  const timeIndex = column(mapping.time)
+  const decimal = mapping.decimal ?? '.'
+  const attributes = mapping.attributes
+    .filter((attribute) => !RESERVED_FIELDS.includes(attribute.column))
+    .map((attribute) => ({ ...attribute, index: column(attribute.column) }))
+
+  // Flows by time, then by source and target. Number attributes of merged rows add up;
+  // other attributes that differ between them have no single value and are left out.
+  const byTime = new Map<number | null, Map<string, { edge: CommonEdge; conflicts: Set<string> }>>()
+  const skipped = { ends: 0, weight: 0, time: 0 }
+  let merged = 0
+  for (const row of table.rows) {
+    const source = (row[sourceIndex] ?? '').trim()
+    const target = (row[targetIndex] ?? '').trim()
+    if (!source || !target) {
+      skipped.ends++
+      continue
+    }
+    const value = weightIndex < 0 ? 1 : parseLocaleNumber(row[weightIndex], decimal)
+    if (value === null || value <= 0) {
+      skipped.weight++
+      continue
+    }
+    const time = timeIndex < 0 ? null : parseTime(row[timeIndex] ?? '')
+    if (timeIndex >= 0 && time === null) {
+      skipped.time++
+      continue
+    }
+
+    const flows = byTime.get(time) ?? new Map()
+    byTime.set(time, flows)
+    const key = JSON.stringify([source, target])
+    const flow = flows.get(key)
+    if (!flow) {
+      const edge: CommonEdge = { source, target, value }
+      for (const attribute of attributes) {
+        const parsed = readAttribute(row[attribute.index] ?? '', attribute.type, decimal)
+        if (parsed !== null) edge[attribute.column] = parsed
+      }
+      flows.set(key, { edge, conflicts: new Set() })
+      continue
+    }
+
+    merged++
+    flow.edge.value += value
+    for (const attribute of attributes) {
+      const parsed = readAttribute(row[attribute.index] ?? '', attribute.type, decimal)
+      const current = flow.edge[attribute.column]
+      if (attribute.type === 'number' && typeof parsed === 'number') {
+        flow.edge[attribute.column] = (typeof current === 'number' ? current : 0) + parsed
+      } else if (attribute.type !== 'number' && (parsed ?? undefined) !== current) {
+        flow.conflicts.add(attribute.column)
+      }
+    }
+  }
+
+  const times = [...byTime.keys()].sort((a, b) => (a ?? 0) - (b ?? 0))
+  return {
+    snapshots: times.map((time) => {
+      const edges = [...(byTime.get(time)?.values() ?? [])].map(({ edge, conflicts }) =>
+        conflicts.size === 0
+          ? edge
+          : (Object.fromEntries(Object.entries(edge).filter(([column]) => !conflicts.has(column))) as CommonEdge),
+      )
+      return { timestamp: time, nodes: nodesFromEdges(edges), edges }
+    }),
+    metadata: mappingMetadata(mapping),
+    skipped,
+    merged,
+  }
+}
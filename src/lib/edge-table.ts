@@ -0,0 +1,147 @@
+/**
+ * Arrow and Parquet edge tables
+ *
+ * Columnar origin–destination lists, one row per flow, for matrices too large to handle
+ * comfortably as CSV or XML. Columns are matched by name:
+ *
+ * - ends: `source` / `origin` / `from` and `target` / `destination` / `to` (or their `_id` forms);
+ * - value: `value`, `weight`, `count`, `flow` or `estimate`;
+ * - labels: `source_label` and `target_label` (or `origin_`/`destination_` forms);
+ * - time: `year`, `timestamp`, `period` or `time`, which splits rows into snapshots.
+ *
+ * Every other column becomes an edge property. Nodes are the flows' ends, and exports
+ * write the same columns back. The Arrow and Parquet libraries load on first use.
+ */
+
+import type { CommonEdge } from './data-adapters'
+import { type ParsedGraph, flattenSnapshots, nodesFromEdges, splitByTime } from './graph-snapshots'
+import type { StoredDataset } from './storage'
+
+export type EdgeTableFormat = 'arrow' | 'parquet'
+
+export const SOURCE_COLUMNS = ['source', 'source_id', 'origin', 'origin_id', 'from', 'src']
+export const TARGET_COLUMNS = ['target', 'target_id', 'destination', 'destination_id', 'dest', 'to', 'dst']
+export const VALUE_COLUMNS = ['value', 'weight', 'count', 'flow', 'estimate']
+const LABEL_COLUMNS = {
+  source: ['source_label', 'origin_label'],
+  target: ['target_label', 'destination_label'],
+}
+
+function findColumn(names: string[], candidates: string[]) {
+  return candidates.map(candidate => names.find(name => name.toLowerCase() === candidate)).find(Boolean)
+}
+
+const plain = (value: unknown) => (typeof value === 'bigint' ? Number(value) : value)
+
+/**
+ * Flows from a table read column by column, `cell(column, row)` giving each value.
+ */
+export function edgeTableToGraph(
+  names: string[],
+  rowCount: number,
+  cell: (column: string, row: number) => unknown,
+): ParsedGraph {
+  const source = findColumn(names, SOURCE_COLUMNS)
+  const target = findColumn(names, TARGET_COLUMNS)
+  if (!source || !target) {
+    throw new Error(`Edge table needs source and target columns; found ${names.join(', ') || 'none'}`)
+  }
+  const value = findColumn(names, VALUE_COLUMNS)
+  const labelColumns = Object.entries(LABEL_COLUMNS).flatMap(([end, candidates]) => {
+    const column = findColumn(names, candidates)
+    return column ? [[end as 'source' | 'target', column] as const] : []
+  })
+  const used = new Set([source, target, value, ...labelColumns.map(([, column]) => column)])
+  const rest = names.filter(name => !used.has(name))
+
+  const edges: CommonEdge[] = []
+  const labels = new Map<string, string>()
+  for (let row = 0; row < rowCount; row++) {
+    const from = plain(cell(source, row))
+    const to = plain(cell(target, row))
+    if (from === null || from === undefined || to === null || to === undefined) continue
+    const amount = value ? Number(plain(cell(value, row))) : 1
+    const edge: CommonEdge = { source: String(from), target: String(to), value: Number.isFinite(amount) ? amount : 0 }
+    for (const [end, column] of labelColumns) {
+      const label = plain(cell(column, row))
+      if (label !== null && label !== undefined) labels.set(edge[end], String(label))
+    }
+    for (const column of rest) {
+      const property = plain(cell(column, row))
+      if (property !== null && property !== undefined) edge[column] = property
+    }
+    edges.push(edge)
+  }
+
+  return { snapshots: splitByTime(nodesFromEdges(edges, labels), edges) }
+}
+
+export async function readArrowEdges(buffer: ArrayBuffer): Promise<ParsedGraph> {
+  const { tableFromIPC } = await import('apache-arrow')
+  const table = tableFromIPC(new Uint8Array(buffer))
+  const names = table.schema.fields.map(field => field.name)
+  // Vector.get, unlike toArray, reports missing numbers as null rather than 0
+  const columns = new Map(names.map(name => [name, table.getChild(name)]))
+  return edgeTableToGraph(names, table.numRows, (column, row) => columns.get(column)?.get(row))
+}
+
+export async function readParquetEdges(buffer: ArrayBuffer): Promise<ParsedGraph> {
+  const { parquetMetadata, parquetReadObjects } = await import('hyparquet')
+  const names = parquetMetadata(buffer).schema.slice(1).map(element => element.name)
+  const rows = await parquetReadObjects({ file: buffer })
+  return edgeTableToGraph(names, rows.length, (column, row) => rows[row][column])
+}
+
+type ColumnType = 'number' | 'boolean' | 'string'
+
+/** The dataset's flows as columns, with each end's label and the snapshot `year`. */
+export function datasetToEdgeColumns(dataset: StoredDataset) {
+  const { nodes, edges } = flattenSnapshots(dataset.snapshots)
+  const labels = new Map(nodes.map(node => [String(node.id), node.label ?? node.id]))
+  const rows = edges.map(({ source, target, value, year, ...properties }) => ({
+    source,
+    target,
+    value,
+    year,
+    source_label: labels.get(String(source)) ?? source,
+    target_label: labels.get(String(target)) ?? target,
+    ...properties,
+  }))
+  const names = [...new Set(rows.flatMap(row => Object.keys(row)))]
+
+  return names.map(name => {
+    const values = rows.map(row => {
+      const value = (row as Record<string, unknown>)[name]
+      return value === undefined || (typeof value === 'number' && !Number.isFinite(value)) ? null : value
+    })
+    const present = values.filter(value => value !== null)
+    const type: ColumnType = present.every(value => typeof value === 'number')
+      ? 'number'
+      : present.every(value => typeof value === 'boolean')
+        ? 'boolean'
+        : 'string'
+    const data =
+      type === 'string'
+        ? values.map(value => (value === null ? null : typeof value === 'object' ? JSON.stringify(value) : String(value)))
+        : values
+    return { name, type, data }
+  })
+}
+
+export async function writeEdgeTable(dataset: StoredDataset, format: EdgeTableFormat): Promise<ArrayBuffer> {
+  const columns = datasetToEdgeColumns(dataset)
+  if (format === 'arrow') {
+    const { Bool, Float64, Table, Utf8, tableToIPC, vectorFromArray } = await import('apache-arrow')
+    // Typed explicitly: inferred number columns would write missing values as 0
+    const types = { number: () => new Float64(), boolean: () => new Bool(), string: () => new Utf8() }
+    const table = new Table(
+      Object.fromEntries(columns.map(column => [column.name, vectorFromArray(column.data, types[column.type]())])),
+    )
+    return new Uint8Array(tableToIPC(table, 'file')).buffer
+  }
+  const { parquetWriteBuffer } = await import('hyparquet-writer')
+  const types = { number: 'DOUBLE', boolean: 'BOOLEAN', string: 'STRING' } as const
+  return parquetWriteBuffer({
+    columnData: columns.map(column => ({ name: column.name, data: column.data, type: types[column.type] })),
+  })
+}
@@ -0,0 +1,779 @@
+/**
+ * Explorer data pipeline
+ *
+ * Turns the loaded snapshots plus the Explorer's filter and encoding settings into
+ * render-ready nodes and edges: attribute, edge-type, scope, reliability and threshold
+ * filters, the ego network, temporal overlay arcs, and the per-node flow metrics
+ * (`total_incoming_visible`, `net_flow_year`, …) that the encodings read.
+ *
+ * It is a pure function so it can run in a Web Worker. `createExplorerPipeline` keeps
+ * the snapshots in a worker, loaded once, and drops requests superseded before the
+ * worker reached them, so dragging a threshold slider does not queue up stale work.
+ */
+
+import { type CommonEdge, type CommonNode, filterEdgesByProperty } from './data-adapters'
+import { type FlowMode, applyFlowMode } from './flow-transform'
+import { isUnreliableFlow } from './uncertainty'
+
+export interface ExplorerSnapshot {
+  nodes: CommonNode[]
+  edges: CommonEdge[]
+  timestamp: number | string
+}
+
+export type IntraFilter = 'none' | 'region' | 'division' | 'interRegion' | 'interDivision'
+export type OverlayEdgeStyle = 'filled' | 'outline' | 'segmented'
+
+export interface ExplorerPipelineParams {
+  year: number | null
+  /** Whether the dataset spans more than one year; the temporal overlay needs it. */
+  multiYear: boolean
+  viewType: string
+  nodeFilterAttribute: string | null
+  nodeFilterValues: string[]
+  edgeTypeProperty: string | null
+  edgeTypeFilter: string | null
+  intraFilter: IntraFilter
+  hideUnreliable: boolean
+  cvThreshold: number
+  flowMode: FlowMode
+  minThreshold: number
+  maxThreshold: number
+  maxEdges: number
+  showAllNodes: boolean
+  egoNodeId: string | null
+  egoNeighborSteps: number
+  temporalOverlayEnabled: boolean
+  temporalOverlayEdgeStyle: OverlayEdgeStyle
+  temporalOverlayYearsPast: number
+  temporalOverlayYearsFuture: number
+  temporalOverlayColorPast: string
+  temporalOverlayColorMid: string
+  temporalOverlayColorFuture: string
+  temporalOverlayCurrentBlack: boolean
+  edgeSegmentLength: number
+  edgeSegmentGap: number
+  edgeSegmentOffset: number
+  edgeSegmentSpeed: number
+  edgeSegmentScaleByWeight: boolean
+  edgeSegmentCap: 'round' | 'butt'
+  edgeSegmentAnimate: boolean
+  edgeOutlineGap: number
+}
+
+export interface NodeTemporalDetail {
+  year: number
+  total_incoming: number
+  total_outgoing: number
+  visible_incoming: number
+  visible_outgoing: number
+  net_total: number
+  net_visible: number
+  is_current: boolean
+}
+
+export interface ExplorerNode extends CommonNode {
+  _totalIncoming: number
+  _totalOutgoing: number
+  total_incoming_visible: number
+  total_outgoing_visible: number
+  total_incoming_year: number
+  total_outgoing_year: number
+  net_flow_visible: number
+  net_flow_year: number
+  self_flow_year: number
+  temporal_overlay_past_total: number
+  temporal_overlay_future_total: number
+  temporal_overlay_delta: number
+  _overlayPastTotal: number
+  _overlayFutureTotal: number
+  _overlayDelta: number
+  _overlayStrokeWidth: number
+  _overlayStrokeColor: string
+  temporal_details: NodeTemporalDetail[]
+}
+
+/** An edge tagged with the year it was drawn from; overlay edges come from neighbouring years. */
+export interface ExplorerEdge extends CommonEdge {
+  _overlayType?: 'past' | 'future'
+  _overlayYear: number | null
+  _overlayOffset: number // Years from the displayed one, 0 for its own edges
+  _egoStep?: number
+}
+
+export interface TemporalOverlaySummary {
+  hasPast: boolean
+  hasFuture: boolean
+  nodeDeltaAbsMax: number
+  style: OverlayEdgeStyle
+  edgeSegmentLength: number
+  edgeSegmentGap: number
+  edgeSegmentOffset: number
+  edgeSegmentSpeed: number
+  edgeSegmentScaleByWeight: boolean
+  edgeSegmentCap: 'round' | 'butt'
+  edgeSegmentAnimate: boolean
+  edgeOutlineGap: number
+  yearsPast: number
+  yearsFuture: number
+  colorCurrent: string
+  colorPast: string
+  colorMid: string
+  colorFuture: string
+  useBlackForCurrent: boolean
+  legendEntries: Array<{ label: string; color: string; delta: number }>
+}
+
+export interface ExplorerData {
+  /** Year the data was computed for, so callers can tell when a requested year has arrived. */
+  year: number | null
+  nodes: ExplorerNode[]
+  /** Current-year edges after filtering. */
+  baseEdges: ExplorerEdge[]
+  /** Current-year edges plus temporal overlay edges. */
+  edges: ExplorerEdge[]
+  currentEdgeCount: number
+  egoStepMax: number
+  temporalOverlay: TemporalOverlaySummary | null
+}
+
+export const EMPTY_EXPLORER_DATA: ExplorerData = {
+  year: null,
+  nodes: [],
+  baseEdges: [],
+  edges: [],
+  currentEdgeCount: 0,
+  egoStepMax: 0,
+  temporalOverlay: null,
+}
+
+const snapshotYear = (snapshot: ExplorerSnapshot) =>
+  typeof snapshot.timestamp === 'string' ? Number.parseInt(snapshot.timestamp, 10) : snapshot.timestamp
+
+const expandHexColor = (value: string) => {
+  const lower = typeof value === 'string' ? value.trim().toLowerCase() : ''
+  if (/^#([0-9a-f]{3}|[0-9a-f]{6})$/.test(lower)) {
+    if (lower.length === 4) {
+      return `#${lower[1]}${lower[1]}${lower[2]}${lower[2]}${lower[3]}${lower[3]}`
+    }
+    return lower
+  }
+  return '#000000'
+}
+
+const hexToRgb = (hex: string) => {
+  const normalized = expandHexColor(hex).slice(1)
+  const intVal = Number.parseInt(normalized, 16)
+  if (Number.isNaN(intVal) || normalized.length !== 6) {
+    return { r: 0, g: 0, b: 0 }
+  }
+  return {
+    r: (intVal >> 16) & 255,
+    g: (intVal >> 8) & 255,
+    b: intVal & 255,
+  }
+}
+
+const componentToHex = (value: number) => {
+  const clamped = Math.max(0, Math.min(255, Math.round(value)))
+  return clamped.toString(16).padStart(2, '0')
+}
+
+const mixColors = (colorA: string, colorB: string, t: number) => {
+  const clamped = Math.max(0, Math.min(1, t))
+  const a = hexToRgb(colorA)
+  const b = hexToRgb(colorB)
+  return `#${componentToHex(a.r + (b.r - a.r) * clamped)}${componentToHex(a.g + (b.g - a.g) * clamped)}${componentToHex(
+    a.b + (b.b - a.b) * clamped,
+  )}`
+}
+
+/** Keeps the edges matching the Edge Scope setting, judged by the endpoints' region and division. */
+function applyIntraFilter(edges: CommonEdge[], nodes: CommonNode[], intraFilter: IntraFilter): CommonEdge[] {
+  if (intraFilter === 'none') return edges
+  const idToNode = new Map(nodes.map((node) => [node.id, node]))
+  return edges.filter((edge) => {
+    const s = idToNode.get(edge.source)
+    const t = idToNode.get(edge.target)
+    if (!s || !t) return false
+    if (intraFilter === 'region') return Boolean(s.region && t.region && s.region === t.region)
+    if (intraFilter === 'division') return Boolean(s.division && t.division && s.division === t.division)
+    if (intraFilter === 'interRegion') return Boolean(s.region && t.region && s.region !== t.region)
+    if (intraFilter === 'interDivision') return Boolean(s.division && t.division && s.division !== t.division)
+    return true
+  })
+}
+
+interface TemporalStatsMutable {
+  year: number
+  totalIncoming: number
+  totalOutgoing: number
+  visibleIncoming: number
+  visibleOutgoing: number
+}
+
+export function computeExplorerData(snapshots: ExplorerSnapshot[], params: ExplorerPipelineParams): ExplorerData {
+  const currentYearValue = params.year
+  const yearToSnapshot = new Map<number, ExplorerSnapshot>()
+  for (const snapshot of snapshots) {
+    const ts = snapshotYear(snapshot)
+    if (Number.isFinite(ts) && !yearToSnapshot.has(ts)) {
+      yearToSnapshot.set(ts, snapshot)
+    }
+  }
+  const currentSnapshot = currentYearValue === null ? undefined : yearToSnapshot.get(currentYearValue)
+  if (!currentSnapshot) return { ...EMPTY_EXPLORER_DATA, year: currentYearValue }
+
+  const {
+    viewType,
+    nodeFilterAttribute,
+    edgeTypeFilter,
+    intraFilter,
+    hideUnreliable,
+    cvThreshold,
+    flowMode,
+    minThreshold,
+    maxThreshold,
+    maxEdges,
+    egoNodeId,
+    temporalOverlayEnabled,
+    temporalOverlayEdgeStyle,
+    edgeSegmentLength,
+    edgeSegmentGap,
+    edgeSegmentOffset,
+    edgeSegmentSpeed,
+    edgeSegmentScaleByWeight,
+    edgeSegmentCap,
+    edgeSegmentAnimate,
+    edgeOutlineGap,
+  } = params
+  const edgeTypeProperty = params.edgeTypeProperty ?? ''
+
+  const attributeFilterActive = Boolean(nodeFilterAttribute && params.nodeFilterValues.length > 0)
+  const filterValuesSet = new Set(params.nodeFilterValues.map((value) => String(value)))
+  const passesAttributeFilter = (node: CommonNode) => {
+    const value = node[nodeFilterAttribute as string]
+    if (value === undefined || value === null) return false
+    return filterValuesSet.has(String(value))
+  }
+  const attributeFilteredNodes = attributeFilterActive
+    ? currentSnapshot.nodes.filter(passesAttributeFilter)
+    : currentSnapshot.nodes
+  const allowedNodeIds = new Set(attributeFilteredNodes.map((node) => node.id))
+
+  if (allowedNodeIds.size === 0) {
+    return { ...EMPTY_EXPLORER_DATA, year: currentYearValue }
+  }
+
+  const yearsPast = Math.max(0, Math.round(params.temporalOverlayYearsPast))
+  const yearsFuture = Math.max(0, Math.round(params.temporalOverlayYearsFuture))
+
+  const computeEgoReachability = (edgesList: CommonEdge[]) => {
+    const allowedEdges = new Set<number>()
+    const edgeSteps = new Map<number, number>()
+    const nodeSteps = new Map<string, number>()
+    let maxStep = 0
+
+    if (!(viewType === 'kriskogram' && egoNodeId)) {
+      edgesList.forEach((_, idx) => allowedEdges.add(idx))
+      return { allowedEdges, edgeSteps, nodeSteps, maxStep }
+    }
+
+    const normalizedSteps = Math.max(1, Math.round(params.egoNeighborSteps))
+    let frontier = new Set<string>([egoNodeId])
+    nodeSteps.set(egoNodeId, 0)
+    const visitedNodes = new Set(frontier)
+
+    for (let step = 1; step <= normalizedSteps && frontier.size > 0; step += 1) {
+      const nextFrontier = new Set<string>()
+
+      edgesList.forEach((edge, idx) => {
+        const source = edge?.source
+        const target = edge?.target
+        if (!source || !target) {
+          return
+        }
+        if (frontier.has(source) || frontier.has(target)) {
+          allowedEdges.add(idx)
+          const existingEdgeStep = edgeSteps.get(idx)
+          if (existingEdgeStep === undefined || step < existingEdgeStep) {
+            edgeSteps.set(idx, step)
+          }
+          const updateNode = (nodeId: string) => {
+            const prev = nodeSteps.get(nodeId)
+            if (prev === undefined || step < prev) {
+              nodeSteps.set(nodeId, step)
+            }
+            if (!visitedNodes.has(nodeId)) {
+              visitedNodes.add(nodeId)
+              nextFrontier.add(nodeId)
+            }
+          }
+          updateNode(source)
+          updateNode(target)
+        }
+      })
+
+      frontier = nextFrontier
+    }
+
+    for (const step of nodeSteps.values()) {
+      if (step > maxStep) {
+        maxStep = step
+      }
+    }
+
+    if (!nodeSteps.has(egoNodeId)) {
+      nodeSteps.set(egoNodeId, 0)
+    }
+
+    return { allowedEdges, edgeSteps, nodeSteps, maxStep }
+  }
+
+  const overlayColorPast = expandHexColor(params.temporalOverlayColorPast)
+  const overlayColorMid = expandHexColor(params.temporalOverlayColorMid)
+  const overlayColorFuture = expandHexColor(params.temporalOverlayColorFuture)
+  const overlayCurrentColor = params.temporalOverlayCurrentBlack ? '#000000' : overlayColorMid
+
+  const getOverlayColorForDelta = (delta: number) => {
+    if (delta === 0) {
+      return overlayCurrentColor
+    }
+    if (delta < 0) {
+      if (yearsPast === 0) return overlayColorMid
+      const closeness = Math.max(0, Math.min(1, Math.abs(delta) / Math.max(yearsPast, 1)))
+      return mixColors(overlayColorPast, overlayColorMid, 1 - closeness)
+    }
+    if (yearsFuture === 0) return overlayColorMid
+    const closeness = Math.max(0, Math.min(1, delta / Math.max(yearsFuture, 1)))
+    return mixColors(overlayColorMid, overlayColorFuture, closeness)
+  }
+
+  const totalIncomingAll = new Map<string, number>()
+  const totalOutgoingAll = new Map<string, number>()
+  const totalSelfFlowAll = new Map<string, number>()
+  for (const edge of currentSnapshot.edges) {
+    if (!allowedNodeIds.has(edge.source) || !allowedNodeIds.has(edge.target)) {
+      continue
+    }
+    totalOutgoingAll.set(edge.source, (totalOutgoingAll.get(edge.source) || 0) + edge.value)
+    totalIncomingAll.set(edge.target, (totalIncomingAll.get(edge.target) || 0) + edge.value)
+    if (edge.source === edge.target) {
+      totalSelfFlowAll.set(edge.source, (totalSelfFlowAll.get(edge.source) || 0) + edge.value)
+    }
+  }
+
+  let edgesToFilter = filterEdgesByProperty(currentSnapshot.edges, edgeTypeProperty, edgeTypeFilter)
+  edgesToFilter = edgesToFilter.filter((edge) => allowedNodeIds.has(edge.source) && allowedNodeIds.has(edge.target))
+  edgesToFilter = applyIntraFilter(edgesToFilter, attributeFilteredNodes, intraFilter)
+  edgesToFilter = edgesToFilter.filter((edge) => edge?.source !== edge?.target)
+  if (hideUnreliable) {
+    edgesToFilter = edgesToFilter.filter((edge) => !isUnreliableFlow(edge, cvThreshold))
+  }
+
+  const filteredEdgesBase = applyFlowMode(
+    edgesToFilter,
+    flowMode,
+    (e) => e.value >= minThreshold && e.value <= maxThreshold,
+  )
+    .sort((a, b) => b.value - a.value)
+    .slice(0, maxEdges)
+
+  const {
+    allowedEdges: allowedCurrentEdges,
+    edgeSteps: currentEdgeSteps,
+    maxStep: currentMaxStep,
+  } = computeEgoReachability(filteredEdgesBase)
+
+  let maxEgoStepUsed = currentMaxStep
+
+  const visibleEdgesCurrent: ExplorerEdge[] = []
+  filteredEdgesBase.forEach((edge, idx) => {
+    if (!allowedCurrentEdges.has(idx)) return
+    const decorated: ExplorerEdge = {
+      ...edge,
+      _overlayType: undefined,
+      _overlayYear: currentYearValue,
+      _overlayOffset: 0,
+    }
+    const step = currentEdgeSteps.get(idx)
+    if (step !== undefined) {
+      decorated._egoStep = step
+    }
+    visibleEdgesCurrent.push(decorated)
+  })
+
+  const activeNodeIds = new Set<string>()
+  const nodeIncoming = new Map<string, number>()
+  const nodeOutgoing = new Map<string, number>()
+  for (const e of visibleEdgesCurrent) {
+    activeNodeIds.add(e.source)
+    activeNodeIds.add(e.target)
+    nodeOutgoing.set(e.source, (nodeOutgoing.get(e.source) || 0) + e.value)
+    nodeIncoming.set(e.target, (nodeIncoming.get(e.target) || 0) + e.value)
+  }
+  if (egoNodeId) {
+    activeNodeIds.add(egoNodeId)
+  }
+
+  const overlayEdges: ExplorerEdge[] = []
+  const overlayPastTotals = new Map<string, number>()
+  const overlayFutureTotals = new Map<string, number>()
+  let overlayNodeAbsMax = 0
+  let overlayHasPast = false
+  let overlayHasFuture = false
+
+  const nodeTemporalDetails = new Map<string, Map<number, TemporalStatsMutable>>()
+  const ensureTemporalStats = (nodeId: string, year: number | null | undefined) => {
+    if (typeof year !== 'number' || !Number.isFinite(year)) {
+      return null
+    }
+    let byYear = nodeTemporalDetails.get(nodeId)
+    if (!byYear) {
+      byYear = new Map<number, TemporalStatsMutable>()
+      nodeTemporalDetails.set(nodeId, byYear)
+    }
+    let stats = byYear.get(year)
+    if (!stats) {
+      stats = { year, totalIncoming: 0, totalOutgoing: 0, visibleIncoming: 0, visibleOutgoing: 0 }
+      byYear.set(year, stats)
+    }
+    return stats
+  }
+
+  const addOverlayForOffset = (currentYear: number, offset: number) => {
+    const targetYear = currentYear + offset
+    const snapshot = yearToSnapshot.get(targetYear)
+    if (!snapshot) return
+
+    let overlayAllowedNodeIds: Set<string> | null = null
+    if (attributeFilterActive) {
+      overlayAllowedNodeIds = new Set(snapshot.nodes.filter(passesAttributeFilter).map((node) => node.id))
+      if (overlayAllowedNodeIds.size === 0) {
+        return
+      }
+    }
+
+    let edgesForSnapshot = filterEdgesByProperty(snapshot.edges, edgeTypeProperty, edgeTypeFilter)
+    edgesForSnapshot = applyIntraFilter(edgesForSnapshot, snapshot.nodes, intraFilter)
+    if (hideUnreliable) {
+      edgesForSnapshot = edgesForSnapshot.filter((e) => !isUnreliableFlow(e, cvThreshold))
+    }
+    const allowedIds = overlayAllowedNodeIds
+    if (allowedIds) {
+      edgesForSnapshot = edgesForSnapshot.filter((e) => allowedIds.has(e.source) && allowedIds.has(e.target))
+    }
+
+    const overlayBase = applyFlowMode(
+      edgesForSnapshot,
+      flowMode,
+      (e) => e.value >= minThreshold && e.value <= maxThreshold,
+    )
+      .sort((a, b) => b.value - a.value)
+      .slice(0, maxEdges)
+
+    for (const edge of edgesForSnapshot) {
+      const weight = Number(edge?.value ?? 0)
+      if (!edge?.source || !edge?.target || !Number.isFinite(weight)) continue
+      const sourceStats = ensureTemporalStats(edge.source, targetYear)
+      const targetStats = ensureTemporalStats(edge.target, targetYear)
+      if (sourceStats) {
+        sourceStats.totalOutgoing += weight
+      }
+      if (targetStats) {
+        targetStats.totalIncoming += weight
+      }
+    }
+
+    const {
+      allowedEdges: overlayAllowedEdges,
+      edgeSteps: overlayEdgeSteps,
+      maxStep: overlayMaxStep,
+    } = computeEgoReachability(overlayBase)
+
+    if (overlayMaxStep > maxEgoStepUsed) {
+      maxEgoStepUsed = overlayMaxStep
+    }
+
+    const overlayType = offset < 0 ? 'past' : 'future'
+    const totals = offset < 0 ? overlayPastTotals : overlayFutureTotals
+    overlayBase.forEach((edge, idx) => {
+      if (!overlayAllowedEdges.has(idx)) return
+      const step = overlayEdgeSteps.get(idx)
+      const overlayEdge: ExplorerEdge = {
+        ...edge,
+        _overlayType: overlayType,
+        _overlayYear: targetYear,
+        _overlayOffset: offset,
+        _egoStep: step === undefined ? undefined : Math.max(1, step),
+      }
+      overlayEdges.push(overlayEdge)
+
+      const weight = Number(edge?.value ?? 0)
+      const sourceStats = ensureTemporalStats(edge.source, targetYear)
+      const targetStats = ensureTemporalStats(edge.target, targetYear)
+      if (sourceStats && Number.isFinite(weight)) {
+        sourceStats.visibleOutgoing += weight
+      }
+      if (targetStats && Number.isFinite(weight)) {
+        targetStats.visibleIncoming += weight
+      }
+      if (overlayType === 'past') {
+        overlayHasPast = true
+      } else {
+        overlayHasFuture = true
+      }
+      totals.set(edge.source, (totals.get(edge.source) || 0) + edge.value)
+      totals.set(edge.target, (totals.get(edge.target) || 0) + edge.value)
+    })
+  }
+
+  if (temporalOverlayEnabled && params.multiYear && currentYearValue !== null) {
+    for (let offset = -yearsPast; offset < 0; offset += 1) {
+      addOverlayForOffset(currentYearValue, offset)
+    }
+    for (let offset = 1; offset <= yearsFuture; offset += 1) {
+      addOverlayForOffset(currentYearValue, offset)
+    }
+  }
+
+  for (const edge of overlayEdges) {
+    activeNodeIds.add(edge.source)
+    activeNodeIds.add(edge.target)
+  }
+
+  const keepAllNodes = viewType === 'kriskogram' && params.showAllNodes
+
+  if (!keepAllNodes && import.meta.env.DEV && maxEdges < currentSnapshot.edges.length) {
+    const hiddenNodes = attributeFilteredNodes
+      .filter((n) => !activeNodeIds.has(n.id))
+      .map((n) => n.label || n.id)
+
+    if (hiddenNodes.length > 0) {
+      console.info(
+        `[Explorer] ${hiddenNodes.length} nodes currently lack visible edges after filtering (maxEdges=${maxEdges}, thresholds=${minThreshold}-${maxThreshold}).`,
+        hiddenNodes.slice(0, 10),
+      )
+    }
+  }
+
+  const baseNodes = keepAllNodes ? attributeFilteredNodes : attributeFilteredNodes.filter((n) => activeNodeIds.has(n.id))
+
+  const nodesWithDynamicAttrs: ExplorerNode[] = baseNodes.map((n) => {
+    const visibleIncoming = nodeIncoming.get(n.id) || 0
+    const visibleOutgoing = nodeOutgoing.get(n.id) || 0
+    const totalIncomingYear = totalIncomingAll.get(n.id) || 0
+    const totalOutgoingYear = totalOutgoingAll.get(n.id) || 0
+    const overlayPast = overlayPastTotals.get(n.id) || 0
+    const overlayFuture = overlayFutureTotals.get(n.id) || 0
+    const overlayDelta = overlayFuture - overlayPast
+    if (Math.abs(overlayDelta) > overlayNodeAbsMax) {
+      overlayNodeAbsMax = Math.abs(overlayDelta)
+    }
+
+    const currentStats = ensureTemporalStats(n.id, currentYearValue)
+    if (currentStats) {
+      currentStats.totalIncoming = totalIncomingYear
+      currentStats.totalOutgoing = totalOutgoingYear
+      currentStats.visibleIncoming = visibleIncoming
+      currentStats.visibleOutgoing = visibleOutgoing
+    }
+
+    const temporalDetailMap = nodeTemporalDetails.get(n.id)
+    const temporalDetails = temporalDetailMap
+      ? Array.from(temporalDetailMap.values())
+          .map((stat) => ({
+            year: stat.year,
+            total_incoming: stat.totalIncoming,
+            total_outgoing: stat.totalOutgoing,
+            visible_incoming: stat.visibleIncoming,
+            visible_outgoing: stat.visibleOutgoing,
+            net_total: stat.totalIncoming - stat.totalOutgoing,
+            net_visible: stat.visibleIncoming - stat.visibleOutgoing,
+            is_current: stat.year === currentYearValue,
+          }))
+          .sort((a, b) => a.year - b.year)
+      : []
+
+    return {
+      ...n,
+      _totalIncoming: visibleIncoming,
+      _totalOutgoing: visibleOutgoing,
+      total_incoming_visible: visibleIncoming,
+      total_outgoing_visible: visibleOutgoing,
+      total_incoming_year: totalIncomingYear,
+      total_outgoing_year: totalOutgoingYear,
+      net_flow_visible: visibleIncoming - visibleOutgoing,
+      net_flow_year: totalIncomingYear - totalOutgoingYear,
+      self_flow_year: totalSelfFlowAll.get(n.id) || 0,
+      temporal_overlay_past_total: overlayPast,
+      temporal_overlay_future_total: overlayFuture,
+      temporal_overlay_delta: overlayDelta,
+      _overlayPastTotal: overlayPast,
+      _overlayFutureTotal: overlayFuture,
+      _overlayDelta: overlayDelta,
+      _overlayStrokeWidth: 2,
+      _overlayStrokeColor: '#fff',
+      temporal_details: temporalDetails,
+    }
+  })
+
+  if (temporalOverlayEnabled) {
+    for (const node of nodesWithDynamicAttrs) {
+      const delta = node._overlayDelta
+      const ratio = overlayNodeAbsMax > 0 ? Math.max(0, Math.min(1, Math.abs(delta) / overlayNodeAbsMax)) : 0
+      node._overlayStrokeWidth = delta === 0 ? 2 : 1.5 + ratio * 3
+      node._overlayStrokeColor = getOverlayColorForDelta(delta)
+    }
+  }
+
+  const makeLegendLabel = (offset: number) => {
+    const suffix = Math.abs(offset) === 1 ? 'year' : 'years'
+    if (currentYearValue !== null) {
+      const yearLabel = currentYearValue + offset
+      if (offset === 0) return `${yearLabel} (current)`
+      return offset < 0
+        ? `${yearLabel} (${Math.abs(offset)} ${suffix} past)`
+        : `${yearLabel} (${offset} ${suffix} future)`
+    }
+    if (offset === 0) return 'Current year'
+    return offset < 0 ? `${Math.abs(offset)} ${suffix} past` : `${offset} ${suffix} future`
+  }
+
+  let temporalOverlaySummary: TemporalOverlaySummary | null = null
+  if (temporalOverlayEnabled) {
+    const legendEntries = [{ label: makeLegendLabel(0), color: overlayCurrentColor, delta: 0 }]
+    for (let offset = -yearsPast; offset < 0; offset += 1) {
+      legendEntries.push({ label: makeLegendLabel(offset), color: getOverlayColorForDelta(offset), delta: offset })
+    }
+    for (let offset = 1; offset <= yearsFuture; offset += 1) {
+      legendEntries.push({ label: makeLegendLabel(offset), color: getOverlayColorForDelta(offset), delta: offset })
+    }
+    temporalOverlaySummary = {
+      hasPast: overlayHasPast,
+      hasFuture: overlayHasFuture,
+      nodeDeltaAbsMax: overlayNodeAbsMax,
+      style: temporalOverlayEdgeStyle,
+      edgeSegmentLength,
+      edgeSegmentGap,
+      edgeSegmentOffset,
+      edgeSegmentSpeed,
+      edgeSegmentScaleByWeight,
+      edgeSegmentCap,
+      edgeSegmentAnimate,
+      edgeOutlineGap,
+      yearsPast,
+      yearsFuture,
+      colorCurrent: overlayCurrentColor,
+      colorPast: overlayColorPast,
+      colorMid: overlayColorMid,
+      colorFuture: overlayColorFuture,
+      useBlackForCurrent: params.temporalOverlayCurrentBlack,
+      legendEntries,
+    }
+  }
+
+  return {
+    year: currentYearValue,
+    nodes: nodesWithDynamicAttrs,
+    baseEdges: visibleEdgesCurrent,
+    edges:
+      temporalOverlayEnabled && overlayEdges.length > 0 ? [...visibleEdgesCurrent, ...overlayEdges] : visibleEdgesCurrent,
+    currentEdgeCount: visibleEdgesCurrent.length,
+    egoStepMax: maxEgoStepUsed,
+    temporalOverlay: temporalOverlaySummary,
+  }
+}
+
+export type ExplorerPipelineMessage =
+  | { type: 'load'; snapshots: ExplorerSnapshot[] }
+  | { type: 'compute'; id: number; params: ExplorerPipelineParams }
+  | { type: 'computeMany'; id: number; params: ExplorerPipelineParams[] }
+  | { type: 'cancel'; id: number }
+
+export type ExplorerPipelineResponse =
+  | { id: number; data: ExplorerData | ExplorerData[] }
+  | { id: number; error: string }
+
+export interface ExplorerPipelineRequest<T> {
+  promise: Promise<T>
+  cancel: () => void
+}
+
+export interface ExplorerPipeline {
+  compute: (params: ExplorerPipelineParams) => ExplorerPipelineRequest<ExplorerData>
+  /** Computes several results in one request, e.g. one per small-multiples panel. */
+  computeMany: (params: ExplorerPipelineParams[]) => ExplorerPipelineRequest<ExplorerData[]>
+  dispose: () => void
+}
+
+/**
+ * Runs the pipeline over `snapshots` in a Web Worker, which receives them once and
+ * keeps them for every request. Only the newest request of each kind waits to run:
+ * cancelled or superseded requests the worker has not started are skipped, and their
+ * promises never settle. Where Workers are unavailable (tests, SSR) it computes inline.
+ */
+export function createExplorerPipeline(snapshots: ExplorerSnapshot[]): ExplorerPipeline {
+  if (typeof Worker === 'undefined') {
+    return {
+      compute: (params) => ({ promise: Promise.resolve(computeExplorerData(snapshots, params)), cancel: () => {} }),
+      computeMany: (params) => ({
+        promise: Promise.resolve(params.map((entry) => computeExplorerData(snapshots, entry))),
+        cancel: () => {},
+      }),
+      dispose: () => {},
+    }
+  }
+
+  const worker = new Worker(new URL('./explorer-pipeline.worker.ts', import.meta.url), { type: 'module' })
+  const pending = new Map<
+    number,
+    { resolve: (data: ExplorerData | ExplorerData[]) => void; reject: (error: Error) => void }
+  >()
+  let nextId = 1
+  const post = (message: ExplorerPipelineMessage) => worker.postMessage(message)
+
+  worker.onmessage = (event: MessageEvent<ExplorerPipelineResponse>) => {
+    const response = event.data
+    const request = pending.get(response.id)
+    if (!request) return
+    pending.delete(response.id)
+    if ('error' in response) {
+      request.reject(new Error(response.error))
+    } else {
+      request.resolve(response.data)
+    }
+  }
+  worker.onerror = (event) => {
+    const error = new Error(event.message || 'Explorer pipeline worker failed')
+    for (const request of pending.values()) request.reject(error)
+    pending.clear()
+  }
+
+  post({ type: 'load', snapshots })
+
+  const request = <T extends ExplorerData | ExplorerData[]>(
+    message: (id: number) => ExplorerPipelineMessage,
+  ): ExplorerPipelineRequest<T> => {
+    const id = nextId++
+    const promise = new Promise<T>((resolve, reject) => {
+      pending.set(id, { resolve: (data) => resolve(data as T), reject })
+    })
+    post(message(id))
+    return {
+      promise,
+      cancel: () => {
+        if (pending.delete(id)) post({ type: 'cancel', id })
+      },
+    }
+  }
+
+  return {
+    compute: (params) => request<ExplorerData>((id) => ({ type: 'compute', id, params })),
+    computeMany: (params) => request<ExplorerData[]>((id) => ({ type: 'computeMany', id, params })),
+    dispose: () => {
+      pending.clear()
+      worker.terminate()
+    },
+  }
+}
@@ -0,0 +1,44 @@
+import {
+  type ExplorerPipelineMessage,
+  type ExplorerPipelineResponse,
+  type ExplorerSnapshot,
+  computeExplorerData,
+} from './explorer-pipeline'
+
+type ComputeMessage = Extract<ExplorerPipelineMessage, { type: 'compute' | 'computeMany' }>
+
+let snapshots: ExplorerSnapshot[] = []
+// Only the newest request of each kind is kept: anything it replaced before we got to it is stale
+const queued = new Map<ComputeMessage['type'], ComputeMessage>()
+
+const respond = (response: ExplorerPipelineResponse) => self.postMessage(response)
+
+const runQueued = (type: ComputeMessage['type']) => {
+  const request = queued.get(type)
+  queued.delete(type)
+  if (!request) return
+  try {
+    const data =
+      request.type === 'compute'
+        ? computeExplorerData(snapshots, request.params)
+        : request.params.map((params) => computeExplorerData(snapshots, params))
+    respond({ id: request.id, data })
+  } catch (error) {
+    respond({ id: request.id, error: error instanceof Error ? error.message : String(error) })
+  }
+}
+
+self.addEventListener('message', (event: MessageEvent<ExplorerPipelineMessage>) => {
+  const message = event.data
+  if (message.type === 'load') {
+    snapshots = message.snapshots
+  } else if (message.type === 'cancel') {
+    for (const [type, request] of queued) {
+      if (request.id === message.id) queued.delete(type)
+    }
+  } else {
+    queued.set(message.type, message)
+    // Yield so cancels and newer requests already in the mailbox are seen first
+    setTimeout(() => runQueued(message.type), 0)
+  }
+})
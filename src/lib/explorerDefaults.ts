@@ -53,5 +53,33 @@ export const explorerDefaultSearch: ExplorerSearchParams = {
   nodeSizeMultiplier: 1,
   interactionMode: 'pan',
   lensRadius: 80,
+  lensShape: 'circle',
+  lensEffect: 'bend',
+  lenses: [],
+  playbackSpeed: 1,
+  playbackLoop: true,
+  uncertaintyMode: 'none',
+  unreliableStyle: 'hatch',
+  cvThreshold: 0.4,
+  hideUnreliable: false,
+  flowMode: 'raw',
+  doiInsets: true,
+  doiFunction: 'sum',
+  doiMaxInsets: 5,
+  geoMap: false,
+  renderer: 'auto',
+  multiplesFacet: 'year',
+  multiplesYears: [],
+  compare: false,
+  compareYear: undefined,
+  compareDataset: null,
+  comparePercent: true,
+  aggregate: 'none',
+  aggregateStat: 'sum',
+  aggregateStart: undefined,
+  aggregateEnd: undefined,
+  aggregateWindow: 3,
+  groupBy: null,
+  collapsedGroups: [],
   labelScale: 1,
 }
@@ -23,6 +23,10 @@ const FLOW_FIELD_LABELS: Record<string, string> = {
   temporal_overlay_past_total: 'Overlay Past Total',
   temporal_overlay_future_total: 'Overlay Future Total',
   temporal_overlay_delta: 'Overlay Δ (Future - Past)',
+  gross_flow: 'Gross Flow (Both Directions)',
+  net_flow: 'Net Flow',
+  reverse_flow: 'Counter Flow',
+  efficiency: 'Migration Efficiency',
 };
 
 const GENERAL_LABEL_OVERRIDES: Record<string, string> = {
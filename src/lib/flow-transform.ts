@@ -0,0 +1,116 @@
+/**
+ * Flow transforms for bidirectional pairs
+ *
+ * Migration tables list A→B and B→A as separate flows. Every view can instead show
+ * one flow per pair: the net movement, the gross exchange or the migration
+ * efficiency (net / gross). The dominant direction becomes the flow's source, so
+ * direction colouring keeps working.
+ */
+
+import type { CommonEdge } from './data-adapters'
+import { getFlowMoe } from './uncertainty'
+
+export type FlowMode = 'raw' | 'net' | 'gross' | 'efficiency'
+
+export const FLOW_MODES: Array<{ mode: FlowMode; label: string; description: string }> = [
+  { mode: 'raw', label: 'Directional', description: 'Each direction drawn separately' },
+  { mode: 'net', label: 'Net flow', description: 'Net flow |A→B − B→A|, dominant direction' },
+  { mode: 'gross', label: 'Gross flow', description: 'Gross flow A→B + B→A' },
+  { mode: 'efficiency', label: 'Efficiency', description: 'Efficiency: net ÷ gross (0–1)' },
+]
+
+export const DEFAULT_FLOW_MODE: FlowMode = 'raw'
+
+export function isFlowMode(value: unknown): value is FlowMode {
+  return FLOW_MODES.some((entry) => entry.mode === value)
+}
+
+const pairKey = (edge: CommonEdge) =>
+  edge.source < edge.target ? `${edge.source}|${edge.target}` : `${edge.target}|${edge.source}`
+
+/**
+ * Collapses each A→B / B→A pair into one flow. Parallel flows in the same direction
+ * are summed first. The result carries `gross_flow`, `net_flow`, `reverse_flow` and
+ * `efficiency`; MOEs combine as √(moe₁² + moe₂²), the ACS rule for sums and
+ * differences, and are dropped for efficiency ratios. Pairs with no net movement
+ * are left out of net and efficiency modes.
+ */
+export function transformFlows<E extends CommonEdge>(edges: E[], mode: FlowMode): E[] {
+  if (mode === 'raw') return edges
+
+  const pairs = new Map<
+    string,
+    { forward: E; forwardValue: number; backwardValue: number; moeSquares: number; hasMoe: boolean }
+  >()
+  const result: E[] = []
+  for (const edge of edges) {
+    if (edge.source === edge.target) continue
+    const key = pairKey(edge)
+    const value = Number.isFinite(edge.value) ? edge.value : 0
+    const moe = getFlowMoe(edge)
+    let pair = pairs.get(key)
+    if (!pair) {
+      pair = { forward: edge, forwardValue: 0, backwardValue: 0, moeSquares: 0, hasMoe: false }
+      pairs.set(key, pair)
+    }
+    if (edge.source === pair.forward.source) {
+      pair.forwardValue += value
+    } else {
+      pair.backwardValue += value
+    }
+    if (moe !== null) {
+      pair.moeSquares += moe * moe
+      pair.hasMoe = true
+    }
+  }
+
+  for (const { forward, forwardValue, backwardValue, moeSquares, hasMoe } of pairs.values()) {
+    const gross = forwardValue + backwardValue
+    const net = Math.abs(forwardValue - backwardValue)
+    if (mode !== 'gross' && net === 0) continue
+    const forwardDominant = forwardValue >= backwardValue
+    const value = mode === 'gross' ? gross : mode === 'net' ? net : gross > 0 ? net / gross : 0
+    const { moe: _directionalMoe, ...rest } = forward
+    const combined: CommonEdge = {
+      ...rest,
+      source: forwardDominant ? forward.source : forward.target,
+      target: forwardDominant ? forward.target : forward.source,
+      value,
+      gross_flow: gross,
+      net_flow: net,
+      reverse_flow: forwardDominant ? backwardValue : forwardValue,
+      efficiency: gross > 0 ? net / gross : 0,
+      ...(mode !== 'efficiency' && hasMoe ? { moe: Math.sqrt(moeSquares) } : {}),
+    }
+    result.push(combined as E)
+  }
+  return result
+}
+
+/**
+ * Applies a threshold-style filter and then the flow mode. In the pair modes the
+ * filter selects pairs rather than flows: a pair is kept when either direction
+ * passes, and both directions then contribute to the combined flow.
+ */
+export function applyFlowMode<E extends CommonEdge>(edges: E[], mode: FlowMode, keep: (edge: E) => boolean): E[] {
+  if (mode === 'raw') return edges.filter(keep)
+  const keptPairs = new Set(edges.filter(keep).map(pairKey))
+  return transformFlows(
+    edges.filter((edge) => keptPairs.has(pairKey(edge))),
+    mode,
+  )
+}
+
+/** Value range to scale widths against, given the range of the directional flows. */
+export function flowValueRange(mode: FlowMode, min: number, max: number): { min: number; max: number } {
+  switch (mode) {
+    case 'net':
+      return { min: 0, max }
+    case 'gross':
+      return { min, max: max * 2 }
+    case 'efficiency':
+      return { min: 0, max: 1 }
+    default:
+      return { min, max }
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * Baseline orders from node coordinates
+ *
+ * A Kriskogram baseline is one-dimensional, so any order throws geography away. These
+ * orders keep as much of it as they can: a space-filling curve (Hilbert or Morton)
+ * visits nearby places close together, and a short tour through all nodes keeps
+ * neighbours adjacent along the whole path. Nodes without coordinates go at the end.
+ */
+
+import { STATE_CENTROIDS } from '../data/stateCentroids';
+
+export type GeoOrderMode = 'geo-hilbert' | 'geo-morton' | 'geo-tsp';
+
+export const GEO_ORDER_MODES: Array<{ mode: GeoOrderMode; label: string }> = [
+  { mode: 'geo-hilbert', label: 'Hilbert curve' },
+  { mode: 'geo-morton', label: 'Morton (Z-order) curve' },
+  { mode: 'geo-tsp', label: 'Shortest tour' },
+];
+
+export function isGeoOrderMode(mode: string): mode is GeoOrderMode {
+  return GEO_ORDER_MODES.some((entry) => entry.mode === mode);
+}
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface GeoNode {
+  id: string;
+  label?: string;
+  [key: string]: unknown;
+}
+
+const COORDINATE_KEYS: Array<[string, string]> = [
+  ['latitude', 'longitude'],
+  ['lat', 'lon'],
+  ['lat', 'lng'],
+];
+
+const toNumber = (value: unknown): number | null => {
+  const number = typeof value === 'string' ? Number.parseFloat(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : null;
+};
+
+/**
+ * Reads a node's coordinates from GEXF-style `latitude`/`longitude` or `lat`/`lon`
+ * attributes, falling back to the state centroid for US state labels.
+ */
+export function getNodeCoordinates(node: GeoNode): GeoPoint | null {
+  for (const [latKey, lonKey] of COORDINATE_KEYS) {
+    const latitude = toNumber(node[latKey]);
+    const longitude = toNumber(node[lonKey]);
+    if (latitude !== null && longitude !== null) return { latitude, longitude };
+  }
+  const centroid = STATE_CENTROIDS[node.label ?? node.id];
+  return centroid ? { ...centroid } : null;
+}
+
+/** Equirectangular projection scaled by the mean latitude, good enough for ordering. */
+function project(points: GeoPoint[]): Array<[number, number]> {
+  const meanLatitude = points.reduce((sum, point) => sum + point.latitude, 0) / Math.max(points.length, 1);
+  const xScale = Math.cos((meanLatitude * Math.PI) / 180);
+  return points.map((point) => [point.longitude * xScale, point.latitude]);
+}
+
+const CURVE_BITS = 16;
+const CURVE_SIZE = 1 << CURVE_BITS;
+
+/** Distance along a Hilbert curve filling a `CURVE_SIZE` square. */
+export function hilbertIndex(column: number, row: number): number {
+  let x = column;
+  let y = row;
+  let d = 0;
+  let rx: number;
+  let ry: number;
+  for (let s = CURVE_SIZE / 2; s > 0; s = Math.floor(s / 2)) {
+    rx = (x & s) > 0 ? 1 : 0;
+    ry = (y & s) > 0 ? 1 : 0;
+    d += s * s * ((3 * rx) ^ ry);
+    if (ry === 0) {
+      if (rx === 1) {
+        x = s - 1 - x;
+        y = s - 1 - y;
+      }
+      [x, y] = [y, x];
+    }
+  }
+  return d;
+}
+
+/** Morton (Z-order) index: the bits of x and y interleaved. */
+export function mortonIndex(x: number, y: number): number {
+  let d = 0;
+  for (let bit = CURVE_BITS - 1; bit >= 0; bit--) {
+    d = d * 4 + ((y >> bit) & 1) * 2 + ((x >> bit) & 1);
+  }
+  return d;
+}
+
+function curveOrder(projected: Array<[number, number]>, index: (x: number, y: number) => number): number[] {
+  const xs = projected.map((point) => point[0]);
+  const ys = projected.map((point) => point[1]);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  // One scale for both axes so the curve does not stretch the map
+  const span = Math.max(Math.max(...xs) - minX, Math.max(...ys) - minY) || 1;
+  const cell = (value: number, min: number) => Math.min(CURVE_SIZE - 1, Math.floor(((value - min) / span) * CURVE_SIZE));
+  // Flip y so the curve starts in the north-west, like reading a map
+  const keys = projected.map(([x, y]) => index(cell(x, minX), CURVE_SIZE - 1 - cell(y, minY)));
+  return projected.map((_, position) => position).sort((a, b) => keys[a] - keys[b] || a - b);
+}
+
+/**
+ * Open tour through all points: nearest neighbour from the westernmost point, then
+ * 2-opt reversals until no segment swap shortens the path.
+ */
+function tourOrder(projected: Array<[number, number]>, maxPasses = 50): number[] {
+  const n = projected.length;
+  if (n < 3) return projected.map((_, position) => position);
+  const distance = (a: number, b: number) =>
+    Math.hypot(projected[a][0] - projected[b][0], projected[a][1] - projected[b][1]);
+
+  let start = 0;
+  for (let i = 1; i < n; i++) {
+    if (projected[i][0] < projected[start][0]) start = i;
+  }
+  const tour = [start];
+  const visited = new Set(tour);
+  while (tour.length < n) {
+    const last = tour[tour.length - 1];
+    let next = -1;
+    for (let i = 0; i < n; i++) {
+      if (!visited.has(i) && (next < 0 || distance(last, i) < distance(last, next))) next = i;
+    }
+    tour.push(next);
+    visited.add(next);
+  }
+
+  for (let pass = 0; pass < maxPasses; pass++) {
+    let improved = false;
+    for (let i = 0; i < n - 1; i++) {
+      for (let j = i + 1; j < n; j++) {
+        // Reversing tour[i..j] swaps edges (i-1, i) and (j, j+1); path ends are free
+        const before = (i > 0 ? distance(tour[i - 1], tour[i]) : 0) + (j < n - 1 ? distance(tour[j], tour[j + 1]) : 0);
+        const after = (i > 0 ? distance(tour[i - 1], tour[j]) : 0) + (j < n - 1 ? distance(tour[i], tour[j + 1]) : 0);
+        if (after < before - 1e-9) {
+          tour.splice(i, j - i + 1, ...tour.slice(i, j + 1).reverse());
+          improved = true;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+  return tour;
+}
+
+/** Node ids ordered along the chosen curve or tour, with unplaced nodes appended. */
+export function geoOrder(nodes: GeoNode[], mode: GeoOrderMode): string[] {
+  const placed: Array<{ id: string; point: GeoPoint }> = [];
+  const unplaced: string[] = [];
+  for (const node of nodes) {
+    const point = getNodeCoordinates(node);
+    if (point) {
+      placed.push({ id: node.id, point });
+    } else {
+      unplaced.push(node.id);
+    }
+  }
+  if (placed.length === 0) return unplaced;
+
+  const projected = project(placed.map((entry) => entry.point));
+  const order =
+    mode === 'geo-tsp'
+      ? tourOrder(projected)
+      : curveOrder(projected, mode === 'geo-hilbert' ? hilbertIndex : mortonIndex);
+  return [...order.map((position) => placed[position].id), ...unplaced];
+}
+
+/** Whether enough nodes have coordinates for a geographic order to mean anything. */
+export function hasGeoCoordinates(nodes: GeoNode[]): boolean {
+  let placed = 0;
+  for (const node of nodes) {
+    if (getNodeCoordinates(node)) placed++;
+  }
+  return placed >= 2 && placed >= nodes.length / 2;
+}
@@ -0,0 +1,316 @@
+/**
+ * GEXF export
+ *
+ * Writes a stored dataset as a GEXF 1.3 dynamic graph, so any dataset, whatever it was
+ * imported from, opens in Gephi. `parseGexf` reads the file back into the same
+ * snapshots:
+ *
+ * - every snapshot time becomes a timestamp, so gaps such as 2020 stay gaps;
+ * - values that change between snapshots become timestamped attvalues, including edge
+ *   weights;
+ * - `viz_*` properties become viz elements and `parent` becomes `<parents>` when they
+ *   hold one value throughout.
+ *
+ * Edges are matched across snapshots by source, target and their order among edges
+ * between the same pair, so flows split by type keep their identity.
+ */
+
+import type { StoredDataset } from './storage';
+
+const GEXF_NAMESPACE = 'http://gexf.net/1.3';
+const VIZ_NAMESPACE = 'http://gexf.net/1.3/viz';
+
+const NODE_VIZ = ['viz_color', 'viz_x', 'viz_y', 'viz_z', 'viz_size', 'viz_shape'];
+const EDGE_VIZ = ['viz_color', 'viz_thickness', 'viz_shape'];
+
+interface TimedElement {
+  /** The element's properties at each snapshot time it appears in. */
+  byTime: Map<number, Record<string, unknown>>;
+}
+
+interface ExportNode extends TimedElement {
+  id: string;
+}
+
+interface ExportEdge extends TimedElement {
+  source: string;
+  target: string;
+}
+
+type Property = { static: true; value: unknown } | { static: false; values: Array<[number, unknown]> };
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const isWritable = (value: unknown) =>
+  value !== null && value !== undefined && (typeof value !== 'number' || Number.isFinite(value));
+
+function writeValue(value: unknown): string {
+  if (typeof value === 'object') return escapeXml(JSON.stringify(value));
+  return escapeXml(String(value));
+}
+
+/** Collects one property across the times an element appears: static when it never changes. */
+function readProperty(element: TimedElement, key: string): Property | null {
+  const values: Array<[number, unknown]> = [];
+  for (const [time, properties] of element.byTime) {
+    if (isWritable(properties[key])) values.push([time, properties[key]]);
+  }
+  if (values.length === 0) return null;
+  const first = JSON.stringify(values[0][1]);
+  if (values.length === element.byTime.size && values.every(([, value]) => JSON.stringify(value) === first)) {
+    return { static: true, value: values[0][1] };
+  }
+  return { static: false, values };
+}
+
+/** The narrowest GEXF attribute type that holds every value. */
+export function attributeType(values: unknown[]): string {
+  if (values.every(value => typeof value === 'boolean')) return 'boolean';
+  if (!values.every((value): value is number => typeof value === 'number')) return 'string';
+  if (!values.every(Number.isInteger)) return 'double';
+  return values.every(value => Math.abs(value) < 2 ** 31) ? 'integer' : 'long';
+}
+
+function collectKeys(elements: TimedElement[], skip: Set<string>): string[] {
+  const keys = new Set<string>();
+  for (const element of elements) {
+    for (const properties of element.byTime.values()) {
+      for (const key of Object.keys(properties)) {
+        if (!skip.has(key)) keys.add(key);
+      }
+    }
+  }
+  return [...keys];
+}
+
+/** Attribute declarations for `keys`, typed from every value they take. */
+function declareAttributes(elements: TimedElement[], keys: string[]) {
+  return keys.map((title, index) => {
+    const values = elements.flatMap(element =>
+      [...element.byTime.values()].map(properties => properties[title]).filter(isWritable),
+    );
+    return { id: String(index), title, type: attributeType(values) };
+  });
+}
+
+function writeAttributes(cls: 'node' | 'edge', attributes: Array<{ id: string; title: string; type: string }>) {
+  if (attributes.length === 0) return [];
+  return [
+    `    <attributes class="${cls}" mode="dynamic">`,
+    ...attributes.map(
+      attribute =>
+        `      <attribute id="${attribute.id}" title="${escapeXml(attribute.title)}" type="${attribute.type}"/>`,
+    ),
+    '    </attributes>',
+  ];
+}
+
+function writeAttvalues(
+  element: TimedElement,
+  attributes: Array<{ id: string; title: string }>,
+  handled: Set<string>,
+  extra: string[] = [],
+): string[] {
+  const lines = [...extra];
+  for (const attribute of attributes) {
+    const property = handled.has(attribute.title) ? null : readProperty(element, attribute.title);
+    if (!property) continue;
+    if (property.static) {
+      lines.push(`<attvalue for="${attribute.id}" value="${writeValue(property.value)}"/>`);
+    } else {
+      for (const [time, value] of property.values) {
+        lines.push(`<attvalue for="${attribute.id}" value="${writeValue(value)}" timestamp="${time}"/>`);
+      }
+    }
+  }
+  if (lines.length === 0) return [];
+  return ['        <attvalues>', ...lines.map(line => `          ${line}`), '        </attvalues>'];
+}
+
+function writeSpells(element: TimedElement): string[] {
+  return [
+    '        <spells>',
+    ...[...element.byTime.keys()].map(time => `          <spell timestamp="${time}"/>`),
+    '        </spells>',
+  ];
+}
+
+function hexColor(value: string): { r: number; g: number; b: number; a?: number } | null {
+  const hex = /^#?([0-9a-f]{6})$/i.exec(value);
+  if (hex) {
+    const number = Number.parseInt(hex[1], 16);
+    return { r: (number >> 16) & 255, g: (number >> 8) & 255, b: number & 255 };
+  }
+  const rgba = /^rgba?\((\d+),\s*(\d+),\s*(\d+)(?:,\s*([\d.]+))?\)$/i.exec(value);
+  if (rgba) {
+    const [r, g, b] = rgba.slice(1, 4).map(Number);
+    return rgba[4] === undefined ? { r, g, b } : { r, g, b, a: Number(rgba[4]) };
+  }
+  return null;
+}
+
+/**
+ * Viz elements for the `viz_*` properties that hold one value throughout. Returns the
+ * lines and the properties it wrote, which then need no attvalue.
+ */
+function writeViz(element: TimedElement, keys: string[]) {
+  const lines: string[] = [];
+  const handled = new Set<string>();
+  const value = (key: string) => {
+    const property = keys.includes(key) ? readProperty(element, key) : null;
+    return property?.static ? property.value : undefined;
+  };
+
+  const color = value('viz_color');
+  const rgb = typeof color === 'string' ? hexColor(color) : null;
+  if (rgb) {
+    const alpha = rgb.a === undefined ? '' : ` a="${rgb.a}"`;
+    lines.push(`<viz:color r="${rgb.r}" g="${rgb.g}" b="${rgb.b}"${alpha}/>`);
+    handled.add('viz_color');
+  }
+  const [x, y, z] = ['viz_x', 'viz_y', 'viz_z'].map(value);
+  if (typeof x === 'number' && typeof y === 'number') {
+    lines.push(`<viz:position x="${x}" y="${y}"${typeof z === 'number' ? ` z="${z}"` : ''}/>`);
+    handled.add('viz_x');
+    handled.add('viz_y');
+    if (typeof z === 'number') handled.add('viz_z');
+  }
+  for (const name of ['size', 'thickness']) {
+    const size = value(`viz_${name}`);
+    if (typeof size === 'number') {
+      lines.push(`<viz:${name} value="${size}"/>`);
+      handled.add(`viz_${name}`);
+    }
+  }
+  const shape = value('viz_shape');
+  if (typeof shape === 'string') {
+    lines.push(`<viz:shape value="${escapeXml(shape)}"/>`);
+    handled.add('viz_shape');
+  }
+  return { lines: lines.map(line => `        ${line}`), handled };
+}
+
+/** Parents that name other nodes are written as `<parents>`, others stay attributes. */
+function writeParents(node: ExportNode, nodeIds: Set<string>) {
+  const handled = new Set<string>();
+  const parents = readProperty(node, 'parents');
+  const parent = readProperty(node, 'parent');
+  let ids: string[] = [];
+  if (parents?.static && typeof parents.value === 'string') {
+    ids = parents.value.split('|');
+    if (parent && !(parent.static && parent.value === ids[0])) ids = [];
+  } else if (!parents && parent?.static && typeof parent.value === 'string') {
+    ids = [parent.value];
+  }
+  if (ids.length === 0 || !ids.every(id => nodeIds.has(id))) return { lines: [], handled };
+  handled.add('parent');
+  if (parents) handled.add('parents');
+  return {
+    lines: [
+      '        <parents>',
+      ...ids.map(id => `          <parent for="${escapeXml(id)}"/>`),
+      '        </parents>',
+    ],
+    handled,
+  };
+}
+
+function collectElements(dataset: StoredDataset) {
+  const nodes = new Map<string, ExportNode>();
+  const edges = new Map<string, ExportEdge>();
+  for (const snapshot of dataset.snapshots) {
+    const time = snapshot.timestamp;
+    for (const node of snapshot.nodes) {
+      const id = String(node.id);
+      const entry = nodes.get(id) ?? { id, byTime: new Map() };
+      entry.byTime.set(time, node);
+      nodes.set(id, entry);
+    }
+    const occurrences = new Map<string, number>();
+    for (const edge of snapshot.edges) {
+      const pair = `${edge.source}\u0000${edge.target}`;
+      const occurrence = occurrences.get(pair) ?? 0;
+      occurrences.set(pair, occurrence + 1);
+      const key = `${pair}\u0000${occurrence}`;
+      const entry = edges.get(key) ?? { source: String(edge.source), target: String(edge.target), byTime: new Map() };
+      entry.byTime.set(time, edge);
+      edges.set(key, entry);
+    }
+  }
+  return { nodes: [...nodes.values()], edges: [...edges.values()] };
+}
+
+export function datasetToGexf(dataset: StoredDataset): string {
+  const { nodes, edges } = collectElements(dataset);
+  const times = dataset.snapshots.map(snapshot => snapshot.timestamp);
+  const timeFormat = times.every(Number.isInteger) ? 'integer' : 'double';
+  const nodeIds = new Set(nodes.map(node => node.id));
+
+  const nodeAttributes = declareAttributes(nodes, collectKeys(nodes, new Set(['id'])));
+  const edgeAttributes = declareAttributes(edges, collectKeys(edges, new Set(['source', 'target', 'value'])));
+  const nodeKeys = nodeAttributes.map(attribute => attribute.title);
+  const edgeKeys = edgeAttributes.map(attribute => attribute.title);
+
+  const nodeLines = nodes.flatMap(node => {
+    const label = readProperty(node, 'label');
+    const staticLabel = label?.static && typeof label.value === 'string' ? label.value : null;
+    const viz = writeViz(node, NODE_VIZ.filter(key => nodeKeys.includes(key)));
+    const parents = writeParents(node, nodeIds);
+    const handled = new Set([...viz.handled, ...parents.handled]);
+    if (staticLabel !== null) handled.add('label');
+    const labelAttribute = staticLabel !== null ? ` label="${escapeXml(staticLabel)}"` : '';
+    return [
+      `      <node id="${escapeXml(node.id)}"${labelAttribute}>`,
+      ...writeAttvalues(node, nodeAttributes, handled),
+      ...writeSpells(node),
+      ...parents.lines,
+      ...viz.lines,
+      '      </node>',
+    ];
+  });
+
+  const edgeLines = edges.flatMap((edge, index) => {
+    const weight = readProperty(edge, 'value');
+    const viz = writeViz(edge, EDGE_VIZ.filter(key => edgeKeys.includes(key)));
+    const weightAttribute = weight?.static ? ` weight="${weight.value}"` : '';
+    const dynamicWeight =
+      weight && !weight.static
+        ? weight.values.map(([time, value]) => `<attvalue for="weight" value="${value}" timestamp="${time}"/>`)
+        : [];
+    return [
+      `      <edge id="${index}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}"${weightAttribute}>`,
+      ...writeAttvalues(edge, edgeAttributes, viz.handled, dynamicWeight),
+      ...writeSpells(edge),
+      ...viz.lines,
+      '      </edge>',
+    ];
+  });
+
+  const today = new Date().toISOString().slice(0, 10);
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gexf xmlns="${GEXF_NAMESPACE}" xmlns:viz="${VIZ_NAMESPACE}" version="1.3">`,
+    `  <meta lastmodifieddate="${today}">`,
+    '    <creator>Kriskogram</creator>',
+    `    <description>${escapeXml(dataset.notes || dataset.name)}</description>`,
+    '  </meta>',
+    `  <graph mode="dynamic" defaultedgetype="directed" timeformat="${timeFormat}" timerepresentation="timestamp">`,
+    ...writeAttributes('node', nodeAttributes),
+    ...writeAttributes('edge', edgeAttributes),
+    '    <nodes>',
+    ...nodeLines,
+    '    </nodes>',
+    '    <edges>',
+    ...edgeLines,
+    '    </edges>',
+    '  </graph>',
+    '</gexf>',
+    '',
+  ].join('\n');
+}
@@ -5,11 +5,32 @@
  * into JavaScript objects suitable for use with the Kriskogram visualization.
  */
 
+export type GexfTimeFormat = 'integer' | 'double' | 'date' | 'dateTime';
+
+/**
+ * A time interval, or a single instant when `start === end`. Missing bounds are
+ * infinite; open bounds exclude their endpoint.
+ */
+export interface GexfSpell {
+  start: number;
+  end: number;
+  startOpen?: boolean;
+  endOpen?: boolean;
+}
+
+export interface GexfDynamicValue extends GexfSpell {
+  value: unknown;
+}
+
 export interface GexfNode {
   id: string;
   label: string;
+  /** Static values, viz data (as `viz_*`) and hierarchy (as `parent`). */
   attributes: Record<string, any>;
-  spells: Array<{ start: number; end: number }>;
+  /** Values that hold only during a spell, by attribute title. */
+  dynamicAttributes: Record<string, GexfDynamicValue[]>;
+  /** When the node exists; empty means always. */
+  spells: GexfSpell[];
 }
 
 export interface GexfEdge {
@@ -18,16 +39,34 @@ export interface GexfEdge {
   target: string;
   weight: number;
   attributes: Record<string, any>;
-  spells: Array<{ start: number; end: number }>;
+  /** Includes `weight` when the edge weight changes over time. */
+  dynamicAttributes: Record<string, GexfDynamicValue[]>;
+  spells: GexfSpell[];
+}
+
+export interface GexfAttributeDefinition {
+  id: string;
+  title: string;
+  type: string;
+  defaultValue?: string;
 }
 
 export interface GexfGraph {
   nodes: GexfNode[];
   edges: GexfEdge[];
   attributes: {
-    node: Record<string, { id: string; title: string; type: string }>;
-    edge: Record<string, { id: string; title: string; type: string }>;
+    node: Record<string, GexfAttributeDefinition>;
+    edge: Record<string, GexfAttributeDefinition>;
   };
+  /**
+   * Times are numbers in every format: `date` and `dateTime` values become fractional
+   * UTC years (mid-2020 is about 2020.5), and a snapshot of one of these graphs covers
+   * its whole calendar year.
+   */
+  timeFormat: GexfTimeFormat;
+  /** GEXF 1.3: `timestamp` graphs place elements at instants rather than intervals. */
+  timeRepresentation: 'interval' | 'timestamp';
+  /** Whole years for `date` and `dateTime` graphs. */
   timeRange: { start: number; end: number };
 }
 
@@ -59,7 +98,9 @@ export interface KriskogramSnapshot {
 }
 
 /**
- * Parse a GEXF XML string into a structured graph object
+ * Parse a GEXF XML string into a structured graph object. Reads GEXF 1.1 to 1.3: spells
+ * and `start`/`end` attributes in any time format, dynamic attribute values, hierarchy
+ * through `<parents>`, `pid` or nested nodes, and viz colours, positions and sizes.
  */
 export function parseGexf(gexfXml: string): GexfGraph {
   const parser = new DOMParser();
@@ -71,23 +112,27 @@ export function parseGexf(gexfXml: string): GexfGraph {
     throw new Error(`GEXF parsing error: ${parseError.textContent}`);
   }
 
-  const graph = doc.querySelector('graph');
+  const graph = descendants(doc.documentElement, 'graph')[0];
   if (!graph) {
     throw new Error('No graph element found in GEXF file');
   }
 
+  const timeFormat = parseTimeFormat(graph.getAttribute('timeformat'));
+  const timeRepresentation = graph.getAttribute('timerepresentation') === 'timestamp' ? 'timestamp' : 'interval';
+  const time = (value: string | null) => parseTime(value, timeFormat);
+
   // Parse attributes
   const nodeAttributes = parseAttributes(graph, 'node');
   const edgeAttributes = parseAttributes(graph, 'edge');
 
   // Parse nodes
-  const nodes = parseNodes(graph, nodeAttributes);
+  const nodes = parseNodes(graph, nodeAttributes, time);
 
   // Parse edges
-  const edges = parseEdges(graph, edgeAttributes);
+  const edges = parseEdges(graph, edgeAttributes, time);
 
   // Determine time range
-  const timeRange = calculateTimeRange(nodes, edges);
+  const timeRange = calculateTimeRange(nodes, edges, isCalendarTime(timeFormat));
 
   return {
     nodes,
@@ -96,55 +141,55 @@ export function parseGexf(gexfXml: string): GexfGraph {
       node: nodeAttributes,
       edge: edgeAttributes,
     },
+    timeFormat,
+    timeRepresentation,
     timeRange,
   };
 }
 
 /**
- * Convert GEXF graph to Kriskogram snapshots for animation
+ * Times at which to take snapshots: every instant of a timestamp graph, otherwise each
+ * whole step from the first to the last time. A graph without times has one snapshot.
  */
-export function gexfToKriskogramSnapshots(gexfGraph: GexfGraph): KriskogramSnapshot[] {
-  const { timeRange } = gexfGraph;
-  const snapshots: KriskogramSnapshot[] = [];
-
-  for (let year = timeRange.start; year <= timeRange.end; year++) {
-    const snapshot: KriskogramSnapshot = {
-      nodes: [],
-      edges: [],
-      timestamp: year,
-    };
-
-    // Add nodes that exist in this year
-    gexfGraph.nodes.forEach(node => {
-      if (isActiveInYear(node.spells, year)) {
-        snapshot.nodes.push(gexfNodeToKriskogramNode(node));
+export function gexfSnapshotTimes(gexfGraph: GexfGraph): number[] {
+  if (gexfGraph.timeRepresentation === 'timestamp') {
+    const times = new Set<number>();
+    for (const item of [...gexfGraph.nodes, ...gexfGraph.edges]) {
+      for (const spell of item.spells) {
+        if (!Number.isFinite(spell.start)) continue;
+        times.add(isCalendarTime(gexfGraph.timeFormat) ? Math.floor(spell.start) : spell.start);
       }
-    });
-
-    // Add edges that exist in this year
-    gexfGraph.edges.forEach(edge => {
-      if (isActiveInYear(edge.spells, year)) {
-        snapshot.edges.push(gexfEdgeToKriskogramEdge(edge));
-      }
-    });
-
-    snapshots.push(snapshot);
+    }
+    if (times.size > 0) {
+      return [...times].sort((a, b) => a - b);
+    }
   }
+  const times: number[] = [];
+  for (let year = gexfGraph.timeRange.start; year <= gexfGraph.timeRange.end; year++) {
+    times.push(year);
+  }
+  return times;
+}
 
-  return snapshots;
+/**
+ * Convert GEXF graph to Kriskogram snapshots for animation
+ */
+export function gexfToKriskogramSnapshots(gexfGraph: GexfGraph): KriskogramSnapshot[] {
+  return gexfSnapshotTimes(gexfGraph).map(year => getSnapshotForYear(gexfGraph, year));
 }
 
 /**
  * Get a single snapshot for a specific year
  */
 export function getSnapshotForYear(gexfGraph: GexfGraph, year: number): KriskogramSnapshot {
+  const period: Period = isCalendarTime(gexfGraph.timeFormat) ? [year, year + 1] : [year, year];
   const nodes = gexfGraph.nodes
-    .filter(node => isActiveInYear(node.spells, year))
-    .map(gexfNodeToKriskogramNode);
+    .filter(node => isActiveInPeriod(node.spells, period))
+    .map(node => gexfNodeToKriskogramNode(node, period));
 
   const edges = gexfGraph.edges
-    .filter(edge => isActiveInYear(edge.spells, year))
-    .map(gexfEdgeToKriskogramEdge);
+    .filter(edge => isActiveInPeriod(edge.spells, period))
+    .map(edge => gexfEdgeToKriskogramEdge(edge, period));
 
   return {
     nodes,
@@ -171,114 +216,259 @@ export async function loadGexfFromUrl(url: string): Promise<GexfGraph> {
 
 // Helper functions
 
-function parseAttributes(graph: Element, type: 'node' | 'edge'): Record<string, { id: string; title: string; type: string }> {
-  const attributes: Record<string, { id: string; title: string; type: string }> = {};
-  const attributesElement = graph.querySelector(`attributes[class="${type}"]`);
-  
-  if (attributesElement) {
-    const attributeElements = attributesElement.querySelectorAll('attribute');
-    attributeElements.forEach(attr => {
-      const id = attr.getAttribute('id');
-      const title = attr.getAttribute('title');
-      const type = attr.getAttribute('type');
-      
-      if (id && title && type) {
-        attributes[id] = { id, title, type };
-      }
-    });
+// Elements are matched by local name so the default and viz namespaces of every
+// GEXF version work alike; children only, so nested nodes keep their own values
+function children(parent: Element, localName: string): Element[] {
+  return Array.from(parent.children).filter(child => child.localName === localName);
+}
+
+function descendants(parent: Element, localName: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS('*', localName));
+}
+
+function parseTimeFormat(value: string | null): GexfTimeFormat {
+  switch (value) {
+    case 'double':
+    case 'date':
+    case 'dateTime':
+      return value;
+    // GEXF 1.1 spelled these as XML Schema types
+    case 'float':
+      return 'double';
+    case 'datetime':
+      return 'dateTime';
+    default:
+      return 'integer';
+  }
+}
+
+function isCalendarTime(timeFormat: GexfTimeFormat): boolean {
+  return timeFormat === 'date' || timeFormat === 'dateTime';
+}
+
+function parseTime(value: string | null, timeFormat: GexfTimeFormat): number {
+  if (value === null || value.trim() === '') return Number.NaN;
+  if (isCalendarTime(timeFormat)) {
+    // Bare years are valid dates too
+    if (/^-?\d{1,4}$/.test(value.trim())) return Number(value);
+    const time = new Date(value).getTime();
+    if (Number.isNaN(time)) return Number.NaN;
+    // Keep the time within its year so a spell ending mid-year still covers that year
+    const year = new Date(time).getUTCFullYear();
+    const yearStart = new Date(0).setUTCFullYear(year, 0, 1);
+    const nextYearStart = new Date(0).setUTCFullYear(year + 1, 0, 1);
+    return year + (time - yearStart) / (nextYearStart - yearStart);
+  }
+  return Number.parseFloat(value);
+}
+
+/**
+ * Reads `start`/`end`/`startopen`/`endopen`/`timestamp` from an element, spell or
+ * attvalue. Returns null when the element carries no time at all.
+ */
+function parseSpell(element: Element, time: (value: string | null) => number): GexfSpell | null {
+  const timestamp = time(element.getAttribute('timestamp'));
+  if (Number.isFinite(timestamp)) {
+    return { start: timestamp, end: timestamp };
+  }
+  const startOpen = element.getAttribute('startopen');
+  const endOpen = element.getAttribute('endopen');
+  const start = time(element.getAttribute('start') ?? startOpen);
+  const end = time(element.getAttribute('end') ?? endOpen);
+  if (!Number.isFinite(start) && !Number.isFinite(end)) return null;
+  const spell: GexfSpell = {
+    start: Number.isFinite(start) ? start : Number.NEGATIVE_INFINITY,
+    end: Number.isFinite(end) ? end : Number.POSITIVE_INFINITY,
+  };
+  if (startOpen !== null) spell.startOpen = true;
+  if (endOpen !== null) spell.endOpen = true;
+  return spell;
+}
+
+function parseSpells(element: Element, time: (value: string | null) => number): GexfSpell[] {
+  const spells: GexfSpell[] = [];
+  const own = parseSpell(element, time);
+  if (own) spells.push(own);
+  for (const container of children(element, 'spells')) {
+    for (const spellElement of children(container, 'spell')) {
+      const spell = parseSpell(spellElement, time);
+      if (spell) spells.push(spell);
+    }
+  }
+  return spells;
+}
+
+function parseAttributes(graph: Element, type: 'node' | 'edge'): Record<string, GexfAttributeDefinition> {
+  const attributes: Record<string, GexfAttributeDefinition> = {};
+  const containers = children(graph, 'attributes').filter(element => element.getAttribute('class') === type);
+  for (const attr of containers.flatMap(container => children(container, 'attribute'))) {
+    const id = attr.getAttribute('id');
+    const title = attr.getAttribute('title') || id;
+    const type = attr.getAttribute('type') || 'string';
+    const defaultValue = children(attr, 'default')[0]?.textContent ?? undefined;
+
+    if (id && title) {
+      attributes[id] = { id, title, type, defaultValue };
+    }
   }
   
   return attributes;
 }
 
-function parseNodes(graph: Element, nodeAttributes: Record<string, any>): GexfNode[] {
+/**
+ * Static attvalues go to `attributes`, timed ones to `dynamicAttributes`; declared
+ * defaults fill in attributes an element has no static value for.
+ */
+function parseAttvalues(
+  element: Element,
+  definitions: Record<string, GexfAttributeDefinition>,
+  time: (value: string | null) => number,
+  reserved: Record<string, string> = {},
+) {
+  const attributes: Record<string, unknown> = {};
+  const dynamicAttributes: Record<string, GexfDynamicValue[]> = {};
+  const attvalues = children(element, 'attvalues').flatMap(container => children(container, 'attvalue'));
+  for (const attvalue of attvalues) {
+    const forAttr = attvalue.getAttribute('for') ?? attvalue.getAttribute('id');
+    const rawValue = attvalue.getAttribute('value');
+    if (!forAttr || rawValue === null) continue;
+
+    const attrDef = definitions[forAttr];
+    const title = reserved[forAttr] ?? attrDef?.title;
+    if (!title) continue;
+    const value = reserved[forAttr] ? Number.parseFloat(rawValue) : convertAttributeValue(rawValue, attrDef.type);
+    const spell = parseSpell(attvalue, time);
+    if (spell) {
+      dynamicAttributes[title] = [...(dynamicAttributes[title] ?? []), { ...spell, value }];
+    } else {
+      attributes[title] = value;
+    }
+  }
+  for (const definition of Object.values(definitions)) {
+    if (definition.defaultValue !== undefined && !(definition.title in attributes) && !reserved[definition.id]) {
+      attributes[definition.title] = convertAttributeValue(definition.defaultValue, definition.type);
+    }
+  }
+  return { attributes, dynamicAttributes };
+}
+
+function colorToString(color: Element): string | undefined {
+  const hex = color.getAttribute('hex');
+  if (hex) return hex.startsWith('#') ? hex : `#${hex}`;
+  const [r, g, b] = ['r', 'g', 'b'].map(channel => Number.parseInt(color.getAttribute(channel) ?? '', 10));
+  if (![r, g, b].every(Number.isFinite)) return undefined;
+  const alpha = Number.parseFloat(color.getAttribute('a') ?? '1');
+  if (Number.isFinite(alpha) && alpha < 1) return `rgba(${r},${g},${b},${alpha})`;
+  return `#${[r, g, b].map(channel => channel.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/** Reads the viz module's colour, position, size, thickness and shape as `viz_*` values. */
+function parseViz(element: Element): Record<string, string | number> {
+  const viz: Record<string, string | number> = {};
+  const color = children(element, 'color')[0];
+  if (color) {
+    const value = colorToString(color);
+    if (value) viz.viz_color = value;
+  }
+  const position = children(element, 'position')[0];
+  if (position) {
+    for (const axis of ['x', 'y', 'z']) {
+      const value = Number.parseFloat(position.getAttribute(axis) ?? '');
+      if (Number.isFinite(value)) viz[`viz_${axis}`] = value;
+    }
+  }
+  for (const name of ['size', 'thickness']) {
+    const value = Number.parseFloat(children(element, name)[0]?.getAttribute('value') ?? '');
+    if (Number.isFinite(value)) viz[`viz_${name}`] = value;
+  }
+  const shape = children(element, 'shape')[0]?.getAttribute('value');
+  if (shape) viz.viz_shape = shape;
+  return viz;
+}
+
+function parseParents(nodeElement: Element): string[] {
+  const parents = children(nodeElement, 'parents').flatMap(container =>
+    children(container, 'parent')
+      .map(parent => parent.getAttribute('for'))
+      .filter((id): id is string => Boolean(id)),
+  );
+  const pid = nodeElement.getAttribute('pid');
+  if (pid) parents.push(pid);
+  // GEXF 1.1 hierarchies nest child nodes inside their parent's <nodes>
+  const enclosing = nodeElement.parentElement?.parentElement;
+  const enclosingId = enclosing?.localName === 'node' ? enclosing.getAttribute('id') : null;
+  if (enclosingId) parents.push(enclosingId);
+  return [...new Set(parents)];
+}
+
+function parseNodes(
+  graph: Element,
+  nodeAttributes: Record<string, GexfAttributeDefinition>,
+  time: (value: string | null) => number,
+): GexfNode[] {
   const nodes: GexfNode[] = [];
-  const nodeElements = graph.querySelectorAll('node');
   
-  nodeElements.forEach(nodeElement => {
+  for (const nodeElement of descendants(graph, 'node')) {
     const id = nodeElement.getAttribute('id');
     const label = nodeElement.getAttribute('label') || id || '';
     
-    if (!id) return;
-    
-    // Parse attributes
-    const attributes: Record<string, any> = {};
-    const attvalues = nodeElement.querySelectorAll('attvalue');
-    attvalues.forEach(attvalue => {
-      const forAttr = attvalue.getAttribute('for');
-      const value = attvalue.getAttribute('value');
-      
-      if (forAttr && value !== null) {
-        const attrDef = nodeAttributes[forAttr];
-        if (attrDef) {
-          attributes[attrDef.title] = convertAttributeValue(value, attrDef.type);
-        }
-      }
-    });
-    
-    // Parse spells (time periods)
-    const spells: Array<{ start: number; end: number }> = [];
-    const spellElements = nodeElement.querySelectorAll('spell');
-    spellElements.forEach(spell => {
-      const start = parseInt(spell.getAttribute('start') || '0');
-      const end = parseInt(spell.getAttribute('end') || '0');
-      spells.push({ start, end });
-    });
+    if (!id) continue;
     
+    const { attributes, dynamicAttributes } = parseAttvalues(nodeElement, nodeAttributes, time);
+    Object.assign(attributes, parseViz(nodeElement));
+    const parents = parseParents(nodeElement);
+    if (parents.length > 0) {
+      attributes.parent = parents[0];
+      if (parents.length > 1) attributes.parents = parents.join('|');
+    }
+
     nodes.push({
       id,
       label,
       attributes,
-      spells,
+      dynamicAttributes,
+      spells: parseSpells(nodeElement, time),
     });
-  });
+  }
   
   return nodes;
 }
 
-function parseEdges(graph: Element, edgeAttributes: Record<string, any>): GexfEdge[] {
+function parseEdges(
+  graph: Element,
+  edgeAttributes: Record<string, GexfAttributeDefinition>,
+  time: (value: string | null) => number,
+): GexfEdge[] {
   const edges: GexfEdge[] = [];
-  const edgeElements = graph.querySelectorAll('edge');
-  
-  edgeElements.forEach(edgeElement => {
-    const id = edgeElement.getAttribute('id');
+  // Dynamic weights are attvalues for the reserved `weight` attribute, declared or not
+  const reserved = { weight: 'weight' };
+
+  descendants(graph, 'edge').forEach((edgeElement, index) => {
+    const id = edgeElement.getAttribute('id') || String(index);
     const source = edgeElement.getAttribute('source');
     const target = edgeElement.getAttribute('target');
     const weight = parseFloat(edgeElement.getAttribute('weight') || '1');
     
-    if (!id || !source || !target) return;
-    
-    // Parse attributes
-    const attributes: Record<string, any> = {};
-    const attvalues = edgeElement.querySelectorAll('attvalue');
-    attvalues.forEach(attvalue => {
-      const forAttr = attvalue.getAttribute('for');
-      const value = attvalue.getAttribute('value');
-      
-      if (forAttr && value !== null) {
-        const attrDef = edgeAttributes[forAttr];
-        if (attrDef) {
-          attributes[attrDef.title] = convertAttributeValue(value, attrDef.type);
-        }
-      }
-    });
-    
-    // Parse spells (time periods)
-    const spells: Array<{ start: number; end: number }> = [];
-    const spellElements = edgeElement.querySelectorAll('spell');
-    spellElements.forEach(spell => {
-      const start = parseInt(spell.getAttribute('start') || '0');
-      const end = parseInt(spell.getAttribute('end') || '0');
-      spells.push({ start, end });
-    });
+    if (!source || !target) return;
     
+    const { attributes: { weight: weightValue, ...attributes }, dynamicAttributes } = parseAttvalues(
+      edgeElement,
+      edgeAttributes,
+      time,
+      reserved,
+    );
+    Object.assign(attributes, parseViz(edgeElement));
+    const label = edgeElement.getAttribute('label');
+    if (label) attributes.label = label;
+
     edges.push({
       id,
       source,
       target,
-      weight,
+      weight: typeof weightValue === 'number' && Number.isFinite(weightValue) ? weightValue : weight,
       attributes,
-      spells,
+      dynamicAttributes,
+      spells: parseSpells(edgeElement, time),
     });
   });
   
@@ -288,9 +478,14 @@ function parseEdges(graph: Element, edgeAttributes: Record<string, any>): GexfEd
 function convertAttributeValue(value: string, type: string): any {
   switch (type) {
     case 'integer':
+    case 'long':
+    case 'short':
+    case 'byte':
+    case 'biginteger':
       return parseInt(value, 10);
     case 'double':
     case 'float':
+    case 'bigdecimal':
       return parseFloat(value);
     case 'boolean':
       return value.toLowerCase() === 'true';
@@ -299,41 +494,69 @@ function convertAttributeValue(value: string, type: string): any {
   }
 }
 
-function calculateTimeRange(nodes: GexfNode[], edges: GexfEdge[]): { start: number; end: number } {
+function calculateTimeRange(nodes: GexfNode[], edges: GexfEdge[], calendar: boolean): { start: number; end: number } {
   let minTime = Infinity;
   let maxTime = -Infinity;
   
-  [...nodes, ...edges].forEach(item => {
-    item.spells.forEach(spell => {
-      minTime = Math.min(minTime, spell.start);
-      maxTime = Math.max(maxTime, spell.end);
-    });
-  });
+  for (const item of [...nodes, ...edges]) {
+    for (const spell of [...item.spells, ...Object.values(item.dynamicAttributes).flat()]) {
+      // An open-ended spell still marks the time it starts or ends
+      for (const value of [spell.start, spell.end].filter(Number.isFinite)) {
+        minTime = Math.min(minTime, value);
+        maxTime = Math.max(maxTime, value);
+      }
+    }
+  }
   
   return {
-    start: minTime === Infinity ? 0 : minTime,
-    end: maxTime === -Infinity ? 0 : maxTime,
+    start: Number.isFinite(minTime) ? Math.floor(minTime) : 0,
+    // A calendar time belongs to its year; any other fraction rounds out to the next step
+    end: Number.isFinite(maxTime) ? (calendar ? Math.floor(maxTime) : Math.ceil(maxTime)) : 0,
   };
 }
 
-function isActiveInYear(spells: Array<{ start: number; end: number }>, year: number): boolean {
-  return spells.some(spell => year >= spell.start && year <= spell.end);
+/** The half-open `[from, until)` a snapshot covers, or a single instant when both match. */
+type Period = [from: number, until: number];
+
+function isInSpell(spell: GexfSpell, [from, until]: Period): boolean {
+  // Bounds only decide the outcome when they meet the period's edge exactly
+  const afterStart = until > from
+    ? spell.start < until
+    : spell.startOpen ? from > spell.start : from >= spell.start;
+  const beforeEnd = spell.endOpen ? spell.end > from : spell.end >= from;
+  return afterStart && beforeEnd;
+}
+
+function isActiveInPeriod(spells: GexfSpell[], period: Period): boolean {
+  return spells.length === 0 || spells.some(spell => isInSpell(spell, period));
+}
+
+function valuesAt(dynamicAttributes: Record<string, GexfDynamicValue[]>, period: Period): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  for (const [title, entries] of Object.entries(dynamicAttributes)) {
+    const active = entries.find(entry => isInSpell(entry, period));
+    if (active) values[title] = active.value;
+  }
+  return values;
 }
 
-function gexfNodeToKriskogramNode(gexfNode: GexfNode): KriskogramNode {
+function gexfNodeToKriskogramNode(gexfNode: GexfNode, period: Period): KriskogramNode {
   return {
     id: gexfNode.id,
     label: gexfNode.label,
     ...gexfNode.attributes,
+    ...valuesAt(gexfNode.dynamicAttributes, period),
   };
 }
 
-function gexfEdgeToKriskogramEdge(gexfEdge: GexfEdge): KriskogramEdge {
+function gexfEdgeToKriskogramEdge(gexfEdge: GexfEdge, period: Period): KriskogramEdge {
+  const { weight, ...dynamic } = valuesAt(gexfEdge.dynamicAttributes, period);
   return {
     source: gexfEdge.source,
     target: gexfEdge.target,
-    value: gexfEdge.weight,
+    value: typeof weight === 'number' ? weight : gexfEdge.weight,
     ...gexfEdge.attributes,
+    ...dynamic,
   };
 }
 
@@ -0,0 +1,82 @@
+/**
+ * Graph file formats
+ *
+ * Which reader handles a dropped file, and which writer each export format uses. Readers
+ * return `ParsedGraph` snapshots that the import dialog validates and describes with
+ * `detectDatasetProperties`, exactly as it does CSV and GEXF files.
+ */
+
+import { readArrowEdges, readParquetEdges, writeEdgeTable } from './edge-table'
+import { datasetToGexf } from './gexf-export'
+import type { ParsedGraph } from './graph-snapshots'
+import { datasetToGraphml, parseGraphml } from './graphml'
+import { datasetToD3Json, datasetToJsonGraph, parseJsonGraph } from './json-graph'
+import type { StoredDataset } from './storage'
+
+export type GraphFormat = 'graphml' | 'json' | 'arrow' | 'parquet'
+
+export const GRAPH_FORMATS: Array<{ value: GraphFormat; label: string; extensions: string[] }> = [
+  { value: 'graphml', label: 'GraphML', extensions: ['graphml'] },
+  { value: 'json', label: 'JSON Graph or d3 JSON', extensions: ['json'] },
+  { value: 'arrow', label: 'Arrow edge table', extensions: ['arrow', 'feather', 'ipc'] },
+  { value: 'parquet', label: 'Parquet edge table', extensions: ['parquet'] },
+]
+
+/** File input `accept` list for every graph format. */
+export const GRAPH_FORMAT_ACCEPT = GRAPH_FORMATS.flatMap(format => format.extensions.map(ext => `.${ext}`)).join(',')
+
+export function graphFormatOf(filename: string): GraphFormat | null {
+  const extension = filename.toLowerCase().split('.').pop() ?? ''
+  return GRAPH_FORMATS.find(format => format.extensions.includes(extension))?.value ?? null
+}
+
+export async function readGraphFile(file: File): Promise<ParsedGraph> {
+  switch (graphFormatOf(file.name)) {
+    case 'graphml':
+      return parseGraphml(await file.text())
+    case 'json':
+      return parseJsonGraph(await file.text())
+    case 'arrow':
+      return readArrowEdges(await file.arrayBuffer())
+    case 'parquet':
+      return readParquetEdges(await file.arrayBuffer())
+    default:
+      throw new Error(`Unsupported graph file: ${file.name}`)
+  }
+}
+
+export type GraphExportFormat = 'gexf' | 'graphml' | 'jgf' | 'd3' | 'arrow' | 'parquet'
+
+export const GRAPH_EXPORT_FORMATS: Array<{
+  value: GraphExportFormat
+  label: string
+  extension: string
+  mimeType: string
+}> = [
+  { value: 'gexf', label: 'GEXF (Gephi)', extension: 'gexf', mimeType: 'application/xml' },
+  { value: 'graphml', label: 'GraphML', extension: 'graphml', mimeType: 'application/xml' },
+  { value: 'jgf', label: 'JSON Graph Format', extension: 'json', mimeType: 'application/json' },
+  { value: 'd3', label: 'd3 JSON (nodes and links)', extension: 'json', mimeType: 'application/json' },
+  { value: 'arrow', label: 'Arrow edge table', extension: 'arrow', mimeType: 'application/vnd.apache.arrow.file' },
+  { value: 'parquet', label: 'Parquet edge table', extension: 'parquet', mimeType: 'application/vnd.apache.parquet' },
+]
+
+export function isGraphExportFormat(value: string): value is GraphExportFormat {
+  return GRAPH_EXPORT_FORMATS.some(format => format.value === value)
+}
+
+export async function exportDataset(dataset: StoredDataset, format: GraphExportFormat): Promise<Blob> {
+  const { mimeType } = GRAPH_EXPORT_FORMATS.find(entry => entry.value === format) ?? GRAPH_EXPORT_FORMATS[0]
+  switch (format) {
+    case 'gexf':
+      return new Blob([datasetToGexf(dataset)], { type: mimeType })
+    case 'graphml':
+      return new Blob([datasetToGraphml(dataset)], { type: mimeType })
+    case 'jgf':
+      return new Blob([datasetToJsonGraph(dataset)], { type: mimeType })
+    case 'd3':
+      return new Blob([datasetToD3Json(dataset)], { type: mimeType })
+    default:
+      return new Blob([await writeEdgeTable(dataset, format)], { type: mimeType })
+  }
+}
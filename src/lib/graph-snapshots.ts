@@ -0,0 +1,100 @@
+/**
+ * Snapshots for graph file formats
+ *
+ * The shape every graph file reader returns, and the long format shared by formats that
+ * have no notion of time. Those files (a d3 `{nodes, links}` file, a single GraphML
+ * graph, an edge table) keep years in a `year`, `timestamp`, `period` or `time`
+ * property on each edge. Readers split on it, and exports write multi-year datasets
+ * that way.
+ */
+
+import type { CommonEdge, CommonNode } from './data-adapters'
+import type { DatasetMetadata, StoredSnapshot } from './storage'
+
+export const TIME_FIELDS = ['year', 'timestamp', 'period', 'time']
+
+export interface GraphSnapshot {
+  /** Null when the file carries no time; the import dialog then asks for a year. */
+  timestamp: number | null
+  nodes: CommonNode[]
+  edges: CommonEdge[]
+}
+
+export interface ParsedGraph {
+  /** Ordered by time. */
+  snapshots: GraphSnapshot[]
+  /** Properties the file declares with a type, such as GraphML keys. */
+  metadata?: DatasetMetadata
+}
+
+/** A time from a number or a numeric string. */
+export function readTime(value: unknown): number | null {
+  const time = typeof value === 'string' && value.trim() !== '' ? Number(value) : value
+  return typeof time === 'number' && Number.isFinite(time) ? time : null
+}
+
+function without<T extends Record<string, unknown>>(item: T, field: string): T {
+  const { [field]: _, ...rest } = item
+  return rest as T
+}
+
+/**
+ * Splits nodes and edges into one snapshot per time when every edge has a time field.
+ * Nodes without that field appear in every snapshot.
+ */
+export function splitByTime(nodes: CommonNode[], edges: CommonEdge[]): GraphSnapshot[] {
+  const field = TIME_FIELDS.find(name => edges.length > 0 && edges.every(edge => readTime(edge[name]) !== null))
+  if (!field) return [{ timestamp: null, nodes, edges }]
+
+  const times = [...new Set(edges.map(edge => readTime(edge[field]) as number))].sort((a, b) => a - b)
+  return times.map(time => ({
+    timestamp: time,
+    nodes: nodes
+      .filter(node => {
+        const nodeTime = readTime(node[field])
+        return nodeTime === null || nodeTime === time
+      })
+      .map(node => without(node, field)),
+    edges: edges.filter(edge => readTime(edge[field]) === time).map(edge => without(edge, field)),
+  }))
+}
+
+/**
+ * Snapshots from a file that lists several graphs. When every graph has a time, each one
+ * is a snapshot; otherwise they are merged and split on their edges' time field.
+ */
+export function graphsToSnapshots(graphs: GraphSnapshot[]): GraphSnapshot[] {
+  if (graphs.length > 0 && graphs.every(graph => graph.timestamp !== null)) {
+    return [...graphs].sort((a, b) => (a.timestamp as number) - (b.timestamp as number))
+  }
+  const nodes = new Map<string, CommonNode>()
+  for (const graph of graphs) {
+    for (const node of graph.nodes) nodes.set(node.id, node)
+  }
+  return splitByTime([...nodes.values()], graphs.flatMap(graph => graph.edges))
+}
+
+/**
+ * One node list and a `year`-stamped edge list covering every snapshot. Nodes carry the
+ * attributes of the last year they appear in.
+ */
+export function flattenSnapshots(snapshots: StoredSnapshot[]): { nodes: CommonNode[]; edges: CommonEdge[] } {
+  const nodes = new Map<string, CommonNode>()
+  const edges: CommonEdge[] = []
+  for (const snapshot of snapshots) {
+    for (const node of snapshot.nodes) nodes.set(String(node.id), node)
+    for (const edge of snapshot.edges) edges.push({ ...edge, year: snapshot.timestamp })
+  }
+  return { nodes: [...nodes.values()], edges }
+}
+
+/** Nodes for an edge list without a node table, in order of first appearance. */
+export function nodesFromEdges(edges: CommonEdge[], labels = new Map<string, string>()): CommonNode[] {
+  const nodes = new Map<string, CommonNode>()
+  for (const edge of edges) {
+    for (const id of [edge.source, edge.target]) {
+      if (!nodes.has(id)) nodes.set(id, { id, label: labels.get(id) || id })
+    }
+  }
+  return [...nodes.values()]
+}
@@ -0,0 +1,221 @@
+/**
+ * GraphML import and export
+ *
+ * Reads the GraphML that Gephi, yEd, NetworkX and igraph write. `<key>` definitions type
+ * each `<data>` value, give defaults, and are reported as dataset metadata, so declared
+ * properties appear in the explorer even where no element sets them. The edge value is
+ * the `weight` (or `value`) key and node labels come from a `label` key. Nodes nested in
+ * another node's subgraph get it as `parent`.
+ *
+ * A file with several `<graph>` elements that each carry a time (a graph-level `year` or
+ * `timestamp` key) is read as one snapshot per graph; that is how multi-year datasets
+ * are exported. A single graph is split on its edges' time field.
+ */
+
+import type { CommonEdge, CommonNode } from './data-adapters'
+import { attributeType, escapeXml } from './gexf-export'
+import { type GraphSnapshot, type ParsedGraph, TIME_FIELDS, graphsToSnapshots, readTime } from './graph-snapshots'
+import type { DatasetMetadata, StoredDataset } from './storage'
+
+export interface GraphmlKey {
+  id: string
+  for: string
+  name: string
+  type: string
+  defaultValue?: string
+}
+
+const NUMERIC_TYPES = ['int', 'long', 'float', 'double']
+const VALUE_KEYS = ['weight', 'value']
+
+const childElements = (parent: Element, localName: string) =>
+  Array.from(parent.children).filter(child => child.localName === localName)
+
+function convertValue(value: string, type: string): unknown {
+  switch (type) {
+    case 'int':
+    case 'long':
+      return Number.parseInt(value, 10)
+    case 'float':
+    case 'double':
+      return Number.parseFloat(value)
+    case 'boolean':
+      return value.trim().toLowerCase() === 'true'
+    default:
+      return value
+  }
+}
+
+function keysFor(keys: GraphmlKey[], domain: 'graph' | 'node' | 'edge') {
+  return keys.filter(key => key.for === domain || key.for === 'all')
+}
+
+/** Key values of one element, defaults first. */
+function readData(element: Element, keys: GraphmlKey[]): Record<string, unknown> {
+  const values: Record<string, unknown> = {}
+  for (const key of keys) {
+    if (key.defaultValue !== undefined) values[key.name] = convertValue(key.defaultValue, key.type)
+  }
+  for (const data of childElements(element, 'data')) {
+    const key = keys.find(candidate => candidate.id === data.getAttribute('key'))
+    if (key) values[key.name] = convertValue(data.textContent ?? '', key.type)
+  }
+  return values
+}
+
+/** The properties that `<key>` definitions declare, as the explorer's dataset metadata. */
+export function graphmlKeysToMetadata(keys: GraphmlKey[]): DatasetMetadata {
+  const properties = (domain: 'node' | 'edge', skip: string[]) =>
+    keysFor(keys, domain).filter(key => !skip.includes(key.name))
+  const nodeKeys = properties('node', ['id', 'label'])
+  const edgeKeys = properties('edge', [...VALUE_KEYS, ...TIME_FIELDS])
+  const names = (list: GraphmlKey[]) => [...new Set(list.map(key => key.name))]
+  return {
+    nodeProperties: names(nodeKeys),
+    edgeProperties: names(edgeKeys),
+    hasNumericProperties: {
+      nodes: names(nodeKeys.filter(key => NUMERIC_TYPES.includes(key.type))),
+      edges: names(edgeKeys.filter(key => NUMERIC_TYPES.includes(key.type))),
+    },
+    hasCategoricalProperties: {
+      nodes: names(nodeKeys.filter(key => key.type === 'string')),
+      edges: names(edgeKeys.filter(key => key.type === 'string')),
+    },
+  }
+}
+
+function readNodes(graph: Element, keys: GraphmlKey[], parent?: string): CommonNode[] {
+  return childElements(graph, 'node').flatMap(element => {
+    const id = element.getAttribute('id')
+    if (!id) return []
+    const { label, ...properties } = readData(element, keys)
+    const node: CommonNode = { id, label: typeof label === 'string' && label ? label : id, ...properties }
+    if (parent) node.parent = parent
+    const nested = childElements(element, 'graph').flatMap(subgraph => readNodes(subgraph, keys, id))
+    return [node, ...nested]
+  })
+}
+
+function readEdges(graph: Element, keys: GraphmlKey[]): CommonEdge[] {
+  const edges: CommonEdge[] = []
+  for (const element of Array.from(graph.getElementsByTagNameNS('*', 'edge'))) {
+    const source = element.getAttribute('source')
+    const target = element.getAttribute('target')
+    if (!source || !target) continue
+    const properties = readData(element, keys)
+    const valueKey = VALUE_KEYS.find(name => typeof properties[name] === 'number')
+    const edge: CommonEdge = { source, target, value: valueKey ? (properties[valueKey] as number) : 1 }
+    for (const [name, value] of Object.entries(properties)) {
+      if (name !== valueKey) edge[name] = value
+    }
+    edges.push(edge)
+  }
+  return edges
+}
+
+export function parseGraphml(xml: string): ParsedGraph {
+  const doc = new DOMParser().parseFromString(xml, 'text/xml')
+  const parseError = doc.querySelector('parsererror')
+  if (parseError) {
+    throw new Error(`GraphML parsing error: ${parseError.textContent}`)
+  }
+
+  const root = doc.documentElement
+  const keys: GraphmlKey[] = childElements(root, 'key').flatMap(element => {
+    const id = element.getAttribute('id')
+    if (!id) return []
+    const defaultValue = childElements(element, 'default')[0]?.textContent ?? undefined
+    return [{
+      id,
+      for: element.getAttribute('for') ?? 'all',
+      name: element.getAttribute('attr.name') ?? id,
+      type: element.getAttribute('attr.type') ?? 'string',
+      defaultValue,
+    }]
+  })
+  const graphElements = childElements(root, 'graph')
+  if (graphElements.length === 0) {
+    throw new Error('No graph element found in GraphML file')
+  }
+
+  const graphs: GraphSnapshot[] = graphElements.map(graph => {
+    const data = readData(graph, keysFor(keys, 'graph'))
+    const time = TIME_FIELDS.map(field => readTime(data[field])).find(value => value !== null)
+    return {
+      timestamp: time ?? null,
+      nodes: readNodes(graph, keysFor(keys, 'node')),
+      edges: readEdges(graph, keysFor(keys, 'edge')),
+    }
+  })
+
+  return { snapshots: graphsToSnapshots(graphs), metadata: graphmlKeysToMetadata(keys) }
+}
+
+const GRAPHML_TYPES: Record<string, string> = { integer: 'int', long: 'long', double: 'double', boolean: 'boolean' }
+
+function declareKeys(domain: 'node' | 'edge', items: Array<Record<string, unknown>>, skip: string[], prefix: string) {
+  const names = [...new Set(items.flatMap(item => Object.keys(item)))].filter(name => !skip.includes(name))
+  return names.map((name, index) => {
+    const values = items.map(item => item[name]).filter(value => value !== null && value !== undefined)
+    return { id: `${prefix}${index}`, for: domain, name, type: GRAPHML_TYPES[attributeType(values)] ?? 'string' }
+  })
+}
+
+function writeData(item: Record<string, unknown>, keys: GraphmlKey[]) {
+  return keys.flatMap(key => {
+    const value = item[key.name]
+    if (value === null || value === undefined || (typeof value === 'number' && !Number.isFinite(value))) return []
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value)
+    return [`<data key="${key.id}">${escapeXml(text)}</data>`]
+  })
+}
+
+function writeElement(open: string, data: string[], close: string) {
+  if (data.length === 0) return [`${open.slice(0, -1)}/>`]
+  return [open, ...data.map(line => `  ${line}`), close]
+}
+
+/** The dataset as GraphML, one `<graph>` per snapshot stamped with a graph-level `year`. */
+export function datasetToGraphml(dataset: StoredDataset): string {
+  const nodes = dataset.snapshots.flatMap(snapshot => snapshot.nodes)
+  const edges = dataset.snapshots.flatMap(snapshot =>
+    snapshot.edges.map(({ value, ...edge }) => ({ ...edge, weight: value })),
+  )
+  const yearType = dataset.snapshots.every(snapshot => Number.isInteger(snapshot.timestamp)) ? 'int' : 'double'
+  const keys: GraphmlKey[] = [
+    { id: 'year', for: 'graph', name: 'year', type: yearType },
+    ...declareKeys('node', nodes, ['id'], 'n'),
+    ...declareKeys('edge', edges, ['source', 'target'], 'e'),
+  ]
+  const nodeKeys = keysFor(keys, 'node')
+  const edgeKeys = keysFor(keys, 'edge')
+
+  const graphs = dataset.snapshots.flatMap(snapshot => [
+    `  <graph id="G${snapshot.timestamp}" edgedefault="directed">`,
+    `    <data key="year">${snapshot.timestamp}</data>`,
+    ...snapshot.nodes.flatMap(node =>
+      writeElement(`<node id="${escapeXml(String(node.id))}">`, writeData(node, nodeKeys), '</node>'),
+    ).map(line => `    ${line}`),
+    ...snapshot.edges.flatMap(({ value, ...edge }) =>
+      writeElement(
+        `<edge source="${escapeXml(String(edge.source))}" target="${escapeXml(String(edge.target))}">`,
+        writeData({ ...edge, weight: value }, edgeKeys),
+        '</edge>',
+      ),
+    ).map(line => `    ${line}`),
+    '  </graph>',
+  ])
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns"',
+    '    xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+    '    xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+    ...keys.map(
+      key => `  <key id="${key.id}" for="${key.for}" attr.name="${escapeXml(key.name)}" attr.type="${key.type}"/>`,
+    ),
+    ...graphs,
+    '</graphml>',
+    '',
+  ].join('\n')
+}
@@ -0,0 +1,123 @@
+/**
+ * JSON graph import and export
+ *
+ * Two JSON shapes are read:
+ *
+ * - JSON Graph Format (https://jsongraphformat.info), versions 1 and 2. A `graph` or
+ *   `graphs` object lists nodes (an array in v1, an object keyed by id in v2) and edges.
+ *   Properties live in each element's `metadata`, and a graph's `metadata.year` (or
+ *   `timestamp`) makes it a snapshot.
+ * - d3-style `{nodes, links}` (or `edges`). Links may name their ends by id, by index
+ *   into `nodes`, or by node object, as d3-force leaves them.
+ *
+ * Edge values come from `value`, then `weight`, then `count`. JGF exports keep every
+ * snapshot as its own graph. d3 exports list each node once, with the attributes of its
+ * last year, and stamp links with their `year`.
+ */
+
+import type { CommonEdge, CommonNode } from './data-adapters'
+import { type GraphSnapshot, type ParsedGraph, TIME_FIELDS, flattenSnapshots, graphsToSnapshots, readTime } from './graph-snapshots'
+import type { StoredDataset } from './storage'
+
+type JsonObject = Record<string, unknown>
+
+const VALUE_FIELDS = ['value', 'weight', 'count']
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+function toEdge(source: string, target: string, properties: JsonObject): CommonEdge {
+  const valueField = VALUE_FIELDS.find(field => readTime(properties[field]) !== null)
+  const edge: CommonEdge = { source, target, value: valueField ? (readTime(properties[valueField]) as number) : 1 }
+  for (const [name, value] of Object.entries(properties)) {
+    if (name !== valueField) edge[name] = value
+  }
+  return edge
+}
+
+function toNode(id: string, label: unknown, properties: JsonObject): CommonNode {
+  return { ...properties, id, label: typeof label === 'string' && label ? label : id }
+}
+
+function readJgfGraph(graph: JsonObject): GraphSnapshot {
+  const entries: Array<[string, JsonObject]> = Array.isArray(graph.nodes)
+    ? graph.nodes.filter(isObject).map(node => [String(node.id), node])
+    : Object.entries(isObject(graph.nodes) ? graph.nodes : {}).map(([id, node]) => [id, isObject(node) ? node : {}])
+  const nodes = entries.map(([id, node]) => toNode(id, node.label, isObject(node.metadata) ? node.metadata : {}))
+
+  const edges = (Array.isArray(graph.edges) ? graph.edges : []).filter(isObject).flatMap(edge => {
+    if (edge.source === undefined || edge.target === undefined) return []
+    const properties = { ...(isObject(edge.metadata) ? edge.metadata : {}) }
+    if (typeof edge.relation === 'string') properties.relation = edge.relation
+    if (typeof edge.label === 'string') properties.label = edge.label
+    return [toEdge(String(edge.source), String(edge.target), properties)]
+  })
+
+  const metadata = isObject(graph.metadata) ? graph.metadata : {}
+  const time = TIME_FIELDS.map(field => readTime(metadata[field])).find(value => value !== null)
+  return { timestamp: time ?? null, nodes, edges }
+}
+
+function readD3Graph(data: JsonObject): GraphSnapshot[] {
+  const rawNodes = (data.nodes as unknown[]).filter(isObject)
+  const ids = rawNodes.map((node, index) => String(node.id ?? node.name ?? index))
+  const nodes = rawNodes.map((node, index) => {
+    const { id: _, ...properties } = node
+    return toNode(ids[index], node.label ?? node.name, properties)
+  })
+  const end = (value: unknown) => {
+    if (typeof value === 'number') return ids[value] ?? String(value)
+    if (isObject(value)) return String(value.id ?? value.name ?? value.index)
+    return String(value)
+  }
+
+  const links = (Array.isArray(data.links) ? data.links : data.edges) as unknown[]
+  const edges = links.filter(isObject).flatMap(link => {
+    if (link.source === undefined || link.target === undefined) return []
+    const { source, target, index: _, ...properties } = link
+    return [toEdge(end(source), end(target), properties)]
+  })
+  return graphsToSnapshots([{ timestamp: null, nodes, edges }])
+}
+
+export function parseJsonGraph(text: string): ParsedGraph {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch (error) {
+    throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`)
+  }
+  if (!isObject(data)) {
+    throw new Error('Expected a JSON object with a graph')
+  }
+
+  if (isObject(data.graph) || Array.isArray(data.graphs)) {
+    const graphs = isObject(data.graph) ? [data.graph] : (data.graphs as unknown[]).filter(isObject)
+    return { snapshots: graphsToSnapshots(graphs.map(readJgfGraph)) }
+  }
+  if (Array.isArray(data.nodes) && (Array.isArray(data.links) || Array.isArray(data.edges))) {
+    return { snapshots: readD3Graph(data) }
+  }
+  throw new Error('Expected a JSON Graph (`graph` or `graphs`) or a d3 `{nodes, links}` object')
+}
+
+/** JSON Graph Format v2: one graph per snapshot, properties under `metadata`. */
+export function datasetToJsonGraph(dataset: StoredDataset): string {
+  const graphs = dataset.snapshots.map(snapshot => ({
+    id: String(snapshot.timestamp),
+    label: `${dataset.name} ${snapshot.timestamp}`,
+    directed: true,
+    metadata: { year: snapshot.timestamp },
+    nodes: Object.fromEntries(
+      snapshot.nodes.map(({ id, label, ...metadata }) => [id, { label: label ?? id, metadata }]),
+    ),
+    edges: snapshot.edges.map(({ source, target, ...metadata }) => ({ source, target, metadata })),
+  }))
+  return JSON.stringify({ graphs }, null, 2)
+}
+
+/** d3-style `{nodes, links}`, with a `year` on every link. */
+export function datasetToD3Json(dataset: StoredDataset): string {
+  const { nodes, edges } = flattenSnapshots(dataset.snapshots)
+  return JSON.stringify({ nodes, links: edges }, null, 2)
+}
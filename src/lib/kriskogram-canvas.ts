@@ -0,0 +1,186 @@
+/**
+ * Canvas arc layer for large graphs
+ *
+ * The SVG renderer keeps one path per arc, plus outline, band and hatch paths, which
+ * stops keeping up after a few thousand flows. The canvas renderer draws every arc into
+ * one canvas under the SVG nodes, labels and legend. Arcs are half-ellipses standing on
+ * the baseline, so hover and click are hit-tested geometrically. That also works where
+ * the canvas has no 2D context, as in jsdom.
+ */
+
+export type KriskogramRenderer = 'svg' | 'canvas';
+export type KriskogramRendererOption = KriskogramRenderer | 'auto';
+
+export const KRISKOGRAM_RENDERERS: Array<{ value: KriskogramRendererOption; label: string }> = [
+  { value: 'auto', label: 'Auto' },
+  { value: 'svg', label: 'SVG' },
+  { value: 'canvas', label: 'Canvas' },
+];
+
+/** Above this many arcs, 'auto' switches to the canvas renderer. */
+export const CANVAS_EDGE_THRESHOLD = 1500;
+
+export function isKriskogramRendererOption(value: string): value is KriskogramRendererOption {
+  return KRISKOGRAM_RENDERERS.some((entry) => entry.value === value);
+}
+
+export function resolveKriskogramRenderer(
+  option: KriskogramRendererOption | undefined,
+  edgeCount: number,
+): KriskogramRenderer {
+  if (option === 'svg' || option === 'canvas') return option;
+  return edgeCount > CANVAS_EDGE_THRESHOLD ? 'canvas' : 'svg';
+}
+
+/** Half-ellipse from (cx - rx, cy) to (cx + rx, cy), bulging up (side -1) or down (side 1). */
+export interface ArcShape {
+  cx: number;
+  cy: number;
+  rx: number;
+  ry: number;
+  side: 1 | -1;
+}
+
+export interface CanvasArc<T = unknown> {
+  shape: ArcShape;
+  color: string;
+  width: number;
+  opacity: number;
+  dash?: number[] | null;
+  dashOffset?: number;
+  lineCap?: CanvasLineCap;
+  /** Drop shadow, as on a hovered SVG arc. */
+  halo?: boolean;
+  /** White stripes over the arc, the canvas counterpart of the SVG hatch pattern. */
+  hatched?: boolean;
+  /** Arcs without a datum, such as uncertainty bands, are drawn but never hit. */
+  datum?: T;
+}
+
+/** Shortest distance from a point to the arc's curve. */
+export function arcDistance(shape: ArcShape, x: number, y: number): number {
+  const dx = x - shape.cx;
+  const dy = y - shape.cy;
+  // On the far side of the baseline the nearest point is one of the feet
+  if (dy * shape.side < 0) {
+    return Math.min(Math.hypot(dx - shape.rx, dy), Math.hypot(dx + shape.rx, dy));
+  }
+  const rx = Math.max(shape.rx, 1e-6);
+  const ry = Math.max(shape.ry, 1e-6);
+  const radial = Math.hypot(dx / rx, dy / ry);
+  if (radial === 0) return Math.min(rx, ry);
+  // Projecting along the ellipse's own radius is exact for circles and close for the flattened arcs lenses make
+  return Math.hypot(dx - (dx / radial), dy - (dy / radial));
+}
+
+/** The topmost arc within reach of the point: half its width plus a few pixels of slack. */
+export function hitTestArcs<T>(arcs: CanvasArc<T>[], x: number, y: number, slack = 3): CanvasArc<T> | null {
+  let best: CanvasArc<T> | null = null;
+  let bestDistance = Number.POSITIVE_INFINITY;
+  for (let index = arcs.length - 1; index >= 0; index--) {
+    const arc = arcs[index];
+    if (arc.datum === undefined) continue;
+    const distance = arcDistance(arc.shape, x, y);
+    if (distance <= arc.width / 2 + slack && distance < bestDistance) {
+      best = arc;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+function traceArc(context: CanvasRenderingContext2D, shape: ArcShape) {
+  context.beginPath();
+  // Canvas angles run clockwise on screen, so π → 2π is the upper half
+  const [start, end] = shape.side < 0 ? [Math.PI, Math.PI * 2] : [0, Math.PI];
+  context.ellipse(shape.cx, shape.cy, Math.max(shape.rx, 0), Math.max(shape.ry, 0), 0, start, end);
+}
+
+export function drawArcs(context: CanvasRenderingContext2D, arcs: CanvasArc[]) {
+  for (const arc of arcs) {
+    if (arc.opacity <= 0) continue;
+    context.save();
+    context.globalAlpha = Math.min(1, arc.opacity);
+    context.strokeStyle = arc.color;
+    context.lineWidth = arc.width;
+    context.lineCap = arc.lineCap ?? 'round';
+    context.setLineDash(arc.dash ?? []);
+    context.lineDashOffset = arc.dashOffset ?? 0;
+    if (arc.halo) {
+      context.shadowColor = 'black';
+      context.shadowBlur = 2;
+    }
+    traceArc(context, arc.shape);
+    context.stroke();
+    if (arc.hatched) {
+      context.shadowBlur = 0;
+      context.globalAlpha = 0.85;
+      context.strokeStyle = '#fff';
+      context.setLineDash([2, 3]);
+      traceArc(context, arc.shape);
+      context.stroke();
+    }
+    context.restore();
+  }
+}
+
+export interface ArcCanvasLayer<T = unknown> {
+  /** The drawing surface, which also receives the pointer events over the arcs. */
+  element: HTMLCanvasElement;
+  draw: (arcs: CanvasArc<T>[]) => void;
+  hitTest: (x: number, y: number) => CanvasArc<T> | null;
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const XHTML_NS = 'http://www.w3.org/1999/xhtml';
+
+/**
+ * Adds a canvas covering the chart's viewBox to an SVG group, inside a
+ * `foreignObject.kris-arc-canvas` placed before `before`.
+ */
+export function createArcCanvasLayer<T>(
+  parent: SVGGElement,
+  before: Element | null,
+  width: number,
+  height: number,
+): ArcCanvasLayer<T> {
+  const doc = parent.ownerDocument;
+  const foreignObject = doc.createElementNS(SVG_NS, 'foreignObject');
+  foreignObject.setAttribute('class', 'kris-arc-canvas');
+  foreignObject.setAttribute('x', '0');
+  foreignObject.setAttribute('y', '0');
+  foreignObject.setAttribute('width', String(width));
+  foreignObject.setAttribute('height', String(height));
+  parent.insertBefore(foreignObject, before);
+
+  const canvas = doc.createElementNS(XHTML_NS, 'canvas') as HTMLCanvasElement;
+  // The SVG is usually scaled up to fit its container, so draw with headroom
+  const pixelRatio = Math.min(4, Math.max(1, doc.defaultView?.devicePixelRatio ?? 1) * 2);
+  canvas.width = Math.round(width * pixelRatio);
+  canvas.height = Math.round(height * pixelRatio);
+  canvas.style.width = '100%';
+  canvas.style.height = '100%';
+  canvas.style.display = 'block';
+  foreignObject.appendChild(canvas);
+
+  let context: CanvasRenderingContext2D | null = null;
+  try {
+    context = canvas.getContext('2d');
+  } catch {
+    context = null;
+  }
+
+  let drawn: CanvasArc<T>[] = [];
+  return {
+    element: canvas,
+    draw: (arcs) => {
+      drawn = arcs;
+      if (!context) return;
+      context.setTransform(1, 0, 0, 1, 0, 0);
+      context.clearRect(0, 0, canvas.width, canvas.height);
+      context.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+      drawArcs(context, arcs);
+    },
+    hitTest: (x, y) => hitTestArcs(drawn, x, y),
+  };
+}
@@ -0,0 +1,375 @@
+/**
+ * Kriskogram export helpers
+ *
+ * Turns the live chart SVG into standalone SVG, PNG and PDF files. The export is
+ * a snapshot of what is on screen, so active filters, encodings and the legend
+ * carry over as-is.
+ */
+
+export type KriskogramExportFormat = 'svg' | 'png' | 'pdf';
+
+export interface KriskogramExportOptions {
+  title?: string;
+  caption?: string;
+  background?: string;
+  stamp?: string; // Large label burned into the top-right corner, e.g. an animation frame's year
+}
+
+export const EXPORT_DPI_OPTIONS = [96, 150, 300, 600] as const;
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const CSS_DPI = 96;
+const CAPTION_HEIGHT = 28;
+
+// Presentation properties the chart sets through CSS or inherits from the page
+const INLINED_STYLE_PROPERTIES = [
+  'fill',
+  'fill-opacity',
+  'stroke',
+  'stroke-width',
+  'stroke-opacity',
+  'stroke-dasharray',
+  'stroke-dashoffset',
+  'stroke-linecap',
+  'stroke-linejoin',
+  'opacity',
+  'font-family',
+  'font-size',
+  'font-weight',
+  'font-style',
+  'text-anchor',
+  'dominant-baseline',
+  'letter-spacing',
+  'visibility',
+  'display',
+];
+
+export function formatExportCaption(datasetName: string, year?: number): string {
+  return typeof year === 'number' ? `Dataset: ${datasetName} · Year: ${year}` : `Dataset: ${datasetName}`;
+}
+
+export function buildExportFilename(datasetName: string, year: number | undefined, extension: string): string {
+  const slug = datasetName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'kriskogram';
+  return typeof year === 'number' ? `${slug}-${year}.${extension}` : `${slug}.${extension}`;
+}
+
+function getViewBox(svg: SVGSVGElement) {
+  const viewBox = svg.viewBox?.baseVal;
+  if (viewBox && viewBox.width > 0 && viewBox.height > 0) {
+    return { width: viewBox.width, height: viewBox.height };
+  }
+  const rect = svg.getBoundingClientRect();
+  return { width: Math.max(1, rect.width), height: Math.max(1, rect.height) };
+}
+
+function inlineComputedStyles(source: Element, target: Element) {
+  const view = source.ownerDocument?.defaultView;
+  if (!view) return;
+  const sourceElements = [source, ...Array.from(source.querySelectorAll('*'))];
+  const targetElements = [target, ...Array.from(target.querySelectorAll('*'))];
+  sourceElements.forEach((element, index) => {
+    const clone = targetElements[index];
+    if (!clone) return;
+    const computed = view.getComputedStyle(element);
+    const declarations = INLINED_STYLE_PROPERTIES.map((property) => {
+      const value = computed.getPropertyValue(property);
+      return value ? `${property}:${value}` : null;
+    }).filter(Boolean);
+    const existing = clone.getAttribute('style');
+    clone.setAttribute('style', [...declarations, existing].filter(Boolean).join(';'));
+  });
+}
+
+/**
+ * Cloning a canvas does not copy its pixels, so arcs drawn by the canvas renderer are
+ * swapped for an image of the current drawing, which SVG files and rasterisers can show.
+ */
+function replaceArcCanvases(source: Element, target: Element) {
+  const sourceLayers = Array.from(source.querySelectorAll('foreignObject.kris-arc-canvas'));
+  const targetLayers = Array.from(target.querySelectorAll('foreignObject.kris-arc-canvas'));
+  sourceLayers.forEach((layer, index) => {
+    const clone = targetLayers[index];
+    if (!clone) return;
+    let dataUrl: string | null = null;
+    try {
+      dataUrl = layer.querySelector('canvas')?.toDataURL('image/png') ?? null;
+    } catch {
+      dataUrl = null;
+    }
+    if (dataUrl?.startsWith('data:image/png')) {
+      const image = clone.ownerDocument.createElementNS(SVG_NS, 'image');
+      for (const attribute of ['x', 'y', 'width', 'height']) {
+        image.setAttribute(attribute, layer.getAttribute(attribute) ?? '0');
+      }
+      image.setAttribute('href', dataUrl);
+      clone.replaceWith(image);
+    } else {
+      clone.remove();
+    }
+  });
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error ?? new Error('Failed to read font data'));
+    reader.readAsDataURL(blob);
+  });
+}
+
+/** Copies same-origin @font-face rules with their font files embedded as data URLs. */
+async function collectFontFaceCss(doc: Document): Promise<string> {
+  const rules: string[] = [];
+  for (const sheet of Array.from(doc.styleSheets)) {
+    let cssRules: CSSRuleList;
+    try {
+      cssRules = sheet.cssRules;
+    } catch {
+      continue; // Cross-origin stylesheet
+    }
+    for (const rule of Array.from(cssRules)) {
+      if (rule.type === CSSRule.FONT_FACE_RULE) {
+        rules.push(rule.cssText);
+      }
+    }
+  }
+
+  const embedded = await Promise.all(
+    rules.map(async (css) => {
+      const urls = Array.from(css.matchAll(/url\((['"]?)([^'")]+)\1\)/g)).map((match) => match[2]);
+      let result = css;
+      for (const url of urls) {
+        if (url.startsWith('data:')) continue;
+        try {
+          const response = await fetch(url);
+          if (!response.ok) continue;
+          const dataUrl = await blobToDataUrl(await response.blob());
+          result = result.split(url).join(dataUrl);
+        } catch {
+          // Leave the remote reference in place; the system fallback font still applies
+        }
+      }
+      return result;
+    }),
+  );
+  return embedded.join('\n');
+}
+
+/**
+ * Synchronously clones the chart as it is drawn right now, with computed styles
+ * inlined, on-screen controls removed and the caption band added below the chart.
+ * Being synchronous, it can freeze a frame in the middle of a transition.
+ */
+export function cloneExportSVG(source: SVGSVGElement, options: KriskogramExportOptions = {}): SVGSVGElement {
+  const { width, height } = getViewBox(source);
+  const background = options.background ?? '#fafafa';
+  const doc = source.ownerDocument ?? document;
+  const clone = source.cloneNode(true) as SVGSVGElement;
+
+  inlineComputedStyles(source, clone);
+  replaceArcCanvases(source, clone);
+  for (const control of Array.from(clone.querySelectorAll('.reset-button, .kris-minimap, .kris-doi-insets, .kris-lenses, .kris-node-highlight'))) {
+    control.remove();
+  }
+
+  if (options.title) {
+    const titleNode = clone.querySelector('text.kris-title');
+    if (titleNode) {
+      titleNode.textContent = options.title;
+    }
+  }
+
+  const totalHeight = options.caption ? height + CAPTION_HEIGHT : height;
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(totalHeight));
+  clone.setAttribute('viewBox', `0 0 ${width} ${totalHeight}`);
+
+  // Rasterisers ignore CSS backgrounds on the root element, so paint one explicitly
+  const backgroundRect = doc.createElementNS(SVG_NS, 'rect');
+  backgroundRect.setAttribute('width', String(width));
+  backgroundRect.setAttribute('height', String(totalHeight));
+  backgroundRect.setAttribute('fill', background);
+  const firstDrawable = Array.from(clone.children).find((child) => child.tagName.toLowerCase() !== 'defs') ?? null;
+  clone.insertBefore(backgroundRect, firstDrawable);
+
+  if (options.caption) {
+    const caption = doc.createElementNS(SVG_NS, 'text');
+    caption.setAttribute('class', 'kris-export-caption');
+    caption.setAttribute('x', String(width / 2));
+    caption.setAttribute('y', String(height + CAPTION_HEIGHT / 2));
+    caption.setAttribute('text-anchor', 'middle');
+    caption.setAttribute('dominant-baseline', 'middle');
+    caption.setAttribute('style', 'font-family:sans-serif;font-size:12px;fill:#4b5563');
+    caption.textContent = options.caption;
+    clone.appendChild(caption);
+  }
+
+  if (options.stamp) {
+    const stamp = doc.createElementNS(SVG_NS, 'text');
+    stamp.setAttribute('class', 'kris-export-stamp');
+    stamp.setAttribute('x', String(width - 24));
+    stamp.setAttribute('y', String(height - 24));
+    stamp.setAttribute('text-anchor', 'end');
+    stamp.setAttribute('style', 'font-family:sans-serif;font-size:48px;font-weight:bold;fill:#111827;fill-opacity:0.35');
+    stamp.textContent = options.stamp;
+    clone.appendChild(stamp);
+  }
+
+  return clone;
+}
+
+/** Like cloneExportSVG, plus same-origin web fonts embedded so the file renders anywhere. */
+export async function buildExportSVG(source: SVGSVGElement, options: KriskogramExportOptions = {}): Promise<SVGSVGElement> {
+  const clone = cloneExportSVG(source, options);
+  const doc = source.ownerDocument ?? document;
+  const fontCss = await collectFontFaceCss(doc);
+  if (fontCss) {
+    const style = doc.createElementNS(SVG_NS, 'style');
+    style.textContent = fontCss;
+    let defs = clone.querySelector('defs');
+    if (!defs) {
+      defs = doc.createElementNS(SVG_NS, 'defs');
+      clone.insertBefore(defs, clone.firstChild);
+    }
+    defs.appendChild(style);
+  }
+  return clone;
+}
+
+export function serializeSVG(svg: SVGSVGElement): string {
+  const markup = new XMLSerializer().serializeToString(svg);
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${markup}`;
+}
+
+export async function exportKriskogramSVG(source: SVGSVGElement, options: KriskogramExportOptions = {}): Promise<Blob> {
+  const svg = await buildExportSVG(source, options);
+  return new Blob([serializeSVG(svg)], { type: 'image/svg+xml;charset=utf-8' });
+}
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to rasterise the chart SVG'));
+    image.src = url;
+  });
+}
+
+/** Draws an export SVG (from cloneExportSVG or buildExportSVG) onto a new canvas. */
+export async function rasterizeExportSVG(svg: SVGSVGElement, scale = 1): Promise<HTMLCanvasElement> {
+  const width = Number(svg.getAttribute('width'));
+  const height = Number(svg.getAttribute('height'));
+  const url = URL.createObjectURL(new Blob([serializeSVG(svg)], { type: 'image/svg+xml;charset=utf-8' }));
+  try {
+    const image = await loadImage(url);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas 2D context is unavailable');
+    }
+    context.scale(scale, scale);
+    context.drawImage(image, 0, 0, width, height);
+    return canvas;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n += 1) {
+    let c = n;
+    for (let k = 0; k < 8; k += 1) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** Writes a pHYs chunk right after IHDR so image viewers pick up the chosen DPI. */
+export function setPngDpi(png: Uint8Array<ArrayBuffer>, dpi: number): Uint8Array<ArrayBuffer> {
+  const IHDR_END = 8 + 4 + 4 + 13 + 4;
+  if (png.length < IHDR_END) return png;
+  const pixelsPerMetre = Math.round(dpi / 0.0254);
+  const chunk = new Uint8Array(4 + 4 + 9 + 4);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, 9);
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+  view.setUint32(8, pixelsPerMetre);
+  view.setUint32(12, pixelsPerMetre);
+  chunk[16] = 1; // Unit: metre
+  view.setUint32(17, crc32(chunk.subarray(4, 17)));
+
+  const result = new Uint8Array(png.length + chunk.length);
+  result.set(png.subarray(0, IHDR_END), 0);
+  result.set(chunk, IHDR_END);
+  result.set(png.subarray(IHDR_END), IHDR_END + chunk.length);
+  return result;
+}
+
+export async function exportKriskogramPNG(
+  source: SVGSVGElement,
+  options: KriskogramExportOptions & { dpi?: number } = {},
+): Promise<Blob> {
+  const dpi = Math.max(24, options.dpi ?? CSS_DPI);
+  const svg = await buildExportSVG(source, options);
+  const canvas = await rasterizeExportSVG(svg, dpi / CSS_DPI);
+  const blob = await new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((result) => (result ? resolve(result) : reject(new Error('PNG encoding failed'))), 'image/png');
+  });
+  const bytes = setPngDpi(new Uint8Array(await blob.arrayBuffer()), dpi);
+  return new Blob([bytes], { type: 'image/png' });
+}
+
+export async function exportKriskogramPDF(source: SVGSVGElement, options: KriskogramExportOptions = {}): Promise<Blob> {
+  const [{ jsPDF }] = await Promise.all([import('jspdf'), import('svg2pdf.js')]);
+  const svg = await buildExportSVG(source, options);
+  const width = Number(svg.getAttribute('width'));
+  const height = Number(svg.getAttribute('height'));
+
+  const pdf = new jsPDF({
+    orientation: width >= height ? 'landscape' : 'portrait',
+    unit: 'px',
+    format: [width, height],
+    hotfixes: ['px_scaling'],
+  });
+  if (options.title) {
+    pdf.setProperties({ title: options.title, subject: options.caption });
+  }
+  // svg2pdf resolves styles through the DOM, so the clone is attached off-screen while rendering
+  svg.style.position = 'absolute';
+  svg.style.left = '-10000px';
+  document.body.appendChild(svg);
+  try {
+    await pdf.svg(svg, { x: 0, y: 0, width, height });
+  } finally {
+    svg.remove();
+  }
+  return pdf.output('blob');
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -1,5 +1,3 @@
-// @ts-nocheck
-
 /**
  * Kriskogram Visualization Implementation
  * 
@@ -9,114 +7,37 @@
 
 import * as d3 from "d3";
 import { formatDynamicFieldLabel } from "./flow-labels";
-
-// -------------------- Types --------------------
-
-export type Node = {
-  id: string;
-  label?: string;
-  [key: string]: unknown;
-};
-
-export type Edge = {
-  source: string;  // Node.id
-  target: string;  // Node.id
-  value: number;   // positive magnitude
-  [key: string]: unknown;
-};
-
-export interface KriskogramAccessors {
-  nodeLabel?: (node: Node) => string;
-  nodeColor?: (node: Node) => string;
-  nodeRadius?: (node: Node) => number;
-  nodeShape?: (node: Node) => "circle" | "rect";
-  nodeStroke?: (node: Node) => { color: string; width?: number; dashArray?: string };
-  edgeWidth?: (edge: Edge) => number;
-  edgeColor?: (edge: Edge, isAbove: boolean) => string;
-  nodeOrder?: (node: Node) => string | number;
-}
-
-type LegendDirectionItem = {
-  type: 'direction';
-  title?: string;
-  labels?: { above?: string; below?: string };
-  colors?: { above?: string; below?: string };
-};
-
-type LegendWeightItem = {
-  type: 'weight';
-  color: string;
-  scale?: 'linear' | 'sqrt' | 'log';
-  min?: number;
-  max?: number;
-  samples?: Array<{ value: number; color: string; width: number; fraction?: number }>;
-};
-
-type LegendEdgeWidthItem = {
-  type: 'edgeWidth';
-  mode: 'weight' | 'fixed';
-  scale?: 'linear' | 'sqrt' | 'log';
-  multiplier?: number;
-  baseWidth?: number;
-  min?: number;
-  max?: number;
-  samples?: Array<{ label: string; width: number; value?: number; fraction?: number }>;
-};
-
-type LegendNodeSizeItem = {
-  type: 'nodeSize';
-  mode: string;
-  scale?: 'linear' | 'sqrt' | 'log';
-  multiplier?: number;
-  entries: Array<{ label: string; radius: number; value?: number }>;
-  note?: string;
-};
-
-type LegendTemporalOverlayItem = {
-  type: 'temporalOverlay';
-  title?: string;
-  entries: Array<{ label: string; color: string; delta?: number }>;
-};
-
-type LegendEgoStepsItem = {
-  type: 'egoSteps';
-  entries: Array<{ step: number; color: string }>;
-};
-
-type LegendCategoricalItem = {
-  type: 'categorical';
-  title?: string;
-  entries: Array<{ label: string; color: string }>;
-  interNote?: string;
-};
-
-type LegendItem =
-  | LegendDirectionItem
-  | LegendWeightItem
-  | LegendEdgeWidthItem
-  | LegendNodeSizeItem
-  | LegendTemporalOverlayItem
-  | LegendEgoStepsItem
-  | LegendCategoricalItem;
-
-export interface KriskogramConfig {
-  nodes: Node[];
-  edges: Edge[];
-  accessors?: KriskogramAccessors;
-  width?: number;
-  height?: number;
-  margin?: { top: number; right: number; bottom: number; left: number };
-  arcOpacity?: number; // Arc transparency (0-1), defaults to 0.85
-  container?: string | HTMLElement; // CSS selector or DOM element, defaults to "body"
-  title?: string; // Title to display, defaults to "Migration Flow Visualization"
-  lens?: { enabled: boolean; x: number; y: number; radius: number };
-  legend?: LegendItem | LegendItem[];
-  labelScale?: number;
-}
+import {
+  DEFAULT_CV_THRESHOLD,
+  coefficientOfVariation,
+  getFlowInterval,
+  getFlowMoe,
+} from "./uncertainty";
+import { DOI_PRESETS, DEFAULT_DOI_PRESET, rankOffscreenNodes } from "./degree-of-interest";
+import { arcBendFactor, fisheyeX, isLensActive, type KriskogramLens } from "./edge-lens";
+import { createArcCanvasLayer, resolveKriskogramRenderer, type CanvasArc } from "./kriskogram-canvas";
+import { resolveEdgeStroke } from "../d3-kriskogram/edge-style";
+import { arcGeometry, arcPath, arcShape } from "../d3-kriskogram/geometry";
+import { estimateTextWidth, layoutLegend } from "../d3-kriskogram/legend-layout";
+import type {
+  Edge,
+  KriskogramAccessors,
+  KriskogramConfig,
+  KriskogramInstance,
+  KriskogramOffscreenInsets,
+  KriskogramUncertainty,
+  KriskogramUpdateOptions,
+  LegendItem,
+  LegendTemporalOverlayItem,
+  Node,
+} from "../d3-kriskogram/types";
 
 // -------------------- Implementation --------------------
 
-export function createKriskogram(config: KriskogramConfig) {
+// Pattern ids live in the document-wide namespace, so each chart gets its own
+let chartInstanceCounter = 0;
+
+export function createKriskogram(config: KriskogramConfig): KriskogramInstance {
   const {
     nodes,
     edges,
@@ -138,21 +59,33 @@ export function createKriskogram(config: KriskogramConfig) {
   const labelBackgroundRadius = Math.max(1, 6 * labelScale);
   const labelStrokeWidth = Math.max(0.25, 0.5 * labelScale);
 
-  const containerSelection =
-    typeof container === "string"
-      ? d3.select(container)
-      : d3.select(container as HTMLElement);
+  const containerSelection = d3.select(
+    typeof container === "string" ? document.querySelector<HTMLElement>(container) : container,
+  );
 
   // Clear existing content and remove any orphaned tooltips
   containerSelection.selectAll("*").remove();
   d3.selectAll(".kriskogram-tooltip").remove();
 
   // ---- Accessors with defaults ----
-  const getNodeLabel = accessors.nodeLabel ?? ((d: Node) => d.label ?? d.id);
-  const getNodeColor = accessors.nodeColor ?? (() => "#555");
-  const getNodeRadius = accessors.nodeRadius ?? (() => 6);
-  const getNodeShape = accessors.nodeShape ?? (() => "circle");
-  const getNodeStroke = accessors.nodeStroke ?? (() => ({ color: '#fff', width: 2 }));
+  // Held in mutable slots so updateData can swap them and tween to the new encoding.
+  let activeAccessors: KriskogramAccessors = accessors;
+  let activeLegend = config.legend;
+  let activeUncertainty: KriskogramUncertainty = config.uncertainty ?? { mode: "none" };
+  let activeOverlay = config.overlay;
+  let activeStroke = resolveEdgeStroke(config.edgeStyle);
+  const hatchPatternId = `kris-hatch-${++chartInstanceCounter}`;
+  const lensGradientId = `kris-lens-${chartInstanceCounter}`;
+  const getNodeLabel = (d: Node) =>
+    activeAccessors.nodeLabel ? activeAccessors.nodeLabel(d) : d.label ?? d.id;
+  const getNodeColor = (d: Node) =>
+    activeAccessors.nodeColor ? activeAccessors.nodeColor(d) : "#555";
+  const getNodeRadius = (d: Node) =>
+    activeAccessors.nodeRadius ? activeAccessors.nodeRadius(d) : 6;
+  const getNodeShape = (d: Node) =>
+    activeAccessors.nodeShape ? activeAccessors.nodeShape(d) : "circle";
+  const getNodeStroke = (d: Node) =>
+    activeAccessors.nodeStroke ? activeAccessors.nodeStroke(d) : { color: '#fff', width: 2 };
   const resolveNodeStroke = (node: Node) => {
     const stroke = getNodeStroke(node) as { color: string; width?: number; dashArray?: string };
     return {
@@ -161,11 +94,62 @@ export function createKriskogram(config: KriskogramConfig) {
       dashArray: stroke.dashArray ?? null,
     };
   };
-  const getEdgeWidth = accessors.edgeWidth ?? ((d: Edge) => Math.sqrt(d.value));
-  const getEdgeColor =
-    accessors.edgeColor ??
-    ((_d: Edge, isAbove: boolean) => (isAbove ? "#1f77b4" : "#d62728"));
-  const getNodeOrder = accessors.nodeOrder ?? ((d: Node) => d.id);
+  const getEdgeWidth = (d: Edge) =>
+    activeAccessors.edgeWidth ? activeAccessors.edgeWidth(d) : Math.sqrt(d.value);
+  const getEdgeColor = (d: Edge, isAbove: boolean) =>
+    activeAccessors.edgeColor
+      ? activeAccessors.edgeColor(d, isAbove)
+      : isAbove ? "#1f77b4" : "#d62728";
+  const getNodeOrder = (d: Node) =>
+    activeAccessors.nodeOrder ? activeAccessors.nodeOrder(d) : d.id;
+  const getEdgeMoe = (d: Edge) =>
+    activeAccessors.edgeMoe ? activeAccessors.edgeMoe(d) ?? null : getFlowMoe(d);
+  const getEdgeDash = (d: Edge) => activeStroke.dash ?? activeAccessors.edgeDash?.(d) ?? null;
+
+  // ---- Temporal overlay ----
+  const overlayOffset = (d: Edge) => {
+    const offset = activeOverlay?.offset(d);
+    return typeof offset === "number" && Number.isFinite(offset) ? offset : 0;
+  };
+  const isOverlayEdge = (d: Edge) => overlayOffset(d) !== 0;
+
+  /**
+   * Data-join key for arcs. Overlay arcs are keyed by their offset from the
+   * current year so that stepping through years tweens arcs instead of replacing them.
+   */
+  function edgeKey(d: Edge) {
+    return `${d.source}-${d.target}-${overlayOffset(d)}`;
+  }
+
+  // ---- Uncertainty (MOE) ----
+  // Overlay arcs from other years stay unmarked so the current year's uncertainty reads clearly.
+  const getEdgeCv = (d: Edge) => coefficientOfVariation(d.value, getEdgeMoe(d));
+  const isEdgeUnreliable = (d: Edge) => {
+    if (isOverlayEdge(d)) return false;
+    const cv = getEdgeCv(d);
+    return cv !== null && cv > (activeUncertainty.cvThreshold ?? DEFAULT_CV_THRESHOLD);
+  };
+  const hasUncertaintyBand = (d: Edge) =>
+    activeUncertainty.mode !== "none" && !isOverlayEdge(d) && (getEdgeMoe(d) ?? 0) > 0;
+  // In 'range' mode the solid arc shows the lower bound and the band the upper bound
+  const getDisplayedEdgeWidth = (d: Edge) => {
+    const moe = getEdgeMoe(d);
+    if (activeUncertainty.mode !== "range" || !moe || isOverlayEdge(d)) {
+      return getEdgeWidth(d);
+    }
+    return getEdgeWidth({ ...d, value: getFlowInterval(d.value, moe).lower });
+  };
+  const getUpperBoundEdgeWidth = (d: Edge) =>
+    getEdgeWidth({ ...d, value: getFlowInterval(d.value, getEdgeMoe(d) ?? 0).upper });
+  const applyUnreliableFade = (d: Edge, opacity: number) =>
+    activeUncertainty.unreliableStyle === "fade" && isEdgeUnreliable(d) ? opacity * 0.3 : opacity;
+  const formatUncertaintyTooltip = (d: Edge) => {
+    const cv = getEdgeCv(d);
+    if (cv === null || isOverlayEdge(d)) return "";
+    const cvLabel = Number.isFinite(cv) ? `${(cv * 100).toFixed(1)}%` : "∞";
+    const warning = isEdgeUnreliable(d) ? ' <span style="color:#fbbf24;">⚠ Statistically unreliable</span>' : "";
+    return `<strong>CV:</strong> ${cvLabel}${warning}<br/>`;
+  };
 
   // ---- Validate edges ----
   const seen = new Set<string>();
@@ -173,8 +157,7 @@ export function createKriskogram(config: KriskogramConfig) {
     if (e.value <= 0) {
       console.warn("Edge value must be positive:", e);
     }
-    const yearSegment = (e as any)?.__displayYear ?? 'current';
-    const key = `${e.source}-${e.target}-${yearSegment}`;
+    const key = edgeKey(e);
     if (seen.has(key)) {
       console.warn("Duplicate edge detected:", e);
     }
@@ -211,6 +194,33 @@ export function createKriskogram(config: KriskogramConfig) {
     .attr("d", "M 0 0 L 12 6 L 0 12 z")
     .attr("fill", "#6b7280");
 
+  // Diagonal hatching laid over statistically unreliable arcs
+  const hatchPattern = defs
+    .append("pattern")
+    .attr("id", hatchPatternId)
+    .attr("patternUnits", "userSpaceOnUse")
+    .attr("width", 6)
+    .attr("height", 6)
+    .attr("patternTransform", "rotate(45)");
+  hatchPattern
+    .append("line")
+    .attr("x1", 0)
+    .attr("y1", 0)
+    .attr("x2", 0)
+    .attr("y2", 6)
+    .attr("stroke", "#fff")
+    .attr("stroke-width", 2.5);
+
+  // Off-centre highlight so lenses read as a glass dome over the chart
+  const lensGradient = defs
+    .append("radialGradient")
+    .attr("id", lensGradientId)
+    .attr("fx", "35%")
+    .attr("fy", "30%");
+  lensGradient.append("stop").attr("offset", "0%").attr("stop-color", "#fff").attr("stop-opacity", 0.35);
+  lensGradient.append("stop").attr("offset", "70%").attr("stop-color", "#93c5fd").attr("stop-opacity", 0.08);
+  lensGradient.append("stop").attr("offset", "100%").attr("stop-color", "#1d4ed8").attr("stop-opacity", 0.22);
+
   // Create a container group for zoom/pan
   const zoomGroup = svg.append("g").attr("class", "zoom-group");
 
@@ -224,10 +234,52 @@ export function createKriskogram(config: KriskogramConfig) {
     .padding(0.5);
 
   // ---- Zoom and Pan ----
+  // Zooming stretches the baseline rather than scaling the drawing: the zoom transform is
+  // applied to the x range, so nodes spread apart, arcs are re-drawn at their new spans and
+  // labels keep their size. The y component of the transform is ignored.
+  let zoomTransform = d3.zoomIdentity;
+  let linkSlidingEnabled = Boolean(config.linkSliding);
+  let bringAndGoEnabled = Boolean(config.bringAndGo);
+  let bringState: { focusId: string; neighbourIds: string[] } | null = null;
+  let suppressZoomRelayout = false;
+  const applyZoomRange = () => {
+    xScale.range([zoomTransform.applyX(margin.left), zoomTransform.applyX(width - margin.right)]);
+  };
+
+  // ---- Lenses ----
+  // Bend lenses are applied in arcPath; fisheye lenses move nodes, so every drawn
+  // position goes through nodeX rather than xScale.
+  let cursorLens: KriskogramLens | undefined = config.lens;
+  let pinnedLenses: KriskogramLens[] = config.lenses ?? [];
+  let activeLenses: KriskogramLens[] = [];
+  let hasFisheye = false;
+  const refreshLenses = () => {
+    activeLenses = [...pinnedLenses, cursorLens].filter(isLensActive);
+    hasFisheye = activeLenses.some((lens) => lens.effect === "fisheye");
+  };
+  refreshLenses();
+  const nodeX = (id: string) => {
+    const x = xScale(id);
+    return x === undefined || !hasFisheye ? x : fisheyeX(activeLenses, x, baselineY);
+  };
+
   const zoomBehavior = d3.zoom<SVGSVGElement, unknown>()
-    .scaleExtent([0.1, 4])
+    .scaleExtent([1, Math.max(4, sortedNodes.length / 2)])
+    .translateExtent([[0, 0], [width, height]])
+    .extent([[0, 0], [width, height]])
+    .filter((event) => {
+      if (event.target?.closest?.(".kris-minimap, .kris-doi-insets, .reset-button")) return false;
+      // The wheel resizes the cursor lens while one is shown
+      if (event.type === "wheel" && isLensActive(cursorLens)) return false;
+      if (linkSlidingEnabled && event.type !== "wheel" && event.target?.closest?.("path.arc")) return false;
+      return (!event.ctrlKey || event.type === "wheel") && !event.button;
+    })
     .on("zoom", function(event) {
-      zoomGroup.attr("transform", event.transform.toString());
+      zoomTransform = event.transform;
+      applyZoomRange();
+      if (!suppressZoomRelayout) {
+        relayoutForZoom();
+      }
     });
 
   svg.call(zoomBehavior);
@@ -270,47 +322,36 @@ export function createKriskogram(config: KriskogramConfig) {
     .attr("stroke-width", 2);
 
   // ---- Arcs (edges) ----
-  function arcPath(x1: number, x2: number, isAbove: boolean, initialGap = 0) {
-    const span = Math.max(Math.abs(x2 - x1), 1);
-    const gap = Math.max(0, Math.min(initialGap, span / 2));
-    const startY = baselineY + (isAbove ? gap : -gap);
-    const endY = startY;
-    let arcHeight = span / 2;
-
-    // EdgeLens: amplify arc height if lens is enabled and intersects this span
-    if (config.lens && config.lens.enabled) {
-      const midX = (x1 + x2) / 2;
-      const lens = config.lens;
-      const withinX = (midX >= Math.min(x1, x2) && midX <= Math.max(x1, x2));
-      const dy = Math.abs(startY - lens.y);
-      const withinY = dy <= lens.radius;
-      if (withinX && withinY) {
-        // Increase curvature based on proximity to lens center in X
-        const dxCenter = Math.abs(lens.x - midX);
-        const influence = Math.max(0, 1 - dxCenter / (lens.radius + 1e-6));
-        const factor = 1 + 1.5 * influence; // up to 2.5x
-        arcHeight *= factor;
-      }
-    }
-
-    let sweep: number;
-    if (x1 < x2) {
-      sweep = isAbove ? 0 : 1;
-    } else {
-      sweep = isAbove ? 1 : 0;
-    }
-
-    const radius = Math.max(span / 2, 1);
-
-    return `M${x1},${startY} A${radius},${arcHeight} 0 0,${sweep} ${x2},${endY}`;
-  }
-
+  // EdgeLens: lift arcs passing through a bend lens
+  const lensBend = (x1: number, x2: number, startY: number, apexY: number) =>
+    arcBendFactor(activeLenses, x1, x2, startY, apexY);
+  const edgeArc = (x1: number, x2: number) =>
+    arcGeometry(x1, x2, baselineY, { gap: activeStroke.footGap, bend: activeLenses.length > 0 ? lensBend : undefined });
+
+  const edgeBandGroup = zoomGroup
+    .append("g")
+    .attr("class", "edges-uncertainty")
+    .style("pointer-events", "none");
   const edgeGroup = zoomGroup.append("g").attr("class", "edges");
   const edgeOutlineGroup = zoomGroup.append("g").attr("class", "edges-outline");
-
-  const edgeSelection = (edgeGroup
-    .selectAll<SVGPathElement, any>("path.arc")
-    .data(edges, (d: any) => `${d.source}-${d.target}-${(d && d.__displayYear) ?? 'current'}`)
+  const edgeHatchGroup = zoomGroup
+    .append("g")
+    .attr("class", "edges-unreliable")
+    .style("pointer-events", "none");
+
+  // With the canvas renderer the SVG arc layers stay empty and arcs are drawn under them
+  const renderer = resolveKriskogramRenderer(config.renderer, edges.length);
+  const arcCanvas =
+    renderer === "canvas"
+      ? createArcCanvasLayer<Edge>(zoomGroup.node() as SVGGElement, edgeBandGroup.node(), width, height)
+      : null;
+  const svgArcData = (edgeData: Edge[]) => (arcCanvas ? [] : edgeData);
+
+  const edgePathFor = (d: Edge) => arcPath(edgeArc(nodeX(d.source) ?? 0, nodeX(d.target) ?? 0));
+
+  const edgeSelection = edgeGroup
+    .selectAll<SVGPathElement, Edge>("path.arc")
+    .data(svgArcData(edges), edgeKey)
     .join(
       (enter) =>
         enter
@@ -320,11 +361,11 @@ export function createKriskogram(config: KriskogramConfig) {
           .style("cursor", "pointer"),
       (update) => update,
       (exit) => exit.remove(),
-    )) as d3.Selection<SVGPathElement, any, SVGGElement, unknown>;
+    );
 
-  const outlineSelection = (edgeOutlineGroup
-    .selectAll<SVGPathElement, any>("path.arc-outline")
-    .data(edges, (d: any) => `${d.source}-${d.target}-${(d && d.__displayYear) ?? 'current'}`)
+  const outlineSelection = edgeOutlineGroup
+    .selectAll<SVGPathElement, Edge>("path.arc-outline")
+    .data(svgArcData(edges), edgeKey)
     .join(
       (enter) =>
         enter
@@ -333,76 +374,109 @@ export function createKriskogram(config: KriskogramConfig) {
           .attr("fill", "none"),
       (update) => update,
       (exit) => exit.remove(),
-    )) as d3.Selection<SVGPathElement, any, SVGGElement, unknown>;
+    );
 
   outlineSelection.style("pointer-events", "none");
 
   let backgroundStroke = '#f8fafc';
   if (typeof window !== 'undefined') {
-    const containerNode = containerSelection.node() as HTMLElement | null;
+    const containerNode = containerSelection.node();
     const computedBg = containerNode ? window.getComputedStyle(containerNode).backgroundColor : null;
     if (computedBg && computedBg !== 'rgba(0, 0, 0, 0)') {
       backgroundStroke = computedBg;
     }
   }
 
-  const applyEdgeGeometry = (selection: d3.Selection<SVGPathElement, any, SVGGElement, unknown>, forOutline = false) => {
+  const applyEdgeGeometry = <P extends d3.BaseType, PD>(
+    selection: d3.Selection<SVGPathElement, Edge, P, PD>,
+    forOutline = false,
+  ) => {
     selection
-      .attr("d", (d: any) => {
-        const x1 = xScale(d.source)!;
-        const x2 = xScale(d.target)!;
-        const isAbove = x1 > x2;
-        d.__isAbove = isAbove;
-        if ((d.__overlayStyle ?? 'filled') === 'segmented') {
-          if (typeof d.__segmentDirection !== 'number' || d.__segmentDirection === 0) {
-            d.__segmentDirection = 1;
-          }
-        }
-        const initialGap =
-          typeof d.__segmentInitialGap === 'number'
-            ? d.__segmentInitialGap
-            : typeof d.__initialGap === 'number'
-              ? d.__initialGap
-              : 0;
-        return arcPath(x1, x2, isAbove, initialGap);
-      })
+      .attr("d", edgePathFor)
       .attr("stroke-linejoin", "round")
-      .attr("stroke", (d: any) => {
-        const x1 = xScale(d.source)!;
-        const x2 = xScale(d.target)!;
+      .attr("stroke", (d) => {
+        const x1 = nodeX(d.source) ?? 0;
+        const x2 = nodeX(d.target) ?? 0;
         const isAbove = x1 > x2;
         return forOutline ? backgroundStroke : getEdgeColor(d, isAbove);
       })
-      .attr("stroke-width", (d: any) => {
-        const baseWidth = Math.max(getEdgeWidth(d), 0.75);
-        const outlineThickness = Math.max(0.5, (d.__outlineGap ?? 3));
-        const style = d.__overlayStyle ?? 'filled';
-        if (!forOutline) {
-          if (style === 'outline') {
-            return outlineThickness;
-          }
-          return baseWidth;
+      .attr("stroke-width", (d) => {
+        if (forOutline) {
+          return 0;
         }
-        return 0;
+        return activeStroke.width ?? Math.max(getDisplayedEdgeWidth(d), 0.75);
       })
-      .attr("stroke-linecap", (d: any) => (d.__overlayStyle === 'segmented' ? d.__overlayLineCap ?? 'round' : 'round'))
-      .attr("stroke-dasharray", (d: any) => d.__overlayDash ?? null)
-      .attr("stroke-dashoffset", (d: any) => d.__overlayDashOffset ?? 0)
-      .attr("opacity", (d: any) => {
+      .attr("stroke-linecap", activeStroke.lineCap)
+      .attr("stroke-dasharray", (d: Edge) => getEdgeDash(d))
+      .attr("stroke-dashoffset", activeStroke.dashOffset)
+      .attr("opacity", (d) => {
         if (forOutline) {
           return 0;
         }
-        if (d && d.__isOverlay) {
+        if (isOverlayEdge(d)) {
           const target = Math.max(0.2, arcOpacity * 0.45);
           return target;
         }
-        return arcOpacity;
+        return applyUnreliableFade(d, arcOpacity);
       });
   };
 
   applyEdgeGeometry(edgeSelection, false);
   applyEdgeGeometry(outlineSelection, true);
 
+  // Bands sit under the arcs at the upper-bound width; hatches sit over unreliable arcs.
+  const renderUncertaintyLayers = (edgeData: Edge[], duration = 0) => {
+    const bandData = edgeData.filter(hasUncertaintyBand);
+    const hatchData =
+      activeUncertainty.unreliableStyle === "hatch" ? edgeData.filter(isEdgeUnreliable) : [];
+
+    edgeBandGroup
+      .selectAll<SVGPathElement, Edge>("path.arc-band")
+      .data(bandData, edgeKey)
+      .join(
+        (enter) =>
+          enter
+            .append("path")
+            .attr("class", "arc-band")
+            .attr("fill", "none")
+            .attr("stroke-linecap", "round")
+            .attr("opacity", 0)
+            .attr("d", edgePathFor),
+        (update) => update,
+        (exit) => exit.transition().duration(duration).attr("opacity", 0).remove(),
+      )
+      .transition()
+      .duration(duration)
+      .attr("d", edgePathFor)
+      .attr("stroke", (d) => getEdgeColor(d, (nodeX(d.source) ?? 0) > (nodeX(d.target) ?? 0)))
+      .attr("stroke-width", (d) => Math.max(getUpperBoundEdgeWidth(d), getDisplayedEdgeWidth(d) + 1.5))
+      .attr("opacity", (d) => applyUnreliableFade(d, Math.max(0.12, arcOpacity * 0.3)));
+
+    edgeHatchGroup
+      .selectAll<SVGPathElement, Edge>("path.arc-hatch")
+      .data(hatchData, edgeKey)
+      .join(
+        (enter) =>
+          enter
+            .append("path")
+            .attr("class", "arc-hatch")
+            .attr("fill", "none")
+            .attr("stroke", `url(#${hatchPatternId})`)
+            .attr("stroke-linecap", "round")
+            .attr("opacity", 0)
+            .attr("d", edgePathFor),
+        (update) => update,
+        (exit) => exit.transition().duration(duration).attr("opacity", 0).remove(),
+      )
+      .transition()
+      .duration(duration)
+      .attr("d", edgePathFor)
+      .attr("stroke-width", (d) => Math.max(getDisplayedEdgeWidth(d), 0.75))
+      .attr("opacity", 0.85);
+  };
+
+  renderUncertaintyLayers(svgArcData(edges));
+
   type SegmentAnimationState = {
     element: SVGPathElement;
     startTime: number;
@@ -415,6 +489,7 @@ export function createKriskogram(config: KriskogramConfig) {
   const isBrowserEnvironment =
     typeof window !== "undefined" && typeof window.requestAnimationFrame === "function";
   const segmentAnimations = new Map<SVGPathElement, SegmentAnimationState>();
+  const segmentPathLengths = new WeakMap<Edge, number>();
   let animationFrameId: number | null = null;
 
   const nowTimestamp = () => (typeof performance !== "undefined" ? performance.now() : Date.now());
@@ -469,19 +544,15 @@ export function createKriskogram(config: KriskogramConfig) {
     }
   };
 
-  const applySegmentAnimation = (selection: d3.Selection<SVGPathElement, any, any, any>) => {
-    selection.each(function (d: any) {
+  const applySegmentAnimation = <P extends d3.BaseType, PD>(selection: d3.Selection<SVGPathElement, Edge, P, PD>) => {
+    selection.each(function (d) {
       const element = this as SVGPathElement;
       const path = d3.select(element);
       path.interrupt();
 
-      const animate = Boolean(d.__segmentAnimate);
-      const cycle = Number(d.__segmentCycle ?? 0);
-      const baseOffset = Number(d.__overlayDashOffset ?? 0);
-      const rawDirection = Number(d.__segmentDirection ?? -1);
-      const direction = rawDirection === 0 ? -1 : rawDirection > 0 ? 1 : -1;
-      const baseSpeed = Number(d.__segmentSpeed ?? 1);
-      const scaleByWeight = Boolean(d.__segmentScaleByWeight);
+      const { animate, cycle, dashOffset: baseOffset, speed: baseSpeed, scaleByWeight } = activeStroke;
+      // Dashes travel from source to target
+      const direction = 1;
 
       if (!animate || !Number.isFinite(cycle) || cycle <= 0 || !isBrowserEnvironment) {
         segmentAnimations.delete(element);
@@ -489,14 +560,14 @@ export function createKriskogram(config: KriskogramConfig) {
         return;
       }
 
-      let pathLength = d.__pathLength;
+      let pathLength = segmentPathLengths.get(d);
       if (typeof pathLength !== "number" || !Number.isFinite(pathLength) || pathLength <= 0) {
         try {
           pathLength = Math.max(1, element.getTotalLength());
         } catch {
           pathLength = Math.max(1, cycle);
         }
-        d.__pathLength = pathLength;
+        segmentPathLengths.set(d, pathLength);
       }
 
       const step = Math.max(1, cycle);
@@ -550,47 +621,57 @@ export function createKriskogram(config: KriskogramConfig) {
   applySegmentAnimation(edgeSelection);
   applySegmentAnimation(outlineSelection);
 
+  // Shared by the SVG arcs and the canvas layer's hit-testing
+  const showEdgeTooltip = (d: Edge, nodeList: Node[]) => {
+    const sourceNode = nodeList.find((n) => n.id === d.source);
+    const targetNode = nodeList.find((n) => n.id === d.target);
+    const sameRegion = sourceNode?.region && targetNode?.region && sourceNode.region === targetNode.region;
+    const sameDivision = sourceNode?.division && targetNode?.division && sourceNode.division === targetNode.division;
+    d3.selectAll(".kriskogram-tooltip").remove();
+    const tooltip = d3
+      .select("body")
+      .append("div")
+      .attr("class", "kriskogram-tooltip")
+      .style("position", "absolute")
+      .style("background", "rgba(0, 0, 0, 0.9)")
+      .style("color", "white")
+      .style("padding", "10px")
+      .style("border-radius", "6px")
+      .style("font-size", "12px")
+      .style("pointer-events", "none")
+      .style("z-index", "1000")
+      .style("box-shadow", "0 4px 6px rgba(0,0,0,0.3)");
+    const displayYear = activeOverlay?.year?.(d);
+    const details = activeAccessors.edgeDetails?.(d);
+    const temporalDelta = overlayOffset(d);
+    const temporalLabel = temporalDelta === 0 ? 'Current year' : temporalDelta < 0 ? 'Past overlay' : 'Future overlay';
+    tooltip.html(`
+      <strong>${sourceNode?.label || d.source} → ${targetNode?.label || d.target}</strong><br/>
+      ${displayYear ? `<strong>Year:</strong> ${displayYear} (${temporalLabel})<br/>` : ''}
+      ${details
+        ? details.map((row) => `<strong>${row.label}:</strong> ${row.value}<br/>`).join('')
+        : `<strong>Migrants:</strong> ${d.value.toLocaleString()} people<br/>`}
+      ${d.moe ? `<strong>MOE:</strong> ±${d.moe.toLocaleString()}<br/>` : ''}
+      ${formatUncertaintyTooltip(d)}
+      ${sourceNode?.region ? `<strong>From Region:</strong> ${sourceNode.region}<br/>` : ''}
+      ${targetNode?.region ? `<strong>To Region:</strong> ${targetNode.region}<br/>` : ''}
+      ${sourceNode?.division ? `<strong>From Division:</strong> ${sourceNode.division}<br/>` : ''}
+      ${targetNode?.division ? `<strong>To Division:</strong> ${targetNode.division}<br/>` : ''}
+      <strong>Same Region:</strong> ${sameRegion ? '✓ Yes' : '✗ No'}<br/>
+      <strong>Same Division:</strong> ${sameDivision ? '✓ Yes' : '✗ No'}
+    `);
+  };
+
   edgeSelection
-    .on("mouseover", function (_event, d: any) {
+    .on("mouseover", function (_event, d) {
+      if (activeSlide) return;
       const currentStroke = d3.select(this).attr("stroke");
       d3.select(this)
         .attr("opacity", 1)
         .attr("stroke-width", getEdgeWidth(d) * 1.5)
         .style("filter", "drop-shadow(0 0 2px black)")
         .attr("data-original-stroke", currentStroke);
-      const sourceNode = sortedNodes.find((n) => n.id === d.source);
-      const targetNode = sortedNodes.find((n) => n.id === d.target);
-      const sameRegion = sourceNode?.region && targetNode?.region && sourceNode.region === targetNode.region;
-      const sameDivision = sourceNode?.division && targetNode?.division && sourceNode.division === targetNode.division;
-      d3.selectAll(".kriskogram-tooltip").remove();
-      const tooltip = d3
-        .select("body")
-        .append("div")
-        .attr("class", "kriskogram-tooltip")
-        .style("position", "absolute")
-        .style("background", "rgba(0, 0, 0, 0.9)")
-        .style("color", "white")
-        .style("padding", "10px")
-        .style("border-radius", "6px")
-        .style("font-size", "12px")
-        .style("pointer-events", "none")
-        .style("z-index", "1000")
-        .style("box-shadow", "0 4px 6px rgba(0,0,0,0.3)");
-      const displayYear = d.__displayYear;
-      const temporalDelta = d.__temporalDelta ?? 0;
-      const temporalLabel = temporalDelta === 0 ? 'Current year' : temporalDelta < 0 ? 'Past overlay' : 'Future overlay';
-      tooltip.html(`
-        <strong>${sourceNode?.label || d.source} → ${targetNode?.label || d.target}</strong><br/>
-        ${displayYear ? `<strong>Year:</strong> ${displayYear} (${temporalLabel})<br/>` : ''}
-        <strong>Migrants:</strong> ${d.value.toLocaleString()} people<br/>
-        ${d.moe ? `<strong>MOE:</strong> ±${d.moe.toLocaleString()}<br/>` : ''}
-        ${sourceNode?.region ? `<strong>From Region:</strong> ${sourceNode.region}<br/>` : ''}
-        ${targetNode?.region ? `<strong>To Region:</strong> ${targetNode.region}<br/>` : ''}
-        ${sourceNode?.division ? `<strong>From Division:</strong> ${sourceNode.division}<br/>` : ''}
-        ${targetNode?.division ? `<strong>To Division:</strong> ${targetNode.division}<br/>` : ''}
-        <strong>Same Region:</strong> ${sameRegion ? '✓ Yes' : '✗ No'}<br/>
-        <strong>Same Division:</strong> ${sameDivision ? '✓ Yes' : '✗ No'}
-      `);
+      showEdgeTooltip(d, sortedNodes);
     })
     .on("mousemove", function (event) {
       const tooltip = d3.select(".kriskogram-tooltip");
@@ -599,13 +680,13 @@ export function createKriskogram(config: KriskogramConfig) {
       }
     })
     .on("mouseout", function () {
-      const edge = d3.select(this);
-      const datum: any = edge.datum();
+      const edge = d3.select<SVGPathElement, Edge>(this);
+      const datum = edge.datum();
       edge.style("filter", null);
-      applyEdgeGeometry(edge as unknown as d3.Selection<SVGPathElement, any, SVGGElement, unknown>, false);
-      applyEdgeGeometry(outlineSelection.filter((outlineDatum: any) => outlineDatum === datum), true);
-      applySegmentAnimation(edge as unknown as d3.Selection<SVGPathElement, any, SVGGElement, unknown>);
-      applySegmentAnimation(outlineSelection.filter((outlineDatum: any) => outlineDatum === datum));
+      applyEdgeGeometry(edge, false);
+      applyEdgeGeometry(outlineSelection.filter((outlineDatum) => outlineDatum === datum), true);
+      applySegmentAnimation(edge);
+      applySegmentAnimation(outlineSelection.filter((outlineDatum) => outlineDatum === datum));
       d3.selectAll(".kriskogram-tooltip").remove();
     });
 
@@ -618,8 +699,8 @@ export function createKriskogram(config: KriskogramConfig) {
   // - Current: y = r + 10, x = r + 5 (balanced position)
   const nodeGroup = zoomGroup.append("g").attr("class", "nodes");
 
-  const ensureLabelElements = (
-    group: d3.Selection<SVGGElement, any, any, any>,
+  const ensureLabelElements = <P extends d3.BaseType, PD>(
+    group: d3.Selection<SVGGElement, unknown, P, PD>,
     datum: Node,
   ) => {
     let labelGroup = group.select<SVGGElement>("g.node-label");
@@ -666,8 +747,10 @@ const enhanceNodeSelection = nodeGroup
   .enter()
   .append("g")
   .attr("class", "node")
-  .attr("transform", (d) => `translate(${xScale(d.id)},${baselineY})`)
-  .style("cursor", "pointer");
+  .attr("transform", (d) => `translate(${nodeX(d.id)},${baselineY})`)
+  .style("cursor", "pointer")
+  .on("mouseover.hover", (_event, d) => config.onNodeHover?.(d.id))
+  .on("mouseout.hover", () => config.onNodeHover?.(null));
 
 const nodeTooltipLabels = {
   yearIncoming: formatDynamicFieldLabel("total_incoming_year"),
@@ -681,11 +764,17 @@ const nodeTooltipLabels = {
   overlayDelta: formatDynamicFieldLabel("temporal_overlay_delta"),
 };
 
-const formatNodeTooltipBlock = (node: any) => {
+/** A field of a node or yearly detail, when it holds a finite number. */
+const numberField = (record: Record<string, unknown>, key: string) => {
+  const value = record[key];
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+};
+
+const formatNodeTooltipBlock = (node: Node) => {
   const formatNumber = (value: number) =>
     Number.isFinite(value) ? value.toLocaleString() : '0';
 
-  const optionalLine = (fieldKey: string, value: any, customLabel?: string) => {
+  const optionalLine = (fieldKey: string, value: unknown, customLabel?: string) => {
     if (value === null || value === undefined || value === '') {
       return '';
     }
@@ -695,26 +784,27 @@ const formatNodeTooltipBlock = (node: any) => {
     return `<div style="margin-bottom:3px;"><strong>${label}:</strong> ${formatted}</div>`;
   };
 
-  const visibleIncoming = node.total_incoming_visible ?? node._totalIncoming ?? 0;
-  const visibleOutgoing = node.total_outgoing_visible ?? node._totalOutgoing ?? 0;
-  const yearIncoming = node.total_incoming_year ?? visibleIncoming;
-  const yearOutgoing = node.total_outgoing_year ?? visibleOutgoing;
-  const netVisible = node.net_flow_visible ?? (visibleIncoming - visibleOutgoing);
-  const netYear = node.net_flow_year ?? (yearIncoming - yearOutgoing);
-  const temporalDetailsRaw = Array.isArray(node.temporal_details) ? node.temporal_details : [];
+  const visibleIncoming = numberField(node, 'total_incoming_visible') ?? numberField(node, '_totalIncoming') ?? 0;
+  const visibleOutgoing = numberField(node, 'total_outgoing_visible') ?? numberField(node, '_totalOutgoing') ?? 0;
+  const yearIncoming = numberField(node, 'total_incoming_year') ?? visibleIncoming;
+  const yearOutgoing = numberField(node, 'total_outgoing_year') ?? visibleOutgoing;
+  const netVisible = numberField(node, 'net_flow_visible') ?? (visibleIncoming - visibleOutgoing);
+  const netYear = numberField(node, 'net_flow_year') ?? (yearIncoming - yearOutgoing);
+  const temporalDetailsRaw: unknown[] = Array.isArray(node.temporal_details) ? node.temporal_details : [];
   const temporalCards = temporalDetailsRaw
-    .map((detail: any) => {
-      const yearValue = detail?.year ?? '—';
-      const isCurrent = Boolean(detail?.is_current);
+    .map((entry) => {
+      const detail: Record<string, unknown> = typeof entry === 'object' && entry !== null ? { ...entry } : {};
+      const yearValue = detail.year ?? '—';
+      const isCurrent = Boolean(detail.is_current);
       const headerLabel = `${yearValue}${isCurrent ? ' (current)' : ''}`;
       const cardBackground = isCurrent ? 'rgba(59,130,246,0.25)' : 'rgba(30,41,59,0.55)';
       const cardBorder = isCurrent ? 'rgba(96,165,250,0.75)' : 'rgba(148,163,184,0.35)';
-      const totalIncomingYear = formatNumber(detail?.total_incoming ?? 0);
-      const totalOutgoingYear = formatNumber(detail?.total_outgoing ?? 0);
-      const visibleIncomingYear = formatNumber(detail?.visible_incoming ?? 0);
-      const visibleOutgoingYear = formatNumber(detail?.visible_outgoing ?? 0);
-      const netTotalYear = formatNumber(detail?.net_total ?? 0);
-      const netVisibleYear = formatNumber(detail?.net_visible ?? 0);
+      const totalIncomingYear = formatNumber(numberField(detail, 'total_incoming') ?? 0);
+      const totalOutgoingYear = formatNumber(numberField(detail, 'total_outgoing') ?? 0);
+      const visibleIncomingYear = formatNumber(numberField(detail, 'visible_incoming') ?? 0);
+      const visibleOutgoingYear = formatNumber(numberField(detail, 'visible_outgoing') ?? 0);
+      const netTotalYear = formatNumber(numberField(detail, 'net_total') ?? 0);
+      const netVisibleYear = formatNumber(numberField(detail, 'net_visible') ?? 0);
       return `
         <div style="border:1px solid ${cardBorder}; background:${cardBackground}; border-radius:6px; padding:8px;">
           <div style="font-weight:600;font-size:12px;margin-bottom:4px;">${headerLabel}</div>
@@ -798,20 +888,26 @@ enhanceNodeSelection
     d3.selectAll(".kriskogram-tooltip").remove();
   })
   .on("click", function(_event, d) {
+    if (bringAndGoEnabled) {
+      handleBringAndGoClick(d.id);
+      return;
+    }
     edges.filter(e => e.source === d.id || e.target === d.id);
 
-    edgeGroup.selectAll("path.arc")
-      .attr("opacity", (edge: any) => (edge && edge.__isOverlay ? Math.max(0.15, arcOpacity * 0.4) : 0.3));
+    edgeGroup.selectAll<SVGPathElement, Edge>("path.arc")
+      .attr("opacity", (edge) => (isOverlayEdge(edge) ? Math.max(0.15, arcOpacity * 0.4) : 0.3));
 
-    edgeGroup.selectAll("path.arc")
-      .filter((edge: any) => edge.source === d.id || edge.target === d.id)
+    edgeGroup.selectAll<SVGPathElement, Edge>("path.arc")
+      .filter((edge) => edge.source === d.id || edge.target === d.id)
       .attr("opacity", 1)
-      .attr("stroke-width", (edge: any) => getEdgeWidth(edge) * 1.5);
+      .attr("stroke-width", (edge) => getEdgeWidth(edge) * 1.5);
+    setCanvasFocus({ nodeId: d.id, dimOpacity: 0.3, widen: true });
 
     setTimeout(() => {
-      edgeGroup.selectAll("path.arc")
-        .attr("opacity", (edge: any) => (edge && edge.__isOverlay ? Math.max(0.25, arcOpacity * 0.65) : arcOpacity))
-        .attr("stroke-width", (edge: any) => getEdgeWidth(edge));
+      edgeGroup.selectAll<SVGPathElement, Edge>("path.arc")
+        .attr("opacity", (edge) => (isOverlayEdge(edge) ? Math.max(0.25, arcOpacity * 0.65) : applyUnreliableFade(edge, arcOpacity)))
+        .attr("stroke-width", (edge) => getDisplayedEdgeWidth(edge));
+      setCanvasFocus(null);
     }, 2000);
   });
 
@@ -845,8 +941,727 @@ enhanceNodeSelection.each(function (d) {
       ensureLabelElements(g, d);
     });
 
+  // ---- Label decluttering ----
+  // Labels run at 45°, so two of them clear each other once their anchors are
+  // further apart than the label height times √2. Heavier nodes claim space first.
+  let nodePriority = new Map<string, number>();
+  const computeNodePriority = (edgeData: Edge[]) => {
+    const totals = new Map<string, number>();
+    for (const edge of edgeData) {
+      if (isOverlayEdge(edge)) continue;
+      const weight = Number.isFinite(edge.value) ? edge.value : 0;
+      totals.set(edge.source, (totals.get(edge.source) ?? 0) + weight);
+      totals.set(edge.target, (totals.get(edge.target) ?? 0) + weight);
+    }
+    nodePriority = totals;
+  };
+  computeNodePriority(edges);
+
+  const declutterLabels = () => {
+    const minSpacing = (labelBackgroundHeight + 2 * labelScale) * Math.SQRT2;
+    const candidates: Array<{ id: string; x: number; priority: number; radius: number }> = [];
+    nodeGroup.selectAll<SVGGElement, Node>("g.node").each((d) => {
+      const x = nodeX(d.id);
+      if (x === undefined || x < 0 || x > width) return;
+      const brought = bringState && (bringState.focusId === d.id || bringState.neighbourIds.includes(d.id));
+      const priority = brought || d.id === highlightedNodeId ? Number.POSITIVE_INFINITY : nodePriority.get(d.id) ?? 0;
+      candidates.push({ id: d.id, x, priority, radius: getNodeRadius(d) });
+    });
+    candidates.sort((a, b) =>
+      a.priority === b.priority ? b.radius - a.radius || a.x - b.x : b.priority > a.priority ? 1 : -1,
+    );
+
+    const placed: number[] = [];
+    const visible = new Set<string>();
+    for (const candidate of candidates) {
+      const index = d3.bisectLeft(placed, candidate.x);
+      const fitsLeft = index === 0 || candidate.x - placed[index - 1] >= minSpacing;
+      const fitsRight = index === placed.length || placed[index] - candidate.x >= minSpacing;
+      if (fitsLeft && fitsRight) {
+        placed.splice(index, 0, candidate.x);
+        visible.add(candidate.id);
+      }
+    }
+
+    nodeGroup
+      .selectAll<SVGGElement, Node>("g.node")
+      .select("g.node-label")
+      .style("display", (d: Node) => (visible.has(d.id) ? null : "none"));
+  };
+
+  // ---- Linked highlight ----
+  // A ring behind the highlighted node; the node also wins label decluttering.
+  let highlightedNodeId: string | null = config.highlightedNodeId ?? null;
+  const renderNodeHighlight = () => {
+    nodeGroup.selectAll<SVGGElement, Node>("g.node").each(function (d) {
+      const group = d3.select(this);
+      group.select("circle.kris-node-highlight").remove();
+      if (d.id !== highlightedNodeId) return;
+      group
+        .insert("circle", ":first-child")
+        .attr("class", "kris-node-highlight")
+        .attr("r", getNodeRadius(d) + 4)
+        .attr("fill", "none")
+        .attr("stroke", "#f59e0b")
+        .attr("stroke-width", 3)
+        .style("pointer-events", "none");
+    });
+  };
+
+  // ---- Minimap ----
+  // Overview of the whole baseline with the zoomed viewport; shown only while zoomed in.
+  const minimapWidth = Math.min(240, width * 0.3);
+  const minimapHeight = 48;
+  const minimapInset = 4;
+  const minimap = svg
+    .append("g")
+    .attr("class", "kris-minimap")
+    .attr("transform", `translate(${width - margin.right - minimapWidth}, ${height - minimapHeight - 8})`)
+    .style("cursor", "grab")
+    .style("display", "none");
+  minimap
+    .append("rect")
+    .attr("width", minimapWidth)
+    .attr("height", minimapHeight)
+    .attr("rx", 4)
+    .attr("fill", "rgba(255,255,255,0.92)")
+    .attr("stroke", "#d1d5db");
+  const minimapArcs = minimap.append("g").attr("class", "kris-minimap-arcs");
+  minimap
+    .append("line")
+    .attr("x1", minimapInset)
+    .attr("x2", minimapWidth - minimapInset)
+    .attr("y1", minimapHeight / 2)
+    .attr("y2", minimapHeight / 2)
+    .attr("stroke", "#6b7280")
+    .attr("stroke-width", 1);
+  const minimapViewport = minimap
+    .append("rect")
+    .attr("class", "kris-minimap-viewport")
+    .attr("y", 1)
+    .attr("height", minimapHeight - 2)
+    .attr("fill", "rgba(37,99,235,0.12)")
+    .attr("stroke", "#2563eb")
+    .attr("stroke-width", 1);
+
+  // Unzoomed baseline coordinates map linearly onto the minimap
+  const toMinimapX = (baseX: number) =>
+    minimapInset +
+    ((baseX - margin.left) / Math.max(1, width - margin.left - margin.right)) * (minimapWidth - minimapInset * 2);
+  const fromMinimapX = (mx: number) =>
+    margin.left +
+    ((mx - minimapInset) / Math.max(1, minimapWidth - minimapInset * 2)) * (width - margin.left - margin.right);
+
+  let currentEdges: Edge[] = edges;
+  let currentNodeOrder: string[] = sortedNodes.map((d) => d.id);
+  const renderMinimapArcs = () => {
+    const baseX = (id: string) => {
+      const x = xScale(id);
+      return x === undefined ? undefined : zoomTransform.invertX(x);
+    };
+    const yScaleFactor = (minimapHeight / 2 - minimapInset) / ((minimapWidth - minimapInset * 2) / 2);
+    const data = currentEdges.filter(
+      (e) => !isOverlayEdge(e) && baseX(e.source) !== undefined && baseX(e.target) !== undefined,
+    );
+    minimapArcs
+      .selectAll<SVGPathElement, Edge>("path")
+      .data(data)
+      .join("path")
+      .attr("fill", "none")
+      .attr("stroke", "#9ca3af")
+      .attr("stroke-width", 0.6)
+      .attr("opacity", 0.5)
+      .attr("d", (e) => {
+        const x1 = toMinimapX(baseX(e.source) ?? 0);
+        const x2 = toMinimapX(baseX(e.target) ?? 0);
+        const rx = Math.max(Math.abs(x2 - x1) / 2, 0.5);
+        const ry = rx * yScaleFactor;
+        return `M${x1},${minimapHeight / 2} A${rx},${ry} 0 0,${x1 > x2 ? 1 : 0} ${x2},${minimapHeight / 2}`;
+      });
+  };
+
+  const updateMinimapViewport = () => {
+    const zoomed = zoomTransform.k > 1.001;
+    minimap.style("display", () => (zoomed ? null : "none"));
+    if (!zoomed) return;
+    const left = Math.max(minimapInset, toMinimapX(zoomTransform.invertX(0)));
+    const right = Math.min(minimapWidth - minimapInset, toMinimapX(zoomTransform.invertX(width)));
+    minimapViewport.attr("x", left).attr("width", Math.max(2, right - left));
+  };
+
+  const panMinimapTo = (event: d3.D3DragEvent<SVGGElement, unknown, unknown>) => {
+    svg.call(zoomBehavior.translateTo, fromMinimapX(event.x), height / 2);
+  };
+  minimap.call(
+    d3.drag<SVGGElement, unknown>()
+      .container(function () {
+        return this as SVGGElement;
+      })
+      .on("start", panMinimapTo)
+      .on("drag", panMinimapTo),
+  );
+
+  // Re-draws everything that depends on x positions, without transitions
+  function relayoutForZoom() {
+    nodeGroup
+      .selectAll<SVGGElement, Node>("g.node")
+      .filter((d) => nodeX(d.id) !== undefined)
+      .attr("transform", (d) => `translate(${nodeX(d.id)},${baselineY})`);
+    for (const group of [edgeGroup, edgeOutlineGroup, edgeBandGroup, edgeHatchGroup]) {
+      group
+        .selectAll<SVGPathElement, Edge>("path")
+        .filter((d) => nodeX(d.source) !== undefined && nodeX(d.target) !== undefined)
+        .attr("d", edgePathFor);
+    }
+    drawCanvasArcs();
+    declutterLabels();
+    updateMinimapViewport();
+    renderOffscreenInsets();
+  }
+
+  const lensGroup = svg.insert("g", ".kris-minimap").attr("class", "kris-lenses").style("pointer-events", "none");
+
+  const renderLensOutlines = () => {
+    const lenses = lensGroup
+      .selectAll<SVGRectElement, KriskogramLens>("rect.kris-lens")
+      .data(activeLenses)
+      .join("rect")
+      .attr("class", "kris-lens")
+      .attr("fill", `url(#${lensGradientId})`)
+      .attr("stroke", "#1d4ed8")
+      .attr("stroke-opacity", 0.6)
+      .attr("stroke-dasharray", (d) => (d.effect === "fisheye" ? "4 3" : null));
+    // Circles are rects with full corner rounding, so one join covers every shape
+    lenses.each(function (d) {
+      const shape = d.shape ?? "circle";
+      const halfHeight = shape === "band" ? height / 2 : shape === "rect" ? d.radius / 2 : d.radius;
+      const y = shape === "band" ? 0 : d.y - halfHeight;
+      d3.select(this)
+        .attr("x", d.x - d.radius)
+        .attr("y", y)
+        .attr("width", d.radius * 2)
+        .attr("height", halfHeight * 2)
+        .attr("rx", shape === "circle" ? d.radius : 4);
+    });
+  };
+  renderLensOutlines();
+
+  // Fisheye lenses move nodes, so they need a full relayout; bend lenses only change arcs
+  const applyLenses = () => {
+    const hadFisheye = hasFisheye;
+    refreshLenses();
+    if (hadFisheye || hasFisheye) {
+      relayoutForZoom();
+    } else {
+      for (const group of [edgeGroup, edgeOutlineGroup, edgeBandGroup, edgeHatchGroup]) {
+        group
+          .selectAll<SVGPathElement, Edge>("path")
+          .filter((d) => nodeX(d.source) !== undefined && nodeX(d.target) !== undefined)
+          .attr("d", edgePathFor);
+      }
+      drawCanvasArcs();
+    }
+    renderLensOutlines();
+  };
+
+  // ---- Degree-of-interest insets ----
+  // Off-screen nodes with the most interesting flows into the view get a proxy along the
+  // left or right edge; clicking one pans the view to that node.
+  let offscreenInsets: KriskogramOffscreenInsets = config.offscreenInsets ?? { enabled: false };
+  const insetGroup = svg.append("g").attr("class", "kris-doi-insets");
+  const insetWidth = 116;
+  const insetHeight = 22;
+  const insetGap = 4;
+
+  function renderOffscreenInsets() {
+    const visible = new Set<string>();
+    const offscreen = new Map<string, "left" | "right">();
+    if (offscreenInsets.enabled) {
+      for (const id of currentNodeOrder) {
+        const x = xScale(id);
+        if (x === undefined) continue;
+        if (x < 0) offscreen.set(id, "left");
+        else if (x > width) offscreen.set(id, "right");
+        else visible.add(id);
+      }
+    }
+    const maxPerSide = Math.max(1, offscreenInsets.maxPerSide ?? 5);
+    const ranked = offscreen.size === 0
+      ? []
+      : rankOffscreenNodes(
+          currentEdges.filter((edge) => !isOverlayEdge(edge)),
+          visible,
+          new Set(offscreen.keys()),
+          offscreenInsets.doi ?? DOI_PRESETS[DEFAULT_DOI_PRESET].fn,
+        );
+    const bySide = { left: [] as typeof ranked, right: [] as typeof ranked };
+    for (const entry of ranked) {
+      const side = bySide[offscreen.get(entry.id) ?? "left"];
+      if (side.length < maxPerSide) side.push(entry);
+    }
+    const topScore = ranked[0]?.score ?? 1;
+    const nodesById = new Map(nodeGroup.selectAll<SVGGElement, Node>("g.node").data().map((n) => [n.id, n]));
+    const labelFor = (id: string) => {
+      const node = nodesById.get(id) ?? { id };
+      const label = String(getNodeLabel(node));
+      return label.length > 14 ? `${label.slice(0, 13)}…` : label;
+    };
+
+    const placed = (["left", "right"] as const).flatMap((side) =>
+      bySide[side].map((entry, index) => ({
+        ...entry,
+        side,
+        x: side === "left" ? 4 : width - insetWidth - 4,
+        y: baselineY - (bySide[side].length * (insetHeight + insetGap)) / 2 + index * (insetHeight + insetGap),
+      })),
+    );
+
+    const insets = insetGroup
+      .selectAll<SVGGElement, (typeof placed)[number]>("g.kris-doi-inset")
+      .data(placed, (d) => d.id)
+      .join((enter) => {
+        const g = enter.append("g").attr("class", "kris-doi-inset").style("cursor", "pointer");
+        g.append("title");
+        g.append("rect")
+          .attr("class", "inset-bg")
+          .attr("width", insetWidth)
+          .attr("height", insetHeight)
+          .attr("rx", 4)
+          .attr("fill", "rgba(255,255,255,0.95)")
+          .attr("stroke", "#94a3b8");
+        g.append("rect").attr("class", "inset-bar").attr("x", 1).attr("y", insetHeight - 4).attr("height", 3).attr("fill", "#2563eb");
+        g.append("text").attr("class", "inset-label").attr("y", 14).attr("font-size", 11).attr("fill", "#1f2937");
+        return g;
+      });
+
+    insets.attr("transform", (d) => `translate(${d.x},${d.y})`);
+    insets.select("title").text((d) => `${labelFor(d.id)}: ${d.flows} flow${d.flows === 1 ? "" : "s"} into view`);
+    insets
+      .select("rect.inset-bar")
+      .attr("width", (d) => Math.max(2, (insetWidth - 2) * Math.min(1, d.score / topScore)));
+    insets
+      .select("text.inset-label")
+      .attr("x", (d) => (d.side === "left" ? 6 : insetWidth - 6))
+      .attr("text-anchor", (d) => (d.side === "left" ? "start" : "end"))
+      .text((d) => (d.side === "left" ? `◀ ${labelFor(d.id)}` : `${labelFor(d.id)} ▶`));
+    insets.on("click", (_event, d) => {
+      const x = xScale(d.id);
+      if (x === undefined) return;
+      svg.transition().duration(750).call(zoomBehavior.translateTo, zoomTransform.invertX(x), height / 2);
+    });
+  }
+
+  renderNodeHighlight();
+  declutterLabels();
+  renderMinimapArcs();
+  renderOffscreenInsets();
+
+  // ---- Link sliding ----
+  // Pressing an arc snaps a focus marker onto it; dragging moves the marker along the arc
+  // while the view pans towards the far endpoint. Releasing near that endpoint navigates there.
+  const slideLayer = zoomGroup.append("g").attr("class", "link-slide").style("pointer-events", "none");
+  const slideCompleteFraction = 0.9;
+  let activeSlide: {
+    element: SVGPathElement;
+    datum: Edge;
+    fromEnd: boolean; // true when the slide starts at the path's end (the target)
+    destinationId: string;
+    pointerStartX: number;
+    dragDistance: number;
+    centerStart: number;
+    centerEnd: number;
+    progress: number;
+  } | null = null;
+
+  const arcCursor = () => (linkSlidingEnabled ? "grab" : "pointer");
+
+  const nearestPathLength = (element: SVGPathElement, x: number, y: number) => {
+    const length = element.getTotalLength();
+    const samples = 48;
+    let best = 0;
+    let bestDistance = Number.POSITIVE_INFINITY;
+    for (let i = 0; i <= samples; i += 1) {
+      const at = (length * i) / samples;
+      const point = element.getPointAtLength(at);
+      const distance = (point.x - x) ** 2 + (point.y - y) ** 2;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = at;
+      }
+    }
+    return { at: best, length };
+  };
+
+  const placeSlideMarker = () => {
+    if (!activeSlide) return;
+    const length = activeSlide.element.getTotalLength();
+    const along = activeSlide.fromEnd ? length * (1 - activeSlide.progress) : length * activeSlide.progress;
+    const point = activeSlide.element.getPointAtLength(along);
+    slideLayer
+      .selectAll("circle.link-slide-marker")
+      .data([point])
+      .join("circle")
+      .attr("class", "link-slide-marker")
+      .attr("r", 7)
+      .attr("fill", "#fff")
+      .attr("stroke", "#111827")
+      .attr("stroke-width", 2.5)
+      .attr("cx", point.x)
+      .attr("cy", point.y);
+  };
+
+  const endSlide = () => {
+    if (!activeSlide) return;
+    const { element } = activeSlide;
+    activeSlide = null;
+    slideLayer.selectAll("*").remove();
+    const path = d3.select<SVGPathElement, Edge>(element).style("filter", null).style("cursor", arcCursor());
+    applyEdgeGeometry(path, false);
+  };
+
+  const slideDrag = d3
+    .drag<SVGPathElement, Edge>()
+    .filter((event) => linkSlidingEnabled && !event.button)
+    .container(() => svg.node() as SVGSVGElement)
+    .on("start", function (event, d) {
+      const sourceX = xScale(d.source);
+      const targetX = xScale(d.target);
+      if (sourceX === undefined || targetX === undefined) return;
+      d3.selectAll(".kriskogram-tooltip").remove();
+      const { at, length } = nearestPathLength(this, event.x, event.y);
+      // Paths run from source to target, so the half that was pressed decides the direction
+      const fromEnd = at > length / 2;
+      const startX = fromEnd ? targetX : sourceX;
+      const endX = fromEnd ? sourceX : targetX;
+      const startBase = zoomTransform.invertX(startX);
+      const endBase = zoomTransform.invertX(endX);
+      activeSlide = {
+        element: this,
+        datum: d,
+        fromEnd,
+        destinationId: fromEnd ? d.source : d.target,
+        pointerStartX: event.x,
+        dragDistance: Math.max(40, Math.min(Math.abs(endX - startX), width * 0.6)),
+        centerStart: zoomTransform.invertX(width / 2),
+        centerEnd: endBase,
+        progress: Math.min(1, Math.abs(fromEnd ? length - at : at) / Math.max(1, length)),
+      };
+      // The pressed point becomes the start of the slide
+      activeSlide.pointerStartX -= Math.sign(endBase - startBase) * activeSlide.progress * activeSlide.dragDistance;
+      d3.select(this)
+        .attr("opacity", 1)
+        .style("cursor", "grabbing")
+        .style("filter", "drop-shadow(0 0 2px black)");
+      placeSlideMarker();
+    })
+    .on("drag", (event) => {
+      if (!activeSlide) return;
+      const startX = xScale(activeSlide.fromEnd ? activeSlide.datum.target : activeSlide.datum.source);
+      const endX = xScale(activeSlide.destinationId);
+      if (startX === undefined || endX === undefined) {
+        endSlide();
+        return;
+      }
+      const direction = Math.sign(endX - startX) || 1;
+      activeSlide.progress = Math.max(
+        0,
+        Math.min(1, ((event.x - activeSlide.pointerStartX) * direction) / activeSlide.dragDistance),
+      );
+      const center =
+        activeSlide.centerStart + (activeSlide.centerEnd - activeSlide.centerStart) * activeSlide.progress;
+      svg.call(zoomBehavior.translateTo, center, height / 2);
+      placeSlideMarker();
+    })
+    .on("end", () => {
+      if (!activeSlide) return;
+      const { progress, destinationId } = activeSlide;
+      endSlide();
+      if (progress >= slideCompleteFraction) {
+        config.onLinkSlide?.(destinationId);
+      }
+    });
+
+  edgeSelection.style("cursor", arcCursor()).call(slideDrag);
+
+  // ---- Bring & Go ----
+  // Bring: the clicked node's direct neighbours are pulled next to it, strongest flows closest,
+  // alternating right and left. Go: clicking one of them restores the true order centred on it.
+  const restingArcOpacity = (d: Edge) =>
+    isOverlayEdge(d) ? Math.max(0.25, arcOpacity * 0.65) : applyUnreliableFade(d, arcOpacity);
+
+  const neighbourWeights = (id: string) => {
+    const weights = new Map<string, number>();
+    for (const edge of currentEdges) {
+      if (isOverlayEdge(edge) || edge.source === edge.target) continue;
+      const other = edge.source === id ? edge.target : edge.target === id ? edge.source : null;
+      if (other === null || !currentNodeOrder.includes(other)) continue;
+      weights.set(other, (weights.get(other) ?? 0) + (Number.isFinite(edge.value) ? edge.value : 0));
+    }
+    return weights;
+  };
+
+  // Moves nodes and arcs from their previous x positions to the current xScale, keeping arcs valid mid-flight
+  const tweenLayout = (previousX: Map<string, number>, duration: number) => {
+    const interpolateX = (id: string) => {
+      const to = nodeX(id) ?? 0;
+      return d3.interpolateNumber(previousX.get(id) ?? to, to);
+    };
+    nodeGroup
+      .selectAll<SVGGElement, Node>("g.node")
+      .filter((d) => nodeX(d.id) !== undefined)
+      .transition("layout")
+      .duration(duration)
+      .attrTween("transform", (d) => {
+        const x = interpolateX(d.id);
+        return (t: number) => `translate(${x(t)},${baselineY})`;
+      });
+    for (const group of [edgeGroup, edgeOutlineGroup, edgeBandGroup, edgeHatchGroup]) {
+      group
+        .selectAll<SVGPathElement, Edge>("path")
+        .filter((d) => nodeX(d.source) !== undefined && nodeX(d.target) !== undefined)
+        .transition("layout")
+        .duration(duration)
+        .attrTween("d", (d) => {
+          const x1 = interpolateX(d.source);
+          const x2 = interpolateX(d.target);
+          return (t: number) => arcPath(edgeArc(x1(t), x2(t)));
+        });
+    }
+    animateCanvasArcs(previousX, duration);
+  };
+
+  const transitionToOrder = (order: string[], centreId: string, fitIds: string[], duration = 750) => {
+    const previousX = new Map(currentNodeOrder.map((id) => [id, nodeX(id) ?? 0]));
+    xScale.domain(order);
+    const base = xScale.copy().range([margin.left, width - margin.right]);
+    let k = zoomTransform.k;
+    if (fitIds.length > 1) {
+      const positions = fitIds.map((id) => base(id) ?? 0);
+      const span = Math.max(1, (d3.max(positions) ?? 0) - (d3.min(positions) ?? 0));
+      k = Math.max(1, Math.min(k, ((width - margin.left - margin.right) * 0.9) / span));
+    }
+    const centre = base(centreId) ?? width / 2;
+    // zoom.transform skips the translate extent, so clamp as an interactive pan would
+    const target = zoomBehavior.constrain()(
+      d3.zoomIdentity.translate(width / 2, 0).scale(k).translate(-centre, 0),
+      [[0, 0], [width, height]],
+      zoomBehavior.translateExtent(),
+    );
+    suppressZoomRelayout = true;
+    svg.call(zoomBehavior.transform, target);
+    suppressZoomRelayout = false;
+
+    tweenLayout(previousX, duration);
+    declutterLabels();
+    renderMinimapArcs();
+    updateMinimapViewport();
+    renderOffscreenInsets();
+  };
+
+  const bringNeighbours = (id: string) => {
+    const weights = neighbourWeights(id);
+    const ranked = [...weights.entries()].sort((a, b) => b[1] - a[1]).map(([neighbour]) => neighbour);
+    const trueIndex = new Map(currentNodeOrder.map((nodeId, index) => [nodeId, index]));
+    const focusIndex = trueIndex.get(id) ?? 0;
+    const rest = currentNodeOrder.filter((nodeId) => nodeId !== id && !weights.has(nodeId));
+    const left: string[] = [];
+    const right: string[] = [];
+    ranked.forEach((neighbour, index) => (index % 2 === 0 ? right : left).push(neighbour));
+    const order = [
+      ...rest.filter((nodeId) => (trueIndex.get(nodeId) ?? 0) < focusIndex),
+      ...left.reverse(),
+      id,
+      ...right,
+      ...rest.filter((nodeId) => (trueIndex.get(nodeId) ?? 0) > focusIndex),
+    ];
+    bringState = { focusId: id, neighbourIds: ranked };
+    transitionToOrder(order, id, [id, ...ranked]);
+    const involved = (edge: Edge) => edge.source === id || edge.target === id;
+    edgeGroup
+      .selectAll<SVGPathElement, Edge>("path.arc")
+      .attr("opacity", (edge) => (involved(edge) ? 1 : 0.12));
+    setCanvasFocus({ nodeId: id, dimOpacity: 0.12, widen: false });
+  };
+
+  const releaseBring = (centreId: string, duration = 750) => {
+    bringState = null;
+    transitionToOrder(currentNodeOrder, centreId, [], duration);
+    edgeGroup.selectAll<SVGPathElement, Edge>("path.arc").attr("opacity", restingArcOpacity);
+    setCanvasFocus(null);
+    return duration;
+  };
+
+  function handleBringAndGoClick(id: string) {
+    d3.selectAll(".kriskogram-tooltip").remove();
+    if (bringState?.neighbourIds.includes(id)) {
+      const settle = releaseBring(id);
+      setTimeout(() => config.onBringAndGo?.(id), settle);
+      return;
+    }
+    if (bringState?.focusId === id) {
+      releaseBring(id);
+      return;
+    }
+    bringNeighbours(id);
+  }
+
+  // ---- Canvas arcs ----
+  // Mirrors what the SVG arc layers show: bands under the arcs, hatching over unreliable
+  // ones, the hovered arc widened with a halo, and the arcs of a clicked or brought node
+  // emphasised. Transitions are tweened with a timer from the previous node positions.
+  let canvasHoverEdge: Edge | null = null;
+  let canvasFocus: { nodeId: string; dimOpacity: number; widen: boolean } | null = null;
+  let canvasTransition: {
+    t: number;
+    previousX: Map<string, number | undefined>;
+    entering: Set<string>;
+    exiting: Edge[];
+  } | null = null;
+  let canvasTimer: d3.Timer | null = null;
+
+  function drawCanvasArcs() {
+    if (!arcCanvas) return;
+    const transition = canvasTransition;
+    const xOf = (id: string) => {
+      if (!transition) return nodeX(id);
+      const from = transition.previousX.get(id);
+      const to = nodeX(id);
+      if (from === undefined || to === undefined) return to ?? from;
+      return from + (to - from) * transition.t;
+    };
+    const bands: CanvasArc<Edge>[] = [];
+    const arcs: CanvasArc<Edge>[] = [];
+    const addArc = (d: Edge, fade: number) => {
+      const x1 = xOf(d.source);
+      const x2 = xOf(d.target);
+      if (x1 === undefined || x2 === undefined) return;
+      const geometry = edgeArc(x1, x2);
+      const shape = arcShape(geometry);
+      const color = getEdgeColor(d, geometry.isAbove);
+      if (hasUncertaintyBand(d)) {
+        bands.push({
+          shape,
+          color,
+          width: Math.max(getUpperBoundEdgeWidth(d), getDisplayedEdgeWidth(d) + 1.5),
+          opacity: applyUnreliableFade(d, Math.max(0.12, arcOpacity * 0.3)) * fade,
+        });
+      }
+      let width = activeStroke.width ?? Math.max(getDisplayedEdgeWidth(d), 0.75);
+      let opacity = restingArcOpacity(d);
+      if (canvasFocus) {
+        const involved = d.source === canvasFocus.nodeId || d.target === canvasFocus.nodeId;
+        opacity = involved ? 1 : canvasFocus.dimOpacity;
+        if (involved && canvasFocus.widen) width = getEdgeWidth(d) * 1.5;
+      }
+      const hovered = d === canvasHoverEdge;
+      if (hovered) {
+        opacity = 1;
+        width = getEdgeWidth(d) * 1.5;
+      }
+      arcs.push({
+        shape,
+        color,
+        width,
+        opacity: opacity * fade,
+        dash: getEdgeDash(d)?.split(" ").map(Number) ?? null,
+        dashOffset: activeStroke.dashOffset,
+        lineCap: activeStroke.lineCap,
+        halo: hovered,
+        hatched: activeUncertainty.unreliableStyle === "hatch" && isEdgeUnreliable(d),
+        datum: d,
+      });
+    };
+    for (const d of currentEdges) {
+      addArc(d, transition?.entering.has(edgeKey(d)) ? transition.t : 1);
+    }
+    for (const d of transition?.exiting ?? []) {
+      addArc(d, 1 - (transition?.t ?? 0));
+    }
+    arcCanvas.draw([...bands, ...arcs]);
+  }
+
+  // Tweens the canvas from the previous node positions; arcs new to the data fade in, departed ones fade out
+  function animateCanvasArcs(previousX: Map<string, number | undefined>, duration: number, previousEdges = currentEdges) {
+    if (!arcCanvas) return;
+    canvasTimer?.stop();
+    canvasTimer = null;
+    canvasTransition = null;
+    if (duration <= 0) {
+      drawCanvasArcs();
+      return;
+    }
+    const nextKeys = new Set(currentEdges.map(edgeKey));
+    const previousKeys = new Set(previousEdges.map(edgeKey));
+    const entering = new Set([...nextKeys].filter((key) => !previousKeys.has(key)));
+    const exiting = previousEdges.filter((d) => !nextKeys.has(edgeKey(d)));
+    canvasTransition = { t: 0, previousX, entering, exiting };
+    drawCanvasArcs();
+    const timer = d3.timer((elapsed) => {
+      const progress = Math.min(1, elapsed / duration);
+      if (canvasTransition) canvasTransition.t = d3.easeCubic(progress);
+      if (progress >= 1) {
+        timer.stop();
+        canvasTimer = null;
+        canvasTransition = null;
+      }
+      drawCanvasArcs();
+    });
+    canvasTimer = timer;
+  }
+
+  const setCanvasFocus = (focus: typeof canvasFocus) => {
+    canvasFocus = focus;
+    drawCanvasArcs();
+  };
+
+  const setCanvasHover = (edge: Edge | null) => {
+    if (edge === canvasHoverEdge) return;
+    canvasHoverEdge = edge;
+    drawCanvasArcs();
+    d3.selectAll(".kriskogram-tooltip").remove();
+    if (edge) {
+      showEdgeTooltip(edge, nodeGroup.selectAll<SVGGElement, Node>("g.node").data());
+    }
+  };
+
+  if (arcCanvas) {
+    d3.select(arcCanvas.element)
+      .on("mousemove", (event) => {
+        const [x, y] = d3.pointer(event, svg.node());
+        const hit = arcCanvas.hitTest(x, y);
+        setCanvasHover(hit?.datum ?? null);
+        arcCanvas.element.style.cursor = hit ? arcCursor() : "";
+        const tooltip = d3.select(".kriskogram-tooltip");
+        if (!tooltip.empty()) {
+          tooltip.style("left", `${event.pageX + 10}px`).style("top", `${event.pageY - 10}px`);
+        }
+      })
+      .on("mouseleave", () => setCanvasHover(null))
+      // Canvas arcs cannot be dragged along, so with link sliding a click travels to the far endpoint
+      .on("click", (event) => {
+        if (!linkSlidingEnabled) return;
+        const [x, y] = d3.pointer(event, svg.node());
+        const d = arcCanvas.hitTest(x, y)?.datum;
+        if (!d) return;
+        // The far foot is judged where the arc is drawn, lens offsets included
+        const sourceX = nodeX(d.source);
+        const targetX = nodeX(d.target);
+        if (sourceX === undefined || targetX === undefined) return;
+        const destinationId = Math.abs(x - sourceX) > Math.abs(x - targetX) ? d.source : d.target;
+        const destinationX = destinationId === d.source ? sourceX : targetX;
+        setCanvasHover(null);
+        svg
+          .transition()
+          .duration(750)
+          .call(zoomBehavior.translateTo, zoomTransform.invertX(destinationX), height / 2)
+          .on("end", () => config.onLinkSlide?.(destinationId));
+      });
+    drawCanvasArcs();
+  }
+
   // Add title (not affected by zoom)
   svg.append("text")
+    .attr("class", "kris-title")
     .attr("x", width / 2)
     .attr("y", margin.top / 2)
     .attr("text-anchor", "middle")
@@ -899,51 +1714,38 @@ enhanceNodeSelection.each(function (d) {
   // ---- Legend (fixed, not zoomed) ----
   function renderLegend() {
     svg.selectAll('.kris-legend').remove();
-    if (!config.legend) return;
+    if (!activeLegend) return;
 
-    const legends = Array.isArray(config.legend) ? config.legend : [config.legend];
+    const legends = Array.isArray(activeLegend) ? activeLegend : [activeLegend];
     if (legends.length === 0) return;
 
-    type RenderResult = { width: number; height: number };
-    const itemSpacing = 12;
     const container = svg.append('g').attr('class', 'kris-legend');
-    const x0 = margin.left;
-    const y0 = margin.top + 10;
-    let currentY = y0;
-    let maxWidth = 0;
-    const sizes: RenderResult[] = [];
-
-    legends.forEach((item) => {
-      const itemGroup = container.append('g');
-      const { width, height } = renderLegendItem(itemGroup, item);
-      itemGroup.attr('transform', `translate(${x0}, ${currentY})`);
-      currentY += height + itemSpacing;
-      maxWidth = Math.max(maxWidth, width);
-      sizes.push({ width, height });
+    const itemGroups = legends.map(() => container.append('g'));
+    const sizes = legends.map((item, index) => renderLegendItem(itemGroups[index], item));
+    const layout = layoutLegend(sizes, { x: margin.left, y: margin.top + 10 });
+    layout.items.forEach(({ x, y }, index) => {
+      itemGroups[index].attr('transform', `translate(${x}, ${y})`);
     });
 
-    const totalHeight =
-      sizes.reduce((acc, { height }) => acc + height, 0) + itemSpacing * Math.max(sizes.length - 1, 0);
-
     container
       .insert('rect', ':first-child')
-      .attr('x', x0 - 10)
-      .attr('y', y0 - 10)
-      .attr('width', maxWidth + 20)
-      .attr('height', totalHeight + 20)
+      .attr('x', layout.frame.x)
+      .attr('y', layout.frame.y)
+      .attr('width', layout.frame.width)
+      .attr('height', layout.frame.height)
       .attr('fill', 'white')
       .attr('stroke', '#e5e7eb')
       .attr('rx', 8)
       .attr('ry', 8);
   }
 
-  function renderLegendItem(group: d3.Selection<SVGGElement, unknown, any, any>, legendItem: LegendItem) {
+  function renderLegendItem(group: d3.Selection<SVGGElement, unknown, d3.BaseType, unknown>, legendItem: LegendItem) {
     const padding = 10;
     const content = group.append('g').attr('transform', `translate(${padding}, ${padding})`);
     let width = 0;
     let height = 0;
 
-    const textWidth = (text: string, fontWeight = false) => text.length * (fontWeight ? 6.8 : 6.2);
+    const textWidth = estimateTextWidth;
 
     switch (legendItem.type) {
       case 'direction': {
@@ -1087,6 +1889,16 @@ enhanceNodeSelection.each(function (d) {
           .attr('font-size', 10)
           .text(modeLabel);
         cursorY += 14;
+        if (legendItem.flowMode) {
+          content
+            .append('text')
+            .attr('x', 0)
+            .attr('y', cursorY)
+            .attr('fill', '#4b5563')
+            .attr('font-size', 10)
+            .text(legendItem.flowMode);
+          cursorY += 14;
+        }
         if (legendItem.mode === 'weight') {
           const scaleLabel =
             legendItem.scale === 'sqrt'
@@ -1143,7 +1955,11 @@ enhanceNodeSelection.each(function (d) {
             cursorY += 16;
           });
         }
-        width = Math.max(textWidth('Edge width', true), 68 + maxLabelWidth);
+        width = Math.max(
+          textWidth('Edge width', true),
+          textWidth(legendItem.flowMode ?? ''),
+          68 + maxLabelWidth,
+        );
         height = cursorY;
         break;
       }
@@ -1380,6 +2196,72 @@ enhanceNodeSelection.each(function (d) {
         height = cursorY;
         break;
       }
+      case 'uncertainty': {
+        const color = legendItem.color ?? '#2563eb';
+        const title = 'Estimate uncertainty (90% MOE)';
+        const threshold = legendItem.cvThreshold ?? DEFAULT_CV_THRESHOLD;
+        const rows: Array<{ label: string; draw: (y: number) => void }> = [];
+        const sampleLine = (y: number, strokeWidth: number, opacity: number, stroke = color) =>
+          content
+            .append('line')
+            .attr('x1', 2)
+            .attr('y1', y)
+            .attr('x2', 30)
+            .attr('y2', y)
+            .attr('stroke', stroke)
+            .attr('stroke-width', strokeWidth)
+            .attr('stroke-linecap', 'round')
+            .attr('opacity', opacity);
+        if (legendItem.mode !== 'none') {
+          rows.push({
+            label: legendItem.mode === 'range' ? 'Lower bound → upper bound' : 'Estimate ± MOE',
+            draw: (y) => {
+              sampleLine(y, 12, 0.3);
+              sampleLine(y, legendItem.mode === 'range' ? 3 : 6, 0.9);
+            },
+          });
+        }
+        if (legendItem.unreliableStyle === 'hatch' || legendItem.unreliableStyle === 'fade') {
+          rows.push({
+            label: `CV > ${Math.round(threshold * 100)}% (unreliable)`,
+            draw: (y) => {
+              if (legendItem.unreliableStyle === 'fade') {
+                sampleLine(y, 6, 0.27);
+              } else {
+                sampleLine(y, 6, 0.9);
+                sampleLine(y, 6, 0.85, `url(#${hatchPatternId})`);
+              }
+            },
+          });
+        }
+        let cursorY = 0;
+        content
+          .append('text')
+          .attr('x', 0)
+          .attr('y', cursorY)
+          .attr('fill', '#333')
+          .attr('font-size', 12)
+          .attr('font-weight', 600)
+          .text(title);
+        cursorY += 18;
+        for (const row of rows) {
+          row.draw(cursorY - 4);
+          content
+            .append('text')
+            .attr('x', 38)
+            .attr('y', cursorY)
+            .attr('fill', '#333')
+            .attr('font-size', 11)
+            .text(row.label);
+          cursorY += 18;
+        }
+        width = Math.max(
+          textWidth(title, true),
+          rows.reduce((acc, row) => Math.max(acc, 38 + textWidth(row.label)), 0),
+        );
+        height = cursorY;
+        break;
+      }
     }
 
     return { width: width + padding * 2, height: height + padding * 2 };
@@ -1387,25 +2269,61 @@ enhanceNodeSelection.each(function (d) {
 
   return {
     svg,
-    setLens: (lens: { enabled: boolean; x: number; y: number; radius: number }) => {
-      (config as any).lens = lens;
-      // Recompute paths with new lens
-      edgeGroup.selectAll("path.arc").attr("d", (d: any) => {
-        const x1 = xScale(d.source)!;
-        const x2 = xScale(d.target)!;
-        const isAbove = x1 > x2;
-        const initialGap =
-          typeof d.__segmentInitialGap === 'number'
-            ? d.__segmentInitialGap
-            : typeof d.__initialGap === 'number'
-              ? d.__initialGap
-              : 0;
-        return arcPath(x1, x2, isAbove, initialGap);
-      });
+    renderer,
+    setLens: (lens: KriskogramLens | undefined) => {
+      cursorLens = lens;
+      applyLenses();
     },
-    updateData: (newNodes: Node[], newEdges: Edge[]) => {
+    setLenses: (lenses: KriskogramLens[]) => {
+      pinnedLenses = lenses;
+      applyLenses();
+    },
+    setLinkSliding: (enabled: boolean) => {
+      linkSlidingEnabled = enabled;
+      if (!enabled) {
+        endSlide();
+      }
+      edgeGroup.selectAll("path.arc").style("cursor", arcCursor());
+    },
+    setOffscreenInsets: (options: KriskogramOffscreenInsets) => {
+      offscreenInsets = options;
+      renderOffscreenInsets();
+    },
+    setHighlightedNode: (nodeId: string | null) => {
+      if (nodeId === highlightedNodeId) return;
+      highlightedNodeId = nodeId;
+      renderNodeHighlight();
+      declutterLabels();
+    },
+    setBringAndGo: (enabled: boolean) => {
+      bringAndGoEnabled = enabled;
+      if (!enabled && bringState) {
+        releaseBring(bringState.focusId);
+      }
+    },
+    updateData: (newNodes: Node[], newEdges: Edge[], options: KriskogramUpdateOptions = {}) => {
       // Remove any existing tooltips before updating
       d3.selectAll(".kriskogram-tooltip").remove();
+
+      if (options.accessors) {
+        activeAccessors = options.accessors;
+      }
+      if (options.legend !== undefined) {
+        activeLegend = options.legend;
+      }
+      if (options.uncertainty) {
+        activeUncertainty = options.uncertainty;
+      }
+      if (options.overlay !== undefined) {
+        activeOverlay = options.overlay;
+      }
+      if (options.edgeStyle) {
+        activeStroke = resolveEdgeStroke(options.edgeStyle);
+      }
+      const duration = Math.max(0, options.duration ?? 750);
+      const previousX = new Map(currentNodeOrder.map((id) => [id, nodeX(id)]));
+      // New data is laid out in its true order
+      bringState = null;
       
       // Update function for animation
       const newSortedNodes = [...newNodes].sort((a, b) =>
@@ -1414,20 +2332,55 @@ enhanceNodeSelection.each(function (d) {
       
       // Update x scale
       xScale.domain(newSortedNodes.map((d) => d.id));
+
+      // A node entering or leaving moves from or to the nodes it shares members with,
+      // so a collapsed group gathers its members and an expanded one releases them
+      const groupMembers = new Map((options.groups ?? []).map((group) => [group.id, new Set(group.members)]));
+      const membersOf = (id: string) => groupMembers.get(id) ?? new Set([id]);
+      const relatedX = (id: string, positions: Map<string, number | undefined>) => {
+        const members = membersOf(id);
+        const xs: number[] = [];
+        for (const [otherId, x] of positions) {
+          if (x === undefined || otherId === id) continue;
+          const otherMembers = membersOf(otherId);
+          if ([...members].some((member) => otherMembers.has(member))) xs.push(x);
+        }
+        return xs.length > 0 ? d3.mean(xs) : undefined;
+      };
+      const nextX = new Map(newSortedNodes.map((d) => [d.id, nodeX(d.id)]));
       
       // Update nodes
       const nodeUpdate = nodeGroup
-        .selectAll("g.node")
-        .data(newSortedNodes, (d: any) => d.id);
+        .selectAll<SVGGElement, Node>("g.node")
+        .data(newSortedNodes, (d) => d.id);
       
       // Remove old nodes
-      nodeUpdate.exit().remove();
+      nodeUpdate.exit<Node>()
+        .transition()
+        .duration(duration)
+        .style("opacity", 0)
+        .attr("transform", function (d) {
+          const x = options.groups ? relatedX(d.id, nextX) : undefined;
+          return x === undefined ? d3.select(this).attr("transform") : `translate(${x},${baselineY})`;
+        })
+        .remove();
       
       // Add new nodes
       const nodeEnter = nodeUpdate.enter()
         .append("g")
         .attr("class", "node")
-        .style("cursor", "pointer");
+        .style("cursor", "pointer")
+        .on("click", (_event, d) => {
+          if (bringAndGoEnabled) {
+            handleBringAndGoClick(d.id);
+          }
+        })
+        .on("mouseover.hover", (_event, d) => config.onNodeHover?.(d.id))
+        .on("mouseout.hover", () => config.onNodeHover?.(null))
+        .attr("transform", (d) => {
+          const x = options.groups ? relatedX(d.id, previousX) : undefined;
+          return x === undefined ? null : `translate(${x},${baselineY})`;
+        });
 
       nodeEnter.append("circle")
         .attr("r", 0)
@@ -1442,20 +2395,20 @@ enhanceNodeSelection.each(function (d) {
       });
       
       // Update existing nodes
-      const nodeMerge = nodeEnter.merge(nodeUpdate as any);
+      const nodeMerge = nodeEnter.merge(nodeUpdate);
       
       nodeMerge.each(function (d) {
-        const g = d3.select(this as SVGGElement);
+        const g = d3.select(this);
         ensureLabelElements(g, d);
       });
 
       nodeMerge.transition()
-        .duration(750)
-        .attr("transform", (d) => `translate(${xScale(d.id)},${baselineY})`);
+        .duration(duration)
+        .attr("transform", (d) => `translate(${nodeX(d.id)},${baselineY})`);
       
       nodeMerge.select("circle")
         .transition()
-        .duration(750)
+        .duration(duration)
         .attr("r", (d) => getNodeRadius(d))
         .attr("fill", (d) => getNodeColor(d))
         .attr("stroke", (d) => resolveNodeStroke(d).color)
@@ -1464,68 +2417,57 @@ enhanceNodeSelection.each(function (d) {
       
       // Update edge outlines first so they stay in sync with primary paths
       const outlineUpdate = edgeOutlineGroup
-        .selectAll<SVGPathElement, any>("path.arc-outline")
-        .data(newEdges, (d: any) => `${d.source}-${d.target}-${(d && d.__displayYear) ?? 'current'}`);
+        .selectAll<SVGPathElement, Edge>("path.arc-outline")
+        .data(svgArcData(newEdges), edgeKey);
 
-      outlineUpdate.exit().remove();
+      outlineUpdate.exit()
+        .transition()
+        .duration(duration)
+        .attr("opacity", 0)
+        .remove();
 
       const outlineEnter = outlineUpdate.enter()
         .append("path")
         .attr("class", "arc-outline")
         .attr("fill", "none");
 
-      const outlineMerge = outlineEnter.merge(outlineUpdate as any);
+      const outlineMerge = outlineEnter.merge(outlineUpdate);
       outlineMerge.style("pointer-events", "none");
 
-      applyEdgeGeometry(outlineMerge as any, true);
-      applySegmentAnimation(outlineMerge as any);
+      applyEdgeGeometry(outlineMerge, true);
+      applySegmentAnimation(outlineMerge);
 
       // Update edges
       const edgeUpdate = edgeGroup
-        .selectAll("path.arc")
-        .data(newEdges, (d: any) => `${d.source}-${d.target}-${(d && d.__displayYear) ?? 'current'}`);
+        .selectAll<SVGPathElement, Edge>("path.arc")
+        .data(svgArcData(newEdges), edgeKey);
       
-      edgeUpdate.exit().remove();
+      edgeUpdate.exit()
+        .transition()
+        .duration(duration)
+        .attr("opacity", 0)
+        .remove();
       
       const edgeEnter = edgeUpdate.enter()
         .append("path")
         .attr("class", "arc")
         .attr("fill", "none")
         .attr("opacity", 0)
-        .attr("d", (d) => {
-          const x1 = xScale(d.source)!;
-          const x2 = xScale(d.target)!;
-          const isAbove = x1 > x2;
-          (d as any).__isAbove = isAbove;
-          if (((d as any).__overlayStyle ?? 'filled') === 'segmented') {
-            const currentDirection = (d as any).__segmentDirection;
-            if (typeof currentDirection !== 'number' || currentDirection === 0) {
-              (d as any).__segmentDirection = 1;
-            }
-          }
-          const initialGap =
-            typeof (d as any).__segmentInitialGap === 'number'
-              ? (d as any).__segmentInitialGap
-              : typeof (d as any).__initialGap === 'number'
-                ? (d as any).__initialGap
-                : 0;
-          return arcPath(x1, x2, isAbove, initialGap);
-        })
+        .attr("d", edgePathFor)
         .attr("stroke", (d) => {
-          const x1 = xScale(d.source)!;
-          const x2 = xScale(d.target)!;
+          const x1 = nodeX(d.source) ?? 0;
+          const x2 = nodeX(d.target) ?? 0;
           const isAbove = x1 > x2;
           return getEdgeColor(d, isAbove);
         })
-        .attr("stroke-width", (d) => getEdgeWidth(d))
-        .attr("stroke-linecap", (d: any) => ((d as any)?.__overlayLineCap) ?? "round")
-        .attr("stroke-dasharray", (d: any) => {
-          const dash = (d as any)?.__overlayDash;
-          return dash ? dash : null;
-        })
-        .attr("stroke-dashoffset", (d: any) => (d as any)?.__overlayDashOffset ?? 0)
-        .style("cursor", "pointer")
+        .attr("stroke-width", (d) => getDisplayedEdgeWidth(d))
+        .attr("stroke-linecap", activeStroke.lineCap)
+        .attr("stroke-dasharray", (d: Edge) => getEdgeDash(d))
+        .attr("stroke-dashoffset", activeStroke.dashOffset)
+        .style("cursor", arcCursor())
+        .call(slideDrag)
         .on("mouseover", function(_event, d) {
+          if (activeSlide) return;
           const currentStroke = d3.select(this).attr("stroke");
           
           // Highlight edge on hover with black outline
@@ -1535,47 +2477,7 @@ enhanceNodeSelection.each(function (d) {
             .style("filter", "drop-shadow(0 0 2px black)")
             .attr("data-original-stroke", currentStroke);
           
-          // Find source and target nodes
-          const sourceNode = newSortedNodes.find(n => n.id === d.source);
-          const targetNode = newSortedNodes.find(n => n.id === d.target);
-          
-          // Check if same region/division
-          const sameRegion = sourceNode?.region && targetNode?.region && sourceNode.region === targetNode.region;
-          const sameDivision = sourceNode?.division && targetNode?.division && sourceNode.division === targetNode.division;
-          
-          // Remove any existing tooltips first
-          d3.selectAll(".kriskogram-tooltip").remove();
-          
-          // Show tooltip
-          const tooltip = d3.select("body")
-            .append("div")
-            .attr("class", "kriskogram-tooltip")
-            .style("position", "absolute")
-            .style("background", "rgba(0, 0, 0, 0.9)")
-            .style("color", "white")
-            .style("padding", "10px")
-            .style("border-radius", "6px")
-            .style("font-size", "12px")
-            .style("pointer-events", "none")
-            .style("z-index", "1000")
-            .style("box-shadow", "0 4px 6px rgba(0,0,0,0.3)");
-          
-          const displayYear = (d as any)?.__displayYear;
-          const temporalDelta = (d as any)?.__temporalDelta ?? 0;
-          const temporalLabel = temporalDelta === 0 ? 'Current year' : temporalDelta < 0 ? 'Past overlay' : 'Future overlay';
-
-          tooltip.html(`
-            <strong>${sourceNode?.label || d.source} → ${targetNode?.label || d.target}</strong><br/>
-            ${displayYear ? `<strong>Year:</strong> ${displayYear} (${temporalLabel})<br/>` : ''}
-            <strong>Migrants:</strong> ${d.value.toLocaleString()} people<br/>
-            ${d.moe ? `<strong>MOE:</strong> ±${d.moe.toLocaleString()}<br/>` : ''}
-            ${sourceNode?.region ? `<strong>From Region:</strong> ${sourceNode.region}<br/>` : ''}
-            ${targetNode?.region ? `<strong>To Region:</strong> ${targetNode.region}<br/>` : ''}
-            ${sourceNode?.division ? `<strong>From Division:</strong> ${sourceNode.division}<br/>` : ''}
-            ${targetNode?.division ? `<strong>To Division:</strong> ${targetNode.division}<br/>` : ''}
-            <strong>Same Region:</strong> ${sameRegion ? '✓ Yes' : '✗ No'}<br/>
-            <strong>Same Division:</strong> ${sameDivision ? '✓ Yes' : '✗ No'}
-          `);
+          showEdgeTooltip(d, newSortedNodes);
         })
         .on("mousemove", function(event) {
           // Select the first tooltip (should only be one) and update position
@@ -1587,56 +2489,50 @@ enhanceNodeSelection.each(function (d) {
           }
         })
         .on("mouseout", function() {
-          d3.select(this)
-            .attr("opacity", (d: any) => (d && d.__isOverlay ? Math.max(0.25, arcOpacity * 0.65) : arcOpacity))
-            .attr("stroke-width", (d: any) => getEdgeWidth(d))
+          d3.select<SVGPathElement, Edge>(this)
+            .attr("opacity", (d) => (isOverlayEdge(d) ? Math.max(0.25, arcOpacity * 0.65) : applyUnreliableFade(d, arcOpacity)))
+            .attr("stroke-width", (d) => getDisplayedEdgeWidth(d))
             .style("filter", null);
           
           // Remove all tooltips
           d3.selectAll(".kriskogram-tooltip").remove();
         });
       
-      const edgeMerge = edgeEnter.merge(edgeUpdate as any);
+      const edgeMerge = edgeEnter.merge(edgeUpdate);
       
       edgeMerge.transition()
-        .duration(750)
-        .attr("d", (d) => {
-          const x1 = xScale(d.source)!;
-          const x2 = xScale(d.target)!;
-          const isAbove = x1 > x2;
-          (d as any).__isAbove = isAbove;
-          if (((d as any).__overlayStyle ?? 'filled') === 'segmented') {
-            const currentDirection = (d as any).__segmentDirection;
-            if (typeof currentDirection !== 'number' || currentDirection === 0) {
-              (d as any).__segmentDirection = 1;
-            }
-          }
-          const initialGap =
-            typeof (d as any).__segmentInitialGap === 'number'
-              ? (d as any).__segmentInitialGap
-              : typeof (d as any).__initialGap === 'number'
-                ? (d as any).__initialGap
-                : 0;
-          return arcPath(x1, x2, isAbove, initialGap);
-        })
+        .duration(duration)
+        .attr("d", edgePathFor)
         .attr("stroke", (d) => {
-          const x1 = xScale(d.source)!;
-          const x2 = xScale(d.target)!;
+          const x1 = nodeX(d.source) ?? 0;
+          const x2 = nodeX(d.target) ?? 0;
           const isAbove = x1 > x2;
           return getEdgeColor(d, isAbove);
         })
-        .attr("stroke-width", (d) => getEdgeWidth(d))
-        .attr("stroke-linecap", (d: any) => ((d as any)?.__overlayLineCap) ?? "round")
-        .attr("stroke-dasharray", (d: any) => {
-          const dash = (d as any)?.__overlayDash;
-          return dash ? dash : null;
-        })
-        .attr("stroke-dashoffset", (d: any) => (d as any)?.__overlayDashOffset ?? 0)
-        .attr("opacity", (d: any) => (d && d.__isOverlay ? Math.max(0.25, arcOpacity * 0.65) : arcOpacity))
+        .attr("stroke-width", (d) => getDisplayedEdgeWidth(d))
+        .attr("stroke-linecap", activeStroke.lineCap)
+        .attr("stroke-dasharray", (d: Edge) => getEdgeDash(d))
+        .attr("stroke-dashoffset", activeStroke.dashOffset)
+        .attr("opacity", (d: Edge) => (isOverlayEdge(d) ? Math.max(0.25, arcOpacity * 0.65) : applyUnreliableFade(d, arcOpacity)))
         .on("end", function(this: SVGPathElement) {
-          applySegmentAnimation(d3.select<SVGPathElement, any>(this));
+          applySegmentAnimation(d3.select<SVGPathElement, Edge>(this));
         });
 
+      renderUncertaintyLayers(svgArcData(newEdges), duration);
+
+      computeNodePriority(newEdges);
+      declutterLabels();
+      renderNodeHighlight();
+      const previousEdges = currentEdges;
+      currentEdges = newEdges;
+      canvasHoverEdge = null;
+      canvasFocus = null;
+      animateCanvasArcs(previousX, duration, previousEdges);
+      currentNodeOrder = newSortedNodes.map((d) => d.id);
+      renderMinimapArcs();
+      updateMinimapViewport();
+      renderOffscreenInsets();
+
       // Re-render legend when data/props change
       renderLegend();
     }
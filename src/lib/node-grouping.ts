@@ -0,0 +1,211 @@
+/**
+ * Collapsible node groups
+ *
+ * Nodes can be grouped by a categorical attribute, or by a hierarchy of them such as
+ * state → division → region. A collapsed group becomes one super-node on the baseline
+ * and its flows are summed; flows within the group become the super-node's self-flow.
+ * Collapsed and expanded groups can sit side by side, and when groups at several
+ * levels are collapsed the coarsest one wins.
+ */
+
+import type { CommonEdge, CommonNode } from './data-adapters'
+import { getNodeCoordinates } from './geo-order'
+import { getFlowMoe } from './uncertainty'
+
+/** Coarse-to-fine levels of the census hierarchy above states. */
+export const REGION_HIERARCHY = ['region', 'division']
+
+export const NODE_GROUP_PREFIX = 'group:'
+
+export interface NodeGroup {
+  /** `attribute:value`, the form stored in the URL. */
+  key: string
+  /** Id of the super-node on the baseline. */
+  id: string
+  attribute: string
+  value: string
+  members: string[]
+}
+
+export interface NodeGroupTreeEntry {
+  key: string
+  attribute: string
+  value: string
+  members: string[]
+  children: NodeGroupTreeEntry[]
+}
+
+export interface NodeGroupingOptions {
+  /** Grouping attributes from coarsest to finest. */
+  levels: string[]
+  /** Keys of the collapsed groups. */
+  collapsed: string[]
+  /** Edge attributes whose values keep flows apart when summing, e.g. a flow type. */
+  separateBy?: string[]
+}
+
+export function nodeGroupKey(attribute: string, value: unknown): string {
+  return `${attribute}:${String(value)}`
+}
+
+export function nodeGroupId(key: string): string {
+  return `${NODE_GROUP_PREFIX}${key}`
+}
+
+export function isGroupNodeId(id: string): boolean {
+  return id.startsWith(NODE_GROUP_PREFIX)
+}
+
+const groupValue = (node: CommonNode, attribute: string): string | null => {
+  const value = node[attribute]
+  return value === undefined || value === null || value === '' ? null : String(value)
+}
+
+/** Levels for a grouping choice: the census hierarchy, or one categorical attribute. */
+export function nodeGroupingLevels(groupBy: string | null, availableAttributes: string[]): string[] {
+  if (!groupBy) return []
+  if (groupBy === 'hierarchy') return REGION_HIERARCHY.filter((level) => availableAttributes.includes(level))
+  return [groupBy]
+}
+
+/** Group tree for the settings panel, built from every node seen in any snapshot. */
+export function buildNodeGroupTree(nodes: CommonNode[], levels: string[]): NodeGroupTreeEntry[] {
+  const membersByKey = new Map<string, Set<string>>()
+  const roots: NodeGroupTreeEntry[] = []
+  const entries = new Map<string, NodeGroupTreeEntry>()
+  for (const node of nodes) {
+    let siblings = roots
+    for (const attribute of levels) {
+      const value = groupValue(node, attribute)
+      if (value === null) break
+      const key = nodeGroupKey(attribute, value)
+      let entry = entries.get(key)
+      if (!entry) {
+        entry = { key, attribute, value, members: [], children: [] }
+        entries.set(key, entry)
+        membersByKey.set(key, new Set())
+        siblings.push(entry)
+      }
+      membersByKey.get(key)?.add(node.id)
+      siblings = entry.children
+    }
+  }
+  for (const [key, entry] of entries) {
+    entry.members = Array.from(membersByKey.get(key) ?? [])
+  }
+  const sortEntries = (list: NodeGroupTreeEntry[]) => {
+    list.sort((a, b) => a.value.localeCompare(b.value))
+    for (const entry of list) sortEntries(entry.children)
+  }
+  sortEntries(roots)
+  return roots
+}
+
+/** Builds a super-node: attributes every member shares carry over, coordinates are averaged. */
+function buildSuperNode(group: NodeGroup, members: CommonNode[]): CommonNode {
+  const node: CommonNode = {
+    id: group.id,
+    label: group.value,
+    group_level: group.attribute,
+    group_size: members.length,
+  }
+  const [first, ...rest] = members
+  for (const [key, value] of Object.entries(first)) {
+    if (key === 'id' || key === 'label' || value === undefined || value === null) continue
+    if (rest.every((member) => member[key] === value)) node[key] = value
+  }
+  const points = members.map(getNodeCoordinates).filter((point) => point !== null)
+  if (points.length > 0) {
+    node.latitude = points.reduce((sum, point) => sum + point.latitude, 0) / points.length
+    node.longitude = points.reduce((sum, point) => sum + point.longitude, 0) / points.length
+  }
+  node[group.attribute] = group.value
+  return node
+}
+
+/**
+ * Collapses the chosen groups. Flows touching a collapsed group are re-pointed at its
+ * super-node and flows sharing endpoints are summed, with MOEs combined as
+ * √Σmoe²; flows inside a group become a self-flow. Nodes outside collapsed groups,
+ * and flows between them, are returned unchanged.
+ */
+export function collapseNodeGroups<N extends CommonNode, E extends CommonEdge>(
+  nodes: N[],
+  edges: E[],
+  options: NodeGroupingOptions,
+): { nodes: N[]; edges: E[]; groups: NodeGroup[] } {
+  const collapsed = new Set(options.collapsed)
+  if (options.levels.length === 0 || collapsed.size === 0) return { nodes, edges, groups: [] }
+
+  const groups = new Map<string, NodeGroup>()
+  const groupOf = new Map<string, NodeGroup>()
+  const result: N[] = []
+  const membersByGroup = new Map<string, N[]>()
+  for (const node of nodes) {
+    const key = options.levels
+      .map((attribute) => {
+        const value = groupValue(node, attribute)
+        return value === null ? null : nodeGroupKey(attribute, value)
+      })
+      .find((candidate) => candidate !== null && collapsed.has(candidate))
+    if (!key) {
+      result.push(node)
+      continue
+    }
+    let group = groups.get(key)
+    if (!group) {
+      const separator = key.indexOf(':')
+      group = { key, id: nodeGroupId(key), attribute: key.slice(0, separator), value: key.slice(separator + 1), members: [] }
+      groups.set(key, group)
+      membersByGroup.set(key, [])
+    }
+    group.members.push(node.id)
+    membersByGroup.get(key)?.push(node)
+    groupOf.set(node.id, group)
+  }
+  for (const [key, group] of groups) {
+    result.push(buildSuperNode(group, membersByGroup.get(key) ?? []) as N)
+  }
+
+  const separateBy = options.separateBy ?? []
+  const combined = new Map<string, { edge: E; value: number; moeSquares: number; hasMoe: boolean; count: number }>()
+  const resultEdges: E[] = []
+  for (const edge of edges) {
+    const sourceGroup = groupOf.get(edge.source)
+    const targetGroup = groupOf.get(edge.target)
+    if (!sourceGroup && !targetGroup) {
+      resultEdges.push(edge)
+      continue
+    }
+    const source = sourceGroup?.id ?? edge.source
+    const target = targetGroup?.id ?? edge.target
+    const key = [source, target, ...separateBy.map((attribute) => String(edge[attribute] ?? ''))].join('\u0000')
+    const value = Number.isFinite(edge.value) ? edge.value : 0
+    const moe = getFlowMoe(edge)
+    let entry = combined.get(key)
+    if (!entry) {
+      entry = { edge: { ...edge, source, target }, value: 0, moeSquares: 0, hasMoe: false, count: 0 }
+      combined.set(key, entry)
+    }
+    entry.value += value
+    entry.count += 1
+    if (moe !== null) {
+      entry.moeSquares += moe * moe
+      entry.hasMoe = true
+    }
+  }
+  for (const { edge, value, moeSquares, hasMoe, count } of combined.values()) {
+    const { moe: _memberMoe, ...rest } = edge
+    const summed: CommonEdge = {
+      ...rest,
+      source: edge.source,
+      target: edge.target,
+      value,
+      member_flows: count,
+      ...(hasMoe ? { moe: Math.sqrt(moeSquares) } : {}),
+    }
+    resultEdges.push(summed as E)
+  }
+
+  return { nodes: result, edges: resultEdges, groups: Array.from(groups.values()) }
+}
@@ -0,0 +1,336 @@
+/**
+ * Baseline orders computed from the flows themselves
+ *
+ * Arcs on the same side of the baseline cross when their spans interleave, so the
+ * order of nodes decides how tangled a Kriskogram looks. Crossings are weighted by the
+ * product of the two flows, since dense migration tables cross about equally often in
+ * any order and it is the heavy arcs that matter. These orderings either minimise
+ * weighted crossings directly (barycentric sweeps, simulated annealing), pull strongly
+ * connected nodes together (spectral seriation) or put the busiest nodes in the middle.
+ * They can be expensive for 50+ nodes, so the Explorer runs them in a Web Worker.
+ */
+
+export interface OrderingEdge {
+  source: string;
+  target: string;
+  value: number;
+}
+
+export type OptimisedOrderMode = 'crossing-barycentric' | 'crossing-annealing' | 'cluster-spectral' | 'hub-centred';
+
+export const OPTIMISED_ORDER_MODES: Array<{ mode: OptimisedOrderMode; label: string }> = [
+  { mode: 'crossing-barycentric', label: 'Fewest crossings (barycentric)' },
+  { mode: 'crossing-annealing', label: 'Fewest crossings (annealing)' },
+  { mode: 'cluster-spectral', label: 'Flow clusters (spectral)' },
+  { mode: 'hub-centred', label: 'Hub-centred' },
+];
+
+export function isOptimisedOrderMode(mode: string): mode is OptimisedOrderMode {
+  return OPTIMISED_ORDER_MODES.some((entry) => entry.mode === mode);
+}
+
+export interface CrossingStats {
+  count: number;
+  /** Sum of flow products over crossing pairs. */
+  weighted: number;
+}
+
+export interface NodeOrderingResult extends CrossingStats {
+  mode: OptimisedOrderMode;
+  order: string[];
+}
+
+/**
+ * Counts arc crossings for a baseline order. Arcs running left to right and right to
+ * left sit on opposite sides, and arcs sharing an endpoint do not cross.
+ */
+export function crossingStats(order: string[], edges: OrderingEdge[]): CrossingStats {
+  const index = new Map(order.map((id, position) => [id, position]));
+  const sides: Array<Array<{ left: number; right: number; weight: number }>> = [[], []];
+  for (const edge of edges) {
+    const from = index.get(edge.source);
+    const to = index.get(edge.target);
+    if (from === undefined || to === undefined || from === to) continue;
+    const weight = Number.isFinite(edge.value) ? Math.abs(edge.value) : 0;
+    sides[from < to ? 0 : 1].push({ left: Math.min(from, to), right: Math.max(from, to), weight });
+  }
+
+  // Sweep spans by left end; an earlier span crosses the current one when its right end
+  // falls strictly inside it. Fenwick trees over right ends answer that in log time.
+  let count = 0;
+  let weighted = 0;
+  for (const spans of sides) {
+    spans.sort((a, b) => a.left - b.left || a.right - b.right);
+    const counts = new Float64Array(order.length + 1);
+    const weights = new Float64Array(order.length + 1);
+    const add = (position: number, weight: number) => {
+      for (let i = position + 1; i < counts.length; i += i & -i) {
+        counts[i] += 1;
+        weights[i] += weight;
+      }
+    };
+    const sumUpTo = (tree: Float64Array, position: number) => {
+      let sum = 0;
+      for (let i = Math.min(position + 1, tree.length - 1); i > 0; i -= i & -i) sum += tree[i];
+      return sum;
+    };
+    let start = 0;
+    while (start < spans.length) {
+      let end = start;
+      while (end < spans.length && spans[end].left === spans[start].left) end += 1;
+      for (let i = start; i < end; i += 1) {
+        const { left, right, weight } = spans[i];
+        count += sumUpTo(counts, right - 1) - sumUpTo(counts, left);
+        weighted += weight * (sumUpTo(weights, right - 1) - sumUpTo(weights, left));
+      }
+      for (let i = start; i < end; i += 1) add(spans[i].right, spans[i].weight);
+      start = end;
+    }
+  }
+  return { count, weighted };
+}
+
+export function countCrossings(order: string[], edges: OrderingEdge[]): number {
+  return crossingStats(order, edges).count;
+}
+
+const weightedCrossings = (order: string[], edges: OrderingEdge[]) => crossingStats(order, edges).weighted;
+
+/** Symmetric flow weights between distinct nodes, normalised so the strongest pair is 1. */
+function buildWeights(nodeIds: string[], edges: OrderingEdge[]): Array<Map<number, number>> {
+  const index = new Map(nodeIds.map((id, position) => [id, position]));
+  const weights = nodeIds.map(() => new Map<number, number>());
+  let max = 0;
+  for (const edge of edges) {
+    const a = index.get(edge.source);
+    const b = index.get(edge.target);
+    if (a === undefined || b === undefined || a === b) continue;
+    const value = Number.isFinite(edge.value) ? Math.abs(edge.value) : 0;
+    const next = (weights[a].get(b) ?? 0) + value;
+    weights[a].set(b, next);
+    weights[b].set(a, next);
+    max = Math.max(max, next);
+  }
+  if (max > 0) {
+    for (const row of weights) {
+      for (const [other, value] of row) row.set(other, value / max);
+    }
+  }
+  return weights;
+}
+
+/** Stable sort of node ids by a numeric key, falling back to the incoming order. */
+function sortByKey(nodeIds: string[], key: (position: number) => number): string[] {
+  return nodeIds
+    .map((id, position) => ({ id, position, key: key(position) }))
+    .sort((a, b) => a.key - b.key || a.position - b.position)
+    .map((entry) => entry.id);
+}
+
+/**
+ * Repeatedly moves every node to the weighted mean position of its neighbours and
+ * keeps whichever order had the fewest weighted crossings, including the starting one.
+ */
+export function barycentricOrder(nodeIds: string[], edges: OrderingEdge[], iterations = 30): string[] {
+  let best = [...nodeIds];
+  let bestCrossings = weightedCrossings(best, edges);
+  let current = best;
+  for (let iteration = 0; iteration < iterations; iteration += 1) {
+    const weights = buildWeights(current, edges);
+    const next = sortByKey(current, (position) => {
+      let sum = position;
+      let total = 1;
+      for (const [other, weight] of weights[position]) {
+        sum += weight * other;
+        total += weight;
+      }
+      return sum / total;
+    });
+    if (next.every((id, position) => id === current[position])) break;
+    current = next;
+    const crossings = weightedCrossings(current, edges);
+    if (crossings < bestCrossings) {
+      best = current;
+      bestCrossings = crossings;
+    }
+  }
+  return best;
+}
+
+/** Small seeded PRNG so annealing gives the same order for the same data. */
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Simulated annealing over single-node moves, starting from the barycentric order.
+ * Worse orders are accepted with a probability that shrinks as the temperature cools.
+ */
+export function annealedOrder(
+  nodeIds: string[],
+  edges: OrderingEdge[],
+  options: { iterations?: number; seed?: number } = {},
+): string[] {
+  const random = mulberry32(options.seed ?? 1);
+  const iterations = options.iterations ?? Math.min(4000, 60 * nodeIds.length);
+  let current = barycentricOrder(nodeIds, edges);
+  let currentCrossings = weightedCrossings(current, edges);
+  let best = current;
+  let bestCrossings = currentCrossings;
+  if (nodeIds.length < 3 || currentCrossings === 0) return best;
+
+  const startTemperature = currentCrossings * 0.05;
+  const endTemperature = startTemperature * 1e-4;
+  for (let step = 0; step < iterations && bestCrossings > 0; step += 1) {
+    const temperature = startTemperature * (endTemperature / startTemperature) ** (step / iterations);
+    const from = Math.floor(random() * current.length);
+    const to = Math.floor(random() * current.length);
+    if (from === to) continue;
+    const candidate = [...current];
+    const [moved] = candidate.splice(from, 1);
+    candidate.splice(to, 0, moved);
+    const crossings = weightedCrossings(candidate, edges);
+    const delta = crossings - currentCrossings;
+    if (delta <= 0 || random() < Math.exp(-delta / temperature)) {
+      current = candidate;
+      currentCrossings = crossings;
+      if (crossings < bestCrossings) {
+        best = candidate;
+        bestCrossings = crossings;
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Orders nodes by the Fiedler vector of the flow graph's Laplacian, which places nodes
+ * that exchange a lot of flow next to each other. Found by power iteration on
+ * cI - L with the constant eigenvector projected out.
+ */
+export function spectralOrder(nodeIds: string[], edges: OrderingEdge[], iterations = 300): string[] {
+  const n = nodeIds.length;
+  if (n < 3) return [...nodeIds];
+  const weights = buildWeights(nodeIds, edges);
+  const degree = weights.map((row) => Array.from(row.values()).reduce((acc, value) => acc + value, 0));
+  const shift = 2 * Math.max(1e-9, ...degree);
+
+  const random = mulberry32(7);
+  let vector = nodeIds.map(() => random() - 0.5);
+  const normalise = (values: number[]) => {
+    const mean = values.reduce((acc, value) => acc + value, 0) / n;
+    const centred = values.map((value) => value - mean);
+    const length = Math.hypot(...centred) || 1;
+    return centred.map((value) => value / length);
+  };
+  vector = normalise(vector);
+  for (let iteration = 0; iteration < iterations; iteration += 1) {
+    // (cI - L)v = (c - d_i) v_i + sum_j w_ij v_j
+    const next = vector.map((value, i) => {
+      let sum = (shift - degree[i]) * value;
+      for (const [j, weight] of weights[i]) sum += weight * vector[j];
+      return sum;
+    });
+    vector = normalise(next);
+  }
+  return sortByKey(nodeIds, (position) => vector[position]);
+}
+
+/** Heaviest node in the middle, then the next heaviest alternately to its right and left. */
+export function hubCentredOrder(nodeIds: string[], edges: OrderingEdge[]): string[] {
+  const totals = new Map(nodeIds.map((id) => [id, 0]));
+  for (const edge of edges) {
+    const value = Number.isFinite(edge.value) ? Math.abs(edge.value) : 0;
+    if (totals.has(edge.source)) totals.set(edge.source, (totals.get(edge.source) ?? 0) + value);
+    if (totals.has(edge.target)) totals.set(edge.target, (totals.get(edge.target) ?? 0) + value);
+  }
+  const ranked = sortByKey(nodeIds, (position) => -(totals.get(nodeIds[position]) ?? 0));
+  const left: string[] = [];
+  const right: string[] = [];
+  ranked.slice(1).forEach((id, index) => (index % 2 === 0 ? right : left).push(id));
+  return ranked.length === 0 ? [] : [...left.reverse(), ranked[0], ...right];
+}
+
+export function computeOptimisedOrder(mode: OptimisedOrderMode, nodeIds: string[], edges: OrderingEdge[]): string[] {
+  switch (mode) {
+    case 'crossing-barycentric':
+      return barycentricOrder(nodeIds, edges);
+    case 'crossing-annealing':
+      return annealedOrder(nodeIds, edges);
+    case 'cluster-spectral':
+      return spectralOrder(nodeIds, edges);
+    case 'hub-centred':
+      return hubCentredOrder(nodeIds, edges);
+  }
+}
+
+export function computeNodeOrderings(
+  nodeIds: string[],
+  edges: OrderingEdge[],
+  modes: OptimisedOrderMode[] = OPTIMISED_ORDER_MODES.map((entry) => entry.mode),
+): NodeOrderingResult[] {
+  return modes.map((mode) => {
+    const order = computeOptimisedOrder(mode, nodeIds, edges);
+    return { mode, order, ...crossingStats(order, edges) };
+  });
+}
+
+export interface NodeOrderingRequest {
+  nodeIds: string[];
+  edges: OrderingEdge[];
+}
+
+/** Scores an order that is already on screen, to compare the optimised ones against. */
+export interface CrossingStatsRequest {
+  order: string[];
+  edges: OrderingEdge[];
+}
+
+function runInWorker<T>(request: NodeOrderingRequest | CrossingStatsRequest, inline: () => T): {
+  promise: Promise<T>;
+  cancel: () => void;
+} {
+  if (typeof Worker === 'undefined') {
+    return { promise: Promise.resolve(inline()), cancel: () => {} };
+  }
+  const worker = new Worker(new URL('./node-ordering.worker.ts', import.meta.url), { type: 'module' });
+  const promise = new Promise<T>((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<T>) => {
+      resolve(event.data);
+      worker.terminate();
+    };
+    worker.onerror = (event) => {
+      reject(new Error(event.message || 'Node ordering worker failed'));
+      worker.terminate();
+    };
+  });
+  worker.postMessage(request);
+  return { promise, cancel: () => worker.terminate() };
+}
+
+/**
+ * Computes every optimised order off the main thread. Falls back to computing inline
+ * where Workers are unavailable (tests, SSR). `cancel` drops a result that is no
+ * longer wanted and stops the worker.
+ */
+export function runNodeOrderings(request: NodeOrderingRequest): {
+  promise: Promise<NodeOrderingResult[]>;
+  cancel: () => void;
+} {
+  return runInWorker(request, () => computeNodeOrderings(request.nodeIds, request.edges));
+}
+
+/** Counts the crossings of a given order off the main thread, like `runNodeOrderings`. */
+export function runCrossingStats(request: CrossingStatsRequest): {
+  promise: Promise<CrossingStats>;
+  cancel: () => void;
+} {
+  return runInWorker(request, () => crossingStats(request.order, request.edges));
+}
@@ -0,0 +1,15 @@
+import {
+  computeNodeOrderings,
+  crossingStats,
+  type CrossingStatsRequest,
+  type NodeOrderingRequest,
+} from './node-ordering';
+
+self.addEventListener('message', (event: MessageEvent<NodeOrderingRequest | CrossingStatsRequest>) => {
+  const request = event.data;
+  if ('order' in request) {
+    self.postMessage(crossingStats(request.order, request.edges));
+  } else {
+    self.postMessage(computeNodeOrderings(request.nodeIds, request.edges));
+  }
+});
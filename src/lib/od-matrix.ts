@@ -0,0 +1,319 @@
+/**
+ * Origin–destination matrix import
+ *
+ * Reads the "wide" layout most migration tables arrive in: one row per origin, one
+ * column per destination, counts in the cells. Titles, notes, totals and other columns
+ * around the matrix are common, so the layout is detected rather than assumed:
+ *
+ * - the header row is the one with the most distinct text labels above rows of numbers,
+ *   or the first row above numbers when zones are numbered;
+ * - the label column is the leftmost column whose cells below it are mostly text;
+ * - destinations with an `Estimate`/`MOE` pair, either in a row under the header or as
+ *   suffixes on the header labels ("Texas MOE"), keep their margins of error;
+ * - when at least two column labels also label rows, the table is square: only matching
+ *   rows and columns are read, which leaves out totals and extra columns. Otherwise every
+ *   labelled column except totals is a destination.
+ *
+ * Cells may use thousands separators and `+/-` prefixes. Self-flows on the diagonal are
+ * dropped or kept as each node's `self_flow`.
+ */
+
+import type { CommonEdge, CommonNode } from './data-adapters'
+import { parseCsv, readCsvFile } from './csv'
+
+export type DiagonalPolicy = 'attribute' | 'drop'
+
+export const DIAGONAL_POLICIES: Array<{ value: DiagonalPolicy; label: string }> = [
+  { value: 'attribute', label: 'Keep as a node attribute (self_flow)' },
+  { value: 'drop', label: 'Drop' },
+]
+
+export function isDiagonalPolicy(value: string): value is DiagonalPolicy {
+  return DIAGONAL_POLICIES.some((entry) => entry.value === value)
+}
+
+export interface MatrixSheet {
+  name: string
+  rows: string[][]
+}
+
+export interface MatrixDestination {
+  label: string
+  /** Column holding the count. */
+  column: number
+  /** Column holding its margin of error. */
+  moeColumn?: number
+}
+
+export interface MatrixLayout {
+  headerRow: number
+  labelColumn: number
+  firstDataRow: number
+  destinations: MatrixDestination[]
+  /** Labelled columns that are not destinations, such as totals. */
+  ignoredColumns: string[]
+  /** Column labels also label rows, so rows without a matching column are skipped. */
+  square: boolean
+}
+
+export interface MatrixOverrides {
+  headerRow?: number
+  labelColumn?: number
+}
+
+export interface MatrixImport {
+  nodes: CommonNode[]
+  edges: CommonEdge[]
+  origins: number
+  selfFlows: number
+  /** Labelled rows that were not read as origins. */
+  skippedRows: string[]
+}
+
+const HEADER_SEARCH_ROWS = 30
+const LABEL_SEARCH_COLUMNS = 5
+const MOE_LABEL = /^(moe|margin of error|\+\/-|±)$/i
+const ESTIMATE_LABEL = /^(estimate|est\.?|count|value|number)$/i
+const PAIR_SUFFIX = /^(.*?)[\s_-]*\b(estimate|moe|margin of error)$/i
+const TOTAL_LABEL = /^(total|sum|all)\b/i
+
+const text = (cell: unknown) => (cell === null || cell === undefined ? '' : String(cell).trim())
+
+/** The character between the whole and fractional part of a number. */
+export type DecimalSeparator = '.' | ','
+
+/** A count from a cell: thousands separators and `+/-` are allowed; blanks, `N/A` and `-` are not counts. */
+export function parseCount(cell: unknown): number | null {
+  return parseLocaleNumber(cell, '.')
+}
+
+/**
+ * Like `parseCount`, for numbers written with `decimal` before the fraction. The other of
+ * `.` and `,` then separates thousands, as do spaces and apostrophes (`1'234.5`, `1.234,5`).
+ */
+export function parseLocaleNumber(cell: unknown, decimal: DecimalSeparator): number | null {
+  if (typeof cell === 'number') return Number.isFinite(cell) ? cell : null
+  const unsigned = text(cell).replace(/^(\+\/-|±)/, '')
+  const cleaned =
+    decimal === ',' ? unsigned.replace(/[\s.'"]/g, '').replace(',', '.') : unsigned.replace(/[\s,'"]/g, '')
+  if (!/^-?\d+(\.\d+)?$/.test(cleaned)) return null
+  return Number(cleaned)
+}
+
+const isLabel = (cell: unknown) => text(cell) !== '' && parseCount(cell) === null
+
+/** Key used to match row labels to column labels, ignoring case and punctuation. */
+const labelKey = (label: string) => label.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '')
+
+/** Node id for a label, in the style of the state migration ids (`NEW_YORK`). */
+export function matrixNodeId(label: string): string {
+  const id = label
+    .trim()
+    .normalize('NFD')
+    .replace(/\p{Diacritic}/gu, '')
+    .replace(/\s+/g, '_')
+    .replace(/[^a-zA-Z0-9_]/g, '')
+    .toUpperCase()
+  return id || label.trim()
+}
+
+/** CSV rows with trimmed cells. Blank lines are kept so row numbers match the file. */
+export function csvToRows(content: string): string[][] {
+  return trimRows(parseCsv(content).rows)
+}
+
+export function trimRows(rows: string[][]): string[][] {
+  return rows.map((row) => row.map((cell) => cell.trim()))
+}
+
+function countNumbers(row: string[] | undefined) {
+  return (row ?? []).filter((cell) => parseCount(cell) !== null).length
+}
+
+const isEstimateRow = (row: string[]) => {
+  const labels = row.filter((cell) => text(cell) !== '')
+  return labels.length >= 2 && labels.every((cell) => MOE_LABEL.test(text(cell)) || ESTIMATE_LABEL.test(text(cell)))
+}
+
+/** Whether numbers follow row `r`, past blank rows and an Estimate/MOE row. */
+function hasDataBelow(rows: string[][], r: number) {
+  for (const row of rows.slice(r + 1, r + 4)) {
+    if (countNumbers(row) >= 2) return true
+    if (row.some((cell) => text(cell) !== '') && !isEstimateRow(row)) return false
+  }
+  return false
+}
+
+/**
+ * The row with the most distinct text labels above rows of numbers. Matrices of numbered
+ * zones have no text header, so the first row above numbers is used.
+ */
+function detectHeaderRow(rows: string[][]): number {
+  let best = -1
+  let bestScore = 1
+  let firstAboveData = -1
+  for (let r = 0; r < Math.min(rows.length - 1, HEADER_SEARCH_ROWS); r++) {
+    const labels = new Set(rows[r].filter(isLabel).map((cell) => labelKey(cell)))
+    const hasData = hasDataBelow(rows, r)
+    if (hasData && firstAboveData < 0 && countNumbers(rows[r]) >= 2) firstAboveData = r
+    if (hasData && labels.size > bestScore) {
+      best = r
+      bestScore = labels.size
+    }
+  }
+  return best >= 0 ? best : firstAboveData
+}
+
+function detectLabelColumn(rows: string[][], firstDataRow: number): number {
+  const dataRows = rows.slice(firstDataRow)
+  let best = 0
+  let bestCount = -1
+  for (let c = 0; c < LABEL_SEARCH_COLUMNS; c++) {
+    const count = dataRows.filter((row) => isLabel(row[c])).length
+    if (count > bestCount) {
+      best = c
+      bestCount = count
+    }
+  }
+  return best
+}
+
+/** Finds the matrix in a sheet, or null when there is none. */
+export function detectMatrixLayout(rows: string[][], overrides: MatrixOverrides = {}): MatrixLayout | null {
+  const headerRow = overrides.headerRow ?? detectHeaderRow(rows)
+  const header = rows[headerRow]
+  if (!header) return null
+
+  const subheader = rows[headerRow + 1] ?? []
+  const hasSubheader = isEstimateRow(subheader)
+  const firstDataRow = headerRow + (hasSubheader ? 2 : 1)
+  const labelColumn = overrides.labelColumn ?? detectLabelColumn(rows, firstDataRow)
+
+  // Group header cells into destinations: a label spans the columns up to the next label
+  const columns: MatrixDestination[] = []
+  for (let c = labelColumn + 1; c < header.length; c++) {
+    const label = text(header[c])
+    const sub = text(subheader[c])
+    if (hasSubheader && MOE_LABEL.test(sub)) {
+      const previous = columns[columns.length - 1]
+      if (previous && previous.moeColumn === undefined && (label === '' || labelKey(label) === labelKey(previous.label))) {
+        previous.moeColumn = c
+        continue
+      }
+    }
+    if (label === '') continue
+    const suffix = PAIR_SUFFIX.exec(label)
+    if (suffix?.[1]) {
+      const base = suffix[1]
+      const isMoe = !/estimate/i.test(suffix[2])
+      const previous = columns.find((column) => labelKey(column.label) === labelKey(base))
+      if (previous && isMoe) {
+        previous.moeColumn = c
+      } else if (!isMoe) {
+        columns.push({ label: base, column: c })
+      }
+      continue
+    }
+    columns.push({ label, column: c })
+  }
+
+  const rowKeys = new Set(
+    rows
+      .slice(firstDataRow)
+      .map((row) => text(row[labelColumn]))
+      .filter((label) => label !== '')
+      .map(labelKey),
+  )
+  const matching = columns.filter((column) => !TOTAL_LABEL.test(column.label) && rowKeys.has(labelKey(column.label)))
+  const square = matching.length >= 2
+  const destinations = square ? matching : columns.filter((column) => !TOTAL_LABEL.test(column.label))
+  if (destinations.length === 0) return null
+
+  return {
+    headerRow,
+    labelColumn,
+    firstDataRow,
+    destinations,
+    ignoredColumns: columns.filter((column) => !destinations.includes(column)).map((column) => column.label),
+    square,
+  }
+}
+
+/** Nodes and flows from a sheet laid out as `layout`. Zero and blank cells have no flow. */
+export function parseMatrix(rows: string[][], layout: MatrixLayout, diagonal: DiagonalPolicy): MatrixImport {
+  const nodes = new Map<string, CommonNode>()
+  const addNode = (label: string) => {
+    const id = matrixNodeId(label)
+    if (!nodes.has(id)) nodes.set(id, { id, label })
+    return nodes.get(id) as CommonNode
+  }
+  for (const destination of layout.destinations) addNode(destination.label)
+
+  const destinationKeys = new Set(layout.destinations.map((destination) => labelKey(destination.label)))
+  const edges: CommonEdge[] = []
+  const skippedRows: string[] = []
+  let origins = 0
+  let selfFlows = 0
+  let inOtherTable = false
+
+  for (const row of rows.slice(layout.firstDataRow)) {
+    if (isEstimateRow(row)) continue
+    const counts = layout.destinations.map((destination) => parseCount(row[destination.column]))
+    // Long sheets repeat the header further down. Rows under a header naming other
+    // columns belong to another table and are left out until the header repeats.
+    const headings = layout.destinations.filter((destination) => isLabel(row[destination.column]))
+    if (headings.length >= 2 && headings.length > counts.filter((count) => count !== null).length) {
+      inOtherTable = !headings.every(
+        (destination) => labelKey(text(row[destination.column])) === labelKey(destination.label),
+      )
+      continue
+    }
+    const label = text(row[layout.labelColumn])
+    if (label === '' || inOtherTable) continue
+    const outside = layout.square ? !destinationKeys.has(labelKey(label)) : TOTAL_LABEL.test(label)
+    if (outside || counts.every((count) => count === null)) {
+      skippedRows.push(label)
+      continue
+    }
+
+    origins++
+    const origin = addNode(label)
+    for (const [index, destination] of layout.destinations.entries()) {
+      const value = counts[index]
+      if (value === null || value <= 0) continue
+      const moe = destination.moeColumn === undefined ? null : parseCount(row[destination.moeColumn])
+      const target = matrixNodeId(destination.label)
+      if (target === origin.id) {
+        selfFlows++
+        if (diagonal === 'attribute') {
+          origin.self_flow = value
+          if (moe !== null && moe > 0) origin.self_flow_moe = moe
+        }
+        continue
+      }
+      const edge: CommonEdge = { source: origin.id, target, value }
+      if (moe !== null && moe > 0) edge.moe = moe
+      edges.push(edge)
+    }
+  }
+
+  return { nodes: [...nodes.values()], edges, origins, selfFlows, skippedRows }
+}
+
+/** The sheets of a CSV or workbook, as rows of text cells. */
+export async function readMatrixFile(file: File): Promise<MatrixSheet[]> {
+  if (!/\.xlsx?$/i.test(file.name)) return [{ name: file.name, rows: trimRows((await readCsvFile(file)).rows) }]
+  const XLSX = await import('xlsx')
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' })
+  return workbook.SheetNames.map((name) => ({
+    name,
+    rows: XLSX.utils
+      .sheet_to_json<unknown[]>(workbook.Sheets[name], { header: 1, raw: false, defval: '' })
+      .map((row) => row.map(text)),
+  }))
+}
+
+/** The first sheet that holds a matrix. */
+export function findMatrixSheet(sheets: MatrixSheet[]): number {
+  return sheets.findIndex((sheet) => detectMatrixLayout(sheet.rows) !== null)
+}
@@ -0,0 +1,62 @@
+/**
+ * Year playback helpers for the Explorer.
+ *
+ * Playback walks the years that actually have a snapshot, so gaps such as the
+ * missing 2020 ACS release are skipped rather than shown as empty frames.
+ */
+
+export const PLAYBACK_SPEEDS = [0.5, 1, 2, 4] as const;
+
+export type PlaybackSpeed = (typeof PLAYBACK_SPEEDS)[number];
+
+/** Time spent on each year at 1× speed. */
+export const PLAYBACK_BASE_INTERVAL_MS = 1600;
+
+export function normalizePlaybackSpeed(value: unknown): PlaybackSpeed {
+  const num = typeof value === 'string' ? Number.parseFloat(value) : Number(value);
+  if (!Number.isFinite(num)) return 1;
+  return PLAYBACK_SPEEDS.reduce<PlaybackSpeed>(
+    (best, speed) => (Math.abs(speed - num) < Math.abs(best - num) ? speed : best),
+    1,
+  );
+}
+
+export function getPlaybackInterval(speed: number): number {
+  return PLAYBACK_BASE_INTERVAL_MS / Math.max(0.1, speed);
+}
+
+/** Arc and node tweens take most of the step so each year rests briefly before the next. */
+export function getPlaybackTransitionDuration(speed: number): number {
+  return Math.round(getPlaybackInterval(speed) * 0.75);
+}
+
+export function getPlaybackYears(years: Iterable<number>): number[] {
+  return Array.from(new Set(years))
+    .filter((year) => Number.isFinite(year))
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Returns the year one step away from `current`, or null when playback runs off
+ * either end without looping. A current year without a snapshot steps to the
+ * nearest available year in the requested direction.
+ */
+export function stepPlaybackYear(
+  years: number[],
+  current: number | undefined,
+  direction: 1 | -1,
+  loop: boolean,
+): number | null {
+  if (years.length === 0) return null;
+  if (current === undefined) {
+    return direction === 1 ? years[0] : years[years.length - 1];
+  }
+
+  const next =
+    direction === 1
+      ? years.find((year) => year > current)
+      : [...years].reverse().find((year) => year < current);
+  if (next !== undefined) return next;
+  if (!loop) return null;
+  return direction === 1 ? years[0] : years[years.length - 1];
+}
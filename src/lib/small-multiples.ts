@@ -0,0 +1,84 @@
+/**
+ * Small multiples
+ *
+ * The small-multiples view draws one Kriskogram per snapshot year, or per value of the
+ * dataset's edge type property, from the same pipeline settings as the main view. Panels
+ * are computed together and drawn with one set of accessors, so node order, edge widths
+ * and colours mean the same thing in every panel.
+ */
+
+import type { ExplorerPipelineParams } from './explorer-pipeline'
+
+export type SmallMultiplesFacet = 'year' | 'edgeType'
+
+export const SMALL_MULTIPLES_FACETS: Array<{ value: SmallMultiplesFacet; label: string }> = [
+  { value: 'year', label: 'Years' },
+  { value: 'edgeType', label: 'Edge types' },
+]
+
+/** Panels beyond this many get too small to read. */
+export const MAX_SMALL_MULTIPLES = 12
+
+export function isSmallMultiplesFacet(value: string): value is SmallMultiplesFacet {
+  return SMALL_MULTIPLES_FACETS.some((entry) => entry.value === value)
+}
+
+export interface SmallMultiplePanel {
+  key: string
+  label: string
+  params: ExplorerPipelineParams
+}
+
+/** First, middle and last year by default, e.g. 2005, 2015 and 2023. */
+export function defaultPanelYears(years: number[], count = 3): number[] {
+  const sorted = [...new Set(years)].sort((a, b) => a - b)
+  if (sorted.length <= count) return sorted
+  if (count <= 1) return sorted.slice(-1)
+  const picked = new Set<number>()
+  for (let i = 0; i < count; i++) {
+    picked.add(sorted[Math.round((i * (sorted.length - 1)) / (count - 1))])
+  }
+  return [...picked]
+}
+
+/**
+ * Pipeline requests for each panel. Every panel keeps all nodes, so the shared node order
+ * puts a node at the same position everywhere, and none draws the temporal overlay.
+ */
+export function smallMultiplePanels(
+  base: ExplorerPipelineParams,
+  facet: SmallMultiplesFacet,
+  options: { years: number[]; edgeTypeProperty: string | null; edgeTypeValues: string[] },
+): SmallMultiplePanel[] {
+  const shared: ExplorerPipelineParams = {
+    ...base,
+    viewType: 'kriskogram',
+    showAllNodes: true,
+    temporalOverlayEnabled: false,
+  }
+  if (facet === 'year') {
+    return [...new Set(options.years)]
+      .sort((a, b) => a - b)
+      .slice(0, MAX_SMALL_MULTIPLES)
+      .map((year) => ({ key: `year-${year}`, label: String(year), params: { ...shared, year } }))
+  }
+  if (!options.edgeTypeProperty) return []
+  const property = options.edgeTypeProperty
+  return options.edgeTypeValues.slice(0, MAX_SMALL_MULTIPLES).map((value) => ({
+    key: `${property}-${value}`,
+    label: value,
+    params: { ...shared, edgeTypeProperty: property, edgeTypeFilter: value },
+  }))
+}
+
+/** Columns and panel size that fit `count` panels into the given area, keeping panels at least `minWidth` wide. */
+export function smallMultiplesGrid(count: number, width: number, height: number, minWidth = 360) {
+  const columns = Math.max(1, Math.min(count, Math.floor(width / minWidth) || 1))
+  const rows = Math.max(1, Math.ceil(count / columns))
+  return {
+    columns,
+    rows,
+    panelWidth: Math.floor(width / columns),
+    panelHeight: Math.max(220, Math.floor(height / rows)),
+  }
+}
@@ -0,0 +1,251 @@
+/**
+ * Derived snapshots
+ *
+ * Builds snapshots that summarise several years of a dataset: a sum, mean or median
+ * over a fixed window, the same over a window that ends at each year, or the change
+ * from each year to the next. Derived snapshots have the same shape as stored ones, so
+ * every view can draw them and they can be saved as datasets of their own.
+ *
+ * Years without a snapshot inside a window (2020 in the ACS series) are left out, not
+ * counted as zero: means and medians are taken over the years that exist, and each
+ * derived snapshot lists the years it used and the ones it had to skip.
+ */
+
+import type { CommonEdge, CommonNode } from './data-adapters'
+import { diffSnapshots } from './snapshot-diff'
+
+export type AggregateStat = 'sum' | 'mean' | 'median'
+export type TimeAggregation = 'none' | 'window' | 'rolling' | 'growth'
+
+export const AGGREGATE_STATS: Array<{ value: AggregateStat; label: string }> = [
+  { value: 'sum', label: 'Sum' },
+  { value: 'mean', label: 'Mean' },
+  { value: 'median', label: 'Median' },
+]
+
+export const TIME_AGGREGATIONS: Array<{ value: TimeAggregation; label: string }> = [
+  { value: 'none', label: 'Single year' },
+  { value: 'window', label: 'Fixed window' },
+  { value: 'rolling', label: 'Rolling window' },
+  { value: 'growth', label: 'Year-over-year change' },
+]
+
+export function isAggregateStat(value: string): value is AggregateStat {
+  return AGGREGATE_STATS.some((entry) => entry.value === value)
+}
+
+export function isTimeAggregation(value: string): value is TimeAggregation {
+  return TIME_AGGREGATIONS.some((entry) => entry.value === value)
+}
+
+export interface TimedSnapshot {
+  timestamp: number | string
+  nodes: CommonNode[]
+  edges: CommonEdge[]
+}
+
+export interface DerivedSnapshot {
+  timestamp: number
+  nodes: CommonNode[]
+  edges: CommonEdge[]
+  /** Years that contributed. */
+  years: number[]
+  /** Years the window spans that have no snapshot. */
+  missingYears: number[]
+}
+
+export interface DeriveOptions {
+  mode: TimeAggregation
+  stat: AggregateStat
+  /** Fixed window bounds, inclusive. */
+  start: number
+  end: number
+  /** Rolling window length in years. */
+  window: number
+  /** Edge properties that keep flows apart, e.g. migration_type; source and target always do. */
+  keyBy?: string[]
+}
+
+const yearOf = (snapshot: TimedSnapshot) =>
+  typeof snapshot.timestamp === 'string' ? Number.parseInt(snapshot.timestamp, 10) : snapshot.timestamp
+
+function snapshotsByYear(snapshots: TimedSnapshot[]) {
+  const byYear = new Map<number, TimedSnapshot>()
+  for (const snapshot of snapshots) {
+    const year = yearOf(snapshot)
+    if (Number.isFinite(year)) byYear.set(year, snapshot)
+  }
+  return byYear
+}
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid]
+}
+
+interface FlowSeries {
+  edge: CommonEdge
+  values: number[] // One per contributing year, zero where the flow is absent
+  moeSquares: number
+  hasMoe: boolean
+}
+
+function aggregateYears(
+  byYear: Map<number, TimedSnapshot>,
+  start: number,
+  end: number,
+  stat: AggregateStat,
+  keyBy: string[],
+  timestamp: number,
+): DerivedSnapshot | null {
+  const years: number[] = []
+  const missingYears: number[] = []
+  for (let year = Math.min(start, end); year <= Math.max(start, end); year++) {
+    if (byYear.has(year)) years.push(year)
+    else missingYears.push(year)
+  }
+  if (years.length === 0) return null
+
+  const nodesById = new Map<string, CommonNode>()
+  const flows = new Map<string, FlowSeries>()
+  years.forEach((year, index) => {
+    const snapshot = byYear.get(year) as TimedSnapshot
+    // Later years win, so nodes carry their most recent attributes
+    for (const node of snapshot.nodes) nodesById.set(node.id, node)
+    for (const edge of snapshot.edges) {
+      const value = Number(edge.value)
+      if (!Number.isFinite(value)) continue
+      const key = [edge.source, edge.target, ...keyBy.map((property) => String(edge[property] ?? ''))].join('\u0000')
+      let series = flows.get(key)
+      if (!series) {
+        const identity: CommonEdge = { source: edge.source, target: edge.target, value: 0 }
+        for (const property of keyBy) {
+          if (edge[property] !== undefined) identity[property] = edge[property]
+        }
+        series = { edge: identity, values: new Array(years.length).fill(0), moeSquares: 0, hasMoe: false }
+        flows.set(key, series)
+      }
+      series.values[index] += value
+      const moe = Number(edge.moe)
+      if (Number.isFinite(moe)) {
+        series.moeSquares += moe * moe
+        series.hasMoe = true
+      }
+    }
+  })
+
+  const edges: CommonEdge[] = []
+  for (const { edge, values, moeSquares, hasMoe } of flows.values()) {
+    const total = values.reduce((sum, value) => sum + value, 0)
+    const value = stat === 'sum' ? total : stat === 'mean' ? total / years.length : median(values)
+    if (value <= 0) continue
+    const derived: CommonEdge = {
+      ...edge,
+      value,
+      window_start: years[0],
+      window_end: years[years.length - 1],
+      window_years: years.length,
+    }
+    // Independent yearly estimates: MOEs add in quadrature; a median has no simple MOE
+    if (hasMoe && stat !== 'median') {
+      const sumMoe = Math.sqrt(moeSquares)
+      derived.moe = stat === 'sum' ? sumMoe : sumMoe / years.length
+    }
+    edges.push(derived)
+  }
+  return { timestamp, nodes: [...nodesById.values()], edges, years, missingYears }
+}
+
+/** One snapshot summarising `start`–`end`, stamped with the window's last year. */
+export function aggregateWindow(
+  snapshots: TimedSnapshot[],
+  start: number,
+  end: number,
+  stat: AggregateStat,
+  keyBy: string[] = [],
+): DerivedSnapshot | null {
+  return aggregateYears(snapshotsByYear(snapshots), start, end, stat, keyBy, Math.max(start, end))
+}
+
+/** For each year with a snapshot, the `window` years ending there. */
+export function rollingSnapshots(
+  snapshots: TimedSnapshot[],
+  window: number,
+  stat: AggregateStat,
+  keyBy: string[] = [],
+): DerivedSnapshot[] {
+  const byYear = snapshotsByYear(snapshots)
+  const length = Math.max(1, Math.round(window))
+  return [...byYear.keys()]
+    .sort((a, b) => a - b)
+    .map((year) => aggregateYears(byYear, year - length + 1, year, stat, keyBy, year))
+    .filter((snapshot): snapshot is DerivedSnapshot => snapshot !== null)
+}
+
+/**
+ * For each year after the first, the change from the previous year with a snapshot.
+ * Edge values are the absolute change, with `delta`, `growth_rate` (percent, null for new
+ * flows) and `annual_growth_rate`, compounded per year so changes across a missing year
+ * compare with the rest. Flows split by type are summed.
+ */
+export function growthSnapshots(snapshots: TimedSnapshot[]): DerivedSnapshot[] {
+  const byYear = snapshotsByYear(snapshots)
+  const years = [...byYear.keys()].sort((a, b) => a - b)
+  const derived: DerivedSnapshot[] = []
+  for (let i = 1; i < years.length; i++) {
+    const from = years[i - 1]
+    const to = years[i]
+    const gap = to - from
+    const diff = diffSnapshots(byYear.get(from) as TimedSnapshot, byYear.get(to) as TimedSnapshot)
+    const edges: CommonEdge[] = diff.edges
+      .filter((edge) => edge.change !== 'unchanged')
+      .map((edge) => ({
+        source: edge.source,
+        target: edge.target,
+        value: edge.value,
+        delta: edge.delta,
+        previous: edge.before,
+        current: edge.after,
+        change: edge.change,
+        growth_rate: edge.percentChange,
+        annual_growth_rate:
+          edge.before > 0 && edge.after > 0 ? ((edge.after / edge.before) ** (1 / gap) - 1) * 100 : null,
+        growth_base_year: from,
+      }))
+    const missingYears = Array.from({ length: gap - 1 }, (_, index) => from + index + 1)
+    derived.push({ timestamp: to, nodes: diff.nodes, edges, years: [from, to], missingYears })
+  }
+  return derived
+}
+
+export function deriveSnapshots(snapshots: TimedSnapshot[], options: DeriveOptions): DerivedSnapshot[] | null {
+  const keyBy = options.keyBy ?? []
+  switch (options.mode) {
+    case 'window': {
+      const snapshot = aggregateWindow(snapshots, options.start, options.end, options.stat, keyBy)
+      return snapshot ? [snapshot] : []
+    }
+    case 'rolling':
+      return rollingSnapshots(snapshots, options.window, options.stat, keyBy)
+    case 'growth':
+      return growthSnapshots(snapshots)
+    default:
+      return null
+  }
+}
+
+/** Short description for labels and saved dataset names, e.g. "Mean 2010–2014". */
+export function describeDerivation(options: DeriveOptions): string {
+  const stat = AGGREGATE_STATS.find((entry) => entry.value === options.stat)?.label ?? options.stat
+  switch (options.mode) {
+    case 'window':
+      return `${stat} ${Math.min(options.start, options.end)}–${Math.max(options.start, options.end)}`
+    case 'rolling':
+      return `${Math.max(1, Math.round(options.window))}-year rolling ${stat.toLowerCase()}`
+    case 'growth':
+      return 'Year-over-year change'
+    default:
+      return 'Single year'
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Snapshot differences
+ *
+ * Compare mode draws how each flow changed between a baseline snapshot and the one on
+ * screen, from another year or from another dataset with the same node ids. Flows are
+ * matched by source and target; edges sharing both, e.g. split by migration type, are
+ * summed first. Each difference edge carries the absolute change as its value, so arc
+ * widths and the threshold filters work on the size of the change.
+ */
+
+import type { CommonEdge, CommonNode } from './data-adapters'
+import type { ExplorerPipelineParams } from './explorer-pipeline'
+
+export type FlowChange = 'increase' | 'decrease' | 'appeared' | 'vanished' | 'unchanged'
+
+export interface FlowDiffEdge extends CommonEdge {
+  /** Absolute change, `|after - before|`. */
+  value: number
+  before: number
+  after: number
+  delta: number
+  /** Change relative to the baseline, null when the flow is new. */
+  percentChange: number | null
+  change: FlowChange
+}
+
+export interface SnapshotDiff {
+  nodes: CommonNode[]
+  edges: FlowDiffEdge[]
+}
+
+export const FLOW_CHANGE_COLORS: Record<FlowChange, string> = {
+  increase: '#1a9850',
+  appeared: '#1a9850',
+  decrease: '#d73027',
+  vanished: '#d73027',
+  unchanged: '#9ca3af',
+}
+
+const flowKey = (source: string, target: string) => `${source}\u0000${target}`
+
+function sumFlows(edges: CommonEdge[]) {
+  const totals = new Map<string, { source: string; target: string; value: number }>()
+  for (const edge of edges) {
+    const value = Number(edge.value)
+    if (!Number.isFinite(value)) continue
+    const key = flowKey(edge.source, edge.target)
+    const entry = totals.get(key)
+    if (entry) entry.value += value
+    else totals.set(key, { source: edge.source, target: edge.target, value })
+  }
+  return totals
+}
+
+function classifyChange(before: number, after: number): FlowChange {
+  if (before === 0 && after !== 0) return 'appeared'
+  if (after === 0 && before !== 0) return 'vanished'
+  if (after > before) return 'increase'
+  if (after < before) return 'decrease'
+  return 'unchanged'
+}
+
+/**
+ * Differences from `before` to `after`, largest change first. Nodes come from `after`,
+ * plus any only `before` has, so vanished flows still have both endpoints.
+ */
+export function diffSnapshots(
+  before: { nodes: CommonNode[]; edges: CommonEdge[] },
+  after: { nodes: CommonNode[]; edges: CommonEdge[] },
+): SnapshotDiff {
+  const beforeFlows = sumFlows(before.edges)
+  const afterFlows = sumFlows(after.edges)
+  const edges: FlowDiffEdge[] = []
+  for (const key of new Set([...beforeFlows.keys(), ...afterFlows.keys()])) {
+    const endpoints = (afterFlows.get(key) ?? beforeFlows.get(key)) as { source: string; target: string }
+    const beforeValue = beforeFlows.get(key)?.value ?? 0
+    const afterValue = afterFlows.get(key)?.value ?? 0
+    const delta = afterValue - beforeValue
+    edges.push({
+      source: endpoints.source,
+      target: endpoints.target,
+      value: Math.abs(delta),
+      before: beforeValue,
+      after: afterValue,
+      delta,
+      percentChange: beforeValue === 0 ? null : (delta / beforeValue) * 100,
+      change: classifyChange(beforeValue, afterValue),
+    })
+  }
+  edges.sort((a, b) => b.value - a.value)
+
+  const nodesById = new Map<string, CommonNode>()
+  for (const node of after.nodes) nodesById.set(node.id, node)
+  for (const node of before.nodes) {
+    if (!nodesById.has(node.id)) nodesById.set(node.id, node)
+  }
+  return { nodes: [...nodesById.values()], edges }
+}
+
+/** Keeps changes within the threshold range, dropping unchanged flows, up to `maxEdges` of the largest. */
+export function filterFlowChanges(
+  edges: FlowDiffEdge[],
+  { minThreshold, maxThreshold, maxEdges }: { minThreshold: number; maxThreshold: number; maxEdges: number },
+): FlowDiffEdge[] {
+  return edges
+    .filter((edge) => edge.change !== 'unchanged' && edge.value >= minThreshold && edge.value <= maxThreshold)
+    .slice(0, maxEdges)
+}
+
+/**
+ * Pipeline settings for one side of a comparison. Thresholds and the edge cap apply to
+ * the change rather than to either year, and both sides keep every node.
+ */
+export function comparisonParams(params: ExplorerPipelineParams, year: number): ExplorerPipelineParams {
+  return {
+    ...params,
+    year,
+    minThreshold: 0,
+    maxThreshold: Number.POSITIVE_INFINITY,
+    maxEdges: Number.POSITIVE_INFINITY,
+    showAllNodes: true,
+    temporalOverlayEnabled: false,
+  }
+}
+
+export function formatPercentChange(percent: number | null): string {
+  if (percent === null) return 'new'
+  const rounded = Math.abs(percent) >= 10 ? Math.round(percent) : Math.round(percent * 10) / 10
+  return `${rounded > 0 ? '+' : ''}${rounded}%`
+}
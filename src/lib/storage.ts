@@ -1,3 +1,5 @@
+import type { EdgeListMapping } from './edge-list-mapping'
+
 export type StoredSnapshot = {
   timestamp: number
   nodes: any[]
@@ -22,13 +24,21 @@ export type StoredDataset = {
   name: string
   filename?: string  // Original filename from import
   notes?: string     // User-provided notes/description
-  type: 'csv' | 'gexf' | 'manual' | 'csv-two-file'
+  type: 'csv' | 'gexf' | 'manual' | 'csv-two-file' | 'graphml' | 'json' | 'arrow' | 'parquet'
   timeRange: { start: number; end: number }
   snapshots: StoredSnapshot[]
   metadata?: DatasetMetadata // Detected properties for dynamic UI
   createdAt: number
 }
 
+/** A saved edge list column mapping, offered again for files with the same columns */
+export type ImportPreset = {
+  id: string
+  name: string
+  mapping: EdgeListMapping
+  createdAt: number
+}
+
 /**
  * Detect all properties in nodes and edges for metadata
  */
@@ -84,9 +94,31 @@ export function detectDatasetProperties(snapshot: StoredSnapshot): DatasetMetada
   }
 }
 
+/**
+ * Combine detected properties with ones a file declares (GraphML keys), so declared
+ * properties are offered even when the first snapshot never sets them
+ */
+export function mergeDatasetMetadata(detected: DatasetMetadata, declared?: DatasetMetadata): DatasetMetadata {
+  if (!declared) return detected
+  const union = (a: string[], b: string[]) => Array.from(new Set([...a, ...b]))
+  return {
+    nodeProperties: union(detected.nodeProperties, declared.nodeProperties),
+    edgeProperties: union(detected.edgeProperties, declared.edgeProperties),
+    hasNumericProperties: {
+      nodes: union(detected.hasNumericProperties.nodes, declared.hasNumericProperties.nodes),
+      edges: union(detected.hasNumericProperties.edges, declared.hasNumericProperties.edges),
+    },
+    hasCategoricalProperties: {
+      nodes: union(detected.hasCategoricalProperties.nodes, declared.hasCategoricalProperties.nodes),
+      edges: union(detected.hasCategoricalProperties.edges, declared.hasCategoricalProperties.edges),
+    },
+  }
+}
+
 const DB_NAME = 'kriskogram-db'
-const DB_VERSION = 1
+const DB_VERSION = 2
 const STORE_DATASETS = 'datasets'
+const STORE_IMPORT_PRESETS = 'import-presets'
 
 function openDB(): Promise<IDBDatabase> {
   return new Promise((resolve, reject) => {
@@ -96,6 +128,9 @@ function openDB(): Promise<IDBDatabase> {
       if (!db.objectStoreNames.contains(STORE_DATASETS)) {
         db.createObjectStore(STORE_DATASETS, { keyPath: 'id' })
       }
+      if (!db.objectStoreNames.contains(STORE_IMPORT_PRESETS)) {
+        db.createObjectStore(STORE_IMPORT_PRESETS, { keyPath: 'id' })
+      }
     }
     request.onsuccess = () => resolve(request.result)
     request.onerror = () => reject(request.error)
@@ -175,6 +210,38 @@ export async function clearAllDatasets(): Promise<void> {
   })
 }
 
+export async function saveImportPreset(preset: ImportPreset): Promise<void> {
+  const db = await openDB()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_IMPORT_PRESETS, 'readwrite')
+    tx.objectStore(STORE_IMPORT_PRESETS).put(preset)
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+/** Newest first */
+export async function getAllImportPresets(): Promise<ImportPreset[]> {
+  const db = await openDB()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_IMPORT_PRESETS, 'readonly')
+    const req = tx.objectStore(STORE_IMPORT_PRESETS).getAll()
+    req.onsuccess = () => resolve(((req.result || []) as ImportPreset[]).sort((a, b) => b.createdAt - a.createdAt))
+    req.onerror = () => reject(req.error)
+  })
+}
+
+export async function deleteImportPreset(id: string): Promise<void> {
+  const db = await openDB()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_IMPORT_PRESETS, 'readwrite')
+    tx.objectStore(STORE_IMPORT_PRESETS).delete(id)
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+  })
+}
+
 export async function ensurePersistentStorage(): Promise<boolean> {
   if ('storage' in navigator && 'persist' in navigator.storage) {
     try {
@@ -0,0 +1,61 @@
+/**
+ * Sampling uncertainty for survey-based flows
+ *
+ * ACS flow tables publish a margin of error (MOE) at the 90% confidence level
+ * next to every estimate. These helpers turn that MOE into a standard error and a
+ * coefficient of variation (CV), the usual yardstick for deciding whether an
+ * estimate is reliable enough to show.
+ */
+
+/** z-score behind the published ACS margins of error (90% confidence). */
+export const MOE_Z_SCORE = 1.645;
+
+/** CV above which a flow is treated as statistically unreliable by default. */
+export const DEFAULT_CV_THRESHOLD = 0.4;
+
+export type UncertaintyMode = 'none' | 'band' | 'range';
+export type UnreliableFlowStyle = 'none' | 'hatch' | 'fade';
+
+export const UNCERTAINTY_MODES: UncertaintyMode[] = ['none', 'band', 'range'];
+export const UNRELIABLE_FLOW_STYLES: UnreliableFlowStyle[] = ['none', 'hatch', 'fade'];
+
+/** Reads a usable MOE from an edge, or null when the edge carries none. */
+export function getFlowMoe(edge: Record<string, unknown>): number | null {
+  const moe = typeof edge.moe === 'string' ? Number.parseFloat(edge.moe) : edge.moe;
+  if (typeof moe !== 'number' || !Number.isFinite(moe) || moe < 0) {
+    return null;
+  }
+  return moe;
+}
+
+export function standardErrorFromMoe(moe: number): number {
+  return moe / MOE_Z_SCORE;
+}
+
+/**
+ * CV = SE / estimate. Returns null without a MOE; a zero estimate with a
+ * non-zero MOE has an unbounded CV.
+ */
+export function coefficientOfVariation(value: number, moe: number | null | undefined): number | null {
+  if (moe === null || moe === undefined || !Number.isFinite(moe) || !Number.isFinite(value)) {
+    return null;
+  }
+  if (value === 0) {
+    return moe === 0 ? 0 : Number.POSITIVE_INFINITY;
+  }
+  return standardErrorFromMoe(moe) / Math.abs(value);
+}
+
+/** Flows without a MOE are never flagged, so datasets without MOE columns are unaffected. */
+export function isUnreliableFlow(
+  edge: { value: number; moe?: unknown },
+  threshold: number = DEFAULT_CV_THRESHOLD,
+): boolean {
+  const cv = coefficientOfVariation(edge.value, getFlowMoe(edge));
+  return cv !== null && cv > threshold;
+}
+
+/** Estimate ± MOE, with the lower bound clamped at zero. */
+export function getFlowInterval(value: number, moe: number): { lower: number; upper: number } {
+  return { lower: Math.max(0, value - moe), upper: value + moe };
+}
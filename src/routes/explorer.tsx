@@ -1,24 +1,118 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react'
 import { createFileRoute, useNavigate, useSearch } from '@tanstack/react-router'
-import { ChevronDown, ChevronUp } from 'lucide-react'
+import { ChevronDown, ChevronUp, Pause, Play, Repeat, SkipBack, SkipForward } from 'lucide-react'
 import { z } from 'zod'
 import Kriskogram from '../components/Kriskogram'
 import type { KriskogramRef } from '../components/Kriskogram'
 import DatasetSidebar from '../components/DatasetSidebar'
+import ExportMenu from '../components/ExportMenu'
 import TableView from '../components/views/TableView'
 import SankeyView from '../components/views/SankeyView'
 import ChordView from '../components/views/ChordView'
+import SmallMultiplesView, { type SmallMultiplesPanelData } from '../components/views/SmallMultiplesView'
 import { ErrorBoundary } from '../components/ErrorBoundary'
 import SettingsPanel from '../components/SettingsPanel'
+import GeoMapPanel from '../components/GeoMapPanel'
+import NodeGroupTree from '../components/NodeGroupTree'
 import { useSidebar } from '../contexts/SidebarContext'
-import { ensurePersistentStorage, getDataset, saveDataset, detectDatasetProperties, deleteDataset, type StoredDataset } from '../lib/storage'
+import { ensurePersistentStorage, getAllDatasets, getDataset, saveDataset, detectDatasetProperties, deleteDataset, type StoredDataset, type StoredSnapshot } from '../lib/storage'
+import { parseCsv } from '../lib/csv'
 import { loadCSVFromUrl, parseStateMigrationCSV } from '../lib/csv-parser'
 import { parseTwoFileCSV } from '../lib/csv-two-file-parser'
 import { gexfToKriskogramSnapshots, loadGexfFromUrl, type KriskogramSnapshot } from '../lib/gexf-parser'
-import { filterEdgesByProperty, getUniqueEdgePropertyValues } from '../lib/data-adapters'
+import { getUniqueEdgePropertyValues } from '../lib/data-adapters'
 import { STATE_MIGRATION_CSV_FILES, STATE_MIGRATION_MISSING_YEARS } from '../data/stateMigrationFiles'
 import { EXPECTED_STATE_COUNT, STATE_LABEL_SET } from '../data/stateLabels'
 import { formatFlowModeLabel } from '../lib/flow-labels'
+import {
+  PLAYBACK_SPEEDS,
+  getPlaybackInterval,
+  getPlaybackTransitionDuration,
+  getPlaybackYears,
+  normalizePlaybackSpeed,
+  stepPlaybackYear,
+} from '../lib/playback'
+import {
+  DEFAULT_CV_THRESHOLD,
+  UNCERTAINTY_MODES,
+  UNRELIABLE_FLOW_STYLES,
+  getFlowMoe,
+  type UncertaintyMode,
+  type UnreliableFlowStyle,
+} from '../lib/uncertainty'
+import { DEFAULT_DOI_PRESET, DOI_PRESETS, type DoiPreset } from '../lib/degree-of-interest'
+import {
+  LENS_EFFECTS,
+  LENS_SHAPES,
+  decodeLens,
+  encodeLens,
+  type KriskogramLens,
+  type LensEffect,
+  type LensShape,
+} from '../lib/edge-lens'
+import { DEFAULT_FLOW_MODE, FLOW_MODES, flowValueRange, isFlowMode, type FlowMode } from '../lib/flow-transform'
+import {
+  EMPTY_EXPLORER_DATA,
+  createExplorerPipeline,
+  type ExplorerData,
+  type ExplorerEdge,
+  type ExplorerPipeline,
+  type ExplorerPipelineParams,
+} from '../lib/explorer-pipeline'
+import {
+  OPTIMISED_ORDER_MODES,
+  isOptimisedOrderMode,
+  runCrossingStats,
+  runNodeOrderings,
+  type CrossingStats,
+  type NodeOrderingResult,
+} from '../lib/node-ordering'
+import { GEO_ORDER_MODES, geoOrder, hasGeoCoordinates, isGeoOrderMode } from '../lib/geo-order'
+import {
+  CANVAS_EDGE_THRESHOLD,
+  KRISKOGRAM_RENDERERS,
+  isKriskogramRendererOption,
+  type KriskogramAccessors,
+  type KriskogramEdgeStyle,
+  type KriskogramOverlay,
+  type KriskogramRendererOption,
+} from '../d3-kriskogram'
+import {
+  REGION_HIERARCHY,
+  buildNodeGroupTree,
+  collapseNodeGroups,
+  nodeGroupId,
+  nodeGroupingLevels,
+  type NodeGroupTreeEntry,
+} from '../lib/node-grouping'
+import {
+  MAX_SMALL_MULTIPLES,
+  SMALL_MULTIPLES_FACETS,
+  defaultPanelYears,
+  isSmallMultiplesFacet,
+  smallMultiplePanels,
+  type SmallMultiplesFacet,
+} from '../lib/small-multiples'
+import {
+  FLOW_CHANGE_COLORS,
+  comparisonParams,
+  diffSnapshots,
+  filterFlowChanges,
+  formatPercentChange,
+  type FlowDiffEdge,
+  type SnapshotDiff,
+} from '../lib/snapshot-diff'
+import {
+  AGGREGATE_STATS,
+  TIME_AGGREGATIONS,
+  deriveSnapshots,
+  describeDerivation,
+  isAggregateStat,
+  isTimeAggregation,
+  type AggregateStat,
+  type DeriveOptions,
+  type TimeAggregation,
+} from '../lib/snapshot-aggregation'
 
 const YEAR_PLACEHOLDER_MESSAGES: Record<number, string> = STATE_MIGRATION_MISSING_YEARS.reduce(
   (acc, year) => {
@@ -31,7 +125,16 @@ const YEAR_PLACEHOLDER_MESSAGES: Record<number, string> = STATE_MIGRATION_MISSIN
   {} as Record<number, string>,
 );
 
-type ViewType = 'kriskogram' | 'table' | 'sankey' | 'chord'
+type ViewType = 'kriskogram' | 'table' | 'sankey' | 'chord' | 'multiples'
+
+// While node grouping is on, the Kriskogram tweens data changes so groups visibly merge and split
+const NODE_GROUP_TRANSITION_MS = 600
+
+// Pipeline edges record the year they were drawn from
+const EXPLORER_OVERLAY: KriskogramOverlay = {
+  offset: (edge) => (edge as ExplorerEdge)._overlayOffset,
+  year: (edge) => (edge as ExplorerEdge)._overlayYear,
+}
 
 const NODE_COLOR_FLOW_OPTIONS = [
   'visible_outgoing',
@@ -109,7 +212,7 @@ function CollapsibleSection({
   )
 }
 
-const viewTypeSchema = z.enum(['kriskogram', 'table', 'sankey', 'chord'])
+const viewTypeSchema = z.enum(['kriskogram', 'table', 'sankey', 'chord', 'multiples'])
 
 function summarizeValues(values: number[]) {
   if (!values.length) {
@@ -393,7 +496,7 @@ const explorerSearchSchema = z.object({
     },
     z.number().min(0.1).max(10).default(1),
   ),
-  interactionMode: safeCoerceEnum(['pan', 'lens'] as const, 'pan'),
+  interactionMode: safeCoerceEnum(['pan', 'lens', 'slide', 'bring'] as const, 'pan'),
   lensRadius: z.preprocess(
     (val) => {
       if (val === undefined || val === null || val === '') return 80
@@ -403,6 +506,51 @@ const explorerSearchSchema = z.object({
     },
     z.number().min(20).max(300).default(80),
   ),
+  lensShape: safeCoerceEnum(['circle', 'rect', 'band'] as const, 'circle'),
+  lensEffect: safeCoerceEnum(['bend', 'fisheye'] as const, 'bend'),
+  lenses: safeCoerceStringArray(),
+  playbackSpeed: z.preprocess(
+    (val) => normalizePlaybackSpeed(val ?? 1),
+    z.number().default(1),
+  ),
+  playbackLoop: safeCoerceBoolean(true),
+  uncertaintyMode: safeCoerceEnum(['none', 'band', 'range'] as const, 'none'),
+  unreliableStyle: safeCoerceEnum(['none', 'hatch', 'fade'] as const, 'hatch'),
+  cvThreshold: z.preprocess(
+    (val) => {
+      if (val === undefined || val === null || val === '') return DEFAULT_CV_THRESHOLD
+      const num = typeof val === 'string' ? Number.parseFloat(val) : Number(val)
+      if (Number.isNaN(num)) return DEFAULT_CV_THRESHOLD
+      return Math.max(0.05, Math.min(1, num))
+    },
+    z.number().min(0.05).max(1).default(DEFAULT_CV_THRESHOLD),
+  ),
+  hideUnreliable: safeCoerceBoolean(false),
+  flowMode: safeCoerceEnum(['raw', 'net', 'gross', 'efficiency'] as const, DEFAULT_FLOW_MODE),
+  doiInsets: safeCoerceBoolean(true),
+  geoMap: safeCoerceBoolean(false),
+  renderer: safeCoerceEnum(['auto', 'svg', 'canvas'] as const, 'auto'),
+  multiplesFacet: safeCoerceEnum(['year', 'edgeType'] as const, 'year'),
+  multiplesYears: safeCoerceStringArray(),
+  compare: safeCoerceBoolean(false),
+  compareYear: safeCoerceNumber(),
+  compareDataset: safeCoerceNullableString(),
+  comparePercent: safeCoerceBoolean(true),
+  aggregate: safeCoerceEnum(['none', 'window', 'rolling', 'growth'] as const, 'none'),
+  aggregateStat: safeCoerceEnum(['sum', 'mean', 'median'] as const, 'sum'),
+  aggregateStart: safeCoerceNumber(),
+  aggregateEnd: safeCoerceNumber(),
+  aggregateWindow: safeCoerceNumber(3),
+  doiFunction: safeCoerceEnum(['sum', 'max', 'log', 'count'] as const, DEFAULT_DOI_PRESET),
+  doiMaxInsets: z.preprocess(
+    (val) => {
+      if (val === undefined || val === null || val === '') return 5
+      const num = typeof val === 'string' ? Number.parseInt(val, 10) : Number(val)
+      if (Number.isNaN(num)) return 5
+      return Math.max(1, Math.min(10, Math.round(num)))
+    },
+    z.number().min(1).max(10).default(5),
+  ),
   edgeSegmentLength: safeCoerceNumber(8),
   edgeSegmentGap: safeCoerceNumber(4),
   edgeSegmentAnimate: safeCoerceBoolean(false),
@@ -440,6 +588,8 @@ const explorerSearchSchema = z.object({
   ),
   nodeFilterAttribute: safeCoerceNullableString(),
   nodeFilterValues: safeCoerceStringArray(),
+  groupBy: safeCoerceNullableString(),
+  collapsedGroups: safeCoerceStringArray(),
 })
 
 export type ExplorerSearchParams = z.infer<typeof explorerSearchSchema>
@@ -457,7 +607,7 @@ export const Route = createFileRoute('/explorer')({
     // If validation fails, try to extract valid values and use defaults for invalid ones
     // This prevents the page from crashing on invalid search params
     const safeView = typeof search.view === 'string' && 
-      ['kriskogram', 'table', 'sankey', 'chord'].includes(search.view)
+      ['kriskogram', 'table', 'sankey', 'chord', 'multiples'].includes(search.view)
       ? search.view as ViewType
       : 'kriskogram'
     
@@ -690,6 +840,27 @@ export const Route = createFileRoute('/explorer')({
       return null
     })()
 
+    const safeGroupBy = (() => {
+      if (typeof search.groupBy === 'string' && search.groupBy !== '') {
+        return search.groupBy
+      }
+      return null
+    })()
+
+    const safeCollapsedGroups = (() => {
+      const raw = search.collapsedGroups
+      if (Array.isArray(raw)) {
+        return raw.map((entry) => (entry == null ? '' : String(entry))).filter((entry) => entry.includes(':'))
+      }
+      if (typeof raw === 'string') {
+        return raw
+          .split(',')
+          .map((entry) => entry.trim())
+          .filter((entry) => entry.includes(':'))
+      }
+      return []
+    })()
+
     const safeNodeFilterValues = (() => {
       const raw = (search as any).nodeFilterValues
       if (Array.isArray(raw)) {
@@ -869,8 +1040,8 @@ export const Route = createFileRoute('/explorer')({
     const safeInteractionMode = (() => {
       if (typeof search.interactionMode === 'string') {
         const lowered = search.interactionMode.toLowerCase()
-        if (lowered === 'pan' || lowered === 'lens') {
-          return lowered as 'pan' | 'lens'
+        if (lowered === 'pan' || lowered === 'lens' || lowered === 'slide' || lowered === 'bring') {
+          return lowered as 'pan' | 'lens' | 'slide' | 'bring'
         }
       }
       return 'pan' as const
@@ -883,6 +1054,183 @@ export const Route = createFileRoute('/explorer')({
       return Math.max(20, Math.min(300, num))
     })()
 
+    const safeLensShape = (() => {
+      if (typeof search.lensShape === 'string') {
+        const lowered = search.lensShape.toLowerCase()
+        if (LENS_SHAPES.includes(lowered as LensShape)) return lowered as LensShape
+      }
+      return 'circle' as const
+    })()
+
+    const safeLensEffect = (() => {
+      if (typeof search.lensEffect === 'string') {
+        const lowered = search.lensEffect.toLowerCase()
+        if (LENS_EFFECTS.includes(lowered as LensEffect)) return lowered as LensEffect
+      }
+      return 'bend' as const
+    })()
+
+    const safeLenses = (() => {
+      const raw = search.lenses
+      if (Array.isArray(raw)) {
+        return raw.map((entry) => (entry == null ? '' : String(entry))).filter((entry) => decodeLens(entry) !== null)
+      }
+      if (typeof raw === 'string') {
+        return raw
+          .split(',')
+          .map((entry) => entry.trim())
+          .filter((entry) => decodeLens(entry) !== null)
+      }
+      return []
+    })()
+
+    const safePlaybackLoop = (() => {
+      if (typeof search.playbackLoop === 'boolean') return search.playbackLoop
+      if (typeof search.playbackLoop === 'string') {
+        return search.playbackLoop.toLowerCase() !== 'false'
+      }
+      return true
+    })()
+
+    const safeUncertaintyMode = (() => {
+      if (typeof search.uncertaintyMode === 'string') {
+        const lowered = search.uncertaintyMode.toLowerCase()
+        const match = UNCERTAINTY_MODES.find((mode) => mode === lowered)
+        if (match) return match
+      }
+      return 'none' as const
+    })()
+
+    const safeUnreliableStyle = (() => {
+      if (typeof search.unreliableStyle === 'string') {
+        const lowered = search.unreliableStyle.toLowerCase()
+        const match = UNRELIABLE_FLOW_STYLES.find((style) => style === lowered)
+        if (match) return match
+      }
+      return 'hatch' as const
+    })()
+
+    const safeCvThreshold = (() => {
+      if (search.cvThreshold === undefined || search.cvThreshold === null || search.cvThreshold === '') return DEFAULT_CV_THRESHOLD
+      const num = typeof search.cvThreshold === 'string' ? Number.parseFloat(search.cvThreshold) : Number(search.cvThreshold)
+      if (Number.isNaN(num)) return DEFAULT_CV_THRESHOLD
+      return Math.max(0.05, Math.min(1, num))
+    })()
+
+    const safeHideUnreliable = (() => {
+      if (typeof search.hideUnreliable === 'boolean') return search.hideUnreliable
+      if (typeof search.hideUnreliable === 'string') {
+        return search.hideUnreliable.toLowerCase() === 'true'
+      }
+      return false
+    })()
+
+    const safeFlowMode = (() => {
+      if (typeof search.flowMode === 'string') {
+        const lowered = search.flowMode.toLowerCase()
+        if (isFlowMode(lowered)) return lowered
+      }
+      return DEFAULT_FLOW_MODE
+    })()
+
+    const safeRenderer = (() => {
+      if (typeof search.renderer === 'string') {
+        const lowered = search.renderer.toLowerCase()
+        if (isKriskogramRendererOption(lowered)) return lowered
+      }
+      return 'auto' as const
+    })()
+
+    const safeMultiplesFacet = (() => {
+      if (typeof search.multiplesFacet === 'string' && isSmallMultiplesFacet(search.multiplesFacet)) {
+        return search.multiplesFacet
+      }
+      return 'year' as const
+    })()
+
+    const safeMultiplesYears = (() => {
+      const raw = search.multiplesYears
+      const entries: unknown[] = Array.isArray(raw) ? raw : typeof raw === 'string' ? raw.split(',') : []
+      return entries
+        .map((entry) => (entry == null ? '' : String(entry).trim()))
+        .filter((entry) => entry !== '' && !Number.isNaN(Number(entry)))
+    })()
+
+    const safeCompare = (() => {
+      if (typeof search.compare === 'boolean') return search.compare
+      if (typeof search.compare === 'string') return search.compare.toLowerCase() === 'true'
+      return false
+    })()
+
+    const safeCompareYear = (() => {
+      if (search.compareYear === undefined || search.compareYear === null || search.compareYear === '') return undefined
+      const num = typeof search.compareYear === 'string' ? Number.parseFloat(search.compareYear) : Number(search.compareYear)
+      return Number.isNaN(num) ? undefined : num
+    })()
+
+    const safeCompareDataset = (() => {
+      if (typeof search.compareDataset === 'string' && search.compareDataset !== '') return search.compareDataset
+      return null
+    })()
+
+    const safeComparePercent = (() => {
+      if (typeof search.comparePercent === 'boolean') return search.comparePercent
+      if (typeof search.comparePercent === 'string') return search.comparePercent.toLowerCase() !== 'false'
+      return true
+    })()
+
+    const safeAggregate = (() => {
+      if (typeof search.aggregate === 'string' && isTimeAggregation(search.aggregate)) return search.aggregate
+      return 'none' as const
+    })()
+
+    const safeAggregateStat = (() => {
+      if (typeof search.aggregateStat === 'string' && isAggregateStat(search.aggregateStat)) return search.aggregateStat
+      return 'sum' as const
+    })()
+
+    const safeAggregateYear = (value: unknown) => {
+      if (value === undefined || value === null || value === '') return undefined
+      const num = typeof value === 'string' ? Number.parseInt(value, 10) : Number(value)
+      return Number.isNaN(num) ? undefined : num
+    }
+
+    const safeAggregateWindow = (() => {
+      const num = safeAggregateYear(search.aggregateWindow)
+      return num === undefined ? 3 : Math.max(1, num)
+    })()
+
+    const safeGeoMap = (() => {
+      if (typeof search.geoMap === 'boolean') return search.geoMap
+      if (typeof search.geoMap === 'string') {
+        return search.geoMap.toLowerCase() === 'true'
+      }
+      return false
+    })()
+
+    const safeDoiInsets = (() => {
+      if (typeof search.doiInsets === 'boolean') return search.doiInsets
+      if (typeof search.doiInsets === 'string') {
+        return search.doiInsets.toLowerCase() !== 'false'
+      }
+      return true
+    })()
+
+    const safeDoiFunction = (() => {
+      if (typeof search.doiFunction === 'string') {
+        const lowered = search.doiFunction.toLowerCase()
+        if (lowered in DOI_PRESETS) return lowered as DoiPreset
+      }
+      return DEFAULT_DOI_PRESET
+    })()
+
+    const safeDoiMaxInsets = (() => {
+      if (search.doiMaxInsets === undefined || search.doiMaxInsets === null || search.doiMaxInsets === '') return 5
+      const num = typeof search.doiMaxInsets === 'string' ? Number.parseInt(search.doiMaxInsets, 10) : Number(search.doiMaxInsets)
+      if (Number.isNaN(num)) return 5
+      return Math.max(1, Math.min(10, Math.round(num)))
+    })()
+
     return {
       dataset: typeof search.dataset === 'string' ? search.dataset : undefined,
       view: safeView,
@@ -921,6 +1269,8 @@ export const Route = createFileRoute('/explorer')({
       edgeSegmentCap: safeEdgeSegmentCap,
       edgeOutlineGap: safeEdgeOutlineGap,
       nodeFilterAttribute: safeNodeFilterAttribute,
+      groupBy: safeGroupBy,
+      collapsedGroups: safeCollapsedGroups,
       nodeFilterValues: safeNodeFilterValues,
       nodeOrderMode: safeNodeOrderMode,
       arcOpacity: safeArcOpacity,
@@ -942,6 +1292,32 @@ export const Route = createFileRoute('/explorer')({
       nodeSizeMultiplier: safeNodeSizeMultiplier,
       interactionMode: safeInteractionMode,
       lensRadius: safeLensRadius,
+      lensShape: safeLensShape,
+      lensEffect: safeLensEffect,
+      lenses: safeLenses,
+      playbackSpeed: normalizePlaybackSpeed(search.playbackSpeed ?? 1),
+      playbackLoop: safePlaybackLoop,
+      uncertaintyMode: safeUncertaintyMode,
+      unreliableStyle: safeUnreliableStyle,
+      cvThreshold: safeCvThreshold,
+      hideUnreliable: safeHideUnreliable,
+      flowMode: safeFlowMode,
+      doiInsets: safeDoiInsets,
+      doiFunction: safeDoiFunction,
+      doiMaxInsets: safeDoiMaxInsets,
+      geoMap: safeGeoMap,
+      renderer: safeRenderer,
+      multiplesFacet: safeMultiplesFacet,
+      multiplesYears: safeMultiplesYears,
+      compare: safeCompare,
+      compareYear: safeCompareYear,
+      compareDataset: safeCompareDataset,
+      comparePercent: safeComparePercent,
+      aggregate: safeAggregate,
+      aggregateStat: safeAggregateStat,
+      aggregateStart: safeAggregateYear(search.aggregateStart),
+      aggregateEnd: safeAggregateYear(search.aggregateEnd),
+      aggregateWindow: safeAggregateWindow,
     }
   },
   search: {
@@ -961,6 +1337,7 @@ function ExplorerPage() {
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [refreshKey, setRefreshKey] = useState(0) // Force refresh counter
+  const [datasetListVersion, setDatasetListVersion] = useState(0) // Remounts the dataset list after saving from here
   const [minThreshold, setMinThreshold] = useState(search.minThreshold ?? 0)
   const [maxThreshold, setMaxThreshold] = useState(search.maxThreshold ?? 200000)
   const [maxEdges, setMaxEdges] = useState(search.maxEdges ?? 500)
@@ -1013,6 +1390,8 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
   const [temporalOverlayColorFutureText, setTemporalOverlayColorFutureText] = useState<string>(temporalOverlayColorFuture)
   const [nodeFilterAttribute, setNodeFilterAttribute] = useState<string | null>(search.nodeFilterAttribute ?? null)
   const [nodeFilterValues, setNodeFilterValues] = useState<string[]>(search.nodeFilterValues ?? [])
+  const [groupBy, setGroupBy] = useState<string | null>(search.groupBy ?? null)
+  const [collapsedGroups, setCollapsedGroups] = useState<string[]>(search.collapsedGroups ?? [])
   const krRef = useRef<KriskogramRef>(null)
   
   // Sidebar state for right panel
@@ -1032,6 +1411,7 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
         }
       >
         <DatasetSidebar 
+          key={datasetListVersion}
           selectedId={selectedId} 
           onSelect={(id) => {
             setSelectedId(id)
@@ -1046,7 +1426,7 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
       setSidebarContent(null)
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [selectedId, refreshKey])
+  }, [selectedId, refreshKey, datasetListVersion])
 
   // Update window size on resize
   useEffect(() => {
@@ -1118,9 +1498,51 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
   const [nodeSizeMultiplier, setNodeSizeMultiplier] = useState<number>(
     Math.max(0.1, search.nodeSizeMultiplier ?? 1),
   )
-  const [interactionMode, setInteractionMode] = useState<'pan' | 'lens'>(search.interactionMode ?? 'pan')
+  const [interactionMode, setInteractionMode] = useState<'pan' | 'lens' | 'slide' | 'bring'>(search.interactionMode ?? 'pan')
   const [lensRadius, setLensRadius] = useState(search.lensRadius ?? 80)
   const [lensPos, setLensPos] = useState<{ x: number; y: number }>({ x: 0, y: 0 })
+  const [lensShape, setLensShape] = useState<LensShape>(search.lensShape ?? 'circle')
+  const [lensEffect, setLensEffect] = useState<LensEffect>(search.lensEffect ?? 'bend')
+  const [pinnedLenses, setPinnedLenses] = useState<KriskogramLens[]>(() =>
+    (search.lenses ?? []).map(decodeLens).filter((lens): lens is KriskogramLens => lens !== null),
+  )
+  const cursorLens = useMemo<KriskogramLens | undefined>(
+    () =>
+      interactionMode === 'lens'
+        ? { enabled: true, x: lensPos.x, y: lensPos.y, radius: lensRadius, shape: lensShape, effect: lensEffect }
+        : undefined,
+    [interactionMode, lensPos, lensRadius, lensShape, lensEffect],
+  )
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [recordingTransitionMs, setRecordingTransitionMs] = useState<number | null>(null)
+  const [playbackSpeed, setPlaybackSpeed] = useState<number>(normalizePlaybackSpeed(search.playbackSpeed ?? 1))
+  const [playbackLoop, setPlaybackLoop] = useState<boolean>(search.playbackLoop ?? true)
+  const [uncertaintyMode, setUncertaintyMode] = useState<UncertaintyMode>(search.uncertaintyMode ?? 'none')
+  const [unreliableStyle, setUnreliableStyle] = useState<UnreliableFlowStyle>(search.unreliableStyle ?? 'hatch')
+  const [cvThreshold, setCvThreshold] = useState<number>(search.cvThreshold ?? DEFAULT_CV_THRESHOLD)
+  const [hideUnreliable, setHideUnreliable] = useState<boolean>(search.hideUnreliable ?? false)
+  const [flowMode, setFlowMode] = useState<FlowMode>(search.flowMode ?? DEFAULT_FLOW_MODE)
+  const [doiInsets, setDoiInsets] = useState<boolean>(search.doiInsets ?? true)
+  const [geoMap, setGeoMap] = useState<boolean>(search.geoMap ?? false)
+  const [renderer, setRenderer] = useState<KriskogramRendererOption>(search.renderer ?? 'auto')
+  const [multiplesFacet, setMultiplesFacet] = useState<SmallMultiplesFacet>(search.multiplesFacet ?? 'year')
+  const [multiplesYears, setMultiplesYears] = useState<string[]>(search.multiplesYears ?? [])
+  const [compareEnabled, setCompareEnabled] = useState<boolean>(search.compare ?? false)
+  const [compareYear, setCompareYear] = useState<number | undefined>(search.compareYear)
+  const [compareDatasetId, setCompareDatasetId] = useState<string | null>(search.compareDataset ?? null)
+  const [comparePercent, setComparePercent] = useState<boolean>(search.comparePercent ?? true)
+  const [timeAggregation, setTimeAggregation] = useState<TimeAggregation>(search.aggregate ?? 'none')
+  const [aggregateStat, setAggregateStat] = useState<AggregateStat>(search.aggregateStat ?? 'sum')
+  const [aggregateStart, setAggregateStart] = useState<number | undefined>(search.aggregateStart)
+  const [aggregateEnd, setAggregateEnd] = useState<number | undefined>(search.aggregateEnd)
+  const [aggregateWindow, setAggregateWindow] = useState<number>(search.aggregateWindow ?? 3)
+  const [hoveredNodeId, setHoveredNodeId] = useState<string | null>(null)
+  const [doiFunction, setDoiFunction] = useState<DoiPreset>(search.doiFunction ?? DEFAULT_DOI_PRESET)
+  const [doiMaxInsets, setDoiMaxInsets] = useState<number>(search.doiMaxInsets ?? 5)
+  const offscreenInsets = useMemo(
+    () => ({ enabled: doiInsets, doi: DOI_PRESETS[doiFunction].fn, maxPerSide: doiMaxInsets }),
+    [doiInsets, doiFunction, doiMaxInsets],
+  )
   
   // Function to update search params when state changes
   // Uses functional update pattern - TanStack Router will merge with current search params
@@ -1225,14 +1647,136 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
       .finally(() => setLoading(false))
   }, [selectedId, refreshKey, search.year]) // Include refreshKey to force reload
 
+  // Node grouping: collapsed groups become super-nodes in every snapshot, so the
+  // statistics, filters and views below all work on the grouped network
+  const nodeGroupLevels = useMemo(
+    () => nodeGroupingLevels(groupBy, dataset?.metadata?.hasCategoricalProperties.nodes ?? []),
+    [groupBy, dataset],
+  )
+  const edgeTypeProperty = useMemo(() => {
+    if (!dataset?.metadata) return null
+    // Look for common edge type properties
+    const possibleProps = ['migration_type', 'type', 'category', 'edge_type']
+    return (
+      possibleProps.find(
+        (p) =>
+          dataset.metadata?.edgeProperties.includes(p) || dataset.metadata?.hasCategoricalProperties.edges.includes(p),
+      ) ?? null
+    )
+  }, [dataset])
+  const groupedSnapshots = useMemo(() => {
+    if (!dataset) return []
+    if (nodeGroupLevels.length === 0 || collapsedGroups.length === 0) return dataset.snapshots
+    return dataset.snapshots.map((snapshot) => {
+      const grouped = collapseNodeGroups(snapshot.nodes, snapshot.edges, {
+        levels: nodeGroupLevels,
+        collapsed: collapsedGroups,
+        separateBy: edgeTypeProperty ? [edgeTypeProperty] : [],
+      })
+      return { ...snapshot, nodes: grouped.nodes, edges: grouped.edges }
+    })
+  }, [dataset, nodeGroupLevels, collapsedGroups, edgeTypeProperty])
+  // Derived snapshots (windows, rolling windows, yearly change) stand in for the stored ones in every view
+  const deriveOptions = useMemo<DeriveOptions | null>(() => {
+    if (!dataset || timeAggregation === 'none') return null
+    const { start, end } = dataset.timeRange
+    return {
+      mode: timeAggregation,
+      stat: aggregateStat,
+      start: aggregateStart ?? Math.max(start, end - 4),
+      end: aggregateEnd ?? end,
+      window: aggregateWindow,
+      keyBy: edgeTypeProperty ? [edgeTypeProperty] : [],
+    }
+  }, [dataset, timeAggregation, aggregateStat, aggregateStart, aggregateEnd, aggregateWindow, edgeTypeProperty])
+  const derivedSnapshots = useMemo(
+    () => (deriveOptions ? deriveSnapshots(groupedSnapshots, deriveOptions) : null),
+    [groupedSnapshots, deriveOptions],
+  )
+  const viewSnapshots: StoredSnapshot[] = derivedSnapshots ?? groupedSnapshots
+  // A fixed window is one snapshot, stamped with its last year, so the year follows the window
+  const windowYear = timeAggregation === 'window' ? derivedSnapshots?.[0]?.timestamp : undefined
+  useEffect(() => {
+    if (windowYear === undefined || windowYear === currentYear) return
+    setCurrentYear(windowYear)
+    updateSearchParams({ year: windowYear })
+  }, [windowYear, currentYear, updateSearchParams])
+  const currentDerivedSnapshot = useMemo(
+    () => derivedSnapshots?.find((snapshot) => snapshot.timestamp === currentYear) ?? null,
+    [derivedSnapshots, currentYear],
+  )
+
+  const [savingDerived, setSavingDerived] = useState(false)
+  // Saves what the aggregation shows, from the stored (ungrouped) snapshots, as a dataset of its own
+  const saveDerivedDataset = async () => {
+    if (!dataset || !deriveOptions) return
+    const derived = deriveSnapshots(dataset.snapshots, deriveOptions) ?? []
+    if (derived.length === 0) return
+    setSavingDerived(true)
+    try {
+      const snapshots: StoredSnapshot[] = derived.map(({ timestamp, nodes, edges }) => ({ timestamp, nodes, edges }))
+      const years = snapshots.map((snapshot) => snapshot.timestamp)
+      const skipped = [...new Set(derived.flatMap((snapshot) => snapshot.missingYears))].sort((a, b) => a - b)
+      const description = describeDerivation(deriveOptions)
+      const stored: StoredDataset = {
+        id: `manual-${Date.now()}`,
+        name: `${dataset.name} (${description})`,
+        type: 'manual',
+        notes: [
+          `Derived from ${dataset.name}: ${description}.`,
+          skipped.length > 0 ? `No snapshot for ${skipped.join(', ')}; those years were left out.` : '',
+        ]
+          .filter(Boolean)
+          .join(' '),
+        timeRange: { start: Math.min(...years), end: Math.max(...years) },
+        snapshots,
+        metadata: detectDatasetProperties(snapshots[0]),
+        createdAt: Date.now(),
+      }
+      await saveDataset(stored)
+      setTimeAggregation('none')
+      setSelectedId(stored.id)
+      setDatasetListVersion((prev) => prev + 1)
+      updateSearchParams({ dataset: stored.id, aggregate: 'none' })
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to save the derived dataset')
+    } finally {
+      setSavingDerived(false)
+    }
+  }
+  const nodeGroupTree = useMemo(() => {
+    if (!dataset || nodeGroupLevels.length === 0) return []
+    const nodesById = new Map<string, (typeof dataset.snapshots)[number]['nodes'][number]>()
+    for (const snapshot of dataset.snapshots) {
+      for (const node of snapshot.nodes) nodesById.set(node.id, node)
+    }
+    return buildNodeGroupTree(Array.from(nodesById.values()), nodeGroupLevels)
+  }, [dataset, nodeGroupLevels])
+  // Every group, collapsed or not, so the chart knows which nodes merge into which
+  const chartNodeGroups = useMemo(() => {
+    const groups: Array<{ id: string; members: string[] }> = []
+    const visit = (entries: NodeGroupTreeEntry[]) => {
+      for (const entry of entries) {
+        groups.push({ id: nodeGroupId(entry.key), members: entry.members })
+        visit(entry.children)
+      }
+    }
+    visit(nodeGroupTree)
+    return groups.length > 0 ? groups : undefined
+  }, [nodeGroupTree])
+  const updateCollapsedGroups = (next: string[]) => {
+    setCollapsedGroups(next)
+    updateSearchParams({ collapsedGroups: next })
+  }
+
   const currentSnapshot: KriskogramSnapshot | undefined = useMemo(() => {
     if (!dataset || currentYear === undefined) return undefined
     // Find snapshot matching the year (handle both number and string timestamps)
-    return dataset.snapshots.find(s => {
+    return viewSnapshots.find(s => {
       const ts = typeof s.timestamp === 'string' ? parseInt(s.timestamp, 10) : s.timestamp
       return ts === currentYear
     }) as any
-  }, [dataset, currentYear])
+  }, [dataset, viewSnapshots, currentYear])
 
   const nodeFilterValueOptions = useMemo(() => {
     if (!currentSnapshot || !nodeFilterAttribute) return []
@@ -1260,14 +1804,16 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
   const snapshotByYear = useMemo(() => {
     if (!dataset) return new Map<number, KriskogramSnapshot>()
     const map = new Map<number, KriskogramSnapshot>()
-    dataset.snapshots.forEach((snapshot: any) => {
+    for (const snapshot of viewSnapshots) {
       const ts = typeof snapshot.timestamp === 'string' ? parseInt(snapshot.timestamp, 10) : snapshot.timestamp
       if (Number.isFinite(ts)) {
         map.set(ts, snapshot)
       }
-    })
+    }
     return map
-  }, [dataset])
+  }, [dataset, viewSnapshots])
+
+  const playbackYears = useMemo(() => getPlaybackYears(snapshotByYear.keys()), [snapshotByYear])
 
   const datasetEdgeStats = useMemo(() => {
     if (!dataset) return null
@@ -1279,7 +1825,7 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
     let count = 0
     const values: number[] = []
 
-    dataset.snapshots.forEach((snapshot: any) => {
+    for (const snapshot of viewSnapshots) {
       const edges = Array.isArray(snapshot?.edges) ? (snapshot.edges as any[]) : []
       let nonSelfCount = 0
       edges.forEach((edge: any) => {
@@ -1298,7 +1844,7 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
       if (nonSelfCount > maxEdgesCount) {
         maxEdgesCount = nonSelfCount
       }
-    })
+    }
 
     if (min === Infinity || max === -Infinity) {
       return {
@@ -1319,7 +1865,7 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
       mean: count > 0 ? mean : 0,
       median: count > 0 ? median : 0,
     }
-  }, [dataset])
+  }, [dataset, viewSnapshots])
 
   const datasetNodeNetStats = useMemo(() => {
     if (!dataset) return null
@@ -1329,7 +1875,7 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
     let maxAbs = 0
     const absValues: number[] = []
 
-    dataset.snapshots.forEach((snapshot: any) => {
+    for (const snapshot of viewSnapshots) {
       const incoming = new Map<string, number>()
       const outgoing = new Map<string, number>()
 
@@ -1351,7 +1897,7 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
         if (abs > maxAbs) maxAbs = abs
         absValues.push(abs)
       })
-    })
+    }
 
     if (minNet === Infinity || maxNet === -Infinity) {
       return { min: 0, max: 0, maxAbs: 0, meanAbs: 0, medianAbs: 0 }
@@ -1360,7 +1906,7 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
     const { mean, median } = summarizeValues(absValues)
 
     return { min: minNet, max: maxNet, maxAbs, meanAbs: mean, medianAbs: median }
-  }, [dataset])
+  }, [dataset, viewSnapshots])
 
   const datasetNodeYearFlowStats = useMemo(() => {
     if (!dataset) return null
@@ -1370,7 +1916,7 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
     const incomingTotals: number[] = []
     const outgoingTotals: number[] = []
 
-    dataset.snapshots.forEach((snapshot: any) => {
+    for (const snapshot of viewSnapshots) {
       const incoming = new Map<string, number>()
       const outgoing = new Map<string, number>()
 
@@ -1392,7 +1938,7 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
         incomingTotals.push(totalIn)
         outgoingTotals.push(totalOut)
       })
-    })
+    }
 
     const incomingStats = summarizeValues(incomingTotals)
     const outgoingStats = summarizeValues(outgoingTotals)
@@ -1405,7 +1951,7 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
       medianIncoming: incomingTotals.length > 0 ? incomingStats.median : 0,
       medianOutgoing: outgoingTotals.length > 0 ? outgoingStats.median : 0,
     }
-  }, [dataset])
+  }, [dataset, viewSnapshots])
 
   const datasetNodeSelfFlowStats = useMemo(() => {
     if (!dataset) return null
@@ -1413,7 +1959,7 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
     let maxSelf = 0
     const values: number[] = []
 
-    dataset.snapshots.forEach((snapshot: any) => {
+    for (const snapshot of viewSnapshots) {
       const edges = Array.isArray(snapshot?.edges) ? (snapshot.edges as any[]) : []
       const totals = new Map<string, number>()
       edges.forEach((edge: any) => {
@@ -1428,12 +1974,12 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
         if (total > maxSelf) maxSelf = total
         values.push(total)
       })
-    })
+    }
 
     const stats = summarizeValues(values)
 
     return { max: maxSelf, mean: values.length > 0 ? stats.mean : 0, median: values.length > 0 ? stats.median : 0 }
-  }, [dataset])
+  }, [dataset, viewSnapshots])
 
   const datasetNodeAttributeStats = useMemo(() => {
     if (!dataset?.metadata) return new Map<string, { min: number; max: number; mean: number; median: number }>()
@@ -1443,7 +1989,7 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
     const valueMap = new Map<string, number[]>()
     numericProps.forEach((prop) => valueMap.set(prop, []))
 
-    dataset.snapshots.forEach((snapshot: any) => {
+    for (const snapshot of viewSnapshots) {
       const nodes = Array.isArray(snapshot?.nodes) ? (snapshot.nodes as any[]) : []
       nodes.forEach((node: any) => {
         numericProps.forEach((prop) => {
@@ -1453,7 +1999,7 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
           }
         })
       })
-    })
+    }
 
     const result = new Map<string, { min: number; max: number; mean: number; median: number }>()
     valueMap.forEach((values, prop) => {
@@ -1465,7 +2011,7 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
     })
 
     return result
-  }, [dataset])
+  }, [dataset, viewSnapshots])
 
   // Auto-adjust thresholds to stay within dataset-wide bounds
   useEffect(() => {
@@ -1504,20 +2050,10 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
 
   // Get available edge type property (e.g., migration_type) and values
   const edgeTypeInfo = useMemo(() => {
-    if (!currentSnapshot || !dataset?.metadata) return null
-    
-    // Look for common edge type properties
-    const possibleProps = ['migration_type', 'type', 'category', 'edge_type']
-    const prop = possibleProps.find(p => 
-      dataset.metadata?.edgeProperties.includes(p) ||
-      dataset.metadata?.hasCategoricalProperties.edges.includes(p)
-    )
-    
-    if (!prop) return null
-    
-    const values = getUniqueEdgePropertyValues(currentSnapshot.edges, prop)
-    return { property: prop, values: values.map(v => String(v)) }
-  }, [currentSnapshot, dataset])
+    if (!currentSnapshot || !edgeTypeProperty) return null
+    const values = getUniqueEdgePropertyValues(currentSnapshot.edges, edgeTypeProperty)
+    return { property: edgeTypeProperty, values: values.map(v => String(v)) }
+  }, [currentSnapshot, edgeTypeProperty])
 
   // Reset edge type filter when dataset changes
   useEffect(() => {
@@ -1540,711 +2076,236 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
   }, [currentSnapshot, egoNodeId, egoStepColoring, updateSearchParams])
 
   // Calculate filtered edges and nodes
-  const filteredData = useMemo(() => {
-    if (!dataset || !currentSnapshot) {
-      return {
-        nodes: [],
-        edges: [],
-        baseEdges: [],
-        overlayEdges: [],
-        egoStepMax: 0,
-        overlayMeta: { hasPast: false, hasFuture: false, maxDelta: 0 },
-      }
-    }
-
-    const currentYearValue = typeof currentYear === 'number' ? currentYear : null
-
-    const attributeFilterActive = Boolean(nodeFilterAttribute && nodeFilterValues.length > 0)
-    const filterValuesSet = new Set(nodeFilterValues.map((value) => String(value)))
-    const snapshotNodesAll = currentSnapshot.nodes as any[]
-    const attributeFilteredNodes = attributeFilterActive
-      ? snapshotNodesAll.filter((node: any) => {
-          const nodesAttributeValue = node?.[nodeFilterAttribute as string]
-          if (nodesAttributeValue === undefined || nodesAttributeValue === null) return false
-          const valueKey = String(nodesAttributeValue)
-          return filterValuesSet.has(valueKey)
-        })
-      : snapshotNodesAll
-    const allowedNodeIds = new Set(attributeFilteredNodes.map((node: any) => node.id))
+  // Filtering and node statistics run in a worker that holds the snapshots between requests
+  const [pipeline, setPipeline] = useState<ExplorerPipeline | null>(null)
+  useEffect(() => {
+    const next = createExplorerPipeline(viewSnapshots)
+    setPipeline(next)
+    return () => next.dispose()
+  }, [viewSnapshots])
 
-    if (allowedNodeIds.size === 0) {
-      return {
-        nodes: [],
-        baseEdges: [],
-        edges: [],
-        currentEdgeCount: 0,
-        egoStepMax: 0,
-        temporalOverlay: null,
-      }
+  const pipelineParams = useMemo<ExplorerPipelineParams | null>(() => {
+    if (!dataset || typeof currentYear !== 'number') return null
+    return {
+      year: currentYear,
+      multiYear: dataset.timeRange.start !== dataset.timeRange.end,
+      viewType,
+      nodeFilterAttribute,
+      nodeFilterValues,
+      edgeTypeProperty: edgeTypeInfo?.property ?? null,
+      edgeTypeFilter,
+      intraFilter,
+      hideUnreliable,
+      cvThreshold,
+      flowMode,
+      minThreshold,
+      maxThreshold,
+      maxEdges,
+      showAllNodes,
+      egoNodeId,
+      egoNeighborSteps,
+      temporalOverlayEnabled,
+      temporalOverlayEdgeStyle,
+      temporalOverlayYearsPast,
+      temporalOverlayYearsFuture,
+      temporalOverlayColorPast,
+      temporalOverlayColorMid,
+      temporalOverlayColorFuture,
+      temporalOverlayCurrentBlack,
+      edgeSegmentLength,
+      edgeSegmentGap,
+      edgeSegmentOffset,
+      edgeSegmentSpeed,
+      edgeSegmentScaleByWeight,
+      edgeSegmentCap,
+      edgeSegmentAnimate,
+      edgeOutlineGap,
     }
+  }, [
+    dataset,
+    currentYear,
+    viewType,
+    nodeFilterAttribute,
+    nodeFilterValues,
+    edgeTypeInfo,
+    edgeTypeFilter,
+    intraFilter,
+    hideUnreliable,
+    cvThreshold,
+    flowMode,
+    minThreshold,
+    maxThreshold,
+    maxEdges,
+    showAllNodes,
+    egoNodeId,
+    egoNeighborSteps,
+    temporalOverlayEnabled,
+    temporalOverlayEdgeStyle,
+    temporalOverlayYearsPast,
+    temporalOverlayYearsFuture,
+    temporalOverlayColorPast,
+    temporalOverlayColorMid,
+    temporalOverlayColorFuture,
+    temporalOverlayCurrentBlack,
+    edgeSegmentLength,
+    edgeSegmentGap,
+    edgeSegmentOffset,
+    edgeSegmentSpeed,
+    edgeSegmentScaleByWeight,
+    edgeSegmentCap,
+    edgeSegmentAnimate,
+    edgeOutlineGap,
+  ])
 
-    const yearsPast = Math.max(0, Math.round(temporalOverlayYearsPast))
-    const yearsFuture = Math.max(0, Math.round(temporalOverlayYearsFuture))
-
-    const computeEgoReachability = (edgesList: Array<any>) => {
-      const allowedEdges = new Set<number>()
-      const edgeSteps = new Map<number, number>()
-      const nodeSteps = new Map<string, number>()
-      let maxStep = 0
-
-      if (!(viewType === 'kriskogram' && egoNodeId)) {
-        edgesList.forEach((_, idx) => allowedEdges.add(idx))
-        return { allowedEdges, edgeSteps, nodeSteps, maxStep }
-      }
-
-      const normalizedSteps = Math.max(1, Math.round(egoNeighborSteps))
-      let frontier = new Set<string>([egoNodeId])
-      nodeSteps.set(egoNodeId, 0)
-      const visitedNodes = new Set(frontier)
-
-      for (let step = 1; step <= normalizedSteps && frontier.size > 0; step += 1) {
-        const nextFrontier = new Set<string>()
-
-        edgesList.forEach((edge, idx) => {
-          const source = edge?.source
-          const target = edge?.target
-          if (!source || !target) {
-            return
-          }
-          if (frontier.has(source) || frontier.has(target)) {
-            allowedEdges.add(idx)
-            const existingEdgeStep = edgeSteps.get(idx)
-            if (existingEdgeStep === undefined || step < existingEdgeStep) {
-              edgeSteps.set(idx, step)
-            }
-            const updateNode = (nodeId: string) => {
-              const prev = nodeSteps.get(nodeId)
-              if (prev === undefined || step < prev) {
-                nodeSteps.set(nodeId, step)
-              }
-              if (!visitedNodes.has(nodeId)) {
-                visitedNodes.add(nodeId)
-                nextFrontier.add(nodeId)
-              }
-            }
-            updateNode(source)
-            updateNode(target)
-          }
-        })
-
-        frontier = nextFrontier
-      }
-
-      nodeSteps.forEach((step) => {
-        if (step > maxStep) {
-          maxStep = step
-        }
-      })
-
-      if (!nodeSteps.has(egoNodeId)) {
-        nodeSteps.set(egoNodeId, 0)
-      }
-
-      return { allowedEdges, edgeSteps, nodeSteps, maxStep }
+  // The previous result stays on screen until the new one arrives; superseded requests are cancelled
+  const [filteredData, setFilteredData] = useState<ExplorerData>(EMPTY_EXPLORER_DATA)
+  useEffect(() => {
+    if (!pipeline || !pipelineParams) {
+      setFilteredData(EMPTY_EXPLORER_DATA)
+      return
     }
+    const request = pipeline.compute(pipelineParams)
+    request.promise.then(setFilteredData).catch((error) => {
+      console.error('[Explorer] Failed to filter data:', error)
+    })
+    return request.cancel
+  }, [pipeline, pipelineParams])
+
+  // Small multiples: an empty year selection falls back to the first, middle and last year
+  const multiplesPanelYears = useMemo(() => {
+    const selected = multiplesYears.map(Number).filter((year) => playbackYears.includes(year))
+    return selected.length > 0 ? selected : defaultPanelYears(playbackYears)
+  }, [multiplesYears, playbackYears])
+
+  const multiplesPanels = useMemo(() => {
+    if (viewType !== 'multiples' || !pipelineParams) return []
+    return smallMultiplePanels(pipelineParams, multiplesFacet, {
+      years: multiplesPanelYears,
+      edgeTypeProperty: edgeTypeInfo?.property ?? null,
+      edgeTypeValues: edgeTypeInfo?.values ?? [],
+    })
+  }, [viewType, pipelineParams, multiplesFacet, multiplesPanelYears, edgeTypeInfo])
 
-    const expandHexColor = (value: string) => {
-      const lower = typeof value === 'string' ? value.trim().toLowerCase() : ''
-      if (/^#([0-9a-f]{3}|[0-9a-f]{6})$/.test(lower)) {
-        if (lower.length === 4) {
-          return `#${lower[1]}${lower[1]}${lower[2]}${lower[2]}${lower[3]}${lower[3]}`
-        }
-        return lower
-      }
-      return '#000000'
+  const [multiplesData, setMultiplesData] = useState<SmallMultiplesPanelData[]>([])
+  const [multiplesLoading, setMultiplesLoading] = useState(false)
+  useEffect(() => {
+    if (!pipeline || multiplesPanels.length === 0) {
+      setMultiplesData([])
+      setMultiplesLoading(false)
+      return
     }
+    setMultiplesLoading(true)
+    const request = pipeline.computeMany(multiplesPanels.map((panel) => panel.params))
+    request.promise
+      .then((results) => {
+        setMultiplesData(multiplesPanels.map((panel, index) => ({ key: panel.key, label: panel.label, data: results[index] })))
+        setMultiplesLoading(false)
+      })
+      .catch((error) => {
+        console.error('[Explorer] Failed to compute small multiples:', error)
+        setMultiplesLoading(false)
+      })
+    return request.cancel
+  }, [pipeline, multiplesPanels])
 
-    const overlayColorPast = expandHexColor(temporalOverlayColorPast)
-    const overlayColorMid = expandHexColor(temporalOverlayColorMid)
-    const overlayColorFuture = expandHexColor(temporalOverlayColorFuture)
-    const overlayCurrentColor = temporalOverlayCurrentBlack ? '#000000' : overlayColorMid
-
-    const hexToRgb = (hex: string) => {
-      const normalized = expandHexColor(hex).slice(1)
-      const intVal = parseInt(normalized, 16)
-      if (Number.isNaN(intVal) || normalized.length !== 6) {
-        return { r: 0, g: 0, b: 0 }
-      }
-      return {
-        r: (intVal >> 16) & 255,
-        g: (intVal >> 8) & 255,
-        b: intVal & 255,
-      }
+  // Compare mode diffs the year on screen against a baseline year, from this dataset or
+  // from another one that shares its node ids
+  const compareActive = compareEnabled && viewType === 'kriskogram'
+  const [compareDatasetOptions, setCompareDatasetOptions] = useState<Array<{ id: string; name: string }>>([])
+  useEffect(() => {
+    if (!compareActive) return
+    let active = true
+    getAllDatasets()
+      .then((all) => {
+        if (active) setCompareDatasetOptions(all.map((entry) => ({ id: entry.id, name: entry.name })))
+      })
+      .catch((error) => console.error('[Explorer] Failed to list datasets to compare:', error))
+    return () => {
+      active = false
     }
+  }, [compareActive])
 
-    const componentToHex = (value: number) => {
-      const clamped = Math.max(0, Math.min(255, Math.round(value)))
-      return clamped.toString(16).padStart(2, '0')
+  const compareAgainstOther = Boolean(compareDatasetId && compareDatasetId !== selectedId)
+  const [compareDataset, setCompareDataset] = useState<StoredDataset | undefined>(undefined)
+  useEffect(() => {
+    if (!compareActive || !compareAgainstOther || !compareDatasetId) {
+      setCompareDataset(undefined)
+      return
     }
-
-    const rgbToHex = (r: number, g: number, b: number) => `#${componentToHex(r)}${componentToHex(g)}${componentToHex(b)}`
-
-    const mixColors = (colorA: string, colorB: string, t: number) => {
-      const clamped = Math.max(0, Math.min(1, t))
-      const a = hexToRgb(colorA)
-      const b = hexToRgb(colorB)
-      const r = a.r + (b.r - a.r) * clamped
-      const g = a.g + (b.g - a.g) * clamped
-      const bl = a.b + (b.b - a.b) * clamped
-      return rgbToHex(r, g, bl)
+    let active = true
+    getDataset(compareDatasetId)
+      .then((loaded) => {
+        if (active) setCompareDataset(loaded)
+      })
+      .catch((error) => console.error('[Explorer] Failed to load the comparison dataset:', error))
+    return () => {
+      active = false
     }
+  }, [compareActive, compareAgainstOther, compareDatasetId])
 
-    const getOverlayColorForDelta = (delta: number) => {
-      if (delta === 0) {
-        return overlayCurrentColor
-      }
-      if (delta < 0) {
-        if (yearsPast === 0) return overlayColorMid
-        const closeness = Math.max(0, Math.min(1, Math.abs(delta) / Math.max(yearsPast, 1)))
-        const t = 1 - closeness
-        return mixColors(overlayColorPast, overlayColorMid, t)
-      }
-      if (yearsFuture === 0) return overlayColorMid
-      const closeness = Math.max(0, Math.min(1, delta / Math.max(yearsFuture, 1)))
-      return mixColors(overlayColorMid, overlayColorFuture, closeness)
+  const [comparePipeline, setComparePipeline] = useState<ExplorerPipeline | null>(null)
+  useEffect(() => {
+    if (!compareDataset) {
+      setComparePipeline(null)
+      return
     }
-
-    const totalIncomingAll = new Map<string, number>()
-    const totalOutgoingAll = new Map<string, number>()
-    const totalSelfFlowAll = new Map<string, number>()
-    ;(currentSnapshot.edges as any[]).forEach((edge: any) => {
-      if (!allowedNodeIds.has(edge.source) || !allowedNodeIds.has(edge.target)) {
+    const next = createExplorerPipeline(compareDataset.snapshots)
+    setComparePipeline(next)
+    return () => next.dispose()
+  }, [compareDataset])
+
+  const compareYears = useMemo(() => {
+    const snapshots = compareAgainstOther ? (compareDataset?.snapshots ?? []) : viewSnapshots
+    const years = snapshots.map((snapshot) => Number(snapshot.timestamp)).filter((year) => Number.isFinite(year))
+    return [...new Set(years)].sort((a, b) => a - b)
+  }, [compareAgainstOther, compareDataset, viewSnapshots])
+
+  // Without a saved baseline, another dataset is compared at the same year and this one against its first year
+  const compareBaselineYear = useMemo(() => {
+    if (typeof compareYear === 'number' && compareYears.includes(compareYear)) return compareYear
+    if (compareAgainstOther && typeof currentYear === 'number' && compareYears.includes(currentYear)) return currentYear
+    return compareYears.find((year) => year !== currentYear) ?? compareYears[0] ?? null
+  }, [compareYear, compareYears, compareAgainstOther, currentYear])
+
+  const [compareData, setCompareData] = useState<SnapshotDiff | null>(null)
+  useEffect(() => {
+    if (!compareActive || !pipeline || !pipelineParams || typeof currentYear !== 'number' || compareBaselineYear === null) {
+      setCompareData(null)
+      return
+    }
+    const beforeParams = comparisonParams(pipelineParams, compareBaselineYear)
+    const afterParams = comparisonParams(pipelineParams, currentYear)
+    let requests: Array<{ promise: Promise<ExplorerData[]>; cancel: () => void }>
+    if (compareAgainstOther) {
+      if (!comparePipeline) {
+        setCompareData(null)
         return
       }
-      const outgoing = totalOutgoingAll.get(edge.source) || 0
-      totalOutgoingAll.set(edge.source, outgoing + edge.value)
-
-      const incoming = totalIncomingAll.get(edge.target) || 0
-      totalIncomingAll.set(edge.target, incoming + edge.value)
-
-      if (edge.source === edge.target) {
-        const currentSelf = totalSelfFlowAll.get(edge.source) || 0
-        totalSelfFlowAll.set(edge.source, currentSelf + edge.value)
-      }
-    })
-
-    const applyIntraFilter = (edgesList: any[], nodesList: any[]) => {
-      if (intraFilter === 'none') return edgesList
-      const idToNode = new Map<string, any>(nodesList.map((n: any) => [n.id, n]))
-      return edgesList.filter((edge: any) => {
-        const s = idToNode.get(edge.source)
-        const t = idToNode.get(edge.target)
-        if (!s || !t) return false
-        if (intraFilter === 'region') return s.region && t.region && s.region === t.region
-        if (intraFilter === 'division') return s.division && t.division && s.division === t.division
-        if (intraFilter === 'interRegion') return s.region && t.region && s.region !== t.region
-        if (intraFilter === 'interDivision') return s.division && t.division && s.division !== t.division
-        return true
-      })
-    }
-
-    let edgesToFilter = filterEdgesByProperty(
-      currentSnapshot.edges as any[],
-      edgeTypeInfo?.property || '',
-      edgeTypeFilter,
-    )
-
-    edgesToFilter = edgesToFilter.filter((edge: any) => allowedNodeIds.has(edge.source) && allowedNodeIds.has(edge.target))
-    edgesToFilter = applyIntraFilter(edgesToFilter, attributeFilteredNodes)
-    edgesToFilter = edgesToFilter.filter((edge: any) => edge?.source !== edge?.target)
-
-    const filteredEdgesBase = edgesToFilter
-      .filter((e: any) => e.value >= minThreshold && e.value <= maxThreshold)
-      .sort((a: any, b: any) => b.value - a.value)
-      .slice(0, maxEdges)
-
-    const filteredEdgeInfos = filteredEdgesBase.map((edge: any, idx: number) => ({ edge, idx }))
-    const {
-      allowedEdges: allowedCurrentEdges,
-      edgeSteps: currentEdgeSteps,
-      maxStep: currentMaxStep,
-    } = computeEgoReachability(filteredEdgesBase)
-
-    let visibleEdgeInfos = filteredEdgeInfos
-    if (allowedCurrentEdges.size !== filteredEdgeInfos.length) {
-      visibleEdgeInfos = filteredEdgeInfos.filter(({ idx }) => allowedCurrentEdges.has(idx))
-    }
-
-    let maxEgoStepUsed = currentMaxStep
-
-    const currentEdgeStyle = temporalOverlayEdgeStyle
-    const currentDashArray =
-      temporalOverlayEdgeStyle === 'segmented'
-        ? `${Math.max(1, edgeSegmentLength)} ${Math.max(0.5, edgeSegmentGap)}`
-        : null
-    const currentDashOffset = temporalOverlayEdgeStyle === 'segmented' ? Math.max(0, edgeSegmentOffset) : 0
-    const currentLineCap = temporalOverlayEdgeStyle === 'segmented' ? edgeSegmentCap : 'round'
-    const visibleEdgesCurrent = visibleEdgeInfos.map(({ edge, idx }) => {
-      const step = currentEdgeSteps.get(idx)
-      const decorated: any = {
-        ...edge,
-        __isOverlay: false,
-        __displayYear: currentYearValue,
-        __temporalDelta: 0,
-        _overlayType: undefined,
-        _overlayYear: currentYearValue,
-        __overlayStyle: currentEdgeStyle,
-        __overlayDash: currentDashArray,
-        __overlayDashOffset: currentDashOffset,
-        __overlayLineCap: currentLineCap,
-        __segmentInitialGap: temporalOverlayEdgeStyle === 'segmented' ? Math.max(0, edgeSegmentOffset) : 0,
-        __segmentSpeed: Math.max(0.1, edgeSegmentSpeed),
-        __segmentScaleByWeight: temporalOverlayEdgeStyle === 'segmented' && edgeSegmentScaleByWeight,
-        __segmentCycle:
-          temporalOverlayEdgeStyle === 'segmented' ? Math.max(1, edgeSegmentLength + edgeSegmentGap) : 0,
-        __segmentAnimate: temporalOverlayEdgeStyle === 'segmented' && edgeSegmentAnimate,
-        __outlineGap: edgeOutlineGap,
-      }
-      if (step !== undefined) {
-        decorated._egoStep = step
-      }
-      return decorated
-    })
-
-    const activeNodeIds = new Set<string>()
-    visibleEdgesCurrent.forEach((e: any) => {
-      activeNodeIds.add(e.source)
-      activeNodeIds.add(e.target)
-    })
-
-    if (egoNodeId) {
-      activeNodeIds.add(egoNodeId)
-    }
-
-    const nodeIncoming = new Map<string, number>()
-    const nodeOutgoing = new Map<string, number>()
-
-    visibleEdgesCurrent.forEach((e: any) => {
-      const outgoing = nodeOutgoing.get(e.source) || 0
-      nodeOutgoing.set(e.source, outgoing + e.value)
-
-      const incoming = nodeIncoming.get(e.target) || 0
-      nodeIncoming.set(e.target, incoming + e.value)
-    })
-
-    const overlayEdges: any[] = []
-    const overlayPastTotals = new Map<string, number>()
-    const overlayFutureTotals = new Map<string, number>()
-    let overlayNodeAbsMax = 0
-    let overlayHasPast = false
-    let overlayHasFuture = false
-
-    type TemporalStatsMutable = {
-      year: number
-      totalIncoming: number
-      totalOutgoing: number
-      visibleIncoming: number
-      visibleOutgoing: number
-    }
-
-    const nodeTemporalDetails = new Map<string, Map<number, TemporalStatsMutable>>()
-
-    const ensureTemporalStats = (nodeId: string, year: number | null | undefined) => {
-      if (typeof year !== 'number' || !Number.isFinite(year)) {
-        return null
-      }
-      let byYear = nodeTemporalDetails.get(nodeId)
-      if (!byYear) {
-        byYear = new Map<number, TemporalStatsMutable>()
-        nodeTemporalDetails.set(nodeId, byYear)
-      }
-      let stats = byYear.get(year)
-      if (!stats) {
-        stats = {
-          year,
-          totalIncoming: 0,
-          totalOutgoing: 0,
-          visibleIncoming: 0,
-          visibleOutgoing: 0,
-        }
-        byYear.set(year, stats)
-      }
-      return stats
-    }
-
-    const yearToSnapshot = new Map<number, any>()
-    if (dataset) {
-      dataset.snapshots.forEach((snap: any) => {
-        const ts = typeof snap.timestamp === 'string' ? parseInt(snap.timestamp, 10) : snap.timestamp
-        if (Number.isFinite(ts)) {
-          yearToSnapshot.set(ts, snap)
-        }
-      })
-    }
-
-    if (temporalOverlayEnabled && dataset && typeof currentYear === 'number' && dataset.timeRange.start !== dataset.timeRange.end) {
-      const addOverlayForOffset = (offset: number) => {
-        if (offset === 0) return
-        if (offset < 0 && yearsPast === 0) return
-        if (offset > 0 && yearsFuture === 0) return
-
-        const targetYear = currentYear + offset
-        const snapshot = yearToSnapshot.get(targetYear)
-        if (!snapshot) return
-
-        const rawEdges = Array.isArray(snapshot.edges) ? (snapshot.edges as any[]) : []
-        let overlayAllowedNodeIds: Set<string> | null = null
-        if (attributeFilterActive) {
-          overlayAllowedNodeIds = new Set(
-            (snapshot.nodes as any[])
-              .filter((node: any) => {
-                const nodeValue = node?.[nodeFilterAttribute as string]
-                if (nodeValue === undefined || nodeValue === null) return false
-                return filterValuesSet.has(String(nodeValue))
-              })
-              .map((node: any) => node.id),
-          )
-          if (overlayAllowedNodeIds.size === 0) {
-            return
-          }
-        }
-
-        let edgesForSnapshot = filterEdgesByProperty(
-          rawEdges,
-          edgeTypeInfo?.property || '',
-          edgeTypeFilter,
-        )
-
-        if (intraFilter !== 'none') {
-          const idToNode = new Map<string, any>((snapshot.nodes as any[]).map((n: any) => [n.id, n]))
-          if (intraFilter === 'region') {
-            edgesForSnapshot = edgesForSnapshot.filter((e: any) => {
-              const s = idToNode.get(e.source)
-              const t = idToNode.get(e.target)
-              return s && t && s.region && t.region && s.region === t.region
-            })
-          } else if (intraFilter === 'division') {
-            edgesForSnapshot = edgesForSnapshot.filter((e: any) => {
-              const s = idToNode.get(e.source)
-              const t = idToNode.get(e.target)
-              return s && t && s.division && t.division && s.division === t.division
-            })
-          } else if (intraFilter === 'interRegion') {
-            edgesForSnapshot = edgesForSnapshot.filter((e: any) => {
-              const s = idToNode.get(e.source)
-              const t = idToNode.get(e.target)
-              return s && t && s.region && t.region && s.region !== t.region
-            })
-          } else if (intraFilter === 'interDivision') {
-            edgesForSnapshot = edgesForSnapshot.filter((e: any) => {
-              const s = idToNode.get(e.source)
-              const t = idToNode.get(e.target)
-              return s && t && s.division && t.division && s.division !== t.division
-            })
-          }
-        }
-
-        if (overlayAllowedNodeIds) {
-          edgesForSnapshot = edgesForSnapshot.filter(
-            (e: any) => overlayAllowedNodeIds!.has(e.source) && overlayAllowedNodeIds!.has(e.target),
-          )
-        }
-
-        const overlayDashArray =
-          temporalOverlayEdgeStyle === 'segmented'
-            ? `${Math.max(1, edgeSegmentLength)} ${Math.max(0.5, edgeSegmentGap)}`
-            : null
-        const overlayDashOffset = temporalOverlayEdgeStyle === 'segmented' ? Math.max(0, edgeSegmentOffset) : 0
-        const overlayLineCap = temporalOverlayEdgeStyle === 'segmented' ? edgeSegmentCap : 'round'
-
-        const overlayBase = edgesForSnapshot
-          .filter((e: any) => e.value >= minThreshold && e.value <= maxThreshold)
-          .sort((a: any, b: any) => b.value - a.value)
-          .slice(0, maxEdges)
-
-        edgesForSnapshot.forEach((edge: any) => {
-          const sourceId = edge?.source
-          const targetId = edge?.target
-          const weight = Number(edge?.value ?? 0)
-          if (!sourceId || !targetId || !Number.isFinite(weight)) return
-          const sourceStats = ensureTemporalStats(sourceId, targetYear)
-          const targetStats = ensureTemporalStats(targetId, targetYear)
-          if (sourceStats) {
-            sourceStats.totalOutgoing += weight
-          }
-          if (targetStats) {
-            targetStats.totalIncoming += weight
-          }
-        })
-
-        const {
-          allowedEdges: overlayAllowedEdges,
-          edgeSteps: overlayEdgeSteps,
-          maxStep: overlayMaxStep,
-        } = computeEgoReachability(overlayBase)
-
-        if (overlayMaxStep > maxEgoStepUsed) {
-          maxEgoStepUsed = overlayMaxStep
-        }
-
-        const overlaySubset = overlayBase
-          .map((edge: any, idx: number) => ({
-            ...edge,
-            _overlayType: offset < 0 ? 'past' : 'future',
-            _overlayYear: targetYear,
-            __isOverlay: true,
-            __displayYear: targetYear,
-            __temporalDelta: offset,
-            __overlayStyle: temporalOverlayEdgeStyle,
-            __overlayDash: overlayDashArray,
-            __overlayDashOffset: overlayDashOffset,
-            __overlayLineCap: overlayLineCap,
-            __segmentInitialGap:
-              temporalOverlayEdgeStyle === 'segmented' ? Math.max(0, edgeSegmentOffset) : 0,
-            __segmentCycle:
-              temporalOverlayEdgeStyle === 'segmented' ? Math.max(1, edgeSegmentLength + edgeSegmentGap) : 0,
-            __segmentAnimate: temporalOverlayEdgeStyle === 'segmented' && edgeSegmentAnimate,
-            __segmentSpeed: Math.max(0.1, edgeSegmentSpeed),
-            __segmentScaleByWeight: temporalOverlayEdgeStyle === 'segmented' && edgeSegmentScaleByWeight,
-            __outlineGap: edgeOutlineGap,
-            _egoStep: (() => {
-              const step = overlayEdgeSteps.get(idx)
-              if (step === undefined) return undefined
-              return Math.max(1, step)
-            })(),
-          }))
-          .filter((_, idx) => overlayAllowedEdges.has(idx))
-
-        overlaySubset.forEach((edge: any) => {
-          overlayEdges.push(edge)
-          const sourceStats = ensureTemporalStats(edge.source, targetYear)
-          const targetStats = ensureTemporalStats(edge.target, targetYear)
-          const weight = Number(edge?.value ?? 0)
-          if (sourceStats && Number.isFinite(weight)) {
-            sourceStats.visibleOutgoing += weight
-          }
-          if (targetStats && Number.isFinite(weight)) {
-            targetStats.visibleIncoming += weight
-          }
-          if (edge._overlayType === 'past') {
-            overlayHasPast = true
-            const out = overlayPastTotals.get(edge.source) || 0
-            overlayPastTotals.set(edge.source, out + edge.value)
-            const inn = overlayPastTotals.get(edge.target) || 0
-            overlayPastTotals.set(edge.target, inn + edge.value)
-          } else {
-            overlayHasFuture = true
-            const out = overlayFutureTotals.get(edge.source) || 0
-            overlayFutureTotals.set(edge.source, out + edge.value)
-            const inn = overlayFutureTotals.get(edge.target) || 0
-            overlayFutureTotals.set(edge.target, inn + edge.value)
-          }
-        })
-      }
-
-      for (let offset = -yearsPast; offset < 0; offset += 1) {
-        addOverlayForOffset(offset)
-      }
-      for (let offset = 1; offset <= yearsFuture; offset += 1) {
-        addOverlayForOffset(offset)
-      }
-    }
-
-    if (overlayEdges.length > 0) {
-      overlayEdges.forEach((edge: any) => {
-        activeNodeIds.add(edge.source)
-        activeNodeIds.add(edge.target)
-      })
-    }
-
-    const keepAllNodes = viewType === 'kriskogram' && showAllNodes
-
-    if (
-      !keepAllNodes &&
-      process.env.NODE_ENV !== 'production' &&
-      maxEdges < (currentSnapshot.edges as any[]).length
-    ) {
-      const hiddenNodes = attributeFilteredNodes
-        .filter((n: any) => !activeNodeIds.has(n.id))
-        .map((n: any) => n.label || n.id)
-
-      if (hiddenNodes.length > 0) {
-        console.info(
-          `[Explorer] ${hiddenNodes.length} nodes currently lack visible edges after filtering (maxEdges=${maxEdges}, thresholds=${minThreshold}-${maxThreshold}).`,
-          hiddenNodes.slice(0, 10),
-        )
-      }
+      requests = [comparePipeline.computeMany([beforeParams]), pipeline.computeMany([afterParams])]
+    } else {
+      requests = [pipeline.computeMany([beforeParams, afterParams])]
     }
-
-    const baseNodes = keepAllNodes
-      ? attributeFilteredNodes
-      : attributeFilteredNodes.filter((n: any) => activeNodeIds.has(n.id))
-
-    const nodesWithDynamicAttrs = baseNodes.map((n: any) => {
-      const visibleIncoming = nodeIncoming.get(n.id) || 0
-      const visibleOutgoing = nodeOutgoing.get(n.id) || 0
-      const totalIncomingYear = totalIncomingAll.get(n.id) || 0
-      const totalOutgoingYear = totalOutgoingAll.get(n.id) || 0
-      const netVisible = visibleIncoming - visibleOutgoing
-      const netYear = totalIncomingYear - totalOutgoingYear
-      const selfFlowYear = totalSelfFlowAll.get(n.id) || 0
-      const overlayPast = overlayPastTotals.get(n.id) || 0
-      const overlayFuture = overlayFutureTotals.get(n.id) || 0
-      const overlayDelta = overlayFuture - overlayPast
-      if (Math.abs(overlayDelta) > overlayNodeAbsMax) {
-        overlayNodeAbsMax = Math.abs(overlayDelta)
-      }
-
-      const currentStats =
-        currentYearValue !== null ? ensureTemporalStats(n.id, currentYearValue) : null
-      if (currentStats) {
-        currentStats.totalIncoming = totalIncomingYear
-        currentStats.totalOutgoing = totalOutgoingYear
-        currentStats.visibleIncoming = visibleIncoming
-        currentStats.visibleOutgoing = visibleOutgoing
-      }
-
-      const temporalDetailMap = nodeTemporalDetails.get(n.id)
-      const temporalDetails = temporalDetailMap
-        ? Array.from(temporalDetailMap.values())
-            .map((stat) => ({
-              year: stat.year,
-              total_incoming: stat.totalIncoming,
-              total_outgoing: stat.totalOutgoing,
-              visible_incoming: stat.visibleIncoming,
-              visible_outgoing: stat.visibleOutgoing,
-              net_total: stat.totalIncoming - stat.totalOutgoing,
-              net_visible: stat.visibleIncoming - stat.visibleOutgoing,
-              is_current:
-                currentYearValue !== null ? stat.year === currentYearValue : false,
-            }))
-            .sort((a, b) => a.year - b.year)
-        : []
-
-      return {
-        ...n,
-        _totalIncoming: visibleIncoming,
-        _totalOutgoing: visibleOutgoing,
-        total_incoming_visible: visibleIncoming,
-        total_outgoing_visible: visibleOutgoing,
-        total_incoming_year: totalIncomingYear,
-        total_outgoing_year: totalOutgoingYear,
-        net_flow_visible: netVisible,
-        net_flow_year: netYear,
-        self_flow_year: selfFlowYear,
-        temporal_overlay_past_total: overlayPast,
-        temporal_overlay_future_total: overlayFuture,
-        temporal_overlay_delta: overlayDelta,
-        _overlayPastTotal: overlayPast,
-        _overlayFutureTotal: overlayFuture,
-        _overlayDelta: overlayDelta,
-        temporal_details: temporalDetails,
-      }
-    })
-
-    if (temporalOverlayEnabled) {
-      nodesWithDynamicAttrs.forEach((node: any) => {
-        const delta = node._overlayDelta ?? node.temporal_overlay_delta ?? 0
-        const ratio = overlayNodeAbsMax > 0 ? Math.max(0, Math.min(1, Math.abs(delta) / overlayNodeAbsMax)) : 0
-        node._overlayStrokeWidth = delta === 0 ? 2 : 1.5 + ratio * 3
-        node._overlayStrokeColor = getOverlayColorForDelta(delta)
+    Promise.all(requests.map((request) => request.promise))
+      .then((results) => {
+        const [before, after] = results.flat()
+        setCompareData(diffSnapshots(before, after))
       })
-    } else {
-      nodesWithDynamicAttrs.forEach((node: any) => {
-        node._overlayStrokeWidth = 2
-        node._overlayStrokeColor = '#fff'
+      .catch((error) => {
+        console.error('[Explorer] Failed to compare snapshots:', error)
       })
+    return () => {
+      for (const request of requests) request.cancel()
     }
+  }, [compareActive, pipeline, comparePipeline, compareAgainstOther, pipelineParams, currentYear, compareBaselineYear])
 
-    const temporalOverlaySummary = temporalOverlayEnabled
-      ? {
-          hasPast: overlayHasPast,
-          hasFuture: overlayHasFuture,
-          nodeDeltaAbsMax: overlayNodeAbsMax,
-          style: temporalOverlayEdgeStyle,
-          edgeSegmentLength,
-          edgeSegmentGap,
-          edgeSegmentOffset,
-           edgeSegmentSpeed,
-           edgeSegmentScaleByWeight,
-          edgeSegmentCap,
-          edgeSegmentAnimate,
-          edgeOutlineGap,
-           yearsPast,
-           yearsFuture,
-           colorCurrent: overlayCurrentColor,
-           colorPast: overlayColorPast,
-           colorMid: overlayColorMid,
-           colorFuture: overlayColorFuture,
-           useBlackForCurrent: temporalOverlayCurrentBlack,
-          legendEntries: (() => {
-            const entries: Array<{ label: string; color: string; delta: number }> = []
-             const makeLabel = (offset: number) => {
-               if (typeof currentYear === 'number') {
-                 const yearLabel = currentYear + offset
-                 if (offset === 0) return `${yearLabel} (current)`
-                 const suffix = Math.abs(offset) === 1 ? 'year' : 'years'
-                 if (offset < 0) {
-                   return `${yearLabel} (${Math.abs(offset)} ${suffix} past)`
-                 }
-                 return `${yearLabel} (${offset} ${suffix} future)`
-               }
-               if (offset === 0) return 'Current year'
-               const suffix = Math.abs(offset) === 1 ? 'year' : 'years'
-               if (offset < 0) {
-                 return `${Math.abs(offset)} ${suffix} past`
-               }
-               return `${offset} ${suffix} future`
-             }
-
-            entries.push({ label: makeLabel(0), color: overlayCurrentColor, delta: 0 })
-             for (let offset = -yearsPast; offset < 0; offset += 1) {
-              entries.push({ label: makeLabel(offset), color: getOverlayColorForDelta(offset), delta: offset })
-             }
-             for (let offset = 1; offset <= yearsFuture; offset += 1) {
-              entries.push({ label: makeLabel(offset), color: getOverlayColorForDelta(offset), delta: offset })
-             }
-             return entries
-           })(),
-        }
-      : null
-
-    const combinedEdges = temporalOverlayEnabled && overlayEdges.length > 0
-      ? [...visibleEdgesCurrent, ...overlayEdges]
-      : visibleEdgesCurrent
-
-    return {
-      nodes: nodesWithDynamicAttrs,
-      baseEdges: visibleEdgesCurrent,
-      edges: combinedEdges,
-      currentEdgeCount: visibleEdgesCurrent.length,
-      egoStepMax: maxEgoStepUsed,
-      temporalOverlay: temporalOverlaySummary,
-    }
-  }, [
-    currentSnapshot,
-    minThreshold,
-    maxThreshold,
-    maxEdges,
-    edgeTypeFilter,
-    edgeTypeInfo,
-    intraFilter,
-    showAllNodes,
-    viewType,
-    egoNodeId,
-    egoNeighborSteps,
-    edgeWeightScale,
-    temporalOverlayEnabled,
-    temporalOverlayEdgeStyle,
-    temporalOverlayNodeStyle,
-    temporalOverlayYearsPast,
-    temporalOverlayYearsFuture,
-    temporalOverlayColorPast,
-    temporalOverlayColorMid,
-    temporalOverlayColorFuture,
-    temporalOverlayCurrentBlack,
-    edgeSegmentLength,
-    edgeSegmentGap,
-    edgeSegmentOffset,
-    edgeSegmentSpeed,
-    edgeSegmentScaleByWeight,
-    edgeSegmentCap,
-    edgeSegmentAnimate,
-    edgeOutlineGap,
-    nodeFilterAttribute,
-    nodeFilterValues,
-    dataset,
-  ])
+  // Thresholds and the edge cap apply to the size of each change
+  const compareView = useMemo(() => {
+    if (!compareData) return null
+    const edges = filterFlowChanges(compareData.edges, { minThreshold, maxThreshold, maxEdges })
+    if (showAllNodes) return { nodes: compareData.nodes, edges }
+    const endpoints = new Set(edges.flatMap((edge) => [edge.source, edge.target]))
+    return { nodes: compareData.nodes.filter((node) => endpoints.has(node.id)), edges }
+  }, [compareData, minThreshold, maxThreshold, maxEdges, showAllNodes])
 
   // Calculate statistics
   const stats = useMemo(() => {
@@ -2289,6 +2350,42 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
   const hasDivisionData = useMemo(() => {
     return filteredData.nodes.some((n: any) => n && n.division)
   }, [filteredData])
+  // Checked on the unfiltered snapshot so hiding unreliable flows cannot hide the controls
+  const hasMoeData = useMemo(() => {
+    return (currentSnapshot?.edges ?? []).some((e) => getFlowMoe(e) !== null)
+  }, [currentSnapshot])
+  const kriskogramUncertainty = useMemo(
+    () => (hasMoeData ? { mode: uncertaintyMode, cvThreshold, unreliableStyle } : undefined),
+    [hasMoeData, uncertaintyMode, cvThreshold, unreliableStyle],
+  )
+  const kriskogramEdgeStyle = useMemo<KriskogramEdgeStyle>(() => {
+    if (temporalOverlayEdgeStyle === 'segmented') {
+      return {
+        type: 'segmented',
+        length: edgeSegmentLength,
+        gap: edgeSegmentGap,
+        offset: edgeSegmentOffset,
+        speed: edgeSegmentSpeed,
+        cap: edgeSegmentCap,
+        scaleByWeight: edgeSegmentScaleByWeight,
+        animate: edgeSegmentAnimate,
+      }
+    }
+    if (temporalOverlayEdgeStyle === 'outline') {
+      return { type: 'outline', width: edgeOutlineGap }
+    }
+    return { type: 'filled' }
+  }, [
+    temporalOverlayEdgeStyle,
+    edgeSegmentLength,
+    edgeSegmentGap,
+    edgeSegmentOffset,
+    edgeSegmentSpeed,
+    edgeSegmentCap,
+    edgeSegmentScaleByWeight,
+    edgeSegmentAnimate,
+    edgeOutlineGap,
+  ])
 
   useEffect(() => {
     if (!hasRegionData && edgeColorHue === 'region') {
@@ -2308,10 +2405,12 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
 
   // Update visualization when filtered data changes (only for kriskogram view)
   useEffect(() => {
+    // During playback the Kriskogram tweens each frame itself with the playback duration
+    if (isPlaying) return
     if (viewType === 'kriskogram' && filteredData.nodes.length > 0 && krRef.current) {
       krRef.current.updateData(filteredData.nodes, filteredData.edges)
     }
-  }, [filteredData, viewType])
+  }, [filteredData, viewType, isPlaying])
 
   const handleYearChange = (year: number) => {
     setCurrentYear(year)
@@ -2319,6 +2418,54 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
       updateSearchParams({ year })
     }
   }
+
+  const togglePlayback = () => {
+    if (isPlaying) {
+      setIsPlaying(false)
+      return
+    }
+    if (playbackYears.length < 2) return
+    const lastYear = playbackYears[playbackYears.length - 1]
+    if (typeof currentYear !== 'number' || currentYear >= lastYear) {
+      setCurrentYear(playbackYears[0])
+    }
+    setIsPlaying(true)
+  }
+
+  const stepYear = (direction: 1 | -1) => {
+    const next = stepPlaybackYear(playbackYears, currentYear, direction, playbackLoop)
+    if (next !== null) {
+      handleYearChange(next)
+    }
+  }
+
+  // Advance one snapshot per tick; the URL is only synced once playback stops
+  useEffect(() => {
+    if (!isPlaying) return
+    const timer = window.setTimeout(() => {
+      const next = stepPlaybackYear(playbackYears, currentYear, 1, playbackLoop)
+      if (next === null) {
+        setIsPlaying(false)
+        return
+      }
+      setCurrentYear(next)
+    }, getPlaybackInterval(playbackSpeed))
+    return () => window.clearTimeout(timer)
+  }, [isPlaying, currentYear, playbackYears, playbackLoop, playbackSpeed])
+
+  const wasPlaying = useRef(false)
+  useEffect(() => {
+    if (wasPlaying.current && !isPlaying && typeof currentYear === 'number') {
+      updateSearchParams({ year: currentYear })
+    }
+    wasPlaying.current = isPlaying
+  }, [isPlaying, currentYear, updateSearchParams])
+
+  useEffect(() => {
+    if (playbackYears.length < 2) {
+      setIsPlaying(false)
+    }
+  }, [playbackYears])
   
   // Update search params when filters change (only after initial mount)
   useEffect(() => {
@@ -2522,6 +2669,7 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
     | {
         type: 'edgeWidth'
         mode: 'weight' | 'fixed'
+        flowMode?: string
         scale?: 'linear' | 'sqrt' | 'log'
         multiplier?: number
         baseWidth?: number
@@ -2552,6 +2700,74 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
         entries: Array<{ label: string; color: string }>
         interNote?: string
       }
+    | {
+        type: 'uncertainty'
+        mode: UncertaintyMode
+        color?: string
+        cvThreshold?: number
+        unreliableStyle?: UnreliableFlowStyle
+      }
+
+  // Optimised baseline orders are computed off the main thread from the edges on screen
+  const orderingEdges = useMemo(
+    () =>
+      filteredData.baseEdges.map((edge) => ({
+        source: String(edge.source),
+        target: String(edge.target),
+        value: Number(edge.value) || 0,
+      })),
+    [filteredData.baseEdges],
+  )
+  const [nodeOrderings, setNodeOrderings] = useState<NodeOrderingResult[] | null>(null)
+  useEffect(() => {
+    if ((viewType !== 'kriskogram' && viewType !== 'multiples') || filteredData.nodes.length < 3) {
+      setNodeOrderings(null)
+      return
+    }
+    let active = true
+    const run = runNodeOrderings({
+      nodeIds: filteredData.nodes.map((node) => String(node.id)),
+      edges: orderingEdges,
+    })
+    run.promise
+      .then((results) => {
+        if (!active) return
+        // Keep the previous results when nothing moved, so the chart is not rebuilt
+        setNodeOrderings((previous) =>
+          previous &&
+          previous.length === results.length &&
+          previous.every((entry, index) => entry.order.join('\u0000') === results[index].order.join('\u0000'))
+            ? previous
+            : results,
+        )
+      })
+      .catch((error) => {
+        console.warn('⚠️ Failed to compute optimised node orders:', error)
+      })
+    return () => {
+      active = false
+      run.cancel()
+    }
+  }, [viewType, filteredData.nodes, orderingEdges])
+
+  const optimisedOrderIndex = useMemo(() => {
+    if (!isOptimisedOrderMode(nodeOrderMode)) return null
+    const result = nodeOrderings?.find((entry) => entry.mode === nodeOrderMode)
+    return result ? new Map(result.order.map((id, index) => [id, index])) : null
+  }, [nodeOrderMode, nodeOrderings])
+
+  // Geographic orders only need coordinates, so they are cheap enough to compute here.
+  // The index is keyed on the order itself so a new year with the same places keeps it.
+  const geoOrderAvailable = useMemo(() => hasGeoCoordinates(filteredData.nodes), [filteredData.nodes])
+  const geoOrderKey = useMemo(
+    () => (isGeoOrderMode(nodeOrderMode) ? geoOrder(filteredData.nodes, nodeOrderMode).join('\u0000') : null),
+    [nodeOrderMode, filteredData.nodes],
+  )
+  const geoOrderIndex = useMemo(
+    () => (geoOrderKey === null ? null : new Map(geoOrderKey.split('\u0000').map((id, index) => [id, index]))),
+    [geoOrderKey],
+  )
+  const baselineOrderIndex = geoOrderIndex ?? optimisedOrderIndex
 
   const kriskogramConfig = useMemo(() => {
     const emptyAccessors = {
@@ -2570,8 +2786,12 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
     const edgeWeights = filteredData.baseEdges.map((e: any) => e.value);
     const minEdgeWeight = edgeWeights.length > 0 ? Math.min(...edgeWeights) : 0;
     const maxEdgeWeight = edgeWeights.length > 0 ? Math.max(...edgeWeights) : 1;
-    const globalMinEdgeWeight = datasetEdgeStats?.min ?? minEdgeWeight;
-    const globalMaxEdgeWeight = datasetEdgeStats?.max ?? maxEdgeWeight;
+    // Dataset stats describe directional flows; combined pairs span a different range
+    const { min: globalMinEdgeWeight, max: globalMaxEdgeWeight } = flowValueRange(
+      flowMode,
+      datasetEdgeStats?.min ?? minEdgeWeight,
+      datasetEdgeStats?.max ?? maxEdgeWeight,
+    );
     const weightSpan = Math.max(globalMaxEdgeWeight - globalMinEdgeWeight, 0);
 
                               const normalizeEdgeWeight = (value: number) => {
@@ -2615,8 +2835,9 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
                                   }
     };
 
-    const globalEdgeMean = datasetEdgeStats?.mean ?? (globalMinEdgeWeight + globalMaxEdgeWeight) / 2;
-    const globalEdgeMedian = datasetEdgeStats?.median ?? valueForFraction(0.5);
+    const directionalStats = flowMode === 'raw' ? datasetEdgeStats : null;
+    const globalEdgeMean = directionalStats?.mean ?? (globalMinEdgeWeight + globalMaxEdgeWeight) / 2;
+    const globalEdgeMedian = directionalStats?.median ?? valueForFraction(0.5);
 
     const nodeVisibleOutgoingValues = filteredData.nodes.map((n: any) => n.total_outgoing_visible || n._totalOutgoing || 0);
     const nodeVisibleIncomingValues = filteredData.nodes.map((n: any) => n.total_incoming_visible || n._totalIncoming || 0);
@@ -2820,7 +3041,14 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
 
     const accessors = {
                                 nodeOrder: (d: any) => {
-                                  if (nodeOrderMode === 'alphabetical') {
+                                  if (baselineOrderIndex) {
+                                    return baselineOrderIndex.get(String(d.id)) ?? Number.MAX_SAFE_INTEGER
+                                  }
+                                  if (
+                                    nodeOrderMode === 'alphabetical' ||
+                                    isOptimisedOrderMode(nodeOrderMode) ||
+                                    isGeoOrderMode(nodeOrderMode)
+                                  ) {
           return d.label || d.id;
                                   }
         const propValue = d[nodeOrderMode];
@@ -2922,12 +3150,9 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
         return baseColor;
       },
       nodeRadius: computeNodeRadius,
-      edgeWidth: (edge: any) => {
-        const style = edge.__overlayStyle ?? currentEdgeStyle;
-        return computeEdgeWidth(edge.value, style);
-      },
+      edgeWidth: (edge: { value: number }) => computeEdgeWidth(edge.value, currentEdgeStyle),
       edgeColor: (edge: any, isAbove: boolean) => {
-        const temporalDelta = edge?.__temporalDelta;
+        const temporalDelta = edge?._overlayOffset;
         if (overlayActive) {
           if (typeof temporalDelta === 'number') {
             return getOverlayColorForDelta(temporalDelta);
@@ -3149,6 +3374,7 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
         legendItems.push({
           type: 'edgeWidth',
           mode: 'weight',
+          flowMode: flowMode === 'raw' ? undefined : FLOW_MODES.find((entry) => entry.mode === flowMode)?.description,
           scale: edgeWeightScale,
           multiplier: edgeWidthMultiplier,
           min: globalMinEdgeWeight,
@@ -3160,6 +3386,7 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
         legendItems.push({
           type: 'edgeWidth',
           mode: 'fixed',
+          flowMode: flowMode === 'raw' ? undefined : FLOW_MODES.find((entry) => entry.mode === flowMode)?.description,
           baseWidth: width,
           samples: [
             {
@@ -3289,6 +3516,16 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
       entries: nodeLegendEntries,
     });
 
+    if (kriskogramUncertainty && (uncertaintyMode !== 'none' || unreliableStyle !== 'none')) {
+      legendItems.push({
+        type: 'uncertainty',
+        mode: uncertaintyMode,
+        color: '#6b7280',
+        cvThreshold,
+        unreliableStyle,
+      });
+    }
+
     return { accessors, legendItems };
   }, [
     filteredData,
@@ -3315,6 +3552,7 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
     nodeColorAttribute,
     nodeColorMode,
     nodeOrderMode,
+    baselineOrderIndex,
     nodeSizeAttribute,
     nodeSizeMode,
     nodeSizeMultiplier,
@@ -3329,8 +3567,148 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
     temporalOverlayNodeStyle,
     temporalOverlayYearsPast,
     temporalOverlayYearsFuture,
+    kriskogramUncertainty,
+    uncertaintyMode,
+    unreliableStyle,
+    cvThreshold,
+    flowMode,
+  ]);
+
+  // Compare mode keeps the node encodings and sizes arcs by the change, coloured by its direction
+  const compareConfig = useMemo(() => {
+    if (!compareView || typeof currentYear !== 'number' || compareBaselineYear === null) return null
+    const baselineLabel = compareAgainstOther && compareDataset ? `${compareDataset.name} ${compareBaselineYear}` : String(compareBaselineYear);
+    const currentLabel = String(currentYear);
+    const maxChange = compareView.edges.reduce((max, edge) => Math.max(max, edge.value), 0) || 1;
+    const scaleChange = (fraction: number) => {
+      if (edgeWeightScale === 'sqrt') return Math.sqrt(fraction);
+      if (edgeWeightScale === 'log') return Math.log10(1 + 9 * fraction);
+      return fraction;
+    };
+    const accessors: KriskogramAccessors = {
+      ...kriskogramConfig.accessors,
+      edgeWidth: (edge) =>
+        edgeWidthMode === 'weight'
+          ? Math.max(0.25, (0.5 + scaleChange(edge.value / maxChange) * 15) * edgeWidthMultiplier)
+          : baseEdgeWidth,
+      edgeColor: (edge) => FLOW_CHANGE_COLORS[(edge as FlowDiffEdge).change],
+      edgeDash: (edge) => {
+        const { change } = edge as FlowDiffEdge;
+        return change === 'appeared' || change === 'vanished' ? '6 4' : null;
+      },
+      edgeDetails: (edge) => {
+        const diff = edge as FlowDiffEdge;
+        const sign = diff.delta > 0 ? '+' : diff.delta < 0 ? '−' : '';
+        const status = diff.change === 'appeared' ? ' (new flow)' : diff.change === 'vanished' ? ' (flow vanished)' : '';
+        const rows = [
+          { label: 'Change', value: `${sign}${Math.abs(diff.delta).toLocaleString()}${status}` },
+          { label: baselineLabel, value: diff.before.toLocaleString() },
+          { label: currentLabel, value: diff.after.toLocaleString() },
+        ];
+        if (comparePercent) rows.push({ label: 'Percent change', value: formatPercentChange(diff.percentChange) });
+        return rows;
+      },
+    };
+    const legendItems: LegendItemConfig[] = [
+      {
+        type: 'categorical',
+        title: `Change ${baselineLabel} → ${currentLabel}`,
+        entries: [
+          { label: 'Increase', color: FLOW_CHANGE_COLORS.increase },
+          { label: 'Decrease', color: FLOW_CHANGE_COLORS.decrease },
+        ],
+        interNote: 'Dashed: appeared or vanished',
+      },
+    ];
+    return { accessors, legendItems };
+  }, [
+    compareView,
+    currentYear,
+    compareBaselineYear,
+    compareAgainstOther,
+    compareDataset,
+    kriskogramConfig.accessors,
+    edgeWeightScale,
+    edgeWidthMode,
+    edgeWidthMultiplier,
+    baseEdgeWidth,
+    comparePercent,
   ]);
 
+  // The order currently on screen, shared by the crossing comparison and the linked map
+  const currentBaselineOrder = useMemo(() => {
+    const nodeOrder = kriskogramConfig.accessors.nodeOrder
+    return filteredData.nodes
+      .map((node) => ({ id: String(node.id), key: nodeOrder(node) }))
+      .sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0))
+      .map((entry) => entry.id)
+  }, [filteredData.nodes, kriskogramConfig.accessors])
+
+  // Crossings of the order currently on screen, for comparison with the optimised ones.
+  // Counted in the worker too, and only when the order itself changes.
+  const currentOrderKey = useMemo(() => currentBaselineOrder.join('\u0000'), [currentBaselineOrder])
+  const [currentOrderCrossings, setCurrentOrderCrossings] = useState<CrossingStats | null>(null)
+  useEffect(() => {
+    const order = currentOrderKey ? currentOrderKey.split('\u0000') : []
+    if ((viewType !== 'kriskogram' && viewType !== 'multiples') || order.length < 3) {
+      setCurrentOrderCrossings(null)
+      return
+    }
+    let active = true
+    const run = runCrossingStats({ order, edges: orderingEdges })
+    run.promise
+      .then((stats) => {
+        if (active) setCurrentOrderCrossings(stats)
+      })
+      .catch((error) => {
+        console.warn('⚠️ Failed to count crossings of the current order:', error)
+      })
+    return () => {
+      active = false
+      run.cancel()
+    }
+  }, [viewType, currentOrderKey, orderingEdges])
+
+  // Lets the animation exporter wait until a requested year has reached the chart.
+  // The year's data arrives from the pipeline, and child effects run first, so by the
+  // time this fires the Kriskogram has applied it.
+  const pendingYearRef = useRef<{ year: number; resolve: () => void } | null>(null)
+  const shownYearRef = useRef(filteredData.year)
+  shownYearRef.current = filteredData.year
+  useEffect(() => {
+    const pending = pendingYearRef.current
+    if (!pending || pending.year !== filteredData.year) return
+    pendingYearRef.current = null
+    pending.resolve()
+  }, [filteredData.year])
+
+  const handleLinkSlide = (nodeId: string) => {
+    setEgoNodeId(nodeId)
+    updateSearchParams({ egoNodeId: nodeId })
+  }
+
+  // With an ego focus active, Bring & Go moves the focus along with the view
+  const handleBringAndGo = (nodeId: string) => {
+    if (!egoNodeId || egoNodeId === nodeId) return
+    setEgoNodeId(nodeId)
+    updateSearchParams({ egoNodeId: nodeId })
+  }
+
+  const showYearForExport = (year: number) =>
+    new Promise<void>((resolve) => {
+      if (shownYearRef.current === year) {
+        resolve()
+        return
+      }
+      pendingYearRef.current = { year, resolve }
+      setIsPlaying(false)
+      setCurrentYear(year)
+    })
+
+  const kriskogramTransitionMs = isPlaying
+    ? getPlaybackTransitionDuration(playbackSpeed)
+    : recordingTransitionMs ?? (nodeGroupLevels.length > 0 ? NODE_GROUP_TRANSITION_MS : undefined)
+
   return (
     <ErrorBoundary
       fallback={
@@ -3369,20 +3747,73 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
                             </div>
                           }
                         >
-                          <div className="w-full h-full">
+                          <div className="w-full h-full relative">
                             <Kriskogram
                               ref={krRef}
-                              nodes={filteredData.nodes}
-                              edges={filteredData.edges}
+                              nodes={compareView && compareConfig ? compareView.nodes : filteredData.nodes}
+                              edges={compareView && compareConfig ? compareView.edges : filteredData.edges}
                               width={Math.max(800, windowSize.width - (leftSidebarCollapsed ? 64 : leftSidebarWidth) - (rightSidebarCollapsed ? 4 : rightSidebarWidth) - 40)}
                               height={Math.max(600, windowSize.height - 80)}
                               margin={{ top: 60, right: 40, bottom: 60, left: 40 }}
                               arcOpacity={arcOpacity}
                               title={dataset.name}
-                              accessors={kriskogramConfig.accessors}
-                              legend={kriskogramConfig.legendItems.length > 0 ? kriskogramConfig.legendItems : undefined}
+                              accessors={compareConfig?.accessors ?? kriskogramConfig.accessors}
+                              legend={
+                                compareConfig
+                                  ? compareConfig.legendItems
+                                  : kriskogramConfig.legendItems.length > 0
+                                    ? kriskogramConfig.legendItems
+                                    : undefined
+                              }
                               labelScale={labelScale}
+                              uncertainty={kriskogramUncertainty}
+                              overlay={EXPLORER_OVERLAY}
+                              edgeStyle={kriskogramEdgeStyle}
+                              linkSliding={interactionMode === 'slide'}
+                              onLinkSlide={handleLinkSlide}
+                              bringAndGo={interactionMode === 'bring'}
+                              onBringAndGo={handleBringAndGo}
+                              offscreenInsets={offscreenInsets}
+                              onNodeHover={setHoveredNodeId}
+                              highlightedNodeId={hoveredNodeId}
+                              nodeGroups={chartNodeGroups}
+                              renderer={renderer}
+                              lens={cursorLens}
+                              lenses={pinnedLenses}
+                              onMouseMoveInCanvas={interactionMode === 'lens' ? setLensPos : undefined}
+                              onWheelInCanvas={
+                                interactionMode === 'lens'
+                                  ? (deltaY) => {
+                                      const next = Math.max(20, Math.min(300, lensRadius - Math.sign(deltaY) * 10))
+                                      setLensRadius(next)
+                                      updateSearchParams({ lensRadius: next })
+                                    }
+                                  : undefined
+                              }
+                              onClickInCanvas={
+                                interactionMode === 'lens'
+                                  ? (pt) => {
+                                      const next = [
+                                        ...pinnedLenses,
+                                        { x: pt.x, y: pt.y, radius: lensRadius, shape: lensShape, effect: lensEffect },
+                                      ]
+                                      setPinnedLenses(next)
+                                      updateSearchParams({ lenses: next.map(encodeLens) })
+                                    }
+                                  : undefined
+                              }
+                              transitionDuration={kriskogramTransitionMs}
                           />
+                            {geoMap && geoOrderAvailable && (
+                              <div className="absolute top-2 left-2 z-10">
+                                <GeoMapPanel
+                                  nodes={filteredData.nodes}
+                                  order={currentBaselineOrder}
+                                  highlightedNodeId={hoveredNodeId}
+                                  onNodeHover={setHoveredNodeId}
+                                />
+                              </div>
+                            )}
                           </div>
                         </ErrorBoundary>
                       )}
@@ -3419,6 +3850,35 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
                           </div>
                         </ErrorBoundary>
                       )}
+                      {viewType === 'multiples' && (
+                        <ErrorBoundary
+                          fallback={
+                            <div className="p-4 bg-red-50 border border-red-200 rounded-md">
+                              <h3 className="text-lg font-semibold text-red-800 mb-2">Small Multiples Error</h3>
+                              <p className="text-sm text-red-700">The small multiples view encountered an error.</p>
+                            </div>
+                          }
+                        >
+                          <SmallMultiplesView
+                            panels={multiplesData}
+                            accessors={kriskogramConfig.accessors}
+                            width={Math.max(800, windowSize.width - (leftSidebarCollapsed ? 64 : leftSidebarWidth) - (rightSidebarCollapsed ? 4 : rightSidebarWidth) - 40)}
+                            height={Math.max(600, windowSize.height - 80)}
+                            arcOpacity={arcOpacity}
+                            labelScale={labelScale}
+                            edgeStyle={kriskogramEdgeStyle}
+                            renderer={renderer}
+                            hoveredNodeId={hoveredNodeId}
+                            onNodeHover={setHoveredNodeId}
+                            loading={multiplesLoading}
+                            emptyMessage={
+                              multiplesFacet === 'edgeType'
+                                ? 'This dataset has no edge type property to split panels by.'
+                                : undefined
+                            }
+                          />
+                        </ErrorBoundary>
+                      )}
                       {viewType === 'chord' && (
                         <ErrorBoundary
                           fallback={
@@ -3492,9 +3952,102 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
                   >
                     Edge Lens
                   </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setInteractionMode('slide')
+                      updateSearchParams({ interactionMode: 'slide' })
+                    }}
+                    className={[
+                      'text-xs px-2 py-1 rounded border',
+                      interactionMode === 'slide'
+                        ? 'bg-blue-600 text-white border-blue-600'
+                        : 'bg-white text-gray-700 border-gray-300',
+                    ].join(' ')}
+                  >
+                    Link Sliding
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setInteractionMode('bring')
+                      updateSearchParams({ interactionMode: 'bring' })
+                    }}
+                    className={[
+                      'text-xs px-2 py-1 rounded border',
+                      interactionMode === 'bring'
+                        ? 'bg-blue-600 text-white border-blue-600'
+                        : 'bg-white text-gray-700 border-gray-300',
+                    ].join(' ')}
+                  >
+                    Bring &amp; Go
+                  </button>
+                  {interactionMode === 'pan' && (
+                    <span className="text-[10px] text-gray-600">Wheel / pinch: zoom baseline</span>
+                  )}
                   {interactionMode === 'lens' && (
-                    <span className="text-[10px] text-gray-600">Wheel: radius ({lensRadius}px)</span>
+                    <>
+                      <select
+                        aria-label="Lens shape"
+                        value={lensShape}
+                        onChange={(e) => {
+                          const value = e.target.value as LensShape
+                          setLensShape(value)
+                          updateSearchParams({ lensShape: value })
+                        }}
+                        className="text-xs px-1 py-1 border border-gray-300 rounded"
+                      >
+                        <option value="circle">Circle</option>
+                        <option value="rect">Rectangle</option>
+                        <option value="band">Baseline band</option>
+                      </select>
+                      <select
+                        aria-label="Lens effect"
+                        value={lensEffect}
+                        onChange={(e) => {
+                          const value = e.target.value as LensEffect
+                          setLensEffect(value)
+                          updateSearchParams({ lensEffect: value })
+                        }}
+                        className="text-xs px-1 py-1 border border-gray-300 rounded"
+                      >
+                        <option value="bend">Bend arcs</option>
+                        <option value="fisheye">Fisheye nodes</option>
+                      </select>
+                      <span className="text-[10px] text-gray-600">
+                        Wheel: radius ({lensRadius}px) · Click: pin lens
+                      </span>
+                    </>
                   )}
+                  {pinnedLenses.length > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setPinnedLenses([])
+                        updateSearchParams({ lenses: [] })
+                      }}
+                      className="text-xs px-2 py-1 rounded border bg-white text-gray-700 border-gray-300"
+                    >
+                      Clear {pinnedLenses.length} pinned lens{pinnedLenses.length === 1 ? '' : 'es'}
+                    </button>
+                  )}
+                  {interactionMode === 'slide' && (
+                    <span className="text-[10px] text-gray-600">Drag along an arc to travel</span>
+                  )}
+                  {interactionMode === 'bring' && (
+                    <span className="text-[10px] text-gray-600">Click a node, then a neighbour</span>
+                  )}
+                  <div className="w-px h-5 bg-gray-200" />
+                  <ExportMenu
+                    getSVG={() => krRef.current?.getSVG()?.node() ?? null}
+                    datasetName={dataset.name}
+                    year={currentYear}
+                    animation={{
+                      years: playbackYears,
+                      showYear: showYearForExport,
+                      setRecordingTransition: setRecordingTransitionMs,
+                    }}
+                  />
                 </div>
               )}
               </>
@@ -3571,6 +4124,20 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
                     >
                       Chord
                     </button>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setViewType('multiples')
+                        updateSearchParams({ view: 'multiples' })
+                      }}
+                      className={`px-3 py-2.5 rounded text-sm font-medium transition-colors ${
+                        viewType === 'multiples'
+                          ? 'bg-blue-600 text-white'
+                          : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      }`}
+                    >
+                      Small multiples
+                    </button>
                   </div>
                 </div>
               }
@@ -3619,9 +4186,17 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
                     setMinThreshold(datasetMinEdgeValue)
                     setMaxThreshold(datasetMaxEdgeValue)
                     setMaxEdges(edgesUpperBound)
+                    setHideUnreliable(false)
+                    setFlowMode(DEFAULT_FLOW_MODE)
+                    setGroupBy(null)
+                    setCollapsedGroups([])
                     updateSearchParams({
                       edgeType: null,
                       intraFilter: 'none',
+                      groupBy: null,
+                      collapsedGroups: [],
+                      hideUnreliable: false,
+                      flowMode: DEFAULT_FLOW_MODE,
                       nodeFilterAttribute: null,
                       nodeFilterValues: [],
                       minThreshold: datasetMinEdgeValue,
@@ -3632,7 +4207,7 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
                 >
                   <div className="space-y-4">
                     {/* Year Slider */}
-                    {hasTime && currentYear !== undefined && (
+                    {hasTime && currentYear !== undefined && timeAggregation !== 'window' && (
                       <div className="space-y-2">
                         <label className="text-sm font-medium">Year: {currentYear}</label>
                         <input
@@ -3643,6 +4218,74 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
                           onChange={(e) => handleYearChange(parseInt(e.target.value))}
                           className="w-full"
                         />
+                        <div className="flex items-center gap-1">
+                          <button
+                            type="button"
+                            onClick={() => stepYear(-1)}
+                            disabled={isPlaying}
+                            title="Previous year"
+                            className="p-1.5 rounded border border-gray-300 text-gray-700 hover:bg-gray-100 disabled:text-gray-300 disabled:hover:bg-transparent"
+                          >
+                            <SkipBack className="w-3.5 h-3.5" />
+                          </button>
+                          <button
+                            type="button"
+                            onClick={togglePlayback}
+                            disabled={playbackYears.length < 2}
+                            title={isPlaying ? 'Pause playback' : 'Play through years'}
+                            className="p-1.5 rounded border border-blue-600 bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-200 disabled:border-gray-200"
+                          >
+                            {isPlaying ? <Pause className="w-3.5 h-3.5" /> : <Play className="w-3.5 h-3.5" />}
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => stepYear(1)}
+                            disabled={isPlaying}
+                            title="Next year"
+                            className="p-1.5 rounded border border-gray-300 text-gray-700 hover:bg-gray-100 disabled:text-gray-300 disabled:hover:bg-transparent"
+                          >
+                            <SkipForward className="w-3.5 h-3.5" />
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => {
+                              const next = !playbackLoop
+                              setPlaybackLoop(next)
+                              updateSearchParams({ playbackLoop: next })
+                            }}
+                            aria-pressed={playbackLoop}
+                            title={playbackLoop ? 'Looping enabled' : 'Looping disabled'}
+                            className={[
+                              'p-1.5 rounded border',
+                              playbackLoop
+                                ? 'bg-blue-50 text-blue-700 border-blue-300'
+                                : 'bg-white text-gray-500 border-gray-300',
+                            ].join(' ')}
+                          >
+                            <Repeat className="w-3.5 h-3.5" />
+                          </button>
+                          <select
+                            value={playbackSpeed}
+                            onChange={(e) => {
+                              const speed = normalizePlaybackSpeed(e.target.value)
+                              setPlaybackSpeed(speed)
+                              updateSearchParams({ playbackSpeed: speed })
+                            }}
+                            title="Playback speed"
+                            className="ml-auto px-1.5 py-1 text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          >
+                            {PLAYBACK_SPEEDS.map((speed) => (
+                              <option key={speed} value={speed}>
+                                {speed}×
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                        {playbackYears.length < (dataset.timeRange.end - dataset.timeRange.start + 1) && (
+                          <p className="text-[11px] text-gray-500">
+                            Playback skips years without a snapshot.
+                          </p>
+                        )}
                       </div>
                     )}
 
@@ -3693,6 +4336,94 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
                       </div>
                     )}
 
+                    {(availableNodeFilterAttributes.length > 0 || nodeGroupTree.length > 0) && (
+                      <div className="space-y-1">
+                        <label htmlFor="explorer-group-by" className="text-sm font-medium">
+                          Node Groups
+                        </label>
+                        <select
+                          id="explorer-group-by"
+                          value={groupBy ?? ''}
+                          onChange={(e) => {
+                            const value = e.target.value || null
+                            setGroupBy(value)
+                            setCollapsedGroups([])
+                            updateSearchParams({ groupBy: value, collapsedGroups: [] })
+                          }}
+                          className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                          <option value="">None</option>
+                          {REGION_HIERARCHY.every((level) => availableNodeFilterAttributes.includes(level)) && (
+                            <option value="hierarchy">Region → Division</option>
+                          )}
+                          {availableNodeFilterAttributes.map((attribute) => (
+                            <option key={attribute} value={attribute}>
+                              By {attribute}
+                            </option>
+                          ))}
+                        </select>
+                        {nodeGroupTree.length > 0 && (
+                          <>
+                            <p className="text-xs text-gray-500">
+                              A collapsed group is drawn as one node with its flows summed; flows inside it count as
+                              self-flow.
+                            </p>
+                            <NodeGroupTree tree={nodeGroupTree} collapsed={collapsedGroups} onChange={updateCollapsedGroups} />
+                          </>
+                        )}
+                      </div>
+                    )}
+
+                    <div className="space-y-1">
+                      <label htmlFor="explorer-flow-mode" className="text-sm font-medium">
+                        Flow Pairs
+                      </label>
+                      <select
+                        id="explorer-flow-mode"
+                        value={flowMode}
+                        onChange={(e) => {
+                          const value = e.target.value as FlowMode
+                          setFlowMode(value)
+                          updateSearchParams({ flowMode: value })
+                        }}
+                        className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        {FLOW_MODES.map(({ mode, label }) => (
+                          <option key={mode} value={mode}>
+                            {label}
+                          </option>
+                        ))}
+                      </select>
+                      <p className="text-xs text-gray-500">
+                        {FLOW_MODES.find((entry) => entry.mode === flowMode)?.description}. Thresholds select pairs
+                        when combining directions.
+                      </p>
+                    </div>
+
+                    {hasMoeData && (
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <label htmlFor="explorer-hide-unreliable" className="text-sm font-medium">
+                            Hide unreliable flows
+                          </label>
+                          <p className="text-xs text-gray-500">
+                            Drops estimates whose CV exceeds {Math.round(cvThreshold * 100)}%.
+                          </p>
+                        </div>
+                        <input
+                          id="explorer-hide-unreliable"
+                          type="checkbox"
+                          className="w-4 h-4"
+                          checked={hideUnreliable}
+                          onChange={(e) => {
+                            const checked = e.target.checked
+                            setHideUnreliable(checked)
+                            updateSearchParams({ hideUnreliable: checked })
+                          }}
+                        />
+                      </div>
+                    )}
+
                     {availableNodeFilterAttributes.length > 0 && (
                       <div className="space-y-2">
                         <label className="text-sm font-medium">Node Filter</label>
@@ -3922,8 +4653,272 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
                   </div>
                 </CollapsibleSection>
 
-                {/* Kriskogram Visualization Controls */}
+                {/* Time Aggregation */}
+                {hasTime && (
+                  <CollapsibleSection
+                    title="Time Aggregation"
+                    defaultOpen={timeAggregation !== 'none'}
+                    onReset={() => {
+                      setTimeAggregation('none')
+                      setAggregateStat('sum')
+                      setAggregateStart(undefined)
+                      setAggregateEnd(undefined)
+                      setAggregateWindow(3)
+                      updateSearchParams({
+                        aggregate: 'none',
+                        aggregateStat: 'sum',
+                        aggregateStart: undefined,
+                        aggregateEnd: undefined,
+                        aggregateWindow: 3,
+                      })
+                    }}
+                  >
+                    <div className="space-y-3">
+                      <div>
+                        <label htmlFor="time-aggregation" className="block text-xs font-medium text-gray-700 mb-1">
+                          Snapshots
+                        </label>
+                        <select
+                          id="time-aggregation"
+                          value={timeAggregation}
+                          onChange={(e) => {
+                            const value = e.target.value
+                            if (!isTimeAggregation(value)) return
+                            setTimeAggregation(value)
+                            updateSearchParams({ aggregate: value })
+                          }}
+                          className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md"
+                        >
+                          {TIME_AGGREGATIONS.map((entry) => (
+                            <option key={entry.value} value={entry.value}>
+                              {entry.label}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      {(timeAggregation === 'window' || timeAggregation === 'rolling') && (
+                        <div>
+                          <label htmlFor="aggregate-stat" className="block text-xs font-medium text-gray-700 mb-1">
+                            Statistic
+                          </label>
+                          <select
+                            id="aggregate-stat"
+                            value={aggregateStat}
+                            onChange={(e) => {
+                              const value = e.target.value
+                              if (!isAggregateStat(value)) return
+                              setAggregateStat(value)
+                              updateSearchParams({ aggregateStat: value })
+                            }}
+                            className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md"
+                          >
+                            {AGGREGATE_STATS.map((entry) => (
+                              <option key={entry.value} value={entry.value}>
+                                {entry.label}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                      )}
+                      {timeAggregation === 'window' && deriveOptions && (
+                        <div className="grid grid-cols-2 gap-2">
+                          {(['start', 'end'] as const).map((bound) => (
+                            <div key={bound}>
+                              <label htmlFor={`aggregate-${bound}`} className="block text-xs font-medium text-gray-700 mb-1">
+                                {bound === 'start' ? 'From' : 'To'}
+                              </label>
+                              <select
+                                id={`aggregate-${bound}`}
+                                value={deriveOptions[bound]}
+                                onChange={(e) => {
+                                  const value = Number(e.target.value)
+                                  if (bound === 'start') {
+                                    setAggregateStart(value)
+                                    updateSearchParams({ aggregateStart: value })
+                                  } else {
+                                    setAggregateEnd(value)
+                                    updateSearchParams({ aggregateEnd: value })
+                                  }
+                                }}
+                                className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md"
+                              >
+                                {Array.from(
+                                  { length: dataset.timeRange.end - dataset.timeRange.start + 1 },
+                                  (_, index) => dataset.timeRange.start + index,
+                                ).map((year) => (
+                                  <option key={year} value={year}>
+                                    {year}
+                                  </option>
+                                ))}
+                              </select>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      {timeAggregation === 'rolling' && (
+                        <div>
+                          <label htmlFor="aggregate-window" className="block text-xs font-medium text-gray-700 mb-1">
+                            Window: {aggregateWindow} years ending at the selected year
+                          </label>
+                          <input
+                            id="aggregate-window"
+                            type="range"
+                            min={2}
+                            max={Math.max(2, maxTemporalNeighbor + 1)}
+                            value={aggregateWindow}
+                            onChange={(e) => {
+                              const value = Number.parseInt(e.target.value, 10)
+                              setAggregateWindow(value)
+                              updateSearchParams({ aggregateWindow: value })
+                            }}
+                            className="w-full"
+                          />
+                        </div>
+                      )}
+                      {currentDerivedSnapshot && (
+                        <p className="text-xs text-gray-500">
+                          {timeAggregation === 'growth'
+                            ? `Change from ${currentDerivedSnapshot.years[0]} to ${currentDerivedSnapshot.timestamp}; arc widths show its size.`
+                            : `Covers ${currentDerivedSnapshot.years.length} year${currentDerivedSnapshot.years.length === 1 ? '' : 's'}: ${currentDerivedSnapshot.years.join(', ')}.`}
+                          {currentDerivedSnapshot.missingYears.length > 0 &&
+                            ` No snapshot for ${currentDerivedSnapshot.missingYears.join(', ')}; ${
+                              timeAggregation === 'growth'
+                                ? 'annual_growth_rate spreads the change over the gap.'
+                                : 'left out rather than counted as zero.'
+                            }`}
+                        </p>
+                      )}
+                      {timeAggregation !== 'none' && (
+                        <button
+                          type="button"
+                          disabled={!derivedSnapshots?.length || savingDerived}
+                          onClick={() => {
+                            saveDerivedDataset()
+                          }}
+                          className="w-full px-3 py-1.5 text-sm rounded border border-blue-600 text-blue-700 hover:bg-blue-50 disabled:opacity-50"
+                        >
+                          {savingDerived ? 'Saving…' : 'Save as new dataset'}
+                        </button>
+                      )}
+                    </div>
+                  </CollapsibleSection>
+                )}
+
+                {/* Compare Mode */}
                 {viewType === 'kriskogram' && (
+                  <CollapsibleSection
+                    title="Compare Snapshots"
+                    defaultOpen={compareEnabled}
+                    onReset={() => {
+                      setCompareEnabled(false)
+                      setCompareYear(undefined)
+                      setCompareDatasetId(null)
+                      setComparePercent(true)
+                      updateSearchParams({ compare: false, compareYear: undefined, compareDataset: null, comparePercent: true })
+                    }}
+                  >
+                    <div className="space-y-3">
+                      <div className="flex items-center justify-between p-2 bg-gray-50 rounded border border-gray-200">
+                        <div>
+                          <label htmlFor="compare-enabled" className="text-sm font-medium text-gray-700">
+                            Show changes
+                          </label>
+                          <p className="text-xs text-gray-500">
+                            Arcs show how each flow changed from the baseline to {currentYear ?? 'the current year'}.
+                          </p>
+                        </div>
+                        <input
+                          id="compare-enabled"
+                          type="checkbox"
+                          className="w-4 h-4"
+                          checked={compareEnabled}
+                          onChange={(e) => {
+                            const checked = e.target.checked
+                            setCompareEnabled(checked)
+                            updateSearchParams({ compare: checked })
+                          }}
+                        />
+                      </div>
+                      {compareEnabled && (
+                        <>
+                          <div>
+                            <label htmlFor="compare-dataset" className="block text-xs font-medium text-gray-700 mb-1">
+                              Baseline dataset
+                            </label>
+                            <select
+                              id="compare-dataset"
+                              value={compareAgainstOther && compareDatasetId ? compareDatasetId : ''}
+                              onChange={(e) => {
+                                const value = e.target.value || null
+                                setCompareDatasetId(value)
+                                setCompareYear(undefined)
+                                updateSearchParams({ compareDataset: value, compareYear: undefined })
+                              }}
+                              className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md"
+                            >
+                              <option value="">This dataset</option>
+                              {compareDatasetOptions
+                                .filter((entry) => entry.id !== selectedId)
+                                .map((entry) => (
+                                  <option key={entry.id} value={entry.id}>
+                                    {entry.name}
+                                  </option>
+                                ))}
+                            </select>
+                            {compareAgainstOther && (
+                              <p className="mt-1 text-xs text-gray-500">Flows are matched by node id across the two datasets.</p>
+                            )}
+                          </div>
+                          <div>
+                            <label htmlFor="compare-year" className="block text-xs font-medium text-gray-700 mb-1">
+                              Baseline year
+                            </label>
+                            <select
+                              id="compare-year"
+                              value={compareBaselineYear ?? ''}
+                              disabled={compareYears.length === 0}
+                              onChange={(e) => {
+                                const value = Number(e.target.value)
+                                setCompareYear(value)
+                                updateSearchParams({ compareYear: value })
+                              }}
+                              className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md"
+                            >
+                              {compareYears.map((year) => (
+                                <option key={year} value={year}>
+                                  {year}
+                                </option>
+                              ))}
+                            </select>
+                          </div>
+                          <label className="flex items-center gap-2 text-sm text-gray-700">
+                            <input
+                              type="checkbox"
+                              className="w-4 h-4"
+                              checked={comparePercent}
+                              onChange={(e) => {
+                                const checked = e.target.checked
+                                setComparePercent(checked)
+                                updateSearchParams({ comparePercent: checked })
+                              }}
+                            />
+                            Percent change in tooltips
+                          </label>
+                          {compareView && (
+                            <p className="text-xs text-gray-500">
+                              {compareView.edges.filter((edge) => edge.change === 'appeared').length} flows appeared and{' '}
+                              {compareView.edges.filter((edge) => edge.change === 'vanished').length} vanished among the{' '}
+                              {compareView.edges.length} changes shown.
+                            </p>
+                          )}
+                        </>
+                      )}
+                    </div>
+                  </CollapsibleSection>
+                )}
+
+                {/* Kriskogram Visualization Controls, shared by every small-multiples panel */}
+                {(viewType === 'kriskogram' || viewType === 'multiples') && (
                   <CollapsibleSection
                     title="Kriskogram Settings"
                     defaultOpen={true}
@@ -3951,6 +4946,9 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
                       setInteractionMode('pan')
                       setLensRadius(80)
                       setLensPos({ x: 0, y: 0 })
+                      setLensShape('circle')
+                      setLensEffect('bend')
+                      setPinnedLenses([])
                       setEgoNodeId(null)
                       setEgoNeighborSteps(1)
                       setEgoStepColoring(false)
@@ -3972,6 +4970,14 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
                       setEdgeSegmentCap('round')
                       setEdgeSegmentAnimate(false)
                       setEdgeOutlineGap(3)
+                      setUncertaintyMode('none')
+                      setUnreliableStyle('hatch')
+                      setCvThreshold(DEFAULT_CV_THRESHOLD)
+                      setDoiInsets(true)
+                      setDoiFunction(DEFAULT_DOI_PRESET)
+                      setDoiMaxInsets(5)
+                      setGeoMap(false)
+                      setRenderer('auto')
                       updateSearchParams({
                         showAllNodes: false,
                         labelScale: 1,
@@ -3995,6 +5001,9 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
                         edgeColorIntensityConst: 0.6,
                         interactionMode: 'pan',
                         lensRadius: 80,
+                        lensShape: 'circle',
+                        lensEffect: 'bend',
+                        lenses: [],
                         egoNodeId: null,
                         egoNeighborSteps: 1,
                         egoStepColoring: false,
@@ -4014,6 +5023,14 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
                         edgeSegmentAnimate: false,
                         edgeWeightScale: 'linear',
                         edgeOutlineGap: 3,
+                        uncertaintyMode: 'none',
+                        unreliableStyle: 'hatch',
+                        cvThreshold: DEFAULT_CV_THRESHOLD,
+                        doiInsets: true,
+                        doiFunction: DEFAULT_DOI_PRESET,
+                        doiMaxInsets: 5,
+                        geoMap: false,
+                        renderer: 'auto',
                       })
                     }}
                   >
@@ -4053,6 +5070,34 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
                             </div>
                           </div>
                         </div>
+                        <div className="flex items-center justify-between p-2 bg-gray-50 rounded border border-gray-200">
+                          <div>
+                            <label htmlFor="kriskogram-renderer" className="text-sm font-medium text-gray-700">
+                              Arc renderer
+                            </label>
+                            <p className="text-xs text-gray-500">
+                              Canvas draws thousands of arcs smoothly; Auto switches to it above{' '}
+                              {CANVAS_EDGE_THRESHOLD.toLocaleString()} edges.
+                            </p>
+                          </div>
+                          <select
+                            id="kriskogram-renderer"
+                            value={renderer}
+                            onChange={(e) => {
+                              const value = e.target.value
+                              if (!isKriskogramRendererOption(value)) return
+                              setRenderer(value)
+                              updateSearchParams({ renderer: value })
+                            }}
+                            className="px-2 py-1 text-sm border border-gray-300 rounded-md"
+                          >
+                            {KRISKOGRAM_RENDERERS.map((entry) => (
+                              <option key={entry.value} value={entry.value}>
+                                {entry.label}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
                         <div className="flex items-center justify-between p-2 bg-gray-50 rounded border border-gray-200">
                           <div>
                             <label htmlFor="kriskogram-show-all-nodes" className="text-sm font-medium text-gray-700">
@@ -4166,6 +5211,143 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
                           </p>
                         </div>
 
+                        <div className="space-y-3 border border-gray-200 rounded-md p-3">
+                          <div className="text-xs font-semibold text-gray-600 uppercase tracking-wide">Off-screen Insets</div>
+                          <div className="flex items-center justify-between">
+                            <div>
+                              <label htmlFor="kriskogram-doi-insets" className="text-xs font-medium text-gray-700">
+                                Show off-screen nodes
+                              </label>
+                              <p className="text-[11px] text-gray-500">
+                                While zoomed in, nodes outside the view with flows into it appear along the canvas edge.
+                              </p>
+                            </div>
+                            <input
+                              id="kriskogram-doi-insets"
+                              type="checkbox"
+                              className="w-4 h-4"
+                              checked={doiInsets}
+                              onChange={(e) => {
+                                const checked = e.target.checked
+                                setDoiInsets(checked)
+                                updateSearchParams({ doiInsets: checked })
+                              }}
+                            />
+                          </div>
+                          {doiInsets && (
+                            <>
+                              <div className="space-y-1">
+                                <label htmlFor="kriskogram-doi-function" className="text-xs font-medium text-gray-700">
+                                  Degree of interest
+                                </label>
+                                <select
+                                  id="kriskogram-doi-function"
+                                  value={doiFunction}
+                                  onChange={(e) => {
+                                    const value = e.target.value as DoiPreset
+                                    setDoiFunction(value)
+                                    updateSearchParams({ doiFunction: value })
+                                  }}
+                                  className="w-full px-2 py-1 text-xs border border-gray-300 rounded"
+                                >
+                                  {(Object.keys(DOI_PRESETS) as DoiPreset[]).map((preset) => (
+                                    <option key={preset} value={preset}>
+                                      {DOI_PRESETS[preset].label}
+                                    </option>
+                                  ))}
+                                </select>
+                              </div>
+                              <div className="space-y-1">
+                                <label htmlFor="kriskogram-doi-max" className="text-xs font-medium text-gray-700">
+                                  Insets per side: {doiMaxInsets}
+                                </label>
+                                <input
+                                  id="kriskogram-doi-max"
+                                  type="range"
+                                  min={1}
+                                  max={10}
+                                  step={1}
+                                  value={doiMaxInsets}
+                                  onChange={(e) => {
+                                    const value = Math.max(1, Math.min(10, Number.parseInt(e.target.value, 10) || 5))
+                                    setDoiMaxInsets(value)
+                                    updateSearchParams({ doiMaxInsets: value })
+                                  }}
+                                  className="w-full accent-blue-600"
+                                />
+                              </div>
+                            </>
+                          )}
+                        </div>
+
+                        {hasMoeData && (
+                          <div className="space-y-3 border border-gray-200 rounded-md p-3">
+                            <div className="text-xs font-semibold text-gray-600 uppercase tracking-wide">Uncertainty (MOE)</div>
+                            <div className="space-y-1">
+                              <label htmlFor="kriskogram-uncertainty-mode" className="text-xs font-medium text-gray-700">
+                                Margin of error
+                              </label>
+                              <select
+                                id="kriskogram-uncertainty-mode"
+                                value={uncertaintyMode}
+                                onChange={(e) => {
+                                  const value = e.target.value as UncertaintyMode
+                                  setUncertaintyMode(value)
+                                  updateSearchParams({ uncertaintyMode: value })
+                                }}
+                                className="w-full px-2 py-1 text-xs border border-gray-300 rounded"
+                              >
+                                <option value="none">Hidden</option>
+                                <option value="band">Band around estimate (± MOE)</option>
+                                <option value="range">Width range (lower → upper bound)</option>
+                              </select>
+                            </div>
+                            <div className="space-y-1">
+                              <label htmlFor="kriskogram-unreliable-style" className="text-xs font-medium text-gray-700">
+                                Unreliable flows
+                              </label>
+                              <select
+                                id="kriskogram-unreliable-style"
+                                value={unreliableStyle}
+                                onChange={(e) => {
+                                  const value = e.target.value as UnreliableFlowStyle
+                                  setUnreliableStyle(value)
+                                  updateSearchParams({ unreliableStyle: value })
+                                }}
+                                className="w-full px-2 py-1 text-xs border border-gray-300 rounded"
+                              >
+                                <option value="hatch">Hatched</option>
+                                <option value="fade">Faded</option>
+                                <option value="none">Not marked</option>
+                              </select>
+                            </div>
+                            <div className="space-y-1">
+                              <label htmlFor="kriskogram-cv-threshold" className="text-xs font-medium text-gray-700">
+                                CV threshold: {Math.round(cvThreshold * 100)}%
+                              </label>
+                              <input
+                                id="kriskogram-cv-threshold"
+                                type="range"
+                                min={0.05}
+                                max={1}
+                                step={0.01}
+                                value={cvThreshold}
+                                onChange={(e) => {
+                                  const raw = Number.parseFloat(e.target.value)
+                                  if (Number.isNaN(raw)) return
+                                  const clamped = Math.max(0.05, Math.min(1, raw))
+                                  setCvThreshold(clamped)
+                                  updateSearchParams({ cvThreshold: Number(clamped.toFixed(2)) })
+                                }}
+                                className="w-full accent-blue-600"
+                              />
+                              <p className="text-[11px] text-gray-500">
+                                CV = (MOE ÷ 1.645) ÷ estimate. Flows above the threshold are treated as statistically unreliable.
+                              </p>
+                            </div>
+                          </div>
+                        )}
+
                         <div className="space-y-3 border border-gray-200 rounded-md p-3">
                           <div className="text-xs font-semibold text-gray-600 uppercase tracking-wide">Temporal Overlay</div>
                           <div className="flex items-center justify-between">
@@ -4268,7 +5450,68 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
                                   By {prop}
                                 </option>
                               ))}
+                              <optgroup label="Optimised from flows">
+                                {OPTIMISED_ORDER_MODES.map(({ mode, label }) => {
+                                  const result = nodeOrderings?.find((entry) => entry.mode === mode)
+                                  return (
+                                    <option key={mode} value={mode}>
+                                      {result ? `${label} · ${result.count.toLocaleString()} crossings` : label}
+                                    </option>
+                                  )
+                                })}
+                              </optgroup>
+                              {geoOrderAvailable && (
+                                <optgroup label="Geographic">
+                                  {GEO_ORDER_MODES.map(({ mode, label }) => (
+                                    <option key={mode} value={mode}>
+                                      {label}
+                                    </option>
+                                  ))}
+                                </optgroup>
+                              )}
                             </select>
+                            {geoOrderAvailable && (
+                              <label className="flex items-center gap-2 text-xs text-gray-700">
+                                <input
+                                  type="checkbox"
+                                  className="w-4 h-4"
+                                  checked={geoMap}
+                                  onChange={(e) => {
+                                    const checked = e.target.checked
+                                    setGeoMap(checked)
+                                    updateSearchParams({ geoMap: checked })
+                                  }}
+                                />
+                                Show linked map of the baseline path
+                              </label>
+                            )}
+                            {currentOrderCrossings && (
+                              <div className="text-[11px] text-gray-500 space-y-0.5">
+                                <div>
+                                  Current order: {currentOrderCrossings.count.toLocaleString()} crossings
+                                </div>
+                                {nodeOrderings ? (
+                                  nodeOrderings.map((result) => {
+                                    const label = OPTIMISED_ORDER_MODES.find((entry) => entry.mode === result.mode)?.label
+                                    const change =
+                                      currentOrderCrossings.weighted > 0
+                                        ? Math.round((result.weighted / currentOrderCrossings.weighted - 1) * 100)
+                                        : 0
+                                    return (
+                                      <div key={result.mode} className="flex justify-between gap-2">
+                                        <span>{label}</span>
+                                        <span title="Change in crossings weighted by flow, relative to the current order">
+                                          {result.count.toLocaleString()} ({change > 0 ? '+' : ''}
+                                          {change}% weighted)
+                                        </span>
+                                      </div>
+                                    )
+                                  })
+                                ) : (
+                                  <div className="italic">Computing optimised orders…</div>
+                                )}
+                              </div>
+                            )}
                           </div>
 
                           {/* Node Color */}
@@ -5053,6 +6296,93 @@ const [edgeOutlineGap, setEdgeOutlineGap] = useState<number>(Math.max(0.5, searc
                   </CollapsibleSection>
                 )}
 
+                {/* Small Multiples Controls */}
+                {viewType === 'multiples' && (
+                  <CollapsibleSection
+                    title="Small Multiples"
+                    defaultOpen={true}
+                    onReset={() => {
+                      setMultiplesFacet('year')
+                      setMultiplesYears([])
+                      updateSearchParams({ multiplesFacet: 'year', multiplesYears: [] })
+                    }}
+                  >
+                    <div className="space-y-3">
+                      <div>
+                        <label htmlFor="multiples-facet" className="block text-xs font-medium text-gray-700 mb-1">
+                          One panel per
+                        </label>
+                        <select
+                          id="multiples-facet"
+                          value={multiplesFacet}
+                          onChange={(e) => {
+                            const value = e.target.value
+                            if (!isSmallMultiplesFacet(value)) return
+                            setMultiplesFacet(value)
+                            updateSearchParams({ multiplesFacet: value })
+                          }}
+                          className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md"
+                        >
+                          {SMALL_MULTIPLES_FACETS.map((entry) => (
+                            <option key={entry.value} value={entry.value}>
+                              {entry.value === 'edgeType' && edgeTypeInfo ? `${entry.label} (${edgeTypeInfo.property})` : entry.label}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      {multiplesFacet === 'year' ? (
+                        <div className="space-y-1">
+                          <div className="flex items-center justify-between">
+                            <span className="text-xs font-medium text-gray-700">Years</span>
+                            <button
+                              type="button"
+                              className="text-xs text-blue-600 hover:underline"
+                              onClick={() => {
+                                setMultiplesYears([])
+                                updateSearchParams({ multiplesYears: [] })
+                              }}
+                            >
+                              First, middle and last
+                            </button>
+                          </div>
+                          <div className="max-h-48 overflow-y-auto rounded-md border border-gray-200 divide-y divide-gray-100">
+                            {playbackYears.map((year) => (
+                              <label key={year} className="flex items-center gap-2 px-3 py-2 text-sm cursor-pointer hover:bg-gray-50">
+                                <input
+                                  type="checkbox"
+                                  className="h-3.5 w-3.5"
+                                  checked={multiplesPanelYears.includes(year)}
+                                  onChange={(e) => {
+                                    const next = (
+                                      e.target.checked
+                                        ? [...multiplesPanelYears, year]
+                                        : multiplesPanelYears.filter((existing) => existing !== year)
+                                    )
+                                      .sort((a, b) => a - b)
+                                      .map(String)
+                                    setMultiplesYears(next)
+                                    updateSearchParams({ multiplesYears: next })
+                                  }}
+                                />
+                                <span>{year}</span>
+                              </label>
+                            ))}
+                          </div>
+                          <p className="text-xs text-gray-500">
+                            Up to {MAX_SMALL_MULTIPLES} panels. Hover a node in any panel to highlight it in all of them.
+                          </p>
+                        </div>
+                      ) : (
+                        <p className="text-xs text-gray-500">
+                          {edgeTypeInfo
+                            ? `One panel per ${edgeTypeInfo.property} value in ${currentYear}, up to ${MAX_SMALL_MULTIPLES}.`
+                            : 'This dataset has no edge type property to split panels by.'}
+                        </p>
+                      )}
+                    </div>
+                  </CollapsibleSection>
+                )}
+
                 {/* Table Visualization Controls */}
                 {viewType === 'table' && (
                   <CollapsibleSection title="Table Settings" defaultOpen={false}>
@@ -5280,12 +6610,12 @@ async function preloadDefaults(): Promise<string | undefined> {
     
     const parsed = parseTwoFileCSV({
       nodesFile: {
-        content: locationsText,
+        rows: parseCsv(locationsText).rows,
         idField: 'id',
         labelField: 'name',
       },
       edgesFile: {
-        content: flowsText,
+        rows: parseCsv(flowsText).rows,
         sourceField: 'origin',
         targetField: 'dest',
         valueField: 'count',
@@ -0,0 +1,132 @@
+import * as XLSX from 'xlsx'
+import { describe, expect, it } from 'vitest'
+
+import {
+  buildAcsDataset,
+  parseAcsPeriod,
+  planAcsImport,
+  readAcsCsv,
+  readAcsFile,
+  readAcsWorksheet,
+} from '../src/lib/acs-bulk-import'
+
+const HEADER = 'period,source_id,source_label,destination_id,destination_label,estimate,moe'
+
+function tidyCsv(period: string, rows: Array<[string, string, number]>) {
+  const cells = rows.map(
+    ([source, target, value]) => `${period},${source.toUpperCase().replace(' ', '_')},"${source}",${target.toUpperCase().replace(' ', '_')},"${target}",${value},1`,
+  )
+  return [HEADER, ...cells].join('\n')
+}
+
+const states: Array<[string, string, number]> = [
+  ['Alabama', 'Alaska', 10],
+  ['Alaska', 'Alabama', 5],
+]
+
+// A cut-down Census sheet: a stale title cell, titles repeated across column blocks, the
+// destination header with an Estimate/MOE row under it, then one row per current residence
+const destinations = ['Total', 'Alabama', 'Alaska', 'Arizona', 'Arkansas', 'California', 'Colorado', 'Connecticut', 'Delaware', 'Puerto Rico']
+const row = (label: string, cells: Record<string, [string, string]>) => [
+  label,
+  ...destinations.flatMap((destination) => cells[destination] ?? ['', '']),
+]
+const worksheet = [
+  ['Dataset: 2007-2009 American Community Survey 3-Year Estimates', 'Table with row headers in column A'],
+  ['Table 1.  State-to-State Migration Flows*: 2009', 'Table 1.  State-to-State Migration Flows*: 2009'],
+  ['Dataset: 2009 American Community Survey 1-Year Estimates', 'Dataset: 2009 American Community Survey 1-Year Estimates'],
+  [],
+  ['', ...destinations.flatMap((destination) => [destination, ''])],
+  ['', ...destinations.flatMap(() => ['Estimate', 'MOE'])],
+  row('Alabama', { Total: ['900', ''], Alabama: ['800', '+/-20'], Alaska: ['1,234', '+/-56'], 'Puerto Rico': ['7', ''] }),
+  row('Alaska', { Total: ['400', ''], Alabama: ['25', '+/-4'], Alaska: ['N/A', ''], 'Puerto Rico': ['3', ''] }),
+  row('United States2', { Alabama: ['99', ''] }),
+  ['Footnotes:'],
+]
+
+describe('ACS bulk import', () => {
+  it('reads periods from names and titles', async () => {
+    expect(parseAcsPeriod('state_to_state_migrations_table_2005_2007_2005-2007.csv')).toEqual({ start: 2005, end: 2007 })
+    expect(parseAcsPeriod('table_2022_t13_updated_2024_06_27.xlsx')).toEqual({ start: 2022, end: 2022 })
+    expect(parseAcsPeriod('table_2014_2014.csv')).toEqual({ start: 2014, end: 2014 })
+    expect(parseAcsPeriod('flows.csv')).toBeNull()
+
+    const csv = readAcsCsv('flows_2010.csv', tidyCsv('2006-2008', [...states, ['Alabama', 'Alabama', 900]]))
+    expect(csv).toMatchObject({ period: { start: 2006, end: 2008 }, periodSource: 'contents', sameStateRows: 1 })
+    expect(csv.data?.edges).toHaveLength(2)
+    expect(readAcsCsv('flows_2010.csv', 'source,target\nA,B').error).toBeDefined()
+    // Files are streamed through the CSV reader; the rows give the same result
+    const file = new File([tidyCsv('2006-2008', states)], 'flows_2010.csv')
+    expect(await readAcsFile(file)).toEqual(readAcsCsv('flows_2010.csv', tidyCsv('2006-2008', states)))
+  })
+
+  it('reads Census worksheets like the bundled CSVs, trusting the title most cells agree on', () => {
+    const file = readAcsWorksheet('table_2009.xls', worksheet)
+    expect(file).toMatchObject({ period: { start: 2009, end: 2009 }, periodSource: 'contents', sameStateRows: 1 })
+    expect(file.data?.nodes.map((node) => node.id)).toEqual(['ALABAMA', 'ALASKA'])
+    expect(file.data?.nodes[0]).toMatchObject({ region: 'South' })
+    expect(file.data?.edges).toEqual([
+      { source: 'ALABAMA', target: 'ALASKA', value: 1234, moe: 56 },
+      { source: 'ALASKA', target: 'ALABAMA', value: 25, moe: 4 },
+    ])
+  })
+
+  it('files multi-year releases by policy, letting 1-year tables win their year', () => {
+    const files = [
+      readAcsCsv('a.csv', tidyCsv('2005', states)),
+      readAcsCsv('b.csv', tidyCsv('2005-2007', states)),
+      readAcsCsv('c.csv', tidyCsv('2007', states)),
+      readAcsCsv('d.csv', tidyCsv('2007-2009', states)),
+    ]
+    const skip = planAcsImport(files, 'skip')
+    expect(skip.entries.map((entry) => entry.status)).toEqual(['included', 'skipped', 'included', 'skipped'])
+    expect(skip).toMatchObject({ years: [2005, 2007], missingYears: [2006], timeRange: { start: 2005, end: 2007 } })
+
+    const end = planAcsImport(files, 'end')
+    expect(end.entries.map((entry) => [entry.status, entry.year])).toEqual([
+      ['included', 2005],
+      ['superseded', null],
+      ['included', 2007],
+      ['included', 2009],
+    ])
+    expect(end.entries[1].note).toBe('c.csv covers 2007')
+    expect(end.missingYears).toEqual([2006, 2008])
+
+    const middle = planAcsImport(files, 'middle', { 1: 2006 })
+    expect(middle.years).toEqual([2005, 2006, 2007, 2008])
+  })
+
+  it('reports node-set mismatches and builds one dataset with a snapshot per year', () => {
+    const files = [
+      readAcsCsv('2019.csv', tidyCsv('2019', states)),
+      readAcsCsv('2021.csv', tidyCsv('2021', [...states, ['Alaska', 'Puerto Rico', 2]])),
+      readAcsCsv('notes.csv', 'no flows here'),
+    ]
+    const plan = planAcsImport(files, 'skip')
+    expect(plan.entries.map((entry) => entry.missingNodes)).toEqual([['PUERTO_RICO'], [], []])
+    expect(plan.entries[2]).toMatchObject({ status: 'failed' })
+
+    const dataset = buildAcsDataset(files, plan, { name: 'ACS', notes: 'Imported' })
+    expect(dataset).toMatchObject({
+      name: 'ACS',
+      type: 'csv',
+      filename: '2019.csv, 2021.csv',
+      timeRange: { start: 2019, end: 2021 },
+      notes: 'Imported\n\nNo table for 2020.',
+    })
+    expect(dataset.snapshots.map((snapshot) => snapshot.timestamp)).toEqual([2019, 2021])
+    expect(() => buildAcsDataset([files[2]], planAcsImport([files[2]], 'skip'), { name: 'Empty' })).toThrow()
+  })
+
+  it('reads workbooks dropped as files', async () => {
+    const workbook = XLSX.utils.book_new()
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['Notes']]), 'Notes')
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(worksheet), 'Table')
+    const buffer = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' })
+
+    const file = await readAcsFile(new File([buffer], 'State_to_State_Migrations_Table_2009.xlsx'))
+    expect(file.period).toEqual({ start: 2009, end: 2009 })
+    expect(file.data?.edges).toHaveLength(2)
+    expect((await readAcsFile(new File(['not a workbook'], 'broken_2010.xls'))).period).toEqual({ start: 2010, end: 2010 })
+  })
+})
@@ -0,0 +1,46 @@
+// @vitest-environment jsdom
+import { describe, expect, it, vi } from 'vitest'
+
+import { exportKriskogramAnimation, getWebmMimeType } from '../src/lib/animation-export'
+
+describe('animation export', () => {
+  it('needs at least one year', async () => {
+    await expect(
+      exportKriskogramAnimation({ years: [], showYear: async () => {}, getSVG: () => null, format: 'gif' }),
+    ).rejects.toThrow('No years selected')
+  })
+
+  it('stops before showing a year once cancelled', async () => {
+    const controller = new AbortController()
+    controller.abort()
+    const showYear = vi.fn(async () => {})
+    await expect(
+      exportKriskogramAnimation({
+        years: [2019, 2021],
+        showYear,
+        getSVG: () => null,
+        format: 'gif',
+        signal: controller.signal,
+      }),
+    ).rejects.toMatchObject({ name: 'AbortError' })
+    expect(showYear).not.toHaveBeenCalled()
+  })
+
+  it('fails when the chart is gone', async () => {
+    const showYear = vi.fn(async () => {})
+    await expect(
+      exportKriskogramAnimation({ years: [2019], showYear, getSVG: () => null, format: 'webm', holdMs: 0 }),
+    ).rejects.toThrow('The chart is not available for capture')
+    expect(showYear).toHaveBeenCalledWith(2019)
+  })
+
+  it('offers WebM only where MediaRecorder records it', () => {
+    expect(getWebmMimeType()).toBeNull()
+    vi.stubGlobal('MediaRecorder', { isTypeSupported: (type: string) => type === 'video/webm;codecs=vp8' })
+    try {
+      expect(getWebmMimeType()).toBe('video/webm;codecs=vp8')
+    } finally {
+      vi.unstubAllGlobals()
+    }
+  })
+})
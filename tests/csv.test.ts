@@ -0,0 +1,146 @@
+import { readFile } from 'node:fs/promises'
+import path from 'node:path'
+import { describe, expect, it } from 'vitest'
+
+import { createCsvParser, detectDelimiter, parseCsv, readCsvFile } from '../src/lib/csv'
+import { parseTwoFileCSV } from '../src/lib/csv-two-file-parser'
+import { guessEdgeListMapping, parseEdgeList, readEdgeListCsv, readEdgeListRows } from '../src/lib/edge-list-mapping'
+import { STATE_MIGRATION_CSV_FILES } from '../src/data/stateMigrationFiles'
+
+const DATA_DIR = path.resolve(__dirname, '..', 'src', 'data')
+const PUBLIC_DATA_DIR = path.resolve(__dirname, '..', 'public', 'data')
+
+// Quoted delimiters, doubled quotes, a quoted line break, CRLF and bare CR line ends
+const tricky = '\uFEFFid,name,note\r\n1,"Basel, Stadt","said ""hi"""\r\n2,Bern,"two\r\nlines"\r3,,\n\n4,Zug,\n'
+
+describe('CSV parser', () => {
+  it('follows RFC 4180', () => {
+    const result = parseCsv(tricky)
+    expect(result.rows).toEqual([
+      ['id', 'name', 'note'],
+      ['1', 'Basel, Stadt', 'said "hi"'],
+      ['2', 'Bern', 'two\r\nlines'],
+      ['3', '', ''],
+      [''],
+      ['4', 'Zug', ''],
+    ])
+    expect(result).toMatchObject({ delimiter: ',', errors: [] })
+  })
+
+  it('gives the same rows however the text is split into chunks', () => {
+    const whole = parseCsv(tricky)
+    for (const size of [1, 2, 3, 7]) {
+      const parser = createCsvParser()
+      for (let i = 0; i < tricky.length; i += size) parser.push(tricky.slice(i, i + size))
+      expect(parser.end()).toEqual(whole)
+    }
+
+    const streamed: string[][] = []
+    const parser = createCsvParser({ onRow: (row) => streamed.push(row) })
+    parser.push(tricky)
+    expect(parser.end().rows).toEqual([])
+    expect(streamed).toEqual(whole.rows)
+  })
+
+  it('detects the delimiter', () => {
+    // Decimal commas do not outvote the semicolons, and a title line does not count
+    expect(detectDelimiter('origin;dest;count\nZH;BE;1,5\nBE;ZH;2,25\n')).toBe(';')
+    expect(detectDelimiter('Moves in 2016\nfrom\tto\tn\nZH\tBE\t3\n')).toBe('\t')
+    expect(detectDelimiter('a|b\n"x|y"|1\n')).toBe('|')
+    expect(detectDelimiter('"Basel, Stadt"\nBern\n')).toBe(',')
+    expect(parseCsv('a;b\n"1;2";3\n').rows).toEqual([
+      ['a', 'b'],
+      ['1;2', '3'],
+    ])
+    expect(parseCsv('a;b,c\n', { delimiter: ',' }).rows).toEqual([['a;b', 'c']])
+  })
+
+  it('collects row errors and keeps reading', () => {
+    const result = parseCsv('a,b\n1,2"3\n"4"5,6\n7\n"8,9\n', { checkFieldCount: true })
+    expect(result.rows).toEqual([['a', 'b'], ['1', '2"3'], ['45', '6'], ['7'], ['8,9\n']])
+    expect(result.errors).toEqual([
+      { row: 2, message: 'Quote inside an unquoted field' },
+      { row: 3, message: 'Unexpected text after a closing quote' },
+      { row: 4, message: 'Expected 2 fields but found 1' },
+      { row: 5, message: 'Quoted field is not closed' },
+      { row: 5, message: 'Expected 2 fields but found 1' },
+    ])
+    expect(parseCsv('a,b\n1,2\n3,4\n', { maxRows: 1 }).rows).toEqual([['a', 'b']])
+  })
+
+  it('detects the encoding and reports progress', async () => {
+    const text = 'id;name\nZH;Zürich\n'
+    const latin1 = Uint8Array.from(text, (char) => char.charCodeAt(0))
+    const utf16 = new Uint8Array([0xff, 0xfe, ...Array.from(text).flatMap((char) => [char.charCodeAt(0), 0])])
+    const utf8 = new Uint8Array([0xef, 0xbb, 0xbf, ...new TextEncoder().encode(text)])
+    const files = [
+      { bytes: utf8, encoding: 'utf-8' },
+      { bytes: utf16, encoding: 'utf-16le' },
+      { bytes: latin1, encoding: 'windows-1252' },
+    ]
+    for (const { bytes, encoding } of files) {
+      const progress: number[] = []
+      const file = await readCsvFile(new File([bytes], 'locations.csv'), {
+        onProgress: (loaded, total) => progress.push(loaded / total),
+      })
+      expect(file).toMatchObject({ encoding, delimiter: ';', errors: [] })
+      expect(file.rows[1]).toEqual(['ZH', 'Zürich'])
+      expect(progress[progress.length - 1]).toBe(1)
+    }
+  })
+})
+
+describe('bundled CSV files', () => {
+  const acsFiles = [
+    ...STATE_MIGRATION_CSV_FILES.map((entry) => path.resolve(DATA_DIR, 'StateToStateMigrationUSCSV', entry.filename)),
+    path.resolve(DATA_DIR, 'State_to_State_Migrations_Table_2021.csv'),
+  ]
+
+  it('reads every ACS table without errors', async () => {
+    for (const filePath of acsFiles) {
+      const content = await readFile(filePath, 'utf8')
+      const result = parseCsv(content, { checkFieldCount: true })
+      expect(result.errors, filePath).toEqual([])
+      expect(result.delimiter).toBe(',')
+      expect(result.rows[0]).toEqual(['period', 'source_id', 'source_label', 'destination_id', 'destination_label', 'estimate', 'moe'])
+      expect(result.rows).toHaveLength(content.trimEnd().split('\n').length)
+    }
+  })
+
+  it('reads the Swiss relocations as UTF-8, with commas or semicolons', async () => {
+    const [locations, flows] = await Promise.all(
+      ['locations', 'flows'].map((name) =>
+        readFile(path.resolve(PUBLIC_DATA_DIR, `Swiss_Relocations_2016_${name}.csv`)).then(
+          (buffer) => new File([new Uint8Array(buffer)], `${name}.csv`),
+        ),
+      ),
+    )
+    const locationsCsv = await readCsvFile(locations)
+    const flowsCsv = await readCsvFile(flows)
+    const flowsText = await readFile(path.resolve(PUBLIC_DATA_DIR, 'Swiss_Relocations_2016_flows.csv'), 'utf8')
+    const locationsText = await readFile(path.resolve(PUBLIC_DATA_DIR, 'Swiss_Relocations_2016_locations.csv'), 'utf8')
+    expect(locationsCsv).toMatchObject({ encoding: 'utf-8', delimiter: ',', errors: [] })
+    expect(locationsCsv.rows[1]).toEqual(['ZH', 'Zürich', '47.41260612', '8.654789285'])
+    expect(flowsCsv).toMatchObject({ encoding: 'utf-8', delimiter: ',', errors: [] })
+
+    // The same files as a European spreadsheet would save them
+    const toSemicolons = (csv: string) => csv.replaceAll(',', ';')
+    const [commas, semicolons] = [
+      [locationsCsv.rows, flowsCsv.rows],
+      [parseCsv(toSemicolons(locationsText)).rows, parseCsv(toSemicolons(flowsText)).rows],
+    ].map(([nodes, edges]) =>
+      parseTwoFileCSV({
+        nodesFile: { rows: nodes, idField: 'id', labelField: 'name' },
+        edgesFile: { rows: edges, sourceField: 'origin', targetField: 'dest', valueField: 'count' },
+      }),
+    )
+    expect(commas.nodes).toHaveLength(26)
+    expect(commas.nodes[0]).toMatchObject({ id: 'ZH', label: 'Zürich' })
+    expect(commas.edges[0]).toEqual({ source: 'ZH', target: 'ZH', value: 66855 })
+    expect(semicolons).toEqual(commas)
+
+    const table = readEdgeListCsv(toSemicolons(flowsText))
+    expect(table).toEqual(readEdgeListRows(flowsCsv.rows))
+    expect(parseEdgeList(table, guessEdgeListMapping(table)).snapshots[0].nodes).toHaveLength(26)
+  })
+})
@@ -0,0 +1,242 @@
+// @vitest-environment jsdom
+import * as d3 from 'd3'
+import { describe, expect, it, vi } from 'vitest'
+
+import {
+  LEGEND_FRAME_PADDING,
+  arcGeometry,
+  arcPath,
+  arcShape,
+  kriskogram,
+  layoutLegend,
+  resolveEdgeStroke,
+} from '../src/d3-kriskogram'
+import { stubSvgMeasurement } from './helpers'
+
+stubSvgMeasurement()
+
+const data = {
+  nodes: [{ id: 'A' }, { id: 'B' }, { id: 'C' }],
+  edges: [
+    { source: 'A', target: 'B', value: 4 },
+    { source: 'C', target: 'A', value: 2 },
+  ],
+}
+
+describe('arc geometry', () => {
+  it('stands left-to-right arcs on the baseline, sweeping over it', () => {
+    const geometry = arcGeometry(100, 300, 200)
+    expect(geometry).toMatchObject({ isAbove: false, startY: 200, radius: 100, arcHeight: 100, sweep: 1 })
+    expect(arcPath(geometry)).toBe('M100,200 A100,100 0 0,1 300,200')
+    expect(arcShape(geometry)).toEqual({ cx: 200, cy: 200, rx: 100, ry: 100, side: -1 })
+  })
+
+  it('sends right-to-left arcs under the baseline and lifts their feet by the gap', () => {
+    const geometry = arcGeometry(300, 100, 200, { gap: 15 })
+    expect(geometry).toMatchObject({ isAbove: true, startY: 215, sweep: 1 })
+    expect(arcShape(geometry).side).toBe(1)
+    // The gap never exceeds half the span
+    expect(arcGeometry(110, 100, 200, { gap: 15 }).startY).toBe(205)
+  })
+
+  it('scales the height by the bend factor', () => {
+    const bend = vi.fn(() => 1.5)
+    const geometry = arcGeometry(0, 100, 200, { bend })
+    expect(bend).toHaveBeenCalledWith(0, 100, 200, 150)
+    expect(geometry.arcHeight).toBe(75)
+    expect(geometry.radius).toBe(50)
+  })
+})
+
+describe('legend layout', () => {
+  it('stacks items from the origin with spacing and frames them', () => {
+    const layout = layoutLegend(
+      [
+        { width: 120, height: 40 },
+        { width: 200, height: 60 },
+      ],
+      { x: 40, y: 50 },
+      12,
+    )
+    expect(layout.items).toEqual([
+      { x: 40, y: 50, width: 120, height: 40 },
+      { x: 40, y: 102, width: 200, height: 60 },
+    ])
+    expect(layout.frame).toEqual({
+      x: 40 - LEGEND_FRAME_PADDING,
+      y: 50 - LEGEND_FRAME_PADDING,
+      width: 200 + LEGEND_FRAME_PADDING * 2,
+      height: 112 + LEGEND_FRAME_PADDING * 2,
+    })
+  })
+
+  it('frames nothing but padding when there are no items', () => {
+    expect(layoutLegend([], { x: 0, y: 0 }).frame.height).toBe(LEGEND_FRAME_PADDING * 2)
+  })
+})
+
+describe('edge styles', () => {
+  it('turns segment settings into dash attributes', () => {
+    expect(resolveEdgeStroke({ type: 'segmented', length: 8, gap: 4, offset: 15, cap: 'butt' })).toMatchObject({
+      dash: '8 4',
+      dashOffset: 15,
+      footGap: 15,
+      lineCap: 'butt',
+      cycle: 12,
+      width: null,
+    })
+    expect(resolveEdgeStroke({ type: 'outline', width: 0.1 }).width).toBe(0.5)
+    expect(resolveEdgeStroke()).toMatchObject({ type: 'filled', dash: null, footGap: 0 })
+  })
+})
+
+describe('reusable chart', () => {
+  it('tweens rendered charts on later calls and redraws when the layout changes', () => {
+    const container = document.createElement('div')
+    document.body.appendChild(container)
+    const chart = kriskogram().width(400).height(200).transition(0)
+    const selection = d3.select(container).datum(data)
+
+    selection.call(chart)
+    const first = chart.instance(container)
+    expect(container.querySelectorAll('path.arc')).toHaveLength(2)
+
+    selection.datum({ ...data, edges: data.edges.slice(0, 1) }).call(chart)
+    expect(chart.instance(container)).toBe(first)
+
+    chart.margin({ top: 40, right: 40, bottom: 40, left: 40 })
+    selection.call(chart)
+    expect(chart.instance(container)).toBe(first)
+
+    chart.width(500)
+    selection.call(chart)
+    expect(chart.instance(container)).not.toBe(first)
+    expect(chart.width()).toBe(500)
+
+    chart.remove(container)
+    expect(chart.instance(container)).toBeUndefined()
+    expect(container.childElementCount).toBe(0)
+    container.remove()
+  })
+
+  it('keys overlay arcs by offset and draws every arc in the chosen edge style', () => {
+    const container = document.createElement('div')
+    document.body.appendChild(container)
+    const edges = [
+      { source: 'A', target: 'B', value: 4, offset: 0 },
+      { source: 'A', target: 'B', value: 3, offset: -1 },
+    ]
+    const chart = kriskogram<{ id: string }, (typeof edges)[number]>()
+      .overlay({ offset: (edge) => edge.offset })
+      .edgeStyle({ type: 'segmented', length: 6, gap: 2 })
+    d3.select(container).datum({ nodes: data.nodes, edges }).call(chart)
+
+    const arcs = container.querySelectorAll('path.arc')
+    expect(arcs).toHaveLength(2)
+    expect([...arcs].map((arc) => arc.getAttribute('stroke-dasharray'))).toEqual(['6 2', '6 2'])
+    // The overlay arc is drawn fainter than the current one
+    expect(Number(arcs[1].getAttribute('opacity'))).toBeLessThan(Number(arcs[0].getAttribute('opacity')))
+    chart.remove(container)
+    container.remove()
+  })
+
+  it('dashes and describes arcs through the edge accessors', () => {
+    const container = document.createElement('div')
+    document.body.appendChild(container)
+    const chart = kriskogram().accessors({
+      edgeDash: (edge) => (edge.source === 'C' ? '6 4' : null),
+      edgeDetails: (edge) => [{ label: 'Change', value: `+${edge.value}` }],
+    })
+    d3.select(container).datum(data).call(chart)
+
+    const arcs = [...container.querySelectorAll('path.arc')]
+    expect(arcs.map((arc) => arc.getAttribute('stroke-dasharray'))).toEqual([null, '6 4'])
+    arcs[0].dispatchEvent(new MouseEvent('mouseover'))
+    const tooltip = document.querySelector('.kriskogram-tooltip')?.textContent ?? ''
+    expect(tooltip).toContain('Change: +4')
+    expect(tooltip).not.toContain('Migrants')
+    chart.remove(container)
+    container.remove()
+  })
+
+  it('applies interaction options and reports node hovers to listeners', () => {
+    const container = document.createElement('div')
+    document.body.appendChild(container)
+    const hovered: Array<string | null> = []
+    const chart = kriskogram().on('nodeHover', (nodeId) => hovered.push(nodeId))
+    d3.select(container).datum(data).call(chart)
+
+    const setHighlightedNode = vi.spyOn(chart.instance(container)!, 'setHighlightedNode')
+    chart.highlightedNode('B')
+    expect(setHighlightedNode).toHaveBeenCalledWith('B')
+
+    const node = container.querySelector('g.node') as SVGGElement
+    node.dispatchEvent(new MouseEvent('mouseover'))
+    node.dispatchEvent(new MouseEvent('mouseout'))
+    expect(hovered).toEqual(['A', null])
+    chart.remove(container)
+    container.remove()
+  })
+  it('hides overlapping labels, keeping the busiest and highlighted nodes, and the minimap until zoomed', () => {
+    const container = document.createElement('div')
+    document.body.appendChild(container)
+    const nodes = 'ABCDEFGHIJKL'.split('').map((id) => ({ id }))
+    const chart = kriskogram().width(240).height(200).highlightedNode('F')
+    d3.select(container).datum({ nodes, edges: [{ source: 'A', target: 'L', value: 10 }] }).call(chart)
+
+    const labels = new Map(
+      [...container.querySelectorAll<SVGGElement>('g.node')].map((g) => [
+        d3.select<SVGGElement, { id: string }>(g).datum().id,
+        g.querySelector<SVGGElement>('g.node-label'),
+      ]),
+    )
+    const labelShown = (id: string) => labels.get(id)?.style.display !== 'none'
+    expect(labelShown('A')).toBe(true)
+    expect(labelShown('L')).toBe(true)
+    expect(labelShown('F')).toBe(true)
+    expect(nodes.filter((node) => labelShown(node.id)).length).toBeLessThan(nodes.length)
+    expect((container.querySelector('.kris-minimap') as SVGGElement).style.display).toBe('none')
+    chart.remove(container)
+    container.remove()
+  })
+
+  it('lets arcs be grabbed while link sliding is on', () => {
+    const container = document.createElement('div')
+    document.body.appendChild(container)
+    const chart = kriskogram().linkSliding(true)
+    d3.select(container).datum(data).call(chart)
+
+    const cursors = () => [...container.querySelectorAll<SVGPathElement>('path.arc')].map((arc) => arc.style.cursor)
+    expect(cursors()).toEqual(['grab', 'grab'])
+    chart.linkSliding(false)
+    expect(cursors()).toEqual(['pointer', 'pointer'])
+    chart.remove(container)
+    container.remove()
+  })
+
+  it('brings the neighbours of a clicked node and goes to a clicked neighbour', async () => {
+    const container = document.createElement('div')
+    document.body.appendChild(container)
+    const went: string[] = []
+    const chart = kriskogram()
+      .bringAndGo(true)
+      .on('bringAndGo', (nodeId) => went.push(nodeId))
+    d3.select(container).datum(data).call(chart)
+
+    const nodeGroups = new Map(
+      [...container.querySelectorAll<SVGGElement>('g.node')].map((g) => [d3.select<SVGGElement, { id: string }>(g).datum().id, g]),
+    )
+    const arcOpacities = () => [...container.querySelectorAll('path.arc')].map((arc) => arc.getAttribute('opacity'))
+
+    nodeGroups.get('B')?.dispatchEvent(new MouseEvent('click'))
+    // Only the arc from A to B involves B
+    expect(arcOpacities()).toEqual(['1', '0.12'])
+    expect(went).toEqual([])
+
+    nodeGroups.get('A')?.dispatchEvent(new MouseEvent('click'))
+    await vi.waitFor(() => expect(went).toEqual(['A']), { timeout: 2000 })
+    expect(arcOpacities()).not.toContain('0.12')
+    chart.remove(container)
+    container.remove()
+  })
+})
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest'
+
+import { DOI_PRESETS, rankOffscreenNodes } from '../src/lib/degree-of-interest'
+
+const edges = [
+  { source: 'A', target: 'X', value: 10 },
+  { source: 'Y', target: 'B', value: 40 },
+  { source: 'X', target: 'B', value: 25 },
+  { source: 'X', target: 'Y', value: 500 },
+  { source: 'A', target: 'B', value: 900 },
+]
+
+describe('rankOffscreenNodes', () => {
+  const visible = new Set(['A', 'B'])
+  const offscreen = new Set(['X', 'Y', 'Z'])
+
+  it('scores off-screen nodes only by their flows into the view', () => {
+    expect(rankOffscreenNodes(edges, visible, offscreen, DOI_PRESETS.sum.fn)).toEqual([
+      { id: 'Y', score: 40, flows: 1 },
+      { id: 'X', score: 35, flows: 2 },
+    ])
+  })
+
+  it('lets the DOI function change the ranking', () => {
+    const ranked = rankOffscreenNodes(edges, visible, offscreen, DOI_PRESETS.count.fn)
+    expect(ranked.map((entry) => entry.id)).toEqual(['X', 'Y'])
+  })
+})
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+
+import { arcBendFactor, decodeLens, encodeLens, fisheyeX, lensInfluence } from '../src/lib/edge-lens'
+import type { KriskogramLens } from '../src/lib/edge-lens'
+
+describe('edge lenses', () => {
+  it('falls off from the centre according to the lens shape', () => {
+    const circle: KriskogramLens = { x: 100, y: 100, radius: 50 }
+    expect(lensInfluence(circle, 100, 100)).toBe(1)
+    expect(lensInfluence(circle, 130, 140)).toBe(0)
+
+    const rect: KriskogramLens = { ...circle, shape: 'rect' }
+    expect(lensInfluence(rect, 125, 120)).toBeCloseTo(0.5)
+    expect(lensInfluence(rect, 100, 130)).toBe(0)
+
+    const band: KriskogramLens = { ...circle, shape: 'band' }
+    expect(lensInfluence(band, 125, 900)).toBeCloseTo(0.5)
+  })
+
+  it('lets the strongest bend lens win instead of compounding', () => {
+    const lens: KriskogramLens = { x: 100, y: 300, radius: 40 }
+    expect(arcBendFactor([lens], 80, 120, 300, 280)).toBeCloseTo(2.5)
+    expect(arcBendFactor([lens, lens], 80, 120, 300, 280)).toBeCloseTo(2.5)
+    expect(arcBendFactor([{ ...lens, effect: 'fisheye' }], 80, 120, 300, 280)).toBe(1)
+  })
+
+  it('magnifies around a fisheye lens while keeping order and the lens edges', () => {
+    const lens: KriskogramLens = { x: 200, y: 300, radius: 100, effect: 'fisheye' }
+    const xs = [90, 100, 150, 190, 200, 210, 250, 300, 310]
+    const moved = xs.map((x) => fisheyeX([lens], x, 300))
+    expect(moved[0]).toBe(90)
+    expect(moved[1]).toBeCloseTo(100)
+    expect(moved[4]).toBe(200)
+    expect(moved[7]).toBeCloseTo(300)
+    expect(moved[8]).toBe(310)
+    expect(moved[5] - moved[3]).toBeGreaterThan(20)
+    for (let i = 1; i < moved.length; i += 1) {
+      expect(moved[i]).toBeGreaterThan(moved[i - 1])
+    }
+    expect(fisheyeX([{ ...lens, y: 0 }], 190, 300)).toBe(190)
+  })
+
+  it('round-trips pinned lenses through their URL form', () => {
+    const lens: KriskogramLens = { x: 120.4, y: 80, radius: 60, shape: 'band', effect: 'fisheye' }
+    expect(encodeLens(lens)).toBe('band:fisheye:120:80:60')
+    expect(decodeLens('band:fisheye:120:80:60')).toEqual({ x: 120, y: 80, radius: 60, shape: 'band', effect: 'fisheye' })
+    expect(decodeLens('hexagon:bend:1:2:3')).toBeNull()
+    expect(decodeLens('circle:bend:1:2:0')).toBeNull()
+  })
+})
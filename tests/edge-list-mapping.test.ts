@@ -0,0 +1,169 @@
+import { readFile } from 'node:fs/promises'
+import path from 'node:path'
+import { describe, expect, it } from 'vitest'
+
+import {
+  guessEdgeListMapping,
+  missingColumns,
+  parseDate,
+  parseEdgeList,
+  readEdgeListCsv,
+} from '../src/lib/edge-list-mapping'
+
+// Headers with spaces, CRLF line ends, dates in two styles and a few bad rows
+const moves = readEdgeListCsv(
+  [
+    'Move Date,From,To,Persons,Reason,Household size,Notes',
+    '2019-03-01,Bern,Basel,"1,200",work,2,',
+    '15.07.2019,Basel,Bern,40,family,1,late',
+    '2020-01-10,Bern,Basel,7,work,,',
+    '2020-02-30,Bern,Basel,3,work,1,',
+    '2020-05-01,,Basel,3,work,1,',
+    '2020-05-02,Basel,Bern,N/A,work,1,',
+  ].join('\r\n'),
+)
+
+describe('edge list mapping', () => {
+  it('guesses columns from names and values', () => {
+    expect(guessEdgeListMapping(moves)).toEqual({
+      source: 'From',
+      target: 'To',
+      weight: 'Persons',
+      time: 'Move Date',
+      attributes: [
+        { column: 'Reason', type: 'category' },
+        { column: 'Household size', type: 'number' },
+        { column: 'Notes', type: 'category' },
+      ],
+      decimal: '.',
+    })
+    expect(['2016-3-1', '2016/03', '01.03.2016', '31/12/2016', '2016-02-30', '2016'].map(parseDate)).toEqual([
+      '2016-03-01',
+      '2016-03-01',
+      '2016-03-01',
+      '2016-12-31',
+      null,
+      null,
+    ])
+  })
+
+  it('splits rows into snapshots by time and types attributes', () => {
+    const result = parseEdgeList(moves, {
+      source: 'From',
+      target: 'To',
+      weight: 'Persons',
+      time: 'Move Date',
+      attributes: [
+        { column: 'Reason', type: 'category' },
+        { column: 'Household size', type: 'number' },
+      ],
+    })
+    expect(result.snapshots).toEqual([
+      {
+        timestamp: 2019,
+        nodes: [
+          { id: 'Bern', label: 'Bern' },
+          { id: 'Basel', label: 'Basel' },
+        ],
+        edges: [
+          { source: 'Bern', target: 'Basel', value: 1200, Reason: 'work', 'Household size': 2 },
+          { source: 'Basel', target: 'Bern', value: 40, Reason: 'family', 'Household size': 1 },
+        ],
+      },
+      {
+        timestamp: 2020,
+        nodes: [
+          { id: 'Bern', label: 'Bern' },
+          { id: 'Basel', label: 'Basel' },
+        ],
+        edges: [{ source: 'Bern', target: 'Basel', value: 7, Reason: 'work' }],
+      },
+    ])
+    expect(result.skipped).toEqual({ ends: 1, weight: 1, time: 1 })
+    expect(result.metadata.hasNumericProperties.edges).toEqual(['Household size'])
+    expect(result.metadata.hasCategoricalProperties.edges).toEqual(['Reason'])
+  })
+
+  it('counts each row once without a weight and keeps dates as attributes', () => {
+    const result = parseEdgeList(readEdgeListCsv('from,to,date\nBern,Basel,2019-03-01\nBasel,Bern,15.07.2019\nBern,Zug,'), {
+      source: 'from',
+      target: 'to',
+      attributes: [{ column: 'date', type: 'date' }],
+    })
+    expect(result.snapshots).toHaveLength(1)
+    expect(result.snapshots[0].timestamp).toBeNull()
+    expect(result.snapshots[0].edges).toEqual([
+      { source: 'Bern', target: 'Basel', value: 1, date: '2019-03-01' },
+      { source: 'Basel', target: 'Bern', value: 1, date: '2019-07-15' },
+      { source: 'Bern', target: 'Zug', value: 1 },
+    ])
+    expect(result.metadata.edgeProperties).toEqual(['date'])
+  })
+
+  it('adds up rows for the same flow in a snapshot', () => {
+    // Monthly records: each pair must become a single edge, or the renderer drops all but one
+    const monthly = readEdgeListCsv(
+      [
+        'date,origin,dest,count,mode,cost',
+        '2016-01-31,ZH,BE,10,rail,100',
+        '2016-02-29,ZH,BE,5,rail,50',
+        '2016-03-31,ZH,BE,2,car,',
+        '2016-03-31,BE,ZH,4,rail,40',
+        '2017-01-31,ZH,BE,1,rail,10',
+      ].join('\n'),
+    )
+    const result = parseEdgeList(monthly, guessEdgeListMapping(monthly))
+    expect(result.snapshots.map((snapshot) => [snapshot.timestamp, snapshot.edges])).toEqual([
+      [
+        2016,
+        [
+          { source: 'ZH', target: 'BE', value: 17, cost: 150 },
+          { source: 'BE', target: 'ZH', value: 4, mode: 'rail', cost: 40 },
+        ],
+      ],
+      [2017, [{ source: 'ZH', target: 'BE', value: 1, mode: 'rail', cost: 10 }]],
+    ])
+    expect(result.merged).toBe(2)
+
+    // Without a weight each row counts once
+    const counted = parseEdgeList(moves, { source: 'From', target: 'To', attributes: [] })
+    expect(counted.snapshots[0].edges).toEqual([
+      { source: 'Bern', target: 'Basel', value: 3 },
+      { source: 'Basel', target: 'Bern', value: 2 },
+    ])
+  })
+
+  it('reads decimal commas', () => {
+    // A semicolon export from a German-language spreadsheet
+    const table = readEdgeListCsv(['origin;dest;count;share', 'ZH;BE;1,5;0,25', 'BE;ZH;2,25;1.234,5', 'ZH;LU;1.200;3'].join('\n'))
+    const mapping = guessEdgeListMapping(table)
+    expect(mapping).toMatchObject({ weight: 'count', decimal: ',', attributes: [{ column: 'share', type: 'number' }] })
+    expect(parseEdgeList(table, mapping).snapshots[0].edges).toEqual([
+      { source: 'ZH', target: 'BE', value: 1.5, share: 0.25 },
+      { source: 'BE', target: 'ZH', value: 2.25, share: 1234.5 },
+      { source: 'ZH', target: 'LU', value: 1200, share: 3 },
+    ])
+    // Thousands commas and decimal points stay the default
+    const points = readEdgeListCsv('from,to,n\nA,B,"1,234.5"\nB,A,0.75')
+    expect(guessEdgeListMapping(points).decimal).toBe('.')
+    expect(parseEdgeList(points, guessEdgeListMapping(points)).snapshots[0].edges.map((edge) => edge.value)).toEqual([
+      1234.5, 0.75,
+    ])
+  })
+
+  it('checks presets against the file columns', () => {
+    const preset = { source: 'From', target: 'To', weight: 'Count', attributes: [{ column: 'Mode', type: 'category' as const }] }
+    expect(missingColumns(preset, moves.headers)).toEqual(['Count', 'Mode'])
+    expect(() => parseEdgeList(moves, preset)).toThrow('Column "Count", "Mode" not found')
+  })
+
+  it('reads the bundled Swiss relocation flows', async () => {
+    const content = await readFile(path.resolve(__dirname, '..', 'public', 'data', 'Swiss_Relocations_2016_flows.csv'), 'utf8')
+    const table = readEdgeListCsv(content)
+    const mapping = guessEdgeListMapping(table)
+    expect(mapping).toMatchObject({ source: 'origin', target: 'dest', weight: 'count', attributes: [] })
+    const [snapshot] = parseEdgeList(table, mapping).snapshots
+    expect(snapshot.nodes).toHaveLength(26)
+    expect(snapshot.edges[0]).toEqual({ source: 'ZH', target: 'ZH', value: 66855 })
+  })
+})
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+
+import { edgeTableToGraph, readArrowEdges, readParquetEdges, writeEdgeTable } from '../src/lib/edge-table'
+import type { StoredDataset } from '../src/lib/storage'
+
+// Two years with a gap, flows split by type, and a missing MOE
+const dataset: StoredDataset = {
+  id: 'test',
+  name: 'Test',
+  type: 'manual',
+  timeRange: { start: 2019, end: 2021 },
+  snapshots: [
+    {
+      timestamp: 2019,
+      nodes: [
+        { id: 'AL', label: 'Alabama' },
+        { id: 'AK', label: 'Alaska' },
+      ],
+      edges: [
+        { source: 'AL', target: 'AK', value: 120, moe: 40.5, migration_type: 'work' },
+        { source: 'AL', target: 'AK', value: 30, migration_type: 'family' },
+      ],
+    },
+    {
+      timestamp: 2021,
+      nodes: [
+        { id: 'AL', label: 'Alabama' },
+        { id: 'AK', label: 'Alaska' },
+      ],
+      edges: [
+        { source: 'AK', target: 'AL', value: 7.5, migration_type: 'work', seasonal: true },
+        { source: 'AL', target: 'AK', value: 2, migration_type: 'work' },
+      ],
+    },
+  ],
+  createdAt: 0,
+}
+
+describe('edge tables', () => {
+  it('round-trips edge lists through Arrow and Parquet', async () => {
+    const arrow = await readArrowEdges(await writeEdgeTable(dataset, 'arrow'))
+    expect(arrow.snapshots).toEqual(dataset.snapshots)
+    const parquet = await readParquetEdges(await writeEdgeTable(dataset, 'parquet'))
+    expect(parquet.snapshots).toEqual(dataset.snapshots)
+  })
+
+  it('matches origin–destination columns by name', () => {
+    const columns: Record<string, unknown[]> = {
+      Origin: ['06', '48'],
+      destination_label: ['Texas', 'California'],
+      Destination: ['48', '06'],
+      estimate: [10n, 4n],
+      moe: [2, null],
+    }
+    const graph = edgeTableToGraph(Object.keys(columns), 2, (column, row) => columns[column][row])
+    expect(graph.snapshots).toEqual([
+      {
+        timestamp: null,
+        nodes: [
+          { id: '06', label: 'California' },
+          { id: '48', label: 'Texas' },
+        ],
+        edges: [
+          { source: '06', target: '48', value: 10, moe: 2 },
+          { source: '48', target: '06', value: 4 },
+        ],
+      },
+    ])
+    expect(() => edgeTableToGraph(['from_state'], 0, () => null)).toThrow('source and target')
+  })
+})
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest'
+
+import { type ExplorerPipelineParams, computeExplorerData, createExplorerPipeline } from '../src/lib/explorer-pipeline'
+
+const nodes = [
+  { id: 'A', label: 'A', region: 'West' },
+  { id: 'B', label: 'B', region: 'West' },
+  { id: 'C', label: 'C', region: 'South' },
+  { id: 'D', label: 'D', region: 'South' },
+]
+
+const snapshots = [
+  {
+    timestamp: 2020,
+    nodes,
+    edges: [
+      { source: 'A', target: 'B', value: 40 },
+      { source: 'A', target: 'C', value: 10 },
+    ],
+  },
+  {
+    timestamp: 2021,
+    nodes,
+    edges: [
+      { source: 'A', target: 'B', value: 100 },
+      { source: 'B', target: 'C', value: 30 },
+      { source: 'C', target: 'A', value: 5 },
+      { source: 'D', target: 'D', value: 7 },
+    ],
+  },
+]
+
+const params: ExplorerPipelineParams = {
+  year: 2021,
+  multiYear: true,
+  viewType: 'kriskogram',
+  nodeFilterAttribute: null,
+  nodeFilterValues: [],
+  edgeTypeProperty: null,
+  edgeTypeFilter: null,
+  intraFilter: 'none',
+  hideUnreliable: false,
+  cvThreshold: 0.4,
+  flowMode: 'raw',
+  minThreshold: 0,
+  maxThreshold: 1000,
+  maxEdges: 10,
+  showAllNodes: false,
+  egoNodeId: null,
+  egoNeighborSteps: 1,
+  temporalOverlayEnabled: false,
+  temporalOverlayEdgeStyle: 'filled',
+  temporalOverlayYearsPast: 1,
+  temporalOverlayYearsFuture: 0,
+  temporalOverlayColorPast: '#0000ff',
+  temporalOverlayColorMid: '#888888',
+  temporalOverlayColorFuture: '#ff0000',
+  temporalOverlayCurrentBlack: false,
+  edgeSegmentLength: 8,
+  edgeSegmentGap: 4,
+  edgeSegmentOffset: 0,
+  edgeSegmentSpeed: 1,
+  edgeSegmentScaleByWeight: false,
+  edgeSegmentCap: 'round',
+  edgeSegmentAnimate: false,
+  edgeOutlineGap: 2,
+}
+
+describe('explorer pipeline', () => {
+  it('filters edges and derives visible and whole-year node totals', () => {
+    const data = computeExplorerData(snapshots, { ...params, minThreshold: 10 })
+    expect(data.year).toBe(2021)
+    expect(data.baseEdges.map((edge) => `${edge.source}-${edge.target}`)).toEqual(['A-B', 'B-C'])
+    expect(data.nodes.map((node) => node.id)).toEqual(['A', 'B', 'C'])
+    const a = data.nodes[0]
+    expect(a).toMatchObject({ total_outgoing_visible: 100, total_incoming_visible: 0, total_incoming_year: 5 })
+    expect(a.net_flow_year).toBe(-95)
+    expect(a.temporal_details).toEqual([expect.objectContaining({ year: 2021, is_current: true })])
+  })
+
+  it('keeps only edge-scope matches and self-flow out of the arcs', () => {
+    const data = computeExplorerData(snapshots, { ...params, intraFilter: 'interRegion', showAllNodes: true })
+    expect(data.baseEdges.map((edge) => `${edge.source}-${edge.target}`)).toEqual(['B-C', 'C-A'])
+    expect(data.nodes.find((node) => node.id === 'D')?.self_flow_year).toBe(7)
+  })
+
+  it('restricts edges to the ego network', () => {
+    const data = computeExplorerData(snapshots, { ...params, egoNodeId: 'C' })
+    expect(data.baseEdges.map((edge) => edge._egoStep)).toEqual([1, 1])
+    expect(data.egoStepMax).toBe(1)
+  })
+
+  it('adds past-year overlay edges and a legend', () => {
+    const data = computeExplorerData(snapshots, { ...params, temporalOverlayEnabled: true })
+    const overlay = data.edges.filter((edge) => edge._overlayType)
+    expect(overlay).toHaveLength(2)
+    expect(overlay[0]).toMatchObject({ _overlayType: 'past', _overlayYear: 2020, _overlayOffset: -1 })
+    expect(data.temporalOverlay?.hasPast).toBe(true)
+    expect(data.temporalOverlay?.legendEntries.map((entry) => entry.label)).toEqual([
+      '2021 (current)',
+      '2020 (1 year past)',
+    ])
+  })
+
+  it('reports the requested year even when it has no snapshot', async () => {
+    const { promise } = createExplorerPipeline(snapshots).compute({ ...params, year: 2019 })
+    const data = await promise
+    expect(data.year).toBe(2019)
+    expect(data.nodes).toEqual([])
+  })
+})
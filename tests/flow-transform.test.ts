@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+
+import { applyFlowMode, transformFlows } from '../src/lib/flow-transform'
+
+const edges = [
+  { source: 'A', target: 'B', value: 300, moe: 30 },
+  { source: 'B', target: 'A', value: 500, moe: 40 },
+  { source: 'A', target: 'C', value: 50 },
+  { source: 'C', target: 'D', value: 20 },
+  { source: 'D', target: 'C', value: 20 },
+]
+
+describe('flow transforms', () => {
+  it('leaves directional flows untouched in raw mode', () => {
+    expect(transformFlows(edges, 'raw')).toBe(edges)
+  })
+
+  it('keeps one arc per pair in the dominant direction for net flow', () => {
+    const net = transformFlows(edges, 'net')
+    expect(net).toHaveLength(2)
+    expect(net[0]).toMatchObject({ source: 'B', target: 'A', value: 200, gross_flow: 800, reverse_flow: 300 })
+    expect(net[0].moe).toBeCloseTo(50)
+    expect(net[1]).toMatchObject({ source: 'A', target: 'C', value: 50, reverse_flow: 0 })
+  })
+
+  it('sums both directions for gross flow and keeps balanced pairs', () => {
+    const gross = transformFlows(edges, 'gross')
+    expect(gross.map((edge) => edge.value)).toEqual([800, 50, 40])
+  })
+
+  it('reports efficiency as net over gross without a MOE', () => {
+    const efficiency = transformFlows(edges, 'efficiency')
+    expect(efficiency[0].value).toBeCloseTo(0.25)
+    expect(efficiency[0].moe).toBeUndefined()
+    expect(efficiency[1].value).toBe(1)
+  })
+
+  it('selects whole pairs when a filter is applied before combining', () => {
+    const net = applyFlowMode(edges, 'net', (edge) => edge.value >= 400)
+    expect(net).toHaveLength(1)
+    expect(net[0]).toMatchObject({ source: 'B', target: 'A', value: 200 })
+    expect(applyFlowMode(edges, 'raw', (edge) => edge.value >= 400)).toHaveLength(1)
+  })
+})
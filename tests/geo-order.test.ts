@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+
+import { geoOrder, getNodeCoordinates, hasGeoCoordinates, hilbertIndex, mortonIndex } from '../src/lib/geo-order'
+
+// Four corners of a square plus its centre, listed out of order
+const square = [
+  { id: 'se', latitude: 0, longitude: 10 },
+  { id: 'nw', latitude: 10, longitude: 0 },
+  { id: 'sw', latitude: 0, longitude: 0 },
+  { id: 'ne', latitude: 10, longitude: 10 },
+]
+
+describe('geographic ordering', () => {
+  it('reads coordinates from attributes or falls back to state centroids', () => {
+    expect(getNodeCoordinates({ id: 'a', lat: '46.9', lon: '7.4' })).toEqual({ latitude: 46.9, longitude: 7.4 })
+    expect(getNodeCoordinates({ id: 'TX', label: 'Texas' })).toMatchObject({ latitude: 31.5 })
+    expect(getNodeCoordinates({ id: 'x', label: 'Atlantis' })).toBeNull()
+    expect(hasGeoCoordinates([{ id: 'x' }, { id: 'y', label: 'Ohio' }, { id: 'z', label: 'Utah' }])).toBe(true)
+  })
+
+  it('indexes curve cells in Hilbert and Morton order', () => {
+    expect([
+      [0, 0],
+      [1, 0],
+      [0, 1],
+      [1, 1],
+    ].map(([x, y]) => mortonIndex(x, y))).toEqual([0, 1, 2, 3])
+    // The Hilbert curve visits the four quadrants in a U
+    const half = 1 << 15
+    const hilbert = [
+      [0, 0],
+      [0, half],
+      [half, half],
+      [half, 0],
+    ].map(([x, y]) => hilbertIndex(x, y))
+    expect([...hilbert].sort((a, b) => a - b)).toEqual(hilbert)
+  })
+
+  it('walks the square without jumping across it', () => {
+    const morton = geoOrder(square, 'geo-morton')
+    expect(morton).toEqual(['nw', 'ne', 'sw', 'se'])
+    const hilbert = geoOrder(square, 'geo-hilbert')
+    expect(hilbert[0]).toBe('nw')
+    for (const order of [hilbert, geoOrder(square, 'geo-tsp')]) {
+      // Adjacent corners share a side, so no step crosses the diagonal
+      for (let i = 1; i < order.length; i++) {
+        expect(new Set([...order[i - 1], ...order[i]]).size).toBe(3)
+      }
+    }
+  })
+
+  it('puts nodes without coordinates at the end', () => {
+    const order = geoOrder([{ id: 'nowhere' }, ...square], 'geo-tsp')
+    expect(order).toHaveLength(5)
+    expect(order[4]).toBe('nowhere')
+  })
+})
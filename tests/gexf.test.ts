@@ -0,0 +1,150 @@
+// @vitest-environment jsdom
+import { readFileSync } from 'node:fs'
+import { resolve } from 'node:path'
+import { describe, expect, it } from 'vitest'
+
+import { datasetToGexf } from '../src/lib/gexf-export'
+import { gexfToKriskogramSnapshots, parseGexf } from '../src/lib/gexf-parser'
+import type { StoredDataset } from '../src/lib/storage'
+import { asDataset } from './helpers'
+
+const sample = readFileSync(resolve(__dirname, '../src/data/sample-migration-data.gexf'), 'utf8')
+
+const roundTrip = (dataset: StoredDataset) => gexfToKriskogramSnapshots(parseGexf(datasetToGexf(dataset)))
+
+const gexf = (graph: string, attributes = '') => `<?xml version="1.0" encoding="UTF-8"?>
+<gexf xmlns="http://gexf.net/1.3" xmlns:viz="http://gexf.net/1.3/viz" version="1.3">
+  <graph defaultedgetype="directed" mode="dynamic" ${attributes}>${graph}</graph>
+</gexf>`
+
+describe('GEXF', () => {
+  it('round-trips the bundled sample without loss', () => {
+    const snapshots = gexfToKriskogramSnapshots(parseGexf(sample))
+    expect(snapshots.map((snapshot) => snapshot.timestamp)).toEqual([2020, 2021, 2022, 2023, 2024])
+    expect(snapshots[0].nodes).toHaveLength(10)
+    expect(snapshots[0].nodes[0]).toMatchObject({ id: 'NYC', label: 'New York City', region: 'Northeast' })
+
+    expect(roundTrip(asDataset(snapshots, 'Sample'))).toEqual(snapshots)
+  })
+
+  it('round-trips CSV-style datasets with gaps, split flows and changing values', () => {
+    const snapshots = [
+      {
+        timestamp: 2019,
+        nodes: [
+          { id: 'AL', label: 'Alabama', region: 'South', population: 4903185 },
+          { id: 'AK', label: 'Alaska & "Islands"', region: 'West', population: 731545 },
+        ],
+        edges: [
+          { source: 'AL', target: 'AK', value: 120, moe: 40.5, migration_type: 'work' },
+          { source: 'AL', target: 'AK', value: 30, moe: 12, migration_type: 'family' },
+        ],
+      },
+      {
+        timestamp: 2021,
+        nodes: [
+          { id: 'AL', label: 'Alabama', region: 'South', population: 5039877 },
+          { id: 'AK', label: 'Alaska & "Islands"', region: 'West', population: 732673 },
+          { id: 'PR', label: 'Puerto Rico', is_territory: true },
+        ],
+        edges: [
+          { source: 'AL', target: 'AK', value: 95, moe: 40.5, migration_type: 'work' },
+          { source: 'AK', target: 'AL', value: 7, migration_type: 'work' },
+        ],
+      },
+    ]
+    const xml = datasetToGexf(asDataset(snapshots))
+    expect(xml).toContain('timerepresentation="timestamp"')
+    expect(xml).toContain('<spell timestamp="2021"/>')
+
+    const graph = parseGexf(xml)
+    expect(graph.attributes.node).toMatchObject({ 1: { title: 'region', type: 'string' }, 2: { title: 'population', type: 'integer' } })
+    expect(graph.attributes.edge).toMatchObject({ 0: { title: 'moe', type: 'double' } })
+    expect(gexfToKriskogramSnapshots(graph)).toEqual(snapshots)
+  })
+
+  it('reads dates, open intervals and dynamic values', () => {
+    const graph = parseGexf(
+      gexf(
+        `<attributes class="node" mode="dynamic">
+          <attribute id="pop" title="population" type="long"><default>0</default></attribute>
+        </attributes>
+        <nodes>
+          <node id="a" label="A" start="2018-07-01">
+            <attvalues>
+              <attvalue for="pop" value="10" start="2018-01-01" end="2019-12-31"/>
+              <attvalue for="pop" value="20" start="2020-01-01"/>
+            </attvalues>
+          </node>
+          <node id="b" label="B" end="2020-06-30" endopen="true"/>
+        </nodes>
+        <edges>
+          <edge id="e" source="a" target="b" weight="3">
+            <attvalues><attvalue for="weight" value="9" start="2019-01-01" end="2019-12-31"/></attvalues>
+            <spells><spell start="2018-01-01" end="2019-12-31"/><spell timestamp="2021-03-01"/></spells>
+          </edge>
+        </edges>`,
+        'timeformat="date"',
+      ),
+    )
+    expect(graph).toMatchObject({ timeFormat: 'date', timeRepresentation: 'interval', timeRange: { start: 2018, end: 2021 } })
+
+    // Dates keep their place within the year, so b still exists for the first half of 2020
+    expect(graph.nodes[1].spells).toEqual([
+      { start: Number.NEGATIVE_INFINITY, end: expect.closeTo(2020.49, 2), endOpen: true },
+    ])
+
+    const snapshots = gexfToKriskogramSnapshots(graph)
+    expect(snapshots.map((snapshot) => snapshot.nodes.map((node) => [node.id, node.population]))).toEqual([
+      [['a', 10], ['b', 0]],
+      [['a', 10], ['b', 0]],
+      [['a', 20], ['b', 0]],
+      [['a', 20]],
+    ])
+    expect(snapshots.map((snapshot) => snapshot.edges.map((edge) => edge.value))).toEqual([[3], [9], [], [3]])
+  })
+
+  it('applies an open date bound only where it falls on a year boundary', () => {
+    const graph = parseGexf(
+      gexf(
+        `<nodes>
+          <node id="a" label="A" start="2019-01-01" end="2021-01-01" endopen="true"/>
+          <node id="b" label="B" start="2019-12-31" startopen="true" end="2020"/>
+        </nodes>`,
+        'timeformat="date"',
+      ),
+    )
+    expect(graph.timeRange).toEqual({ start: 2019, end: 2021 })
+    expect(gexfToKriskogramSnapshots(graph).map((snapshot) => snapshot.nodes.map((node) => node.id))).toEqual([
+      ['a', 'b'],
+      ['a', 'b'],
+      [],
+    ])
+  })
+
+  it('keeps hierarchy and viz data', () => {
+    const graph = parseGexf(
+      gexf(`<nodes>
+        <node id="south" label="South">
+          <viz:color r="255" g="0" b="0" a="0.5"/>
+          <nodes><node id="al" label="Alabama"><viz:position x="1.5" y="-2"/><viz:size value="4"/></node></nodes>
+        </node>
+        <node id="tx" label="Texas" pid="south"><viz:color hex="#00ff00"/></node>
+      </nodes>
+      <edges><edge source="al" target="tx"><viz:thickness value="2"/></edge></edges>`),
+    )
+    const [snapshot] = gexfToKriskogramSnapshots(graph)
+    expect(snapshot.nodes).toEqual([
+      { id: 'south', label: 'South', viz_color: 'rgba(255,0,0,0.5)' },
+      { id: 'al', label: 'Alabama', parent: 'south', viz_x: 1.5, viz_y: -2, viz_size: 4 },
+      { id: 'tx', label: 'Texas', parent: 'south', viz_color: '#00ff00' },
+    ])
+    expect(snapshot.edges).toEqual([{ source: 'al', target: 'tx', value: 1, viz_thickness: 2 }])
+
+    const dataset = asDataset([{ ...snapshot, timestamp: 2020 }])
+    const xml = datasetToGexf(dataset)
+    expect(xml).toContain('<parent for="south"/>')
+    expect(xml).toContain('<viz:position x="1.5" y="-2"/>')
+    expect(roundTrip(dataset)).toEqual(dataset.snapshots)
+  })
+})
@@ -0,0 +1,134 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest'
+
+import { GRAPH_EXPORT_FORMATS, graphFormatOf } from '../src/lib/graph-formats'
+import { datasetToGraphml, parseGraphml } from '../src/lib/graphml'
+import { datasetToD3Json, datasetToJsonGraph, parseJsonGraph } from '../src/lib/json-graph'
+import { asDataset } from './helpers'
+
+// Two years with a gap, flows split by type, and a node attribute that changes
+const multiYear = asDataset([
+  {
+    timestamp: 2019,
+    nodes: [
+      { id: 'AL', label: 'Alabama', region: 'South', population: 4903185 },
+      { id: 'AK', label: 'Alaska & <Islands>', region: 'West', population: 731545 },
+    ],
+    edges: [
+      { source: 'AL', target: 'AK', value: 120, moe: 40.5, migration_type: 'work' },
+      { source: 'AL', target: 'AK', value: 30, migration_type: 'family' },
+    ],
+  },
+  {
+    timestamp: 2021,
+    nodes: [
+      { id: 'AL', label: 'Alabama', region: 'South', population: 5039877 },
+      { id: 'AK', label: 'Alaska & <Islands>', region: 'West', population: 732673 },
+    ],
+    edges: [{ source: 'AK', target: 'AL', value: 7.5, migration_type: 'work', seasonal: true }],
+  },
+])
+
+const timestamps = (snapshots: Array<{ timestamp: number | null }>) => snapshots.map((snapshot) => snapshot.timestamp)
+
+describe('graph formats', () => {
+  it('picks a reader by extension', () => {
+    expect(['a.graphml', 'b.JSON', 'c.feather', 'd.parquet', 'e.gexf'].map(graphFormatOf)).toEqual([
+      'graphml',
+      'json',
+      'arrow',
+      'parquet',
+      null,
+    ])
+    expect(GRAPH_EXPORT_FORMATS.map((format) => format.value)).toEqual(['gexf', 'graphml', 'jgf', 'd3', 'arrow', 'parquet'])
+  })
+
+  it('reads GraphML keys, defaults, nesting and per-edge years', () => {
+    const graph = parseGraphml(`<?xml version="1.0" encoding="UTF-8"?>
+      <graphml xmlns="http://graphml.graphdrawing.org/xmlns">
+        <key id="d0" for="node" attr.name="label" attr.type="string"/>
+        <key id="d1" for="node" attr.name="population" attr.type="long"/>
+        <key id="d2" for="node" attr.name="region" attr.type="string"><default>Unknown</default></key>
+        <key id="d3" for="edge" attr.name="weight" attr.type="double"/>
+        <key id="d4" for="edge" attr.name="year" attr.type="int"/>
+        <key id="d5" for="edge" attr.name="distance_km" attr.type="float"/>
+        <graph id="G" edgedefault="directed">
+          <node id="south"><data key="d0">South</data>
+            <graph id="south:" edgedefault="directed">
+              <node id="AL"><data key="d0">Alabama</data><data key="d1">4903185</data><data key="d2">South</data></node>
+            </graph>
+          </node>
+          <node id="AK"/>
+          <edge source="AL" target="AK"><data key="d3">12.5</data><data key="d4">2019</data></edge>
+          <edge source="AK" target="AL"><data key="d4">2020</data></edge>
+        </graph>
+      </graphml>`)
+
+    expect(timestamps(graph.snapshots)).toEqual([2019, 2020])
+    expect(graph.snapshots[0].nodes).toEqual([
+      { id: 'south', label: 'South', region: 'Unknown' },
+      { id: 'AL', label: 'Alabama', population: 4903185, region: 'South', parent: 'south' },
+      { id: 'AK', label: 'AK', region: 'Unknown' },
+    ])
+    expect(graph.snapshots[0].edges).toEqual([{ source: 'AL', target: 'AK', value: 12.5 }])
+    expect(graph.snapshots[1].edges).toEqual([{ source: 'AK', target: 'AL', value: 1 }])
+    // distance_km is declared but never set
+    expect(graph.metadata).toEqual({
+      nodeProperties: ['population', 'region'],
+      edgeProperties: ['distance_km'],
+      hasNumericProperties: { nodes: ['population'], edges: ['distance_km'] },
+      hasCategoricalProperties: { nodes: ['region'], edges: [] },
+    })
+    expect(() => parseGraphml('<graphml/>')).toThrow('No graph element')
+  })
+
+  it('round-trips datasets through GraphML and JSON Graph Format', () => {
+    const graphml = datasetToGraphml(multiYear)
+    expect(graphml).toContain('<key id="year" for="graph" attr.name="year" attr.type="int"/>')
+    expect(graphml).toContain('Alaska &amp; &lt;Islands&gt;')
+    expect(parseGraphml(graphml).snapshots).toEqual(multiYear.snapshots)
+    expect(parseJsonGraph(datasetToJsonGraph(multiYear)).snapshots).toEqual(multiYear.snapshots)
+  })
+
+  it('reads JSON Graph v1 and d3 files', () => {
+    const jgf = parseJsonGraph(
+      JSON.stringify({
+        graph: {
+          nodes: [{ id: 'a', label: 'A', metadata: { size: 3 } }, { id: 'b' }],
+          edges: [{ source: 'a', target: 'b', relation: 'moves', metadata: { weight: 4 } }],
+        },
+      }),
+    )
+    expect(jgf.snapshots).toEqual([
+      {
+        timestamp: null,
+        nodes: [{ id: 'a', label: 'A', size: 3 }, { id: 'b', label: 'b' }],
+        edges: [{ source: 'a', target: 'b', value: 4, relation: 'moves' }],
+      },
+    ])
+
+    const d3 = parseJsonGraph(
+      JSON.stringify({
+        nodes: [{ id: 'a', group: 1 }, { name: 'b' }],
+        links: [
+          { source: 0, target: 1, value: 5 },
+          { source: { id: 'b', index: 1 }, target: 'a', count: 2, index: 1 },
+        ],
+      }),
+    )
+    expect(d3.snapshots[0].nodes).toEqual([{ id: 'a', label: 'a', group: 1 }, { id: 'b', label: 'b', name: 'b' }])
+    expect(d3.snapshots[0].edges).toEqual([
+      { source: 'a', target: 'b', value: 5 },
+      { source: 'b', target: 'a', value: 2 },
+    ])
+
+    // d3 exports list nodes once with their latest attributes and stamp links with a year
+    const exported = JSON.parse(datasetToD3Json(multiYear))
+    expect(exported.links.map((link: { year: number }) => link.year)).toEqual([2019, 2019, 2021])
+    expect(exported.nodes[0]).toMatchObject({ id: 'AL', population: 5039877 })
+    expect(timestamps(parseJsonGraph(JSON.stringify(exported)).snapshots)).toEqual([2019, 2021])
+
+    expect(() => parseJsonGraph('{')).toThrow('Invalid JSON')
+    expect(() => parseJsonGraph('{"rows": []}')).toThrow('d3')
+  })
+})
@@ -0,0 +1,18 @@
+import type { StoredDataset } from '../src/lib/storage'
+
+/** Wraps snapshots in the stored dataset the exporters take. */
+export function asDataset(snapshots: StoredDataset['snapshots'], name = 'Test'): StoredDataset {
+  return {
+    id: 'test',
+    name,
+    type: 'manual',
+    timeRange: { start: snapshots[0].timestamp, end: snapshots[snapshots.length - 1].timestamp },
+    snapshots,
+    createdAt: 0,
+  }
+}
+
+/** jsdom has no layout, so label measuring falls back to a fixed box. */
+export function stubSvgMeasurement() {
+  Object.assign(SVGElement.prototype, { getBBox: () => ({ x: 0, y: 0, width: 40, height: 12 }) })
+}
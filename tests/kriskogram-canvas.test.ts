@@ -0,0 +1,102 @@
+// @vitest-environment jsdom
+import { describe, expect, it, vi } from 'vitest'
+
+import { fisheyeX } from '../src/lib/edge-lens'
+import { createKriskogram } from '../src/lib/kriskogram'
+import {
+  CANVAS_EDGE_THRESHOLD,
+  arcDistance,
+  hitTestArcs,
+  resolveKriskogramRenderer,
+} from '../src/lib/kriskogram-canvas'
+import { stubSvgMeasurement } from './helpers'
+
+stubSvgMeasurement()
+// Without the canvas package jsdom logs an error on every getContext call
+HTMLCanvasElement.prototype.getContext = () => null
+
+const upper = { cx: 100, cy: 200, rx: 50, ry: 50, side: -1 as const }
+
+describe('canvas arc renderer', () => {
+  it('switches to canvas above the edge threshold unless a renderer is chosen', () => {
+    expect(resolveKriskogramRenderer('auto', CANVAS_EDGE_THRESHOLD)).toBe('svg')
+    expect(resolveKriskogramRenderer(undefined, CANVAS_EDGE_THRESHOLD + 1)).toBe('canvas')
+    expect(resolveKriskogramRenderer('svg', 10_000)).toBe('svg')
+    expect(resolveKriskogramRenderer('canvas', 3)).toBe('canvas')
+  })
+
+  it('measures distance to the arc on its own side of the baseline', () => {
+    expect(arcDistance(upper, 100, 150)).toBeCloseTo(0)
+    expect(arcDistance(upper, 100, 160)).toBeCloseTo(10)
+    // Below the baseline only the feet are close
+    expect(arcDistance(upper, 100, 210)).toBeCloseTo(Math.hypot(50, 10))
+  })
+
+  it('hits the nearest arc within half its width plus slack, skipping undatumed bands', () => {
+    const arcs = [
+      { shape: upper, color: '#000', width: 20, opacity: 1 },
+      { shape: upper, color: '#000', width: 2, opacity: 1, datum: 'thin' },
+      { shape: { ...upper, rx: 60, ry: 60, cx: 110 }, color: '#000', width: 2, opacity: 1, datum: 'wide' },
+    ]
+    expect(hitTestArcs(arcs, 100, 151)?.datum).toBe('thin')
+    expect(hitTestArcs(arcs, 110, 141)?.datum).toBe('wide')
+    expect(hitTestArcs(arcs, 100, 120)).toBeNull()
+  })
+
+  it('draws arcs into a canvas layer and hit-tests hover without a 2D context', () => {
+    const container = document.createElement('div')
+    document.body.appendChild(container)
+    const chart = createKriskogram({
+      container,
+      width: 400,
+      height: 200,
+      margin: { top: 20, right: 20, bottom: 20, left: 20 },
+      renderer: 'canvas',
+      nodes: [{ id: 'A' }, { id: 'B' }],
+      edges: [{ source: 'A', target: 'B', value: 4 }],
+    })
+    expect(chart.renderer).toBe('canvas')
+    expect(container.querySelectorAll('path.arc')).toHaveLength(0)
+    const canvas = container.querySelector('foreignObject.kris-arc-canvas canvas') as HTMLCanvasElement
+    expect(canvas).not.toBeNull()
+
+    // Two nodes on a 360px baseline with half-step padding sit at 110 and 290; the arc peaks at y = 10
+    canvas.dispatchEvent(new MouseEvent('mousemove', { clientX: 200, clientY: 10, bubbles: true }))
+    expect(document.querySelector('.kriskogram-tooltip')?.textContent).toContain('A → B')
+    canvas.dispatchEvent(new MouseEvent('mouseleave'))
+    expect(document.querySelector('.kriskogram-tooltip')).toBeNull()
+    container.remove()
+  })
+  it('slides a clicked canvas arc to the far foot as drawn under a fisheye lens', async () => {
+    const container = document.createElement('div')
+    document.body.appendChild(container)
+    const slides: string[] = []
+    // The lens pulls A left and pushes B right of their places at 110 and 290
+    const lens = { x: 250, y: 100, radius: 150, effect: 'fisheye' as const }
+    createKriskogram({
+      container,
+      width: 400,
+      height: 200,
+      margin: { top: 20, right: 20, bottom: 20, left: 20 },
+      renderer: 'canvas',
+      lens,
+      linkSliding: true,
+      onLinkSlide: (nodeId) => slides.push(nodeId),
+      nodes: [{ id: 'A' }, { id: 'B' }],
+      edges: [{ source: 'A', target: 'B', value: 4 }],
+    })
+    const canvas = container.querySelector('foreignObject.kris-arc-canvas canvas') as HTMLCanvasElement
+
+    // A point on the drawn arc right of its unlensed midpoint at 200, but still nearer A's foot
+    const [a, b] = [110, 290].map((x) => fisheyeX([lens], x, 100))
+    const x = 212
+    const radius = (b - a) / 2
+    const y = 100 - Math.sqrt(radius ** 2 - (x - (a + b) / 2) ** 2)
+    expect(Math.abs(x - 110)).toBeGreaterThan(Math.abs(x - 290))
+    expect(Math.abs(x - a)).toBeLessThan(Math.abs(x - b))
+
+    canvas.dispatchEvent(new MouseEvent('click', { clientX: x, clientY: y, bubbles: true }))
+    await vi.waitFor(() => expect(slides).toEqual(['B']), { timeout: 2000 })
+    container.remove()
+  })
+})
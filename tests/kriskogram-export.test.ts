@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest'
+
+import { buildExportFilename, formatExportCaption, setPngDpi } from '../src/lib/kriskogram-export'
+
+// 1×1 transparent PNG
+const TINY_PNG = Uint8Array.from(
+  atob('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII='),
+  (char) => char.charCodeAt(0),
+)
+
+describe('Kriskogram export helpers', () => {
+  it('inserts a pHYs chunk after IHDR with the requested DPI', () => {
+    const result = setPngDpi(TINY_PNG, 300)
+    const view = new DataView(result.buffer)
+    const ihdrEnd = 8 + 4 + 4 + 13 + 4
+
+    expect(result.length).toBe(TINY_PNG.length + 21)
+    expect(view.getUint32(ihdrEnd)).toBe(9)
+    expect(String.fromCharCode(...result.subarray(ihdrEnd + 4, ihdrEnd + 8))).toBe('pHYs')
+    expect(view.getUint32(ihdrEnd + 8)).toBe(Math.round(300 / 0.0254))
+    expect(result[ihdrEnd + 16]).toBe(1)
+    // CRC-32 of "pHYs" + payload
+    expect(view.getUint32(ihdrEnd + 17)).toBe(0x78a53f76)
+    expect(Array.from(result.subarray(ihdrEnd + 21))).toEqual(Array.from(TINY_PNG.subarray(ihdrEnd)))
+  })
+
+  it('builds filenames and captions from the dataset name and year', () => {
+    expect(buildExportFilename('State Migration (ACS)', 2019, 'png')).toBe('state-migration-acs-2019.png')
+    expect(buildExportFilename('!!!', undefined, 'svg')).toBe('kriskogram.svg')
+    expect(formatExportCaption('Sample', 2021)).toBe('Dataset: Sample · Year: 2021')
+    expect(formatExportCaption('Sample')).toBe('Dataset: Sample')
+  })
+})
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+
+import { buildNodeGroupTree, collapseNodeGroups, nodeGroupingLevels } from '../src/lib/node-grouping'
+
+const nodes = [
+  { id: 'WA', label: 'Washington', region: 'West', division: 'Pacific' },
+  { id: 'OR', label: 'Oregon', region: 'West', division: 'Pacific' },
+  { id: 'UT', label: 'Utah', region: 'West', division: 'Mountain' },
+  { id: 'TX', label: 'Texas', region: 'South', division: 'West South Central' },
+]
+
+const edges = [
+  { source: 'WA', target: 'TX', value: 100, moe: 30 },
+  { source: 'OR', target: 'TX', value: 50, moe: 40 },
+  { source: 'UT', target: 'TX', value: 20 },
+  { source: 'WA', target: 'OR', value: 70 },
+  { source: 'TX', target: 'UT', value: 10 },
+]
+
+const levels = nodeGroupingLevels('hierarchy', ['region', 'division'])
+
+describe('node grouping', () => {
+  it('builds the region → division tree', () => {
+    const tree = buildNodeGroupTree(nodes, levels)
+    expect(tree.map((entry) => entry.key)).toEqual(['region:South', 'region:West'])
+    const west = tree[1]
+    expect(west.members.sort()).toEqual(['OR', 'UT', 'WA'])
+    expect(west.children.map((entry) => entry.value)).toEqual(['Mountain', 'Pacific'])
+  })
+
+  it('sums flows into a collapsed group and keeps internal flow as self-flow', () => {
+    const { nodes: grouped, edges: summed, groups } = collapseNodeGroups(nodes, edges, {
+      levels,
+      collapsed: ['division:Pacific'],
+    })
+    expect(grouped.map((node) => node.id)).toEqual(['UT', 'TX', 'group:division:Pacific'])
+    expect(grouped[2]).toMatchObject({ label: 'Pacific', region: 'West', group_size: 2 })
+    expect(groups[0].members).toEqual(['WA', 'OR'])
+
+    const toTexas = summed.find((edge) => edge.source === 'group:division:Pacific' && edge.target === 'TX')
+    expect(toTexas).toMatchObject({ value: 150, member_flows: 2 })
+    expect(toTexas?.moe).toBeCloseTo(50)
+    expect(summed.find((edge) => edge.source === edge.target)).toMatchObject({ value: 70 })
+    expect(summed).toContain(edges[2])
+  })
+
+  it('lets the coarsest collapsed level win', () => {
+    const { nodes: grouped, edges: summed } = collapseNodeGroups(nodes, edges, {
+      levels,
+      collapsed: ['division:Pacific', 'region:West'],
+    })
+    expect(grouped.map((node) => node.id)).toEqual(['TX', 'group:region:West'])
+    expect(summed.find((edge) => edge.target === 'TX')?.value).toBe(170)
+  })
+
+  it('leaves the network unchanged when nothing is collapsed', () => {
+    const result = collapseNodeGroups(nodes, edges, { levels, collapsed: [] })
+    expect(result.nodes).toBe(nodes)
+    expect(result.edges).toBe(edges)
+  })
+})
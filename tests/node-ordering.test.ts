@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  annealedOrder,
+  barycentricOrder,
+  computeNodeOrderings,
+  countCrossings,
+  crossingStats,
+  hubCentredOrder,
+  runCrossingStats,
+  spectralOrder,
+} from '../src/lib/node-ordering'
+
+const edge = (source: string, target: string, value = 1) => ({ source, target, value })
+
+// Two triangles joined by a single weak link, laid out interleaved
+const clustered = [
+  edge('A', 'B', 10),
+  edge('B', 'C', 10),
+  edge('A', 'C', 10),
+  edge('D', 'E', 10),
+  edge('E', 'F', 10),
+  edge('D', 'F', 10),
+  edge('C', 'D', 1),
+]
+const interleaved = ['A', 'D', 'B', 'E', 'C', 'F']
+
+describe('node ordering', () => {
+  it('counts only interleaved arcs on the same side of the baseline', () => {
+    const order = ['A', 'B', 'C', 'D']
+    expect(countCrossings(order, [edge('A', 'C'), edge('B', 'D')])).toBe(1)
+    expect(countCrossings(order, [edge('A', 'C'), edge('D', 'B')])).toBe(0)
+    expect(countCrossings(order, [edge('A', 'B'), edge('B', 'C')])).toBe(0)
+    expect(countCrossings(order, [edge('A', 'D'), edge('B', 'C')])).toBe(0)
+    expect(crossingStats(order, [edge('A', 'C', 3), edge('B', 'D', 5)])).toEqual({ count: 1, weighted: 15 })
+  })
+
+  it('reduces crossings with barycentric sweeps and annealing', () => {
+    const start = crossingStats(interleaved, clustered).weighted
+    expect(start).toBeGreaterThan(0)
+    expect(crossingStats(barycentricOrder(interleaved, clustered), clustered).weighted).toBeLessThan(start)
+    expect(crossingStats(annealedOrder(interleaved, clustered), clustered).weighted).toBe(0)
+  })
+
+  it('keeps flow clusters together in the spectral order', () => {
+    const order = spectralOrder(interleaved, clustered)
+    const halves = [order.slice(0, 3), order.slice(3)].map((half) => [...half].sort().join(''))
+    expect(halves.sort()).toEqual(['ABC', 'DEF'])
+  })
+
+  it('centres the busiest node', () => {
+    const star = [edge('hub', 'a', 5), edge('b', 'hub', 4), edge('hub', 'c', 3), edge('d', 'hub', 2)]
+    const order = hubCentredOrder(['a', 'b', 'c', 'd', 'hub'], star)
+    expect(order[2]).toBe('hub')
+    expect(order[3]).toBe('a')
+    expect(order[1]).toBe('b')
+  })
+
+  it('reports the crossings of every mode', () => {
+    const results = computeNodeOrderings(interleaved, clustered)
+    expect(results.map((result) => result.mode)).toEqual([
+      'crossing-barycentric',
+      'crossing-annealing',
+      'cluster-spectral',
+      'hub-centred',
+    ])
+    for (const result of results) {
+      expect([...result.order].sort()).toEqual([...interleaved].sort())
+      expect(result).toMatchObject(crossingStats(result.order, clustered))
+    }
+  })
+
+  it('counts the crossings of a given order inline without workers', async () => {
+    await expect(runCrossingStats({ order: interleaved, edges: clustered }).promise).resolves.toEqual(
+      crossingStats(interleaved, clustered),
+    )
+  })
+})
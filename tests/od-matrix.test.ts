@@ -0,0 +1,143 @@
+import * as XLSX from 'xlsx'
+import { describe, expect, it } from 'vitest'
+
+import {
+  csvToRows,
+  detectMatrixLayout,
+  findMatrixSheet,
+  matrixNodeId,
+  parseCount,
+  parseMatrix,
+  readMatrixFile,
+} from '../src/lib/od-matrix'
+
+// A title, a total row and column, thousands separators and a note under the table
+const titled = csvToRows(
+  [
+    'Table 3. Moves between regions,,,,',
+    'Source: survey,,,,',
+    ',,,,',
+    'Residence a year ago,Total,North,South,West',
+    'North,"1,540","1,200",300,40',
+    'South,910,"12",800,98',
+    'West,N/A,0,-,"2,000"',
+    'Total,"4,450",,,',
+    'Note: N/A means not available,,,,',
+  ].join('\n'),
+)
+
+describe('origin–destination matrices', () => {
+  it('reads counts with separators and signs', () => {
+    expect(['1,234', '+/- 56', ' 7 ', '-', 'N/A', '', '1.5', 12].map(parseCount)).toEqual([
+      1234,
+      56,
+      7,
+      null,
+      null,
+      null,
+      1.5,
+      12,
+    ])
+    expect(matrixNodeId('New York')).toBe('NEW_YORK')
+    expect(matrixNodeId('Zürich')).toBe('ZURICH')
+  })
+
+  it('finds the matrix under titles and leaves out totals', () => {
+    const layout = detectMatrixLayout(titled)
+    expect(layout).toMatchObject({ headerRow: 3, labelColumn: 0, firstDataRow: 4, square: true, ignoredColumns: ['Total'] })
+    expect(layout?.destinations.map((destination) => destination.label)).toEqual(['North', 'South', 'West'])
+
+    const kept = parseMatrix(titled, layout!, 'attribute')
+    expect(kept.edges).toEqual([
+      { source: 'NORTH', target: 'SOUTH', value: 300 },
+      { source: 'NORTH', target: 'WEST', value: 40 },
+      { source: 'SOUTH', target: 'NORTH', value: 12 },
+      { source: 'SOUTH', target: 'WEST', value: 98 },
+    ])
+    expect(kept.nodes).toEqual([
+      { id: 'NORTH', label: 'North', self_flow: 1200 },
+      { id: 'SOUTH', label: 'South', self_flow: 800 },
+      { id: 'WEST', label: 'West', self_flow: 2000 },
+    ])
+    expect(kept).toMatchObject({ origins: 3, selfFlows: 3, skippedRows: ['Total', 'Note: N/A means not available'] })
+
+    const dropped = parseMatrix(titled, layout!, 'drop')
+    expect(dropped.edges).toEqual(kept.edges)
+    expect(dropped.nodes.every((node) => node.self_flow === undefined)).toBe(true)
+  })
+
+  it('pairs estimates with margins of error', () => {
+    // Census-style: labels span an Estimate/MOE row, with blank rows and a repeated header
+    const subheader = csvToRows(
+      [
+        'Current residence,Alabama,,Alaska,,Arizona,',
+        ',Estimate,MOE,Estimate,MOE,Estimate,MOE',
+        ',,,,,,',
+        'Alabama,N/A,N/A,767,+/- 643,"1,865","+/- 1,053"',
+        'Current residence,Alabama,,Alaska,,Arizona,',
+        ',Estimate,MOE,Estimate,MOE,Estimate,MOE',
+        'Alaska,279,+/- 329,N/A,N/A,0,+/- 165',
+        'Arizona,607,+/- 504,"2,519","+/- 1,281",N/A,N/A',
+      ].join('\n'),
+    )
+    const census = parseMatrix(subheader, detectMatrixLayout(subheader)!, 'drop')
+    expect(census.origins).toBe(3)
+    expect(census.edges).toContainEqual({ source: 'ALABAMA', target: 'ARIZONA', value: 1865, moe: 1053 })
+    expect(census.edges).toContainEqual({ source: 'ARIZONA', target: 'ALASKA', value: 2519, moe: 1281 })
+    expect(census.edges).toHaveLength(5)
+
+    // Suffixed: "<label> MOE" columns, with origins that are not destinations
+    const suffixed = csvToRows(
+      ['origin,Oslo Estimate,Oslo MOE,Bergen Estimate,Bergen MOE', 'Trondheim,"1,000",120,400,', 'Bergen,250,30,,'].join('\n'),
+    )
+    const layout = detectMatrixLayout(suffixed)
+    expect(layout).toMatchObject({
+      square: false,
+      destinations: [
+        { label: 'Oslo', column: 1, moeColumn: 2 },
+        { label: 'Bergen', column: 3, moeColumn: 4 },
+      ],
+    })
+    expect(parseMatrix(suffixed, layout!, 'attribute').edges).toEqual([
+      { source: 'TRONDHEIM', target: 'OSLO', value: 1000, moe: 120 },
+      { source: 'TRONDHEIM', target: 'BERGEN', value: 400 },
+      { source: 'BERGEN', target: 'OSLO', value: 250, moe: 30 },
+    ])
+  })
+
+  it('reads numbered zones and follows layout overrides', () => {
+    const zones = csvToRows(['zone,1,2,3', '1,0,5,3', '2,4,0,1', '3,2,2,0'].join('\n'))
+    const layout = detectMatrixLayout(zones)
+    expect(layout).toMatchObject({ headerRow: 0, labelColumn: 0, square: true })
+    expect(parseMatrix(zones, layout!, 'drop').edges).toHaveLength(6)
+
+    // Codes before the names: the names label the rows unless the column is overridden
+    const coded = csvToRows(['code,name,A,B', '01,A,0,9', '02,B,3,0'].join('\n'))
+    expect(detectMatrixLayout(coded)).toMatchObject({ labelColumn: 1, square: true })
+    expect(detectMatrixLayout(coded, { labelColumn: 0 })).toMatchObject({ labelColumn: 0, square: false })
+    expect(detectMatrixLayout(titled, { headerRow: 0 })).toBeNull()
+  })
+
+  it('reads every sheet of a workbook', async () => {
+    const workbook = XLSX.utils.book_new()
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['About this table']]), 'Notes')
+    XLSX.utils.book_append_sheet(
+      workbook,
+      XLSX.utils.aoa_to_sheet([
+        ['', 'Bern', 'Basel'],
+        ['Bern', 10, 1234],
+        ['Basel', 56, 7],
+      ]),
+      'Flows',
+    )
+    const buffer = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' })
+    const sheets = await readMatrixFile(new File([buffer], 'relocations_2016.xlsx'))
+    expect(sheets.map((sheet) => sheet.name)).toEqual(['Notes', 'Flows'])
+    expect(findMatrixSheet(sheets)).toBe(1)
+    const flows = parseMatrix(sheets[1].rows, detectMatrixLayout(sheets[1].rows)!, 'attribute')
+    expect(flows.edges).toEqual([
+      { source: 'BERN', target: 'BASEL', value: 1234 },
+      { source: 'BASEL', target: 'BERN', value: 56 },
+    ])
+  })
+})
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  PLAYBACK_BASE_INTERVAL_MS,
+  getPlaybackInterval,
+  getPlaybackTransitionDuration,
+  getPlaybackYears,
+  normalizePlaybackSpeed,
+  stepPlaybackYear,
+} from '../src/lib/playback'
+
+// The ACS tables have no 2020 release
+const years = [2018, 2019, 2021, 2022]
+
+describe('year playback', () => {
+  it('plays the distinct years in order', () => {
+    expect(getPlaybackYears([2021, 2019, 2021, Number.NaN, 2018])).toEqual([2018, 2019, 2021])
+    expect(getPlaybackYears(new Set<number>())).toEqual([])
+  })
+
+  it('steps over gaps in the years', () => {
+    expect(stepPlaybackYear(years, 2019, 1, false)).toBe(2021)
+    expect(stepPlaybackYear(years, 2021, -1, false)).toBe(2019)
+    // A year without a snapshot steps to the nearest one in that direction
+    expect(stepPlaybackYear(years, 2020, 1, false)).toBe(2021)
+    expect(stepPlaybackYear(years, 2020, -1, false)).toBe(2019)
+  })
+
+  it('stops at either end, or wraps around when looping', () => {
+    expect(stepPlaybackYear(years, 2022, 1, false)).toBeNull()
+    expect(stepPlaybackYear(years, 2018, -1, false)).toBeNull()
+    expect(stepPlaybackYear(years, 2022, 1, true)).toBe(2018)
+    expect(stepPlaybackYear(years, 2018, -1, true)).toBe(2022)
+  })
+
+  it('starts from the first or last year when none is shown', () => {
+    expect(stepPlaybackYear(years, undefined, 1, false)).toBe(2018)
+    expect(stepPlaybackYear(years, undefined, -1, false)).toBe(2022)
+    expect(stepPlaybackYear([], undefined, 1, true)).toBeNull()
+    expect(stepPlaybackYear([], 2019, 1, true)).toBeNull()
+  })
+
+  it('snaps speeds to the nearest offered one', () => {
+    expect(normalizePlaybackSpeed('2')).toBe(2)
+    expect(normalizePlaybackSpeed(0.6)).toBe(0.5)
+    expect(normalizePlaybackSpeed(100)).toBe(4)
+    expect(normalizePlaybackSpeed(-3)).toBe(0.5)
+    expect(normalizePlaybackSpeed('fast')).toBe(1)
+    expect(normalizePlaybackSpeed(undefined)).toBe(1)
+  })
+
+  it('shortens the interval and tween with the speed', () => {
+    expect(getPlaybackInterval(1)).toBe(PLAYBACK_BASE_INTERVAL_MS)
+    expect(getPlaybackInterval(2)).toBe(PLAYBACK_BASE_INTERVAL_MS / 2)
+    // Zero or negative speeds are clamped rather than dividing by zero
+    expect(Number.isFinite(getPlaybackInterval(0))).toBe(true)
+    expect(getPlaybackTransitionDuration(1)).toBe(Math.round(PLAYBACK_BASE_INTERVAL_MS * 0.75))
+  })
+})
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest'
+
+import { type ExplorerPipelineParams, createExplorerPipeline } from '../src/lib/explorer-pipeline'
+import {
+  MAX_SMALL_MULTIPLES,
+  defaultPanelYears,
+  smallMultiplePanels,
+  smallMultiplesGrid,
+} from '../src/lib/small-multiples'
+
+const nodes = [
+  { id: 'A', label: 'A' },
+  { id: 'B', label: 'B' },
+  { id: 'C', label: 'C' },
+]
+
+const snapshots = [
+  {
+    timestamp: 2005,
+    nodes,
+    edges: [{ source: 'A', target: 'B', value: 10, migration_type: 'domestic' }],
+  },
+  {
+    timestamp: 2015,
+    nodes,
+    edges: [
+      { source: 'A', target: 'B', value: 20, migration_type: 'domestic' },
+      { source: 'B', target: 'C', value: 5, migration_type: 'international' },
+    ],
+  },
+]
+
+const base: ExplorerPipelineParams = {
+  year: 2015,
+  multiYear: true,
+  viewType: 'multiples',
+  nodeFilterAttribute: null,
+  nodeFilterValues: [],
+  edgeTypeProperty: 'migration_type',
+  edgeTypeFilter: null,
+  intraFilter: 'none',
+  hideUnreliable: false,
+  cvThreshold: 0.4,
+  flowMode: 'raw',
+  minThreshold: 0,
+  maxThreshold: 1000,
+  maxEdges: 10,
+  showAllNodes: false,
+  egoNodeId: null,
+  egoNeighborSteps: 1,
+  temporalOverlayEnabled: true,
+  temporalOverlayEdgeStyle: 'filled',
+  temporalOverlayYearsPast: 1,
+  temporalOverlayYearsFuture: 0,
+  temporalOverlayColorPast: '#0000ff',
+  temporalOverlayColorMid: '#888888',
+  temporalOverlayColorFuture: '#ff0000',
+  temporalOverlayCurrentBlack: false,
+  edgeSegmentLength: 8,
+  edgeSegmentGap: 4,
+  edgeSegmentOffset: 0,
+  edgeSegmentSpeed: 1,
+  edgeSegmentScaleByWeight: false,
+  edgeSegmentCap: 'round',
+  edgeSegmentAnimate: false,
+  edgeOutlineGap: 2,
+}
+
+describe('small multiples', () => {
+  it('defaults to the first, middle and last year', () => {
+    const years = Array.from({ length: 19 }, (_, index) => 2005 + index)
+    expect(defaultPanelYears(years)).toEqual([2005, 2014, 2023])
+    expect(defaultPanelYears([2010, 2005])).toEqual([2005, 2010])
+  })
+
+  it('builds one request per year, keeping every node and dropping the overlay', () => {
+    const panels = smallMultiplePanels(base, 'year', {
+      years: [2015, 2005, 2015],
+      edgeTypeProperty: null,
+      edgeTypeValues: [],
+    })
+    expect(panels.map((panel) => panel.label)).toEqual(['2005', '2015'])
+    expect(panels[0].params).toMatchObject({
+      year: 2005,
+      viewType: 'kriskogram',
+      showAllNodes: true,
+      temporalOverlayEnabled: false,
+      minThreshold: 0,
+    })
+  })
+
+  it('splits the current year by edge type and caps the panel count', () => {
+    const panels = smallMultiplePanels(base, 'edgeType', {
+      years: [],
+      edgeTypeProperty: 'migration_type',
+      edgeTypeValues: ['domestic', 'international'],
+    })
+    expect(panels.map((panel) => panel.params.edgeTypeFilter)).toEqual(['domestic', 'international'])
+    expect(panels.every((panel) => panel.params.year === 2015)).toBe(true)
+    expect(smallMultiplePanels(base, 'edgeType', { years: [], edgeTypeProperty: null, edgeTypeValues: ['x'] })).toEqual([])
+
+    const years = Array.from({ length: 20 }, (_, index) => 2000 + index)
+    expect(smallMultiplePanels(base, 'year', { years, edgeTypeProperty: null, edgeTypeValues: [] })).toHaveLength(
+      MAX_SMALL_MULTIPLES,
+    )
+  })
+
+  it('computes every panel over the same node set', async () => {
+    const panels = smallMultiplePanels(base, 'year', { years: [2005, 2015], edgeTypeProperty: null, edgeTypeValues: [] })
+    const results = await createExplorerPipeline(snapshots).computeMany(panels.map((panel) => panel.params)).promise
+    expect(results.map((data) => data.year)).toEqual([2005, 2015])
+    expect(results.map((data) => data.nodes.map((node) => node.id))).toEqual([
+      ['A', 'B', 'C'],
+      ['A', 'B', 'C'],
+    ])
+    expect(results[0].edges).toHaveLength(1)
+  })
+
+  it('fits panels into columns no narrower than the minimum width', () => {
+    expect(smallMultiplesGrid(3, 1200, 600)).toEqual({ columns: 3, rows: 1, panelWidth: 400, panelHeight: 600 })
+    expect(smallMultiplesGrid(4, 800, 600)).toEqual({ columns: 2, rows: 2, panelWidth: 400, panelHeight: 300 })
+    expect(smallMultiplesGrid(2, 200, 600).columns).toBe(1)
+  })
+})
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  aggregateWindow,
+  deriveSnapshots,
+  describeDerivation,
+  growthSnapshots,
+  rollingSnapshots,
+} from '../src/lib/snapshot-aggregation'
+
+const nodes = [
+  { id: 'A', label: 'A' },
+  { id: 'B', label: 'B' },
+]
+
+// 2020 is missing, as in the ACS series
+const snapshots = [
+  { timestamp: 2018, nodes, edges: [{ source: 'A', target: 'B', value: 10, moe: 3 }] },
+  { timestamp: 2019, nodes, edges: [{ source: 'A', target: 'B', value: 20, moe: 4 }] },
+  {
+    timestamp: 2021,
+    nodes: [...nodes, { id: 'C', label: 'C' }],
+    edges: [
+      { source: 'A', target: 'B', value: 45 },
+      { source: 'B', target: 'C', value: 9 },
+    ],
+  },
+]
+
+describe('derived snapshots', () => {
+  it('aggregates a window over the years it has, listing the ones it skipped', () => {
+    const sum = aggregateWindow(snapshots, 2018, 2021, 'sum')
+    expect(sum).toMatchObject({ timestamp: 2021, years: [2018, 2019, 2021], missingYears: [2020] })
+    expect(sum?.nodes.map((node) => node.id)).toEqual(['A', 'B', 'C'])
+    const ab = sum?.edges.find((edge) => edge.target === 'B')
+    expect(ab).toMatchObject({ value: 75, window_start: 2018, window_end: 2021, window_years: 3, moe: 5 })
+
+    // Absent flows count as zero in years that have a snapshot
+    const mean = aggregateWindow(snapshots, 2018, 2021, 'mean')
+    expect(mean?.edges.map((edge) => edge.value)).toEqual([25, 3])
+    const median = aggregateWindow(snapshots, 2018, 2021, 'median')
+    expect(median?.edges.map((edge) => edge.value)).toEqual([20])
+    expect(median?.edges[0].moe).toBeUndefined()
+
+    expect(aggregateWindow(snapshots, 2020, 2020, 'sum')).toBeNull()
+  })
+
+  it('keeps flows apart by the given edge properties', () => {
+    const typed = [
+      {
+        timestamp: 2019,
+        nodes,
+        edges: [
+          { source: 'A', target: 'B', value: 4, migration_type: 'domestic' },
+          { source: 'A', target: 'B', value: 6, migration_type: 'international' },
+        ],
+      },
+    ]
+    expect(aggregateWindow(typed, 2019, 2019, 'sum', ['migration_type'])?.edges).toHaveLength(2)
+    expect(aggregateWindow(typed, 2019, 2019, 'sum')?.edges).toEqual([
+      expect.objectContaining({ value: 10 }),
+    ])
+  })
+
+  it('rolls a window along the years that have snapshots', () => {
+    const rolling = rollingSnapshots(snapshots, 2, 'sum')
+    expect(rolling.map((snapshot) => snapshot.timestamp)).toEqual([2018, 2019, 2021])
+    expect(rolling.map((snapshot) => snapshot.edges[0].value)).toEqual([10, 30, 45])
+    expect(rolling[2].missingYears).toEqual([2020])
+  })
+
+  it('measures year-over-year change across gaps', () => {
+    const growth = growthSnapshots(snapshots)
+    expect(growth.map((snapshot) => snapshot.timestamp)).toEqual([2019, 2021])
+    expect(growth[0].edges[0]).toMatchObject({ value: 10, delta: 10, growth_rate: 100, growth_base_year: 2018 })
+    const [ab, bc] = growth[1].edges
+    expect(growth[1].missingYears).toEqual([2020])
+    expect(ab).toMatchObject({ value: 25, previous: 20, current: 45, growth_rate: 125 })
+    expect(ab.annual_growth_rate).toBeCloseTo(50)
+    expect(bc).toMatchObject({ change: 'appeared', growth_rate: null, annual_growth_rate: null })
+  })
+
+  it('derives by mode and describes the derivation', () => {
+    const options = { mode: 'window' as const, stat: 'mean' as const, start: 2018, end: 2019, window: 3 }
+    expect(deriveSnapshots(snapshots, options)).toHaveLength(1)
+    expect(deriveSnapshots(snapshots, { ...options, mode: 'none' })).toBeNull()
+    expect(describeDerivation(options)).toBe('Mean 2018–2019')
+    expect(describeDerivation({ ...options, mode: 'rolling' })).toBe('3-year rolling mean')
+  })
+})
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest'
+
+import { diffSnapshots, filterFlowChanges, formatPercentChange } from '../src/lib/snapshot-diff'
+
+const nodes = [{ id: 'A' }, { id: 'B' }, { id: 'C' }]
+
+describe('snapshot differences', () => {
+  it('classifies each flow by how it changed, largest change first', () => {
+    const diff = diffSnapshots(
+      {
+        nodes,
+        edges: [
+          { source: 'A', target: 'B', value: 100 },
+          { source: 'B', target: 'C', value: 40 },
+          { source: 'C', target: 'A', value: 10 },
+          { source: 'A', target: 'C', value: 5 },
+        ],
+      },
+      {
+        nodes,
+        edges: [
+          { source: 'A', target: 'B', value: 150 },
+          { source: 'B', target: 'C', value: 30 },
+          { source: 'B', target: 'A', value: 20 },
+          { source: 'A', target: 'C', value: 5 },
+        ],
+      },
+    )
+    expect(diff.edges.map((edge) => [`${edge.source}-${edge.target}`, edge.change, edge.value])).toEqual([
+      ['A-B', 'increase', 50],
+      ['B-A', 'appeared', 20],
+      ['B-C', 'decrease', 10],
+      ['C-A', 'vanished', 10],
+      ['A-C', 'unchanged', 0],
+    ])
+    expect(diff.edges[0]).toMatchObject({ before: 100, after: 150, delta: 50, percentChange: 50 })
+    expect(diff.edges[1].percentChange).toBeNull()
+    expect(diff.edges[3]).toMatchObject({ delta: -10, percentChange: -100 })
+  })
+
+  it('sums edges that share endpoints and keeps nodes only the baseline has', () => {
+    const diff = diffSnapshots(
+      {
+        nodes: [...nodes, { id: 'D' }],
+        edges: [{ source: 'D', target: 'A', value: 3 }],
+      },
+      {
+        nodes,
+        edges: [
+          { source: 'A', target: 'B', value: 4, migration_type: 'domestic' },
+          { source: 'A', target: 'B', value: 6, migration_type: 'international' },
+        ],
+      },
+    )
+    expect(diff.edges.find((edge) => edge.source === 'A')).toMatchObject({ after: 10, change: 'appeared' })
+    expect(diff.nodes.map((node) => node.id)).toEqual(['A', 'B', 'C', 'D'])
+  })
+
+  it('filters changes by size and drops unchanged flows', () => {
+    const { edges } = diffSnapshots(
+      { nodes, edges: [{ source: 'A', target: 'B', value: 10 }, { source: 'B', target: 'C', value: 8 }] },
+      { nodes, edges: [{ source: 'A', target: 'B', value: 30 }, { source: 'B', target: 'C', value: 8 }, { source: 'C', target: 'A', value: 2 }] },
+    )
+    expect(filterFlowChanges(edges, { minThreshold: 0, maxThreshold: 100, maxEdges: 10 })).toHaveLength(2)
+    expect(filterFlowChanges(edges, { minThreshold: 5, maxThreshold: 100, maxEdges: 10 })).toHaveLength(1)
+    expect(filterFlowChanges(edges, { minThreshold: 0, maxThreshold: 100, maxEdges: 1 })[0].value).toBe(20)
+  })
+
+  it('formats percent changes for tooltips', () => {
+    expect(formatPercentChange(null)).toBe('new')
+    expect(formatPercentChange(12.345)).toBe('+12%')
+    expect(formatPercentChange(-4.26)).toBe('-4.3%')
+    expect(formatPercentChange(0)).toBe('0%')
+  })
+})
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  MOE_Z_SCORE,
+  coefficientOfVariation,
+  getFlowInterval,
+  getFlowMoe,
+  isUnreliableFlow,
+} from '../src/lib/uncertainty'
+
+describe('flow uncertainty helpers', () => {
+  it('derives the coefficient of variation from a 90% MOE', () => {
+    expect(coefficientOfVariation(1000, MOE_Z_SCORE * 100)).toBeCloseTo(0.1)
+    expect(coefficientOfVariation(1000, null)).toBeNull()
+    expect(coefficientOfVariation(0, 0)).toBe(0)
+    expect(coefficientOfVariation(0, 50)).toBe(Number.POSITIVE_INFINITY)
+  })
+
+  it('reads MOE values defensively', () => {
+    expect(getFlowMoe({ moe: 120 })).toBe(120)
+    expect(getFlowMoe({ moe: '45.5' })).toBe(45.5)
+    expect(getFlowMoe({ moe: -1 })).toBeNull()
+    expect(getFlowMoe({})).toBeNull()
+  })
+
+  it('flags only flows whose CV exceeds the threshold', () => {
+    expect(isUnreliableFlow({ value: 100, moe: 90 }, 0.4)).toBe(true)
+    expect(isUnreliableFlow({ value: 10_000, moe: 900 }, 0.4)).toBe(false)
+    expect(isUnreliableFlow({ value: 5 })).toBe(false)
+  })
+
+  it('clamps the lower bound of the interval at zero', () => {
+    expect(getFlowInterval(100, 30)).toEqual({ lower: 70, upper: 130 })
+    expect(getFlowInterval(20, 50)).toEqual({ lower: 0, upper: 70 })
+  })
+})
@@ -0,0 +1,19 @@
+import { defineConfig } from 'vite'
+import { resolve } from 'node:path'
+
+// Library build of the d3 plugin: writes dist-lib/d3-kriskogram.js, leaving d3 to the host page
+export default defineConfig({
+  publicDir: false,
+  build: {
+    outDir: 'dist-lib',
+    emptyOutDir: true,
+    lib: {
+      entry: resolve(__dirname, 'src/d3-kriskogram/index.ts'),
+      formats: ['es'],
+      fileName: 'd3-kriskogram',
+    },
+    rollupOptions: {
+      external: [/^d3(-|$)/],
+    },
+  },
+})